@@ -1,5 +1,6 @@
 import React, { useState, useEffect, createContext, useContext } from 'react';
 import CalculatorPage from './components/calculator/CalculatorPage';
+import JobsPage from './components/jobs/JobsPage';
 import WeatherPage from './components/weather/WeatherPage';
 import RecordsPage from './components/records/RecordsPage';
 import FieldsPage from './components/fields/FieldsPage';
@@ -22,10 +23,11 @@ const CropYearContext = createContext<CropYearContextType>({
 
 export const useCropYear = () => useContext(CropYearContext);
 
-type View = 'calculator' | 'weather' | 'records' | 'fields' | 'map' | 'settings';
+type View = 'calculator' | 'jobs' | 'weather' | 'records' | 'fields' | 'map' | 'settings';
 
 const NAV_ITEMS: { key: View; label: string }[] = [
   { key: 'calculator', label: 'Calculator' },
+  { key: 'jobs', label: 'Jobs' },
   { key: 'weather', label: 'Weather' },
   { key: 'records', label: 'Records' },
   { key: 'fields', label: 'Fields' },
@@ -80,6 +82,8 @@ function App() {
     switch (view) {
       case 'calculator':
         return <CalculatorPage />;
+      case 'jobs':
+        return <JobsPage />;
       case 'weather':
         return <WeatherPage />;
       case 'records':
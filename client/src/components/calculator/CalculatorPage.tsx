@@ -1,7 +1,9 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { useCalculator } from '../../hooks/useCalculator';
 import { useLoadSplitter } from '../../hooks/useLoadSplitter';
 import { useWeather } from '../../hooks/useWeather';
+import { useForecast } from '../../hooks/useForecast';
+import { useWeatherLog } from '../../hooks/useWeatherLog';
 import TankSetupCard from './TankSetupCard';
 import CarrierAcresCard from './CarrierAcresCard';
 import ProductSelector from './ProductSelector';
@@ -10,9 +12,33 @@ import LoadSplitter from './LoadSplitter';
 import LoadScheduleTable from './LoadScheduleTable';
 import MixingInstructions from './MixingInstructions';
 import ContainerBreakdownSection from './ContainerBreakdown';
+import LabelComplianceAlert from './LabelComplianceAlert';
+import LeftoverStep from './LeftoverStep';
+import CalibrationModal from './CalibrationModal';
+import NozzleSelectionCard from './NozzleSelectionCard';
+import RainfastAlert from './RainfastAlert';
+import DriftBufferAlert from './DriftBufferAlert';
+import WeatherLogControl from './WeatherLogControl';
 import RecordModal from '../records/RecordModal';
-import { Field, SprayRecord, SprayRecordProduct, SprayedField } from '../../types';
-import { saveRecord, getFields } from '../../utils/storageService';
+import ShoppingListModal from './ShoppingListModal';
+import JobModal from '../jobs/JobModal';
+import { BufferSettings, Field, InventoryTransaction, MoaSettings, PlannedJob, Product, SprayerProfile, SensitiveSite, SprayRecord, SprayRecordProduct, SprayedField } from '../../types';
+import { saveRecord, getFields, getRecords, getProducts, getMoaSettings, getContainers, getInventoryTransactions, getPlannedJobs, getSprayers, saveSprayer, getSensitiveSites, getBufferSettings } from '../../utils/storageService';
+import { computeAllFieldStatuses, fieldStatusKey, formatIntervalEnd } from '../../utils/sprayHistory';
+import { checkLabelCompliance } from '../../utils/labelCompliance';
+import { checkMoaRotation, DEFAULT_MOA_SETTINGS, getProductMoaGroups } from '../../utils/modeOfAction';
+import { checkInventoryShortfalls, computeOnHand } from '../../utils/inventory';
+import { buildLoadTickets, printLoadTickets, LoadTicketHeader } from '../../utils/loadTickets';
+import { ContainerCalculator } from '../../utils/containerCalculations';
+import { calculateMixCost, getPriceOnDate } from '../../utils/costs';
+import { getJobStatus } from '../../utils/jobs';
+import { buildPlannedApplication } from '../../utils/variance';
+import { buildTankLeftover, suggestLeftoverFields } from '../../utils/leftover';
+import { toRecordSprayer } from '../../utils/sprayers';
+import { checkRainfastness } from '../../utils/rainfast';
+import { calculateFieldCapacity } from '../../utils/loadCalculations';
+import { DEFAULT_BUFFER_SETTINGS, findDownwindSites } from '../../utils/driftBuffer';
+import { snapshotFromLog, toClockTime } from '../../utils/weatherLog';
 import { useCropYear } from '../../App';
 
 // Field selection with partial acre support
@@ -24,18 +50,103 @@ interface FieldSelection {
 
 const CalculatorPage: React.FC = () => {
   const calc = useCalculator();
-  const { weather } = useWeather();
+  const { weather, driftAssessment } = useWeather();
   const { cropYear } = useCropYear();
   const [showRecordModal, setShowRecordModal] = useState(false);
   const [recordSaved, setRecordSaved] = useState(false);
   const [fieldSelections, setFieldSelections] = useState<FieldSelection[]>([]);
   const [fields, setFields] = useState<Field[]>([]);
+  const [sprayers, setSprayers] = useState<SprayerProfile[]>([]);
+  const [records, setRecords] = useState<SprayRecord[]>([]);
+  const [products, setProducts] = useState<Product[]>([]);
   const [fieldSearch, setFieldSearch] = useState('');
+  const [moaSettings, setMoaSettings] = useState<MoaSettings>(DEFAULT_MOA_SETTINGS);
+  const [inventory, setInventory] = useState<InventoryTransaction[]>([]);
+  const [plannedJobCount, setPlannedJobCount] = useState(0);
+  const [showShoppingList, setShowShoppingList] = useState(false);
+  const [jobAdded, setJobAdded] = useState(false);
+  const [draftJob, setDraftJob] = useState<PlannedJob | null>(null);
+  const [showCalibration, setShowCalibration] = useState(false);
+  const [sensitiveSites, setSensitiveSites] = useState<SensitiveSite[]>([]);
+  const [bufferSettings, setBufferSettings] = useState<BufferSettings>(DEFAULT_BUFFER_SETTINGS);
+  const weatherLog = useWeatherLog(fields);
 
   useEffect(() => {
     getFields().then(setFields);
+    getSprayers().then(setSprayers);
+    getRecords().then(setRecords);
+    getProducts().then(setProducts);
+    getMoaSettings().then(setMoaSettings);
+    getInventoryTransactions().then(setInventory);
+    getSensitiveSites().then(setSensitiveSites);
+    getBufferSettings().then(setBufferSettings);
+    refreshPlannedJobCount();
   }, []);
 
+  const fieldStatuses = useMemo(
+    () => computeAllFieldStatuses(fields, records, products),
+    [fields, records, products]
+  );
+
+  // Selected fields still inside a restricted-entry interval
+  const reiWarnings = fieldSelections
+    .map((sel) => {
+      const status = fieldStatuses.get(fieldStatusKey(sel.fieldId, sel.subFieldId));
+      if (!status?.underREI || !status.reentryAt) return null;
+      const field = fields.find((f) => f.id === sel.fieldId);
+      const subField = sel.subFieldId
+        ? field?.subFields?.find((sf) => sf.id === sel.subFieldId)
+        : undefined;
+      const name = subField ? `${field?.name} - ${subField.name}` : field?.name || '';
+      return { name, reentryAt: status.reentryAt, products: status.reiProducts };
+    })
+    .filter((w): w is { name: string; reentryAt: Date; products: string[] } => w !== null);
+
+  // Label rate / seasonal / application-count limits for the current mix
+  const complianceIssues = useMemo(
+    () => checkLabelCompliance({
+      products,
+      records,
+      fields,
+      cropYear,
+      targets: fieldSelections.map((sel) => ({ fieldId: sel.fieldId, subFieldId: sel.subFieldId })),
+      application: calc.selectedProducts.map((p) => ({
+        productId: p.product.id,
+        productName: p.product.name,
+        rate: p.rate,
+        rateBasis: p.rateBasis,
+      })),
+      carrierRate: calc.carrierRate,
+    }),
+    [products, records, fields, cropYear, fieldSelections, calc.selectedProducts, calc.carrierRate]
+  );
+  const hasComplianceErrors = complianceIssues.some((i) => i.severity === 'error');
+
+  // Same mode-of-action group used too often on a selected field
+  const moaWarnings = useMemo(
+    () => checkMoaRotation({
+      products,
+      records,
+      fields,
+      cropYear,
+      targets: fieldSelections.map((sel) => ({ fieldId: sel.fieldId, subFieldId: sel.subFieldId })),
+      application: calc.selectedProducts.map((p) => ({ productId: p.product.id, productName: p.product.name })),
+      settings: moaSettings,
+    }),
+    [products, records, fields, cropYear, fieldSelections, calc.selectedProducts, moaSettings]
+  );
+
+  // Planned totals that exceed tracked inventory
+  const inventoryShortfalls = useMemo(
+    () => checkInventoryShortfalls(calc.selectedProducts, computeOnHand(inventory)),
+    [calc.selectedProducts, inventory]
+  );
+
+  const mixCost = useMemo(
+    () => calculateMixCost(calc.selectedProducts, calc.acres, calc.totalVolume, calc.tankSize),
+    [calc.selectedProducts, calc.acres, calc.totalVolume, calc.tankSize]
+  );
+
   // Get selectable items - either sub-fields (for current crop year) or parent fields
   const getSelectableItems = () => {
     const items: Array<{
@@ -140,14 +251,156 @@ const CalculatorPage: React.FC = () => {
   );
 
   const showLoadPlanner = calc.numberOfLoads > 1;
+  const sprayer = sprayers.find((s) => s.id === calc.sprayerId);
+
+  // Rainfast check uses the forecast for the first selected field with a location
+  const forecastField = fieldSelections
+    .map((sel) => fields.find((f) => f.id === sel.fieldId))
+    .find((f) => f?.latitude != null && f?.longitude != null);
+  const forecast = useForecast(
+    forecastField ? { latitude: forecastField.latitude!, longitude: forecastField.longitude! } : undefined
+  );
+  // Sensitive sites downwind of the selected fields
+  const downwindSites = useMemo(() => {
+    const ids = new Set(fieldSelections.map((sel) => sel.fieldId));
+    return findDownwindSites(
+      fields.filter((f) => ids.has(f.id)),
+      sensitiveSites,
+      weather?.windDirection,
+      bufferSettings.distanceFeet
+    );
+  }, [fieldSelections, fields, sensitiveSites, weather?.windDirection, bufferSettings.distanceFeet]);
+
+  const acresPerHour = calculateFieldCapacity(sprayer?.calibrationSpeed || 0, sprayer?.boomWidth || 0);
+  const applicationMinutes = acresPerHour > 0 ? (calc.acres / acresPerHour) * 60 : 0;
+  const rainfastWarnings = useMemo(
+    () => checkRainfastness(
+      calc.selectedProducts.map((p) => p.product),
+      forecast?.hours || [],
+      applicationMinutes
+    ),
+    [calc.selectedProducts, forecast, applicationMinutes]
+  );
+
+  // Labeled fields that can take the leftover at this carrier rate
+  const leftoverSuggestions = useMemo(
+    () => suggestLeftoverFields({
+      gallons: splitter.leftover.gallons,
+      carrierRate: calc.carrierRate,
+      fields,
+      records,
+      products,
+      cropYear,
+      selectedProducts: calc.selectedProducts,
+      targets: fieldSelections.map((sel) => ({ fieldId: sel.fieldId, subFieldId: sel.subFieldId })),
+    }),
+    [splitter.leftover.gallons, calc.carrierRate, fields, records, products, cropYear, calc.selectedProducts, fieldSelections]
+  );
+
+  const buildLeftover = () => {
+    const { gallons, rinseGallons, disposition, fieldId, notes } = splitter.leftover;
+    if (gallons <= 0 && rinseGallons <= 0) return undefined;
+    // Looked up in all fields: the choice stays recorded even if it has since
+    // dropped out of the suggestions (the step warns about that)
+    const targetId = disposition === 'apply_to_field' && gallons > 0 && fieldId ? fieldId : undefined;
+    const target = targetId ? fields.find((f) => f.id === targetId) : undefined;
+    return buildTankLeftover(gallons, splitter.leftoverProducts, {
+      rinseGallons: rinseGallons > 0 ? rinseGallons : undefined,
+      disposition,
+      fieldId: targetId,
+      fieldName: target?.name,
+      acres: targetId && calc.carrierRate > 0 ? Math.round((gallons / calc.carrierRate) * 10) / 10 : undefined,
+      notes: notes || undefined,
+    });
+  };
+
+  const getSelectedFieldNames = () =>
+    fieldSelections.map((sel) => {
+      const field = fields.find((f) => f.id === sel.fieldId);
+      const subField = sel.subFieldId
+        ? field?.subFields?.find((sf) => sf.id === sel.subFieldId)
+        : undefined;
+      return subField ? `${field?.name} - ${subField.name}` : field?.name || '';
+    });
+
+  const ticketHeader: LoadTicketHeader = {
+    fieldNames: getSelectedFieldNames(),
+    date: new Date().toISOString().split('T')[0],
+    cropYear,
+    tankSize: calc.tankSize,
+    carrierRate: calc.carrierRate,
+    acres: calc.acres,
+    totalVolume: calc.totalVolume,
+  };
+
+  const handlePrintSingleTicket = () => {
+    const calculator = new ContainerCalculator(getContainers());
+    const tickets = buildLoadTickets(splitter.loads, ticketHeader, calculator);
+    if (!printLoadTickets(tickets, ticketHeader)) {
+      alert('Allow pop-ups for this site to print load tickets.');
+    }
+  };
+
+  const refreshPlannedJobCount = async () => {
+    const jobs = await getPlannedJobs();
+    setPlannedJobCount(jobs.filter((j) => getJobStatus(j) === 'planned').length);
+  };
+
+  const handlePlanJob = () => {
+    const date = new Date().toISOString().split('T')[0];
+    const names = getSelectedFieldNames().filter(Boolean);
+    const job: PlannedJob = {
+      id: `job-${Date.now()}`,
+      name: names.join(', ') || `Job ${date}`,
+      fields: fieldSelections.map((sel) => ({
+        fieldId: sel.fieldId,
+        subFieldId: sel.subFieldId,
+        acres: sel.sprayedAcres,
+      })),
+      acres: calc.acres,
+      carrierRate: calc.carrierRate,
+      tankSize: calc.tankSize,
+      products: calc.selectedProducts.map((p) => ({
+        productId: p.product.id,
+        productName: p.product.name,
+        rate: p.rate,
+        unit: p.product.unit,
+        rateBasis: p.rateBasis,
+      })),
+      createdAt: new Date().toISOString(),
+      priority: 'normal',
+      status: 'planned',
+    };
+    setDraftJob(job);
+  };
+
+  const handleJobSaved = () => {
+    setDraftJob(null);
+    refreshPlannedJobCount();
+    setJobAdded(true);
+    setTimeout(() => setJobAdded(false), 3000);
+  };
+
+  const handleCloseShoppingList = () => {
+    setShowShoppingList(false);
+    refreshPlannedJobCount();
+  };
 
   const buildRecordPrefill = (): Partial<SprayRecord> => {
-    const products: SprayRecordProduct[] = calc.selectedProducts.map((p) => ({
+    const today = new Date().toISOString().split('T')[0];
+    const recordProducts: SprayRecordProduct[] = calc.selectedProducts.map((p) => ({
+      productId: p.product.id,
       productName: p.product.name,
       rate: p.rate,
       unit: p.product.unit,
       rateBasis: p.rateBasis,
       totalAmount: p.totalAmount,
+      reiHours: p.product.reiHours,
+      phiDays: p.product.phiDays,
+      moaGroups: getProductMoaGroups(p.product),
+      epaRegNumber: p.product.epaRegNumber,
+      restrictedUse: p.product.restrictedUse,
+      unitPrice: getPriceOnDate(p.product, today),
     }));
 
     // Build sprayedFields with partial acre data
@@ -172,6 +425,27 @@ const CalculatorPage: React.FC = () => {
     );
     const selectedFieldIds = Array.from(new Set(fieldSelections.map((s) => s.fieldId)));
 
+    // A weather log kept during the job replaces the single snapshot
+    const observations = weatherLog.log?.observations || [];
+    const logFields: Partial<SprayRecord> = observations.length > 0
+      ? {
+          weather: snapshotFromLog(observations),
+          weatherLog: observations,
+          startTime: toClockTime(weatherLog.log!.startedAt),
+          endTime: toClockTime(weatherLog.log!.endedAt || observations[observations.length - 1].timestamp),
+        }
+      : {
+          weather: weather
+            ? {
+                temperature: weather.temperature,
+                humidity: weather.humidity,
+                windSpeed: weather.windSpeed,
+                windDirection: weather.windDirection,
+                source: weather.source,
+              }
+            : undefined,
+        };
+
     return {
       tankSize: calc.tankSize,
       carrierRate: calc.carrierRate,
@@ -179,23 +453,31 @@ const CalculatorPage: React.FC = () => {
       totalVolume: calc.totalVolume,
       fieldIds: selectedFieldIds.length > 0 ? selectedFieldIds : undefined,
       fieldName: selectedNames.join(', ') || undefined,
-      products,
+      products: recordProducts,
       sprayedFields: sprayedFields.length > 0 ? sprayedFields : undefined,
+      planned: buildPlannedApplication(calc.acres, calc.carrierRate, calc.totalVolume, recordProducts),
+      leftover: buildLeftover(),
+      sprayer: sprayer ? toRecordSprayer(sprayer) : undefined,
       cropYear,
-      weather: weather
-        ? {
-            temperature: weather.temperature,
-            humidity: weather.humidity,
-            windSpeed: weather.windSpeed,
-            windDirection: weather.windDirection,
-            source: weather.source,
-          }
-        : undefined,
+      ...logFields,
     };
   };
 
+  // Calibration updates the sprayer and carries its rate into the calculator
+  const handleCalibrationSaved = async (updated: SprayerProfile) => {
+    await saveSprayer(updated);
+    // Not re-fetched: the upsert may still be in flight and return the old row
+    setSprayers((prev) => prev.map((s) => (s.id === updated.id ? updated : s)));
+    calc.selectSprayer(updated);
+    setShowCalibration(false);
+  };
+
   const handleSaveRecord = async (record: SprayRecord) => {
     await saveRecord(record);
+    if (record.weatherLog) weatherLog.clear();
+    getRecords().then(setRecords);
+    getInventoryTransactions().then(setInventory);
+    splitter.resetLeftover();
     setShowRecordModal(false);
     setRecordSaved(true);
     setTimeout(() => setRecordSaved(false), 3000);
@@ -228,6 +510,7 @@ const CalculatorPage: React.FC = () => {
             }).map((item) => {
               const selected = isSelected(item.fieldId, item.subFieldId);
               const selection = getSelection(item.fieldId, item.subFieldId);
+              const status = fieldStatuses.get(fieldStatusKey(item.fieldId, item.subFieldId));
               return (
                 <div
                   key={item.id}
@@ -244,6 +527,14 @@ const CalculatorPage: React.FC = () => {
                   <span className="text-sm flex-1 cursor-pointer" onClick={() => toggleField(item.id, item.fieldId, item.acres, item.subFieldId)}>
                     {item.fieldNumber && !item.isSubField ? `${item.fieldNumber} - ` : ''}{item.displayName}{item.farmName && !item.isSubField ? ` — ${item.farmName}` : ''}
                   </span>
+                  {status?.underREI && status.reentryAt && (
+                    <span
+                      className="px-1.5 py-0.5 bg-red-100 text-red-700 rounded text-xs font-medium"
+                      title={`Re-entry after ${status.reentryAt.toLocaleString()}`}
+                    >
+                      REI
+                    </span>
+                  )}
                   {selected ? (
                     <div className="flex items-center gap-1 text-xs">
                       <input
@@ -270,30 +561,101 @@ const CalculatorPage: React.FC = () => {
               {fieldSelections.length} field{fieldSelections.length !== 1 ? 's' : ''} selected &middot; {calc.acres} ac total
             </div>
           )}
+          {reiWarnings.length > 0 && (
+            <div className="mt-3 border border-red-300 bg-red-50 rounded-lg p-3">
+              <h3 className="font-semibold text-red-800 text-sm mb-1">Restricted-Entry Interval in Effect</h3>
+              <ul className="space-y-0.5 text-sm text-red-700">
+                {reiWarnings.map((w, i) => (
+                  <li key={i}>
+                    {w.name}: no entry until {formatIntervalEnd(w.reentryAt, true)}
+                    {w.products.length > 0 && (
+                      <span className="text-red-500"> ({w.products.join(', ')})</span>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
         </div>
       )}
 
       {/* Section A: Inputs */}
       <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
-        <TankSetupCard tankSize={calc.tankSize} onTankSizeChange={calc.setTankSize} />
+        <TankSetupCard
+          tankSize={calc.tankSize}
+          onTankSizeChange={calc.setTankSize}
+          sprayers={sprayers}
+          sprayerId={calc.sprayerId}
+          onSprayerChange={calc.selectSprayer}
+        />
         <CarrierAcresCard
           carrierRate={calc.carrierRate}
           acres={calc.acres}
+          calibratedGpa={sprayer?.calibratedGpa}
+          onCalibrate={() => setShowCalibration(true)}
           onCarrierRateChange={calc.setCarrierRate}
           onAcresChange={(v) => { setFieldSelections([]); calc.setAcres(v); }}
         />
       </div>
 
+      {/* Nozzle and droplet size for the rate and current drift risk */}
+      <NozzleSelectionCard
+        key={sprayer?.id || 'none'}
+        targetGpa={calc.carrierRate}
+        sprayer={sprayer}
+        driftAssessment={driftAssessment}
+      />
+
       {/* Section B: Products */}
       <ProductSelector
         acres={calc.acres}
         totalVolume={calc.totalVolume}
+        carrierRate={calc.carrierRate}
         selectedProducts={calc.selectedProducts}
         onAddProduct={calc.addProduct}
         onUpdateRate={calc.updateProductRate}
         onRemoveProduct={calc.removeProduct}
+        onLoadRecipe={calc.loadRecipe}
+      />
+
+      <LabelComplianceAlert issues={complianceIssues} />
+
+      <RainfastAlert warnings={rainfastWarnings} locationName={forecastField?.name} />
+
+      <DriftBufferAlert
+        sites={downwindSites}
+        distanceFeet={bufferSettings.distanceFeet}
+        windDirection={weather?.windDirection}
       />
 
+      {moaWarnings.length > 0 && (
+        <div className="border border-amber-300 bg-amber-50 rounded-lg p-3">
+          <h3 className="font-semibold text-amber-800 text-sm mb-1">Resistance Management</h3>
+          <ul className="space-y-0.5 text-sm text-amber-700">
+            {moaWarnings.map((w, i) => (
+              <li key={i}>
+                {w.fieldName}: {w.group} would be applied {w.count} times
+                {moaSettings.lookbackYears > 1 ? ` in the last ${moaSettings.lookbackYears} crop years` : ` in ${cropYear}`}
+                <span className="text-amber-600"> ({w.products.join(', ')})</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {inventoryShortfalls.length > 0 && (
+        <div className="border border-amber-300 bg-amber-50 rounded-lg p-3">
+          <h3 className="font-semibold text-amber-800 text-sm mb-1">Inventory</h3>
+          <ul className="space-y-0.5 text-sm text-amber-700">
+            {inventoryShortfalls.map((s) => (
+              <li key={s.productName}>
+                {s.productName}: mix needs {s.required} {s.unit}, only {s.onHand} {s.unit} on hand
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
       {/* Section C: Results Summary */}
       <ResultsSummary
         totalVolume={calc.totalVolume}
@@ -301,6 +663,7 @@ const CalculatorPage: React.FC = () => {
         tankSize={calc.tankSize}
         acres={calc.acres}
         carrierRate={calc.carrierRate}
+        mixCost={mixCost}
       />
 
       {/* Section D: Load Planner */}
@@ -326,6 +689,30 @@ const CalculatorPage: React.FC = () => {
           selectedProducts={calc.selectedProducts}
           acres={calc.acres}
           totalVolume={calc.totalVolume}
+          ticketHeader={ticketHeader}
+          tankSize={calc.tankSize}
+          carrierRate={calc.carrierRate}
+          speedMph={sprayer?.calibrationSpeed}
+          boomWidth={sprayer?.boomWidth}
+          fields={getSelectedFieldNames().map((name, i) => ({
+            name,
+            acres: fieldSelections[i].sprayedAcres,
+          }))}
+        />
+      )}
+
+      {/* Leftover mix and rinsate after the last load */}
+      {calc.selectedProducts.length > 0 && calc.totalVolume > 0 && (
+        <LeftoverStep
+          leftover={splitter.leftover}
+          leftoverProducts={splitter.leftoverProducts}
+          adjustedFinalLoad={splitter.adjustedFinalLoad}
+          finalLoadVolume={splitter.loads[splitter.loads.length - 1]?.volume || 0}
+          carrierRate={calc.carrierRate}
+          suggestions={leftoverSuggestions}
+          fields={fields}
+          onChange={splitter.updateLeftover}
+          onReset={splitter.resetLeftover}
         />
       )}
 
@@ -346,11 +733,21 @@ const CalculatorPage: React.FC = () => {
             <p className="text-sm text-gray-500 mt-1">
               Capture this calculation as a spray record for your records
             </p>
+            {hasComplianceErrors && (
+              <p className="text-sm text-red-600 mt-1">
+                This mix exceeds label limits — review before saving
+              </p>
+            )}
           </div>
           <div className="flex items-center gap-3">
             {recordSaved && (
               <span className="text-sm text-green-600 font-medium">Record saved!</span>
             )}
+            {!showLoadPlanner && splitter.loads.length > 0 && calc.selectedProducts.length > 0 && (
+              <button onClick={handlePrintSingleTicket} className="btn-secondary text-sm py-2 px-4">
+                Print Load Ticket
+              </button>
+            )}
             <button
               onClick={() => setShowRecordModal(true)}
               className="btn-primary text-sm py-2 px-4"
@@ -360,8 +757,66 @@ const CalculatorPage: React.FC = () => {
             </button>
           </div>
         </div>
+        <WeatherLogControl
+          log={weatherLog.log}
+          running={weatherLog.running}
+          onStart={() => weatherLog.start(fieldSelections[0]?.fieldId)}
+          onStop={weatherLog.stop}
+          onDiscard={weatherLog.clear}
+        />
+      </div>
+
+      {/* Section I: Plan as Job */}
+      <div className="card">
+        <div className="flex items-center justify-between">
+          <div>
+            <h2 className="text-lg font-semibold">Plan Spray Job</h2>
+            <p className="text-sm text-gray-500 mt-1">
+              Queue this mix as a job for later, and total product to order across planned jobs
+            </p>
+          </div>
+          <div className="flex items-center gap-3">
+            {jobAdded && (
+              <span className="text-sm text-green-600 font-medium">Job added!</span>
+            )}
+            <button
+              onClick={() => setShowShoppingList(true)}
+              className="btn-secondary text-sm py-2 px-4"
+            >
+              Shopping List ({plannedJobCount})
+            </button>
+            <button
+              onClick={handlePlanJob}
+              className="btn-primary text-sm py-2 px-4"
+              disabled={calc.selectedProducts.length === 0 || calc.acres <= 0}
+            >
+              Plan Job
+            </button>
+          </div>
+        </div>
       </div>
 
+      {showShoppingList && <ShoppingListModal onClose={handleCloseShoppingList} />}
+
+      {draftJob && (
+        <JobModal
+          job={draftJob}
+          isNew
+          onSave={handleJobSaved}
+          onClose={() => setDraftJob(null)}
+        />
+      )}
+
+      {showCalibration && (
+        <CalibrationModal
+          sprayers={sprayers}
+          sprayerId={calc.sprayerId}
+          targetGpa={calc.carrierRate}
+          onSave={handleCalibrationSaved}
+          onClose={() => setShowCalibration(false)}
+        />
+      )}
+
       {showRecordModal && (
         <RecordModal
           prefill={buildRecordPrefill()}
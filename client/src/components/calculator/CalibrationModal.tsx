@@ -0,0 +1,270 @@
+import React, { useMemo, useState } from 'react';
+import { MeasurementUnit, SprayerProfile } from '../../types';
+import { getUnitsForProductType } from '../../utils/unitConstants';
+import {
+  calculateCalibration,
+  gpmToCatch,
+  NOZZLE_TOLERANCE_PERCENT,
+  requiredNozzleGpm,
+} from '../../utils/calibration';
+
+interface CalibrationModalProps {
+  sprayers: SprayerProfile[];
+  sprayerId?: string;
+  targetGpa?: number;
+  onSave: (sprayer: SprayerProfile) => void;
+  onClose: () => void;
+}
+
+const DEFAULT_CATCH_COUNT = 6;
+
+const CalibrationModal: React.FC<CalibrationModalProps> = ({ sprayers, sprayerId, targetGpa, onSave, onClose }) => {
+  const initial = sprayers.find((s) => s.id === sprayerId) || sprayers[0];
+  const [selectedId, setSelectedId] = useState(initial?.id || '');
+  const [spacing, setSpacing] = useState(initial?.nozzleSpacing || 20);
+  const [speed, setSpeed] = useState(initial?.calibrationSpeed || 10);
+  const [pressure, setPressure] = useState(initial?.pressure || 0);
+  const [seconds, setSeconds] = useState(60);
+  const [unit, setUnit] = useState<MeasurementUnit>('fl_oz');
+  const [catches, setCatches] = useState<number[]>(() => Array(DEFAULT_CATCH_COUNT).fill(0));
+  const [target, setTarget] = useState(targetGpa || initial?.calibratedGpa || 15);
+
+  const liquidUnits = getUnitsForProductType('liquid');
+  const unitLabel = liquidUnits.find((u) => u.value === unit)?.label || unit;
+  const sprayer = sprayers.find((s) => s.id === selectedId);
+
+  const result = useMemo(
+    () => calculateCalibration(catches, unit, seconds, speed, spacing),
+    [catches, unit, seconds, speed, spacing]
+  );
+
+  const targetGpm = requiredNozzleGpm(target, speed, spacing);
+  const targetCatch = gpmToCatch(targetGpm, unit, seconds);
+
+  const handleSprayerChange = (id: string) => {
+    setSelectedId(id);
+    const next = sprayers.find((s) => s.id === id);
+    if (!next) return;
+    if (next.nozzleSpacing) setSpacing(next.nozzleSpacing);
+    if (next.calibrationSpeed) setSpeed(next.calibrationSpeed);
+    if (next.pressure) setPressure(next.pressure);
+  };
+
+  const setCatch = (index: number, value: number) => {
+    setCatches((prev) => prev.map((c, i) => (i === index ? value : c)));
+  };
+
+  const handleSave = () => {
+    if (!sprayer || !result || result.gpa <= 0) return;
+    onSave({
+      ...sprayer,
+      calibratedGpa: result.gpa,
+      nozzleSpacing: spacing,
+      calibrationSpeed: speed,
+      pressure: pressure > 0 ? pressure : sprayer.pressure,
+      calibratedAt: new Date().toISOString().split('T')[0],
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg max-w-2xl w-full p-6 max-h-[90vh] overflow-y-auto">
+        <h2 className="text-xl font-semibold mb-4">Sprayer Calibration</h2>
+
+        <div className="space-y-4">
+          {sprayers.length === 0 ? (
+            <p className="text-sm text-gray-500">
+              Add a sprayer under Settings &rarr; Sprayers to save calibration results.
+            </p>
+          ) : (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Sprayer</label>
+              <select
+                className="input-field"
+                value={selectedId}
+                onChange={(e) => handleSprayerChange(e.target.value)}
+              >
+                {sprayers.map((s) => (
+                  <option key={s.id} value={s.id}>{s.name}</option>
+                ))}
+              </select>
+              {sprayer?.calibratedAt && (
+                <p className="text-xs text-gray-500 mt-1">
+                  Last calibrated {sprayer.calibratedAt} at {sprayer.calibratedGpa} GPA
+                </p>
+              )}
+            </div>
+          )}
+
+          <div className="grid grid-cols-3 gap-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Nozzle Spacing (in)</label>
+              <input
+                type="number"
+                className="input-field"
+                value={spacing || ''}
+                onChange={(e) => setSpacing(parseFloat(e.target.value) || 0)}
+                min="0"
+                step="1"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Ground Speed (mph)</label>
+              <input
+                type="number"
+                className="input-field"
+                value={speed || ''}
+                onChange={(e) => setSpeed(parseFloat(e.target.value) || 0)}
+                min="0"
+                step="0.1"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Pressure (psi)</label>
+              <input
+                type="number"
+                className="input-field"
+                value={pressure || ''}
+                onChange={(e) => setPressure(parseFloat(e.target.value) || 0)}
+                min="0"
+                step="1"
+              />
+            </div>
+          </div>
+
+          {/* Catch test */}
+          <div className="border-t border-gray-200 pt-4">
+            <div className="flex flex-wrap items-end gap-3 mb-3">
+              <h3 className="text-sm font-semibold text-gray-700 flex-1">Nozzle Catch Test</h3>
+              <label className="text-sm text-gray-600 flex items-center gap-2">
+                Catch time
+                <input
+                  type="number"
+                  className="input-field w-20 py-1"
+                  value={seconds || ''}
+                  onChange={(e) => setSeconds(parseFloat(e.target.value) || 0)}
+                  min="1"
+                  step="1"
+                />
+                sec
+              </label>
+              <select
+                className="input-field w-auto py-1"
+                value={unit}
+                onChange={(e) => setUnit(e.target.value as MeasurementUnit)}
+              >
+                {liquidUnits.map((u) => (
+                  <option key={u.value} value={u.value}>{u.label}</option>
+                ))}
+              </select>
+            </div>
+
+            <div className="grid grid-cols-3 sm:grid-cols-4 gap-2">
+              {catches.map((c, i) => {
+                const nozzle = result?.nozzles.find((n) => n.nozzle === i + 1);
+                return (
+                  <div key={i}>
+                    <label className="block text-xs text-gray-500 mb-0.5">Nozzle {i + 1}</label>
+                    <input
+                      type="number"
+                      className={`input-field py-1 ${nozzle?.outOfTolerance ? 'border-red-400 bg-red-50' : ''}`}
+                      value={c || ''}
+                      onChange={(e) => setCatch(i, parseFloat(e.target.value) || 0)}
+                      min="0"
+                      step="0.1"
+                    />
+                    {nozzle && (
+                      <span className={`text-xs ${nozzle.outOfTolerance ? 'text-red-600 font-medium' : 'text-gray-400'}`}>
+                        {nozzle.deviationPercent > 0 ? '+' : ''}{nozzle.deviationPercent}%
+                      </span>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+            <div className="flex gap-3 mt-2">
+              <button
+                onClick={() => setCatches((prev) => [...prev, 0])}
+                className="text-sm text-blue-600 hover:text-blue-800"
+              >
+                + Nozzle
+              </button>
+              {catches.length > 1 && (
+                <button
+                  onClick={() => setCatches((prev) => prev.slice(0, -1))}
+                  className="text-sm text-gray-500 hover:text-gray-700"
+                >
+                  Remove last
+                </button>
+              )}
+            </div>
+
+            {result && (
+              <div className="mt-4 p-3 bg-ag-green-50 border border-ag-green-200 rounded-lg">
+                <div className="grid grid-cols-3 gap-3 text-sm">
+                  <div>
+                    <span className="text-gray-500 block">Average catch</span>
+                    <span className="font-medium">{result.averageCatch} {unitLabel}</span>
+                  </div>
+                  <div>
+                    <span className="text-gray-500 block">Nozzle flow</span>
+                    <span className="font-medium">{result.nozzleGpm} GPM</span>
+                  </div>
+                  <div>
+                    <span className="text-gray-500 block">Sprayer output</span>
+                    <span className="text-lg font-bold text-ag-green-700">{result.gpa} GPA</span>
+                  </div>
+                </div>
+                {result.nozzles.some((n) => n.outOfTolerance) && (
+                  <p className="text-xs text-red-600 mt-2">
+                    Nozzles more than {NOZZLE_TOLERANCE_PERCENT}% off the average should be cleaned or replaced before saving.
+                  </p>
+                )}
+              </div>
+            )}
+          </div>
+
+          {/* Inverse: nozzle flow for a target rate */}
+          <div className="border-t border-gray-200 pt-4">
+            <h3 className="text-sm font-semibold text-gray-700 mb-2">Nozzle Flow for a Target Rate</h3>
+            <div className="flex flex-wrap items-center gap-3 text-sm">
+              <label className="flex items-center gap-2 text-gray-600">
+                Target
+                <input
+                  type="number"
+                  className="input-field w-20 py-1"
+                  value={target || ''}
+                  onChange={(e) => setTarget(parseFloat(e.target.value) || 0)}
+                  min="0"
+                  step="0.5"
+                />
+                GPA
+              </label>
+              {target > 0 && speed > 0 && spacing > 0 && (
+                <span className="text-gray-700">
+                  needs <span className="font-medium">{targetGpm.toFixed(3)} GPM</span> per nozzle
+                  {' '}&mdash; catch {targetCatch.toFixed(1)} {unitLabel} in {seconds} sec
+                </span>
+              )}
+            </div>
+          </div>
+
+          <div className="flex gap-3 pt-2">
+            <button
+              onClick={handleSave}
+              disabled={!sprayer || !result || result.gpa <= 0}
+              className="btn-primary flex-1"
+            >
+              {sprayer && result ? `Save ${result.gpa} GPA to ${sprayer.name}` : 'Save Calibration'}
+            </button>
+            <button onClick={onClose} className="btn-secondary flex-1">
+              Close
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CalibrationModal;
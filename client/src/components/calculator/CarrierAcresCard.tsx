@@ -1,89 +1,56 @@
-import React, { useState, useEffect } from 'react';
-import { getCarrierPresets, saveCarrierPresets } from '../../utils/storageService';
+import React from 'react';
 
 interface CarrierAcresCardProps {
   carrierRate: number;
   acres: number;
+  calibratedGpa?: number;         // from the selected sprayer
   onCarrierRateChange: (rate: number) => void;
   onAcresChange: (acres: number) => void;
+  onCalibrate?: () => void;
 }
 
 const CarrierAcresCard: React.FC<CarrierAcresCardProps> = ({
   carrierRate,
   acres,
+  calibratedGpa,
   onCarrierRateChange,
   onAcresChange,
+  onCalibrate,
 }) => {
-  const [presets, setPresets] = useState<number[]>([]);
-
-  useEffect(() => {
-    getCarrierPresets().then(setPresets);
-  }, []);
-
-  const handleAddPreset = async () => {
-    if (carrierRate <= 0 || presets.includes(carrierRate)) return;
-    const updated = [...presets, carrierRate].sort((a, b) => a - b);
-    setPresets(updated);
-    await saveCarrierPresets(updated);
-  };
-
-  const handleRemovePreset = async (value: number) => {
-    const updated = presets.filter((p) => p !== value);
-    setPresets(updated);
-    await saveCarrierPresets(updated);
-  };
-
   return (
     <>
       <div className="card">
-        <label className="block text-sm font-medium text-gray-700 mb-1">
-          Carrier Rate (gal/acre)
-        </label>
+        <div className="flex justify-between items-center mb-1">
+          <label className="block text-sm font-medium text-gray-700">
+            Carrier Rate (gal/acre)
+          </label>
+          {onCalibrate && (
+            <button onClick={onCalibrate} className="text-xs text-blue-600 hover:text-blue-800">
+              Calibrate
+            </button>
+          )}
+        </div>
         <input
           type="number"
-          className="input-field mb-3"
+          className="input-field mb-2"
           value={carrierRate || ''}
           onChange={(e) => onCarrierRateChange(parseFloat(e.target.value) || 0)}
           min="1"
           max="60"
           step="1"
         />
-        <div className="flex flex-wrap gap-2 items-center">
-          {presets.map((rate) => (
-            <span
-              key={rate}
-              className={`inline-flex items-center gap-1 rounded text-sm font-medium transition-colors ${
-                carrierRate === rate
-                  ? 'bg-ag-green-600 text-white'
-                  : 'bg-gray-100 hover:bg-gray-200 text-gray-700'
-              }`}
+        {calibratedGpa !== undefined && calibratedGpa > 0 && (
+          carrierRate === calibratedGpa ? (
+            <p className="text-xs text-gray-500">Sprayer calibrated rate</p>
+          ) : (
+            <button
+              onClick={() => onCarrierRateChange(calibratedGpa)}
+              className="text-xs text-blue-600 hover:text-blue-800"
             >
-              <button
-                onClick={() => onCarrierRateChange(rate)}
-                className="px-2 py-1 pl-3"
-              >
-                {rate}
-              </button>
-              <button
-                onClick={() => handleRemovePreset(rate)}
-                className={`pr-2 py-1 text-xs hover:opacity-70 ${
-                  carrierRate === rate ? 'text-white/70' : 'text-gray-400'
-                }`}
-                title="Remove preset"
-              >
-                x
-              </button>
-            </span>
-          ))}
-          <button
-            onClick={handleAddPreset}
-            disabled={carrierRate <= 0 || presets.includes(carrierRate)}
-            className="px-2 py-1 rounded text-sm font-medium bg-gray-100 hover:bg-gray-200 text-gray-500 disabled:opacity-30 disabled:cursor-not-allowed transition-colors"
-            title="Save current value as preset"
-          >
-            +
-          </button>
-        </div>
+              Use calibrated rate ({calibratedGpa} GPA)
+            </button>
+          )
+        )}
       </div>
       <div className="card">
         <label className="block text-sm font-medium text-gray-700 mb-1">
@@ -0,0 +1,36 @@
+import React from 'react';
+import { DownwindSite, degreesToCompass, getSiteTypeInfo } from '../../utils/driftBuffer';
+
+interface DriftBufferAlertProps {
+  sites: DownwindSite[];
+  distanceFeet: number;
+  windDirection?: string;
+  className?: string;
+}
+
+const DriftBufferAlert: React.FC<DriftBufferAlertProps> = ({ sites, distanceFeet, windDirection, className = '' }) => {
+  if (sites.length === 0) return null;
+
+  return (
+    <div className={`border border-red-300 bg-red-50 rounded-lg p-3 ${className}`}>
+      <h3 className="font-semibold text-red-800 text-sm mb-1">
+        Sensitive Sites Downwind{windDirection ? ` (wind from ${windDirection})` : ''}
+      </h3>
+      <ul className="space-y-0.5 text-sm text-red-700">
+        {sites.map((d) => (
+          <li key={`${d.fieldId}-${d.site.id}`}>
+            {d.site.name} ({getSiteTypeInfo(d.site.type).label.toLowerCase()}):{' '}
+            {d.distanceFeet === 0
+              ? `inside ${d.fieldName}`
+              : `${d.distanceFeet} ft ${degreesToCompass(d.bearing)} of ${d.fieldName}`}
+          </li>
+        ))}
+      </ul>
+      <p className="text-xs text-red-600 mt-1">
+        Within the {distanceFeet} ft buffer. Leave an unsprayed strip, use coarser droplets or wait for the wind to shift.
+      </p>
+    </div>
+  );
+};
+
+export default DriftBufferAlert;
@@ -0,0 +1,41 @@
+import React from 'react';
+import { ComplianceIssue } from '../../utils/labelCompliance';
+
+interface LabelComplianceAlertProps {
+  issues: ComplianceIssue[];
+  className?: string;
+}
+
+const LabelComplianceAlert: React.FC<LabelComplianceAlertProps> = ({ issues, className = '' }) => {
+  if (issues.length === 0) return null;
+
+  const errors = issues.filter((i) => i.severity === 'error');
+  const warnings = issues.filter((i) => i.severity === 'warning');
+
+  return (
+    <div className={`space-y-2 ${className}`}>
+      {errors.length > 0 && (
+        <div className="border border-red-300 bg-red-50 rounded-lg p-3">
+          <h3 className="font-semibold text-red-800 text-sm mb-1">Exceeds Label Limits</h3>
+          <ul className="space-y-0.5 text-sm text-red-700">
+            {errors.map((issue, i) => (
+              <li key={i}>{issue.message}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+      {warnings.length > 0 && (
+        <div className="border border-amber-300 bg-amber-50 rounded-lg p-3">
+          <h3 className="font-semibold text-amber-800 text-sm mb-1">Approaching Label Limits</h3>
+          <ul className="space-y-0.5 text-sm text-amber-700">
+            {warnings.map((issue, i) => (
+              <li key={i}>{issue.message}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LabelComplianceAlert;
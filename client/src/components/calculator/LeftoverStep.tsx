@@ -0,0 +1,178 @@
+import React from 'react';
+import { Field } from '../../types';
+import { LeftoverEntry, LoadInfo } from '../../hooks/useLoadSplitter';
+import { LoadProductAmount } from '../../utils/loadCalculations';
+import { LEFTOVER_DISPOSITION_OPTIONS, LeftoverFieldSuggestion } from '../../utils/leftover';
+
+interface LeftoverStepProps {
+  leftover: LeftoverEntry;
+  leftoverProducts: LoadProductAmount[];
+  adjustedFinalLoad: LoadInfo | null;
+  finalLoadVolume: number;
+  carrierRate: number;
+  suggestions: LeftoverFieldSuggestion[];
+  fields: Field[];
+  onChange: (changes: Partial<LeftoverEntry>) => void;
+  onReset: () => void;
+}
+
+const LeftoverStep: React.FC<LeftoverStepProps> = ({
+  leftover,
+  leftoverProducts,
+  adjustedFinalLoad,
+  finalLoadVolume,
+  carrierRate,
+  suggestions,
+  fields,
+  onChange,
+  onReset,
+}) => {
+  const coverAcres = carrierRate > 0 ? leftover.gallons / carrierRate : 0;
+  const selectedField = suggestions.find((s) => s.fieldId === leftover.fieldId);
+  // Chosen earlier but no longer suggested (records reloaded, carrier rate changed)
+  const staleField = leftover.fieldId && !selectedField
+    ? fields.find((f) => f.id === leftover.fieldId)
+    : undefined;
+
+  return (
+    <div className="card">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-lg font-semibold">Tank Leftover &amp; Rinsate</h2>
+        {(leftover.gallons > 0 || leftover.rinseGallons > 0) && (
+          <button onClick={onReset} className="text-xs text-gray-500 hover:text-gray-700 font-medium">
+            Clear
+          </button>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 gap-3 mb-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Left After Last Load (gal)</label>
+          <input
+            type="number"
+            min={0}
+            step="any"
+            value={leftover.gallons || ''}
+            onChange={(e) => onChange({ gallons: Math.max(0, parseFloat(e.target.value) || 0) })}
+            className="input-field"
+            placeholder="0"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Rinse Water Added (gal)</label>
+          <input
+            type="number"
+            min={0}
+            step="any"
+            value={leftover.rinseGallons || ''}
+            onChange={(e) => onChange({ rinseGallons: Math.max(0, parseFloat(e.target.value) || 0) })}
+            className="input-field"
+            placeholder="0"
+          />
+        </div>
+      </div>
+
+      {leftover.gallons > 0 && (
+        <>
+          <div className="mb-4">
+            <div className="text-sm font-medium text-gray-700 mb-1">Product remaining in tank</div>
+            <div className="text-sm text-gray-600 space-y-0.5">
+              {leftoverProducts.map((lp) => (
+                <div key={lp.product.product.id} className="flex justify-between">
+                  <span>{lp.product.product.name}</span>
+                  <span>{lp.amount.toFixed(2)} {lp.displayUnit}</span>
+                </div>
+              ))}
+            </div>
+            {coverAcres > 0 && (
+              <p className="text-xs text-gray-500 mt-1">
+                Enough to cover {coverAcres.toFixed(1)} ac at {carrierRate} gal/ac.
+              </p>
+            )}
+          </div>
+
+          <div className="space-y-2 mb-4">
+            {LEFTOVER_DISPOSITION_OPTIONS.map((opt) => (
+              <label key={opt.value} className="flex items-center gap-2 text-sm">
+                <input
+                  type="radio"
+                  name="leftover-disposition"
+                  checked={leftover.disposition === opt.value}
+                  onChange={() => onChange({ disposition: opt.value })}
+                />
+                {opt.label}
+              </label>
+            ))}
+          </div>
+
+          {leftover.disposition === 'apply_to_field' && staleField && (
+            <div className="p-3 bg-amber-50 border border-amber-200 rounded-lg text-sm text-amber-800 mb-4">
+              {staleField.name} no longer fits this leftover (field size or label limits) but is still
+              selected. Choose another field or handle the leftover another way.
+            </div>
+          )}
+
+          {leftover.disposition === 'apply_to_field' && (
+            suggestions.length === 0 ? (
+              <div className="p-3 bg-amber-50 border border-amber-200 rounded-lg text-sm text-amber-800 mb-4">
+                No other field can take {coverAcres.toFixed(1)} ac of this mix within label limits.
+                Mix it into the final load or dispose of it per the label.
+              </div>
+            ) : (
+              <div className="mb-4">
+                <select
+                  className="input-field"
+                  value={leftover.fieldId}
+                  onChange={(e) => onChange({ fieldId: e.target.value })}
+                >
+                  <option value="">Select a field...</option>
+                  {staleField && <option value={staleField.id}>{staleField.name} (no longer suggested)</option>}
+                  {suggestions.map((s) => (
+                    <option key={s.fieldId} value={s.fieldId}>
+                      {s.name} ({s.acres} ac){s.sameCrop ? ' - same crop' : ''}
+                    </option>
+                  ))}
+                </select>
+                {selectedField?.warnings.map((w) => (
+                  <p key={w} className="text-xs text-amber-700 mt-1">{w}</p>
+                ))}
+              </div>
+            )
+          )}
+
+          {leftover.disposition === 'adjust_final_load' && adjustedFinalLoad && (
+            <div className="p-3 bg-gray-50 border border-gray-200 rounded-lg text-sm mb-4">
+              <div className="font-medium mb-1">
+                Load #{adjustedFinalLoad.loadNumber}: mix {Math.round(adjustedFinalLoad.volume)} gal fresh
+                instead of {Math.round(finalLoadVolume)} gal
+              </div>
+              <div className="text-gray-600 space-y-0.5">
+                {adjustedFinalLoad.products.map((lp) => (
+                  <div key={lp.product.product.id} className="flex justify-between">
+                    <span>{lp.product.product.name}</span>
+                    <span>{lp.amount.toFixed(2)} {lp.displayUnit}</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </>
+      )}
+
+      {(leftover.gallons > 0 || leftover.rinseGallons > 0) && (
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Disposal Notes</label>
+          <input
+            type="text"
+            value={leftover.notes}
+            onChange={(e) => onChange({ notes: e.target.value })}
+            className="input-field"
+            placeholder="e.g., rinsate sprayed on headlands"
+          />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LeftoverStep;
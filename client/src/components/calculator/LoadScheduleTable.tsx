@@ -1,23 +1,105 @@
-import React from 'react';
+import React, { useMemo } from 'react';
 import { TankMixProduct } from '../../types';
 import { LoadInfo } from '../../hooks/useLoadSplitter';
 import { getBaseDisplayUnit } from '../../utils/unitConstants';
+import { ContainerCalculator } from '../../utils/containerCalculations';
+import { getContainers } from '../../utils/storageService';
+import { buildLoadTickets, printLoadTickets, LoadTicketHeader } from '../../utils/loadTickets';
+import { calculateFieldCapacity, calculateLoadTimings, findPartialLoadFields } from '../../utils/loadCalculations';
 
 interface LoadScheduleTableProps {
   loads: LoadInfo[];
   selectedProducts: TankMixProduct[];
   acres?: number;
   totalVolume?: number;
+  ticketHeader?: LoadTicketHeader;
+  // Time-to-empty planning from the selected sprayer
+  tankSize?: number;
+  carrierRate?: number;
+  speedMph?: number;
+  boomWidth?: number;
+  fields?: { name: string; acres: number }[];
 }
 
-const LoadScheduleTable: React.FC<LoadScheduleTableProps> = ({ loads, selectedProducts, acres, totalVolume }) => {
+function formatMinutes(minutes: number): string {
+  if (minutes < 60) return `${minutes} min`;
+  const h = Math.floor(minutes / 60);
+  const m = minutes % 60;
+  return m > 0 ? `${h} h ${m} min` : `${h} h`;
+}
+
+const LoadScheduleTable: React.FC<LoadScheduleTableProps> = ({
+  loads,
+  selectedProducts,
+  acres,
+  totalVolume,
+  ticketHeader,
+  tankSize = 0,
+  carrierRate = 0,
+  speedMph = 0,
+  boomWidth = 0,
+  fields = [],
+}) => {
+  const calculator = useMemo(() => new ContainerCalculator(getContainers()), []);
+
+  const acresPerHour = calculateFieldCapacity(speedMph, boomWidth);
+  const timings = useMemo(
+    () => calculateLoadTimings(loads, carrierRate, acresPerHour),
+    [loads, carrierRate, acresPerHour]
+  );
+  const partialFields = useMemo(
+    () => findPartialLoadFields(fields, tankSize, carrierRate),
+    [fields, tankSize, carrierRate]
+  );
+
   if (loads.length === 0 || selectedProducts.length === 0) return null;
 
   const showAcres = acres && acres > 0 && totalVolume && totalVolume > 0;
+  const showTime = acresPerHour > 0;
+  const totalMinutes = timings.reduce((s, t) => s + t.minutes, 0);
+  const acresPerFullLoad = carrierRate > 0 ? tankSize / carrierRate : 0;
+
+  const printTickets = (loadNumber?: number) => {
+    if (!ticketHeader) return;
+    const tickets = buildLoadTickets(loads, ticketHeader, calculator)
+      .filter((t) => loadNumber === undefined || t.loadNumber === loadNumber);
+    if (!printLoadTickets(tickets, ticketHeader)) {
+      alert('Allow pop-ups for this site to print load tickets.');
+    }
+  };
 
   return (
     <div className="card overflow-x-auto">
-      <h2 className="text-lg font-semibold mb-4">Load Schedule</h2>
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-lg font-semibold">Load Schedule</h2>
+        {ticketHeader && (
+          <button onClick={() => printTickets()} className="btn-secondary text-sm py-1.5 px-3">
+            Print Load Tickets
+          </button>
+        )}
+      </div>
+      {acresPerFullLoad > 0 && (
+        <p className="text-sm text-gray-600 mb-3">
+          A full {tankSize} gal load covers {acresPerFullLoad.toFixed(1)} ac
+          {showTime && (
+            <>
+              {' '}in about {formatMinutes(Math.round((acresPerFullLoad / acresPerHour) * 60))}
+              {' '}&middot; {acresPerHour.toFixed(1)} ac/hr at {speedMph} mph with a {boomWidth} ft boom
+            </>
+          )}
+        </p>
+      )}
+      {partialFields.length > 0 && (
+        <div className="p-3 bg-amber-50 border border-amber-200 rounded-lg text-sm text-amber-800 mb-4 space-y-1">
+          {partialFields.map((w) => (
+            <div key={w.fieldName}>
+              <span className="font-medium">{w.fieldName}</span>: after {w.fullLoads} full load{w.fullLoads === 1 ? '' : 's'},
+              {' '}the last {w.remainingAcres} ac need only {w.remainingVolume} gal ({w.percentage}% of a tank)
+              {` — or split evenly into ${w.evenSplit.length} loads of ${Math.round(w.evenSplit[0])} gal`}
+            </div>
+          ))}
+        </div>
+      )}
       <table className="w-full text-sm">
         <thead>
           <tr className="border-b border-gray-200">
@@ -26,15 +108,19 @@ const LoadScheduleTable: React.FC<LoadScheduleTableProps> = ({ loads, selectedPr
             {showAcres && (
               <th className="text-right py-2 px-4 font-medium text-gray-600">Acres</th>
             )}
+            {showTime && (
+              <th className="text-right py-2 px-4 font-medium text-gray-600">Time</th>
+            )}
             {selectedProducts.map((item) => (
               <th key={item.product.id} className="text-right py-2 px-4 font-medium text-gray-600">
                 {item.product.name}
               </th>
             ))}
+            {ticketHeader && <th className="py-2 pl-4" />}
           </tr>
         </thead>
         <tbody>
-          {loads.map((load) => {
+          {loads.map((load, i) => {
             const loadAcres = showAcres ? acres * (load.volume / totalVolume) : 0;
             return (
               <tr key={load.loadNumber} className="border-b border-gray-100">
@@ -43,11 +129,24 @@ const LoadScheduleTable: React.FC<LoadScheduleTableProps> = ({ loads, selectedPr
                 {showAcres && (
                   <td className="text-right py-2 px-4">{loadAcres.toFixed(1)} ac</td>
                 )}
+                {showTime && (
+                  <td className="text-right py-2 px-4">{formatMinutes(timings[i]?.minutes || 0)}</td>
+                )}
                 {load.products.map((lp) => (
                   <td key={lp.product.product.id} className="text-right py-2 px-4">
                     {lp.amount.toFixed(2)} {lp.displayUnit}
                   </td>
                 ))}
+                {ticketHeader && (
+                  <td className="text-right py-2 pl-4">
+                    <button
+                      onClick={() => printTickets(load.loadNumber)}
+                      className="text-xs text-blue-600 hover:text-blue-800"
+                    >
+                      Ticket
+                    </button>
+                  </td>
+                )}
               </tr>
             );
           })}
@@ -61,11 +160,15 @@ const LoadScheduleTable: React.FC<LoadScheduleTableProps> = ({ loads, selectedPr
             {showAcres && (
               <td className="text-right py-2 px-4">{acres.toFixed(1)} ac</td>
             )}
+            {showTime && (
+              <td className="text-right py-2 px-4">{formatMinutes(totalMinutes)}</td>
+            )}
             {selectedProducts.map((item) => (
               <td key={item.product.id} className="text-right py-2 px-4">
                 {item.totalAmount.toFixed(2)} {getBaseDisplayUnit(item.product.measurementUnit)}
               </td>
             ))}
+            {ticketHeader && <td />}
           </tr>
         </tfoot>
       </table>
@@ -1,8 +1,16 @@
-import React, { useState, useMemo } from 'react';
-import { TankMixProduct } from '../../types';
+import React, { useState, useMemo, useEffect } from 'react';
+import { CompatibilityRule, CompatibilitySeverity, TankMixProduct } from '../../types';
 import { ContainerCalculator } from '../../utils/containerCalculations';
-import { getContainers } from '../../utils/storageService';
+import { getContainers, getCompatibilityRules } from '../../utils/storageService';
 import { getContainerCategory } from '../../utils/unitConstants';
+import { evaluateCompatibility } from '../../utils/compatibilityRules';
+import { buildMixingSteps, sortByMixingOrder } from '../../utils/mixingOrder';
+
+const SEVERITY_STYLES: Record<CompatibilitySeverity, { box: string; title: string; text: string; label: string }> = {
+  incompatible: { box: 'border-red-300 bg-red-50', title: 'text-red-800', text: 'text-red-700', label: 'Incompatible' },
+  caution: { box: 'border-yellow-300 bg-yellow-50', title: 'text-yellow-800', text: 'text-yellow-700', label: 'Caution' },
+  info: { box: 'border-blue-200 bg-blue-50', title: 'text-blue-800', text: 'text-blue-700', label: 'Note' },
+};
 
 interface MixingInstructionsProps {
   selectedProducts: TankMixProduct[];
@@ -10,19 +18,24 @@ interface MixingInstructionsProps {
 
 const MixingInstructions: React.FC<MixingInstructionsProps> = ({ selectedProducts }) => {
   const [open, setOpen] = useState(false);
+  const [rules, setRules] = useState<CompatibilityRule[]>([]);
+
+  useEffect(() => {
+    getCompatibilityRules().then(setRules);
+  }, []);
 
   const containers = useMemo(() => getContainers(), []);
   const calculator = useMemo(() => new ContainerCalculator(containers), [containers]);
 
   const instructions = useMemo(() => {
-    const breakdowns = selectedProducts.map((item) => {
+    const items = selectedProducts.map((item) => {
       // For bulk products, resolve the container category from the measurement unit
       const containerType = item.product.type === 'bulk'
         ? getContainerCategory(item.product.measurementUnit)
         : item.product.type;
       return {
-        item,
-        text: calculator.formatContainerBreakdown(
+        product: item.product,
+        amountText: calculator.formatContainerBreakdown(
           calculator.calculateOptimalBreakdown(
             item.totalAmount,
             containerType,
@@ -32,45 +45,13 @@ const MixingInstructions: React.FC<MixingInstructionsProps> = ({ selectedProduct
       };
     });
 
-    const sorted = [...breakdowns].sort(
-      (a, b) => a.item.product.mixingOrder - b.item.product.mixingOrder
-    );
-
-    const steps: string[] = [
-      '1. Fill tank 1/2 with clean water',
-      '2. Begin agitation',
-    ];
-    sorted.forEach((pb, i) => {
-      steps.push(`${i + 3}. Add ${pb.item.product.name} (${pb.text})`);
-      if (pb.item.product.pHSensitive) {
-        steps.push('   - Check and adjust pH if needed');
-      }
-    });
-    steps.push(`${sorted.length + 3}. Top off tank with water to desired volume`);
-    steps.push(`${sorted.length + 4}. Continue agitation for 2-3 minutes`);
-    steps.push(`${sorted.length + 5}. Verify even mixing before application`);
-    return steps;
+    return buildMixingSteps(items);
   }, [selectedProducts, calculator]);
 
-  const compatibilityWarnings = useMemo(() => {
-    const warnings: string[] = [];
-    const hasHerbicide = selectedProducts.some(
-      (p) =>
-        p.product.name.toLowerCase().includes('roundup') ||
-        p.product.name.toLowerCase().includes('2,4-d')
-    );
-    const hasFungicide = selectedProducts.some((p) =>
-      p.product.name.toLowerCase().includes('fungicide')
-    );
-    if (hasHerbicide && hasFungicide) {
-      warnings.push('Herbicide + Fungicide: Monitor pH carefully');
-    }
-    const phCount = selectedProducts.filter((p) => p.product.pHSensitive).length;
-    if (phCount > 1) {
-      warnings.push(`${phCount} pH-sensitive products - test small batch first`);
-    }
-    return warnings;
-  }, [selectedProducts]);
+  const compatibility = useMemo(() => {
+    const ordered = sortByMixingOrder(selectedProducts, (p) => p.product).map((p) => p.product);
+    return evaluateCompatibility(ordered, rules);
+  }, [selectedProducts, rules]);
 
   if (selectedProducts.length === 0) return null;
 
@@ -94,16 +75,37 @@ const MixingInstructions: React.FC<MixingInstructionsProps> = ({ selectedProduct
             ))}
           </ol>
 
-          {compatibilityWarnings.length > 0 && (
-            <div className="border border-yellow-300 bg-yellow-50 rounded-lg p-4">
-              <h3 className="font-semibold text-yellow-800 mb-2">Compatibility Warnings</h3>
-              <ul className="space-y-1 text-sm text-yellow-700">
-                {compatibilityWarnings.map((w, i) => (
-                  <li key={i}>{w}</li>
+          {compatibility.orderSuggestions.length > 0 && (
+            <div className="border border-blue-200 bg-blue-50 rounded-lg p-4">
+              <h3 className="font-semibold text-blue-800 mb-2">Suggested Order Changes</h3>
+              <ul className="space-y-1 text-sm text-blue-700">
+                {compatibility.orderSuggestions.map((s, i) => (
+                  <li key={i}>
+                    Add {s.productName} before {s.beforeName}
+                    <span className="text-blue-500"> ({s.reason})</span>
+                  </li>
                 ))}
               </ul>
             </div>
           )}
+
+          {compatibility.warnings.length > 0 && (
+            <div className="space-y-2">
+              <h3 className="font-semibold text-gray-800">Compatibility Warnings</h3>
+              {compatibility.warnings.map((w) => {
+                const style = SEVERITY_STYLES[w.severity];
+                return (
+                  <div key={w.ruleId} className={`border rounded-lg p-3 ${style.box}`}>
+                    <div className={`text-sm font-medium ${style.title}`}>
+                      {style.label}: {w.ruleName}
+                    </div>
+                    <div className={`text-sm ${style.text}`}>{w.message}</div>
+                    <div className="text-xs text-gray-500 mt-1">{w.productNames.join(', ')}</div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
         </div>
       )}
     </div>
@@ -0,0 +1,98 @@
+import React, { useMemo } from 'react';
+import { DriftAssessment } from '../../types';
+import {
+  DROPLET_CLASS_LABELS,
+  findCatalogNozzle,
+  isAtLeastAsCoarse,
+  dropletClassAtPressure,
+  pressureForFlow,
+  recommendNozzles,
+} from '../../utils/nozzles';
+
+interface NozzleRecommendationProps {
+  targetGpa: number;
+  speedMph: number;
+  spacingInches: number;
+  driftAssessment: DriftAssessment | null;
+  currentNozzleType?: string;     // from the selected sprayer
+}
+
+const NozzleRecommendation: React.FC<NozzleRecommendationProps> = ({
+  targetGpa,
+  speedMph,
+  spacingInches,
+  driftAssessment,
+  currentNozzleType,
+}) => {
+  const rec = useMemo(
+    () => recommendNozzles(targetGpa, speedMph, spacingInches, driftAssessment),
+    [targetGpa, speedMph, spacingInches, driftAssessment]
+  );
+
+  // How the sprayer's current tips do at this rate and drift risk
+  const current = useMemo(() => {
+    const nozzle = currentNozzleType ? findCatalogNozzle(currentNozzleType) : undefined;
+    if (!nozzle || rec.requiredGpm <= 0) return null;
+    const pressure = Math.round(pressureForFlow(nozzle, rec.requiredGpm));
+    const dropletClass = dropletClassAtPressure(nozzle, pressure);
+    const inRange = pressure >= nozzle.minPsi && pressure <= nozzle.maxPsi;
+    return { nozzle, pressure, dropletClass, inRange, coarseEnough: isAtLeastAsCoarse(dropletClass, rec.minDropletClass) };
+  }, [currentNozzleType, rec]);
+
+  if (rec.requiredGpm <= 0) return null;
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm text-gray-600">
+        {targetGpa} GPA at {speedMph} mph on {spacingInches}" spacing needs{' '}
+        <span className="font-medium">{rec.requiredGpm} GPM</span> per nozzle.
+        {driftAssessment && (
+          <>
+            {' '}Drift risk is <span className="font-medium">{driftAssessment.overall}</span>: use{' '}
+            <span className="font-medium">{DROPLET_CLASS_LABELS[rec.minDropletClass]}</span> droplets or coarser.
+          </>
+        )}
+      </p>
+
+      {driftAssessment?.overall === 'extreme' && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-800">
+          Drift risk is extreme. Even the coarsest tips may not keep spray on target &mdash; consider waiting.
+        </div>
+      )}
+
+      {rec.recommended ? (
+        <div className="p-3 bg-ag-green-50 border border-ag-green-200 rounded-lg">
+          <div className="flex justify-between items-baseline">
+            <span className="font-semibold text-ag-green-800">{rec.recommended.nozzle.name}</span>
+            <span className="text-sm text-ag-green-700">
+              {rec.recommended.pressure} psi &middot; {DROPLET_CLASS_LABELS[rec.recommended.dropletClass]}
+            </span>
+          </div>
+          {rec.alternatives.length > 0 && (
+            <div className="text-xs text-gray-600 mt-1">
+              Also: {rec.alternatives
+                .map((o) => `${o.nozzle.name} @ ${o.pressure} psi (${o.dropletClass})`)
+                .join(' · ')}
+            </div>
+          )}
+        </div>
+      ) : (
+        <div className="p-3 bg-amber-50 border border-amber-200 rounded-lg text-sm text-amber-800">
+          No tip in the catalog delivers {rec.requiredGpm} GPM at {DROPLET_CLASS_LABELS[rec.minDropletClass].toLowerCase()} droplets.
+          Adjust speed or carrier rate.
+        </div>
+      )}
+
+      {current && (
+        <p className={`text-xs ${current.inRange && current.coarseEnough ? 'text-gray-500' : 'text-red-600 font-medium'}`}>
+          Current {current.nozzle.name}: {current.pressure} psi, {DROPLET_CLASS_LABELS[current.dropletClass]}
+          {!current.inRange
+            ? ` — outside its ${current.nozzle.minPsi}–${current.nozzle.maxPsi} psi range`
+            : !current.coarseEnough ? ' — switch to a coarser tip' : ''}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default NozzleRecommendation;
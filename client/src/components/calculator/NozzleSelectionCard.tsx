@@ -0,0 +1,60 @@
+import React, { useState } from 'react';
+import { DriftAssessment, SprayerProfile } from '../../types';
+import NozzleRecommendation from './NozzleRecommendation';
+
+interface NozzleSelectionCardProps {
+  targetGpa: number;
+  sprayer?: SprayerProfile;
+  driftAssessment: DriftAssessment | null;
+}
+
+const DEFAULT_SPEED_MPH = 10;
+const DEFAULT_SPACING_IN = 20;
+
+const NozzleSelectionCard: React.FC<NozzleSelectionCardProps> = ({ targetGpa, sprayer, driftAssessment }) => {
+  const [speed, setSpeed] = useState(sprayer?.calibrationSpeed || DEFAULT_SPEED_MPH);
+  const [spacing, setSpacing] = useState(sprayer?.nozzleSpacing || DEFAULT_SPACING_IN);
+
+  if (targetGpa <= 0) return null;
+
+  return (
+    <div className="card">
+      <div className="flex flex-wrap justify-between items-center gap-3 mb-3">
+        <h2 className="text-lg font-semibold">Nozzle Selection</h2>
+        <div className="flex items-center gap-3 text-sm text-gray-600">
+          <label className="flex items-center gap-1">
+            <input
+              type="number"
+              className="input-field w-16 py-1"
+              value={speed || ''}
+              onChange={(e) => setSpeed(parseFloat(e.target.value) || 0)}
+              min="0"
+              step="0.5"
+            />
+            mph
+          </label>
+          <label className="flex items-center gap-1">
+            <input
+              type="number"
+              className="input-field w-16 py-1"
+              value={spacing || ''}
+              onChange={(e) => setSpacing(parseFloat(e.target.value) || 0)}
+              min="0"
+              step="1"
+            />
+            in spacing
+          </label>
+        </div>
+      </div>
+      <NozzleRecommendation
+        targetGpa={targetGpa}
+        speedMph={speed}
+        spacingInches={spacing}
+        driftAssessment={driftAssessment}
+        currentNozzleType={sprayer?.nozzleType}
+      />
+    </div>
+  );
+};
+
+export default NozzleSelectionCard;
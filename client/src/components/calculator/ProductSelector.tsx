@@ -1,6 +1,6 @@
 import React, { useState, useEffect, useCallback } from 'react';
-import { Product, TankMixProduct } from '../../types';
-import { getProducts, deleteProduct } from '../../utils/storageService';
+import { Product, TankMixProduct, TankMixRecipe } from '../../types';
+import { getProducts, deleteProduct, getRecipes, saveRecipe, deleteRecipe } from '../../utils/storageService';
 import { getBaseDisplayUnit } from '../../utils/unitConstants';
 import { calculatePackages } from '../../utils/loadCalculations';
 import ProductModal from '../settings/ProductModal';
@@ -8,30 +8,81 @@ import ProductModal from '../settings/ProductModal';
 interface ProductSelectorProps {
   acres: number;
   totalVolume: number;
+  carrierRate: number;
   selectedProducts: TankMixProduct[];
   onAddProduct: (product: Product) => void;
   onUpdateRate: (index: number, newRate: number) => void;
   onRemoveProduct: (index: number) => void;
+  onLoadRecipe: (recipe: TankMixRecipe, library: Product[]) => string[];
 }
 
 const ProductSelector: React.FC<ProductSelectorProps> = ({
   acres,
   totalVolume,
+  carrierRate,
   selectedProducts,
   onAddProduct,
   onUpdateRate,
   onRemoveProduct,
+  onLoadRecipe,
 }) => {
   const [productLibrary, setProductLibrary] = useState<Product[]>([]);
   const [showAddProduct, setShowAddProduct] = useState(false);
   const [editingProduct, setEditingProduct] = useState<Product | null>(null);
+  const [recipes, setRecipes] = useState<TankMixRecipe[]>([]);
+  const [recipeName, setRecipeName] = useState<string | null>(null);
+  const [recipeNotice, setRecipeNotice] = useState('');
 
   const reloadProducts = useCallback(async () => {
     const p = await getProducts();
     setProductLibrary(p);
   }, []);
 
+  const reloadRecipes = useCallback(async () => {
+    const r = await getRecipes();
+    setRecipes(r.sort((a, b) => a.name.localeCompare(b.name)));
+  }, []);
+
   useEffect(() => { reloadProducts(); }, [reloadProducts]);
+  useEffect(() => { reloadRecipes(); }, [reloadRecipes]);
+
+  const handleSaveRecipe = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = recipeName?.trim();
+    if (!name) return;
+    // Saving under an existing name updates that recipe
+    const existing = recipes.find((r) => r.name.toLowerCase() === name.toLowerCase());
+    await saveRecipe({
+      id: existing?.id || `recipe-${Date.now()}`,
+      name,
+      carrierRate,
+      products: selectedProducts.map((p) => ({
+        productId: p.product.id,
+        productName: p.product.name,
+        rate: p.rate,
+      })),
+      createdAt: existing?.createdAt || new Date().toISOString(),
+    });
+    setRecipeName(null);
+    setRecipeNotice(`Saved "${name}"`);
+    reloadRecipes();
+  };
+
+  const handleLoadRecipe = (recipe: TankMixRecipe) => {
+    const missing = onLoadRecipe(recipe, productLibrary);
+    setRecipeNotice(
+      missing.length > 0
+        ? `Loaded "${recipe.name}" without ${missing.join(', ')} (no longer in the library)`
+        : `Loaded "${recipe.name}" at ${recipe.carrierRate} gal/ac`
+    );
+  };
+
+  const handleDeleteRecipe = async (recipe: TankMixRecipe) => {
+    if (!window.confirm(`Delete recipe "${recipe.name}"?`)) return;
+    await deleteRecipe(recipe.id);
+    setRecipeNotice('');
+    reloadRecipes();
+  };
 
   const handleProductSaved = useCallback(
     (product: Product) => {
@@ -143,9 +194,66 @@ const ProductSelector: React.FC<ProductSelectorProps> = ({
 
       {/* Right: selected products */}
       <div className="card">
-        <h2 className="text-lg font-semibold mb-4">
-          Tank Mix ({selectedProducts.length} product{selectedProducts.length !== 1 ? 's' : ''})
-        </h2>
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-lg font-semibold">
+            Tank Mix ({selectedProducts.length} product{selectedProducts.length !== 1 ? 's' : ''})
+          </h2>
+          {selectedProducts.length > 0 && recipeName === null && (
+            <button
+              onClick={() => setRecipeName('')}
+              className="text-sm text-ag-green-600 hover:text-ag-green-700 font-medium"
+            >
+              Save as Recipe
+            </button>
+          )}
+        </div>
+
+        {recipeName !== null && (
+          <form onSubmit={handleSaveRecipe} className="flex gap-2 mb-3">
+            <input
+              type="text"
+              className="input-field text-sm py-1.5 flex-1"
+              value={recipeName}
+              onChange={(e) => setRecipeName(e.target.value)}
+              placeholder="e.g. Post corn pass 1"
+              autoFocus
+            />
+            <button type="submit" className="btn-primary text-sm py-1.5 px-3">Save</button>
+            <button type="button" onClick={() => setRecipeName(null)} className="btn-secondary text-sm py-1.5 px-3">
+              Cancel
+            </button>
+          </form>
+        )}
+
+        {recipes.length > 0 && (
+          <div className="mb-3">
+            <div className="text-xs font-medium text-gray-500 mb-1">Recipes</div>
+            <div className="flex flex-wrap gap-1.5">
+              {recipes.map((recipe) => (
+                <span
+                  key={recipe.id}
+                  className="inline-flex items-center border border-ag-green-200 bg-ag-green-50 rounded text-xs"
+                >
+                  <button
+                    onClick={() => handleLoadRecipe(recipe)}
+                    className="px-2 py-1 text-ag-green-700 hover:text-ag-green-800 font-medium"
+                    title={`${recipe.carrierRate} gal/ac · ${recipe.products.map((p) => `${p.productName} @ ${p.rate}`).join(', ')}`}
+                  >
+                    {recipe.name}
+                  </button>
+                  <button
+                    onClick={() => handleDeleteRecipe(recipe)}
+                    className="pr-2 text-gray-400 hover:text-red-600"
+                    title="Delete recipe"
+                  >
+                    &times;
+                  </button>
+                </span>
+              ))}
+            </div>
+          </div>
+        )}
+        {recipeNotice && <p className="text-xs text-gray-500 mb-3">{recipeNotice}</p>}
 
         {selectedProducts.length === 0 ? (
           <div className="text-center py-8 text-gray-500">
@@ -0,0 +1,32 @@
+import React from 'react';
+import { RainfastWarning } from '../../utils/rainfast';
+
+interface RainfastAlertProps {
+  warnings: RainfastWarning[];
+  locationName?: string;    // field the forecast is for
+  className?: string;
+}
+
+const RainfastAlert: React.FC<RainfastAlertProps> = ({ warnings, locationName, className = '' }) => {
+  if (warnings.length === 0) return null;
+
+  return (
+    <div className={`border border-amber-300 bg-amber-50 rounded-lg p-3 ${className}`}>
+      <h3 className="font-semibold text-amber-800 text-sm mb-1">
+        Rainfast Check{locationName ? ` — ${locationName}` : ''}
+      </h3>
+      <ul className="space-y-0.5 text-sm text-amber-700">
+        {warnings.map((w) => (
+          <li key={w.productName}>
+            {w.message}
+            {w.precipitationProbability != null && (
+              <span className="text-amber-600"> ({w.precipitationProbability}% chance)</span>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default RainfastAlert;
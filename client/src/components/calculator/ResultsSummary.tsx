@@ -1,4 +1,5 @@
 import React from 'react';
+import { formatCurrency, MixCost } from '../../utils/costs';
 
 interface ResultsSummaryProps {
   totalVolume: number;
@@ -6,6 +7,7 @@ interface ResultsSummaryProps {
   tankSize: number;
   acres: number;
   carrierRate: number;
+  mixCost?: MixCost | null;
 }
 
 const ResultsSummary: React.FC<ResultsSummaryProps> = ({
@@ -14,6 +16,7 @@ const ResultsSummary: React.FC<ResultsSummaryProps> = ({
   tankSize,
   acres,
   carrierRate,
+  mixCost,
 }) => {
   if (totalVolume <= 0) return null;
 
@@ -47,6 +50,27 @@ const ResultsSummary: React.FC<ResultsSummaryProps> = ({
           <div className="text-sm text-ag-green-600">Tank Size</div>
         </div>
       </div>
+      {mixCost && (
+        <div className="grid grid-cols-3 gap-4 text-center mt-4 pt-4 border-t border-ag-green-200">
+          <div>
+            <div className="text-lg font-semibold text-ag-green-700">{formatCurrency(mixCost.perAcre)}</div>
+            <div className="text-xs text-ag-green-600">per acre</div>
+          </div>
+          <div>
+            <div className="text-lg font-semibold text-ag-green-700">{formatCurrency(mixCost.perLoad)}</div>
+            <div className="text-xs text-ag-green-600">per full load</div>
+          </div>
+          <div>
+            <div className="text-lg font-semibold text-ag-green-700">{formatCurrency(mixCost.total)}</div>
+            <div className="text-xs text-ag-green-600">job total</div>
+          </div>
+          {mixCost.unpricedProducts.length > 0 && (
+            <p className="col-span-3 text-xs text-amber-700">
+              No price set for {mixCost.unpricedProducts.join(', ')} — not included
+            </p>
+          )}
+        </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,174 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { InventoryTransaction, PlannedJob, Product } from '../../types';
+import {
+  getPlannedJobs,
+  deletePlannedJob,
+  getProducts,
+  getContainers,
+  getInventoryTransactions,
+} from '../../utils/storageService';
+import { ContainerCalculator } from '../../utils/containerCalculations';
+import { computeOnHand } from '../../utils/inventory';
+import { buildShoppingList, printShoppingList, shoppingListToCsv } from '../../utils/shoppingList';
+import { downloadFile } from '../../utils/exportService';
+import { getJobStatus } from '../../utils/jobs';
+
+interface ShoppingListModalProps {
+  onClose: () => void;
+}
+
+const ShoppingListModal: React.FC<ShoppingListModalProps> = ({ onClose }) => {
+  const [jobs, setJobs] = useState<PlannedJob[]>([]);
+  const [products, setProducts] = useState<Product[]>([]);
+  const [inventory, setInventory] = useState<InventoryTransaction[]>([]);
+  const [excluded, setExcluded] = useState<Set<string>>(new Set());
+  const [subtractInventory, setSubtractInventory] = useState(true);
+
+  const reloadJobs = async () => {
+    const list = (await getPlannedJobs()).filter((j) => getJobStatus(j) === 'planned');
+    list.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+    setJobs(list);
+  };
+
+  useEffect(() => {
+    reloadJobs();
+    getProducts().then(setProducts);
+    getInventoryTransactions().then(setInventory);
+  }, []);
+
+  const selectedJobs = useMemo(() => jobs.filter((j) => !excluded.has(j.id)), [jobs, excluded]);
+
+  const items = useMemo(() => {
+    const calculator = new ContainerCalculator(getContainers());
+    const onHand = subtractInventory ? computeOnHand(inventory) : new Map<string, number>();
+    return buildShoppingList(selectedJobs, products, onHand, calculator);
+  }, [selectedJobs, products, inventory, subtractInventory]);
+
+  const toggleJob = (id: string) => {
+    setExcluded((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const handleDelete = async (id: string) => {
+    await deletePlannedJob(id);
+    reloadJobs();
+  };
+
+  const handleCsv = () => {
+    downloadFile(
+      shoppingListToCsv(items),
+      `product-order-${new Date().toISOString().split('T')[0]}.csv`,
+      'text/csv'
+    );
+  };
+
+  const handlePdf = () => {
+    if (!printShoppingList(items, selectedJobs)) {
+      alert('Allow pop-ups for this site to print the order.');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg max-w-2xl w-full p-6 max-h-[90vh] overflow-y-auto">
+        <div className="flex justify-between items-start mb-4">
+          <h2 className="text-xl font-semibold">Shopping List</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600 text-xl">&times;</button>
+        </div>
+
+        <h3 className="font-medium text-gray-700 mb-2">Planned Jobs</h3>
+        {jobs.length === 0 ? (
+          <p className="text-sm text-gray-400 mb-4">
+            No planned jobs. Use &ldquo;Plan Job&rdquo; in the calculator to plan the current mix.
+          </p>
+        ) : (
+          <div className="space-y-1 mb-4">
+            {jobs.map((job) => (
+              <div key={job.id} className="flex items-center gap-2 bg-gray-50 px-3 py-2 rounded text-sm">
+                <input
+                  type="checkbox"
+                  checked={!excluded.has(job.id)}
+                  onChange={() => toggleJob(job.id)}
+                  className="rounded text-ag-green-600"
+                />
+                <div className="flex-1">
+                  <span className="font-medium">{job.name}</span>
+                  <span className="text-gray-500">
+                    {' '}&middot; {job.acres} ac &middot; {job.products.map((p) => p.productName).join(', ')}
+                  </span>
+                </div>
+                <button
+                  onClick={() => handleDelete(job.id)}
+                  className="text-red-400 hover:text-red-600"
+                  title="Remove job"
+                >
+                  &times;
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {items.length > 0 && (
+          <>
+            <div className="flex justify-between items-center mb-2">
+              <h3 className="font-medium text-gray-700">Order</h3>
+              <label className="flex items-center gap-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={subtractInventory}
+                  onChange={(e) => setSubtractInventory(e.target.checked)}
+                />
+                Subtract inventory on hand
+              </label>
+            </div>
+            <div className="overflow-x-auto border rounded mb-4">
+              <table className="w-full text-sm">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="text-left p-2 font-medium">Product</th>
+                    <th className="text-right p-2 font-medium">Needed</th>
+                    <th className="text-right p-2 font-medium">On Hand</th>
+                    <th className="text-left p-2 font-medium">Order</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {items.map((item) => (
+                    <tr key={item.productId} className="border-t">
+                      <td className="p-2">{item.productName}</td>
+                      <td className="p-2 text-right whitespace-nowrap">{item.required} {item.unit}</td>
+                      <td className="p-2 text-right whitespace-nowrap text-gray-500">
+                        {item.onHand !== undefined ? `${item.onHand} ${item.unit}` : '—'}
+                      </td>
+                      <td className={`p-2 font-medium ${item.orderAmount > 0 ? 'text-gray-900' : 'text-ag-green-700'}`}>
+                        {item.orderText}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </>
+        )}
+
+        <div className="flex gap-3">
+          <button onClick={handlePdf} disabled={items.length === 0} className="btn-primary flex-1">
+            Print / PDF
+          </button>
+          <button onClick={handleCsv} disabled={items.length === 0} className="btn-secondary flex-1">
+            Download CSV
+          </button>
+          <button onClick={onClose} className="btn-secondary flex-1">
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ShoppingListModal;
@@ -1,80 +1,68 @@
-import React, { useState, useEffect } from 'react';
-import { getTankPresets, saveTankPresets } from '../../utils/storageService';
+import React from 'react';
+import { SprayerProfile } from '../../types';
+import { describeSprayerSetup } from '../../utils/sprayers';
 
 interface TankSetupCardProps {
   tankSize: number;
   onTankSizeChange: (size: number) => void;
+  sprayers: SprayerProfile[];
+  sprayerId?: string;
+  onSprayerChange: (sprayer: SprayerProfile | null) => void;
 }
 
-const TankSetupCard: React.FC<TankSetupCardProps> = ({ tankSize, onTankSizeChange }) => {
-  const [presets, setPresets] = useState<number[]>([]);
-
-  useEffect(() => {
-    getTankPresets().then(setPresets);
-  }, []);
-
-  const handleAddPreset = async () => {
-    if (tankSize <= 0 || presets.includes(tankSize)) return;
-    const updated = [...presets, tankSize].sort((a, b) => a - b);
-    setPresets(updated);
-    await saveTankPresets(updated);
-  };
-
-  const handleRemovePreset = async (value: number) => {
-    const updated = presets.filter((p) => p !== value);
-    setPresets(updated);
-    await saveTankPresets(updated);
-  };
+const TankSetupCard: React.FC<TankSetupCardProps> = ({
+  tankSize,
+  onTankSizeChange,
+  sprayers,
+  sprayerId,
+  onSprayerChange,
+}) => {
+  const sprayer = sprayers.find((s) => s.id === sprayerId);
 
   return (
     <div className="card">
       <label className="block text-sm font-medium text-gray-700 mb-1">
+        Sprayer
+      </label>
+      {sprayers.length === 0 ? (
+        <p className="text-sm text-gray-400 mb-3">
+          No sprayers yet. Add one under Settings &rarr; Sprayers.
+        </p>
+      ) : (
+        <select
+          className="input-field mb-1"
+          value={sprayer?.id || ''}
+          onChange={(e) => onSprayerChange(sprayers.find((s) => s.id === e.target.value) || null)}
+        >
+          <option value="">No sprayer selected</option>
+          {sprayers.map((s) => (
+            <option key={s.id} value={s.id}>{s.name}</option>
+          ))}
+        </select>
+      )}
+      {sprayer && (
+        <p className="text-xs text-gray-500 mb-3">{describeSprayerSetup(sprayer)}</p>
+      )}
+
+      <label className="block text-sm font-medium text-gray-700 mb-1 mt-2">
         Tank Size (gal)
       </label>
       <input
         type="number"
-        className="input-field mb-3"
+        className="input-field"
         value={tankSize || ''}
         onChange={(e) => onTankSizeChange(parseFloat(e.target.value) || 0)}
         min="0"
         step="10"
       />
-      <div className="flex flex-wrap gap-2 items-center">
-        {presets.map((size) => (
-          <span
-            key={size}
-            className={`inline-flex items-center gap-1 rounded text-sm font-medium transition-colors ${
-              tankSize === size
-                ? 'bg-ag-green-600 text-white'
-                : 'bg-gray-100 hover:bg-gray-200 text-gray-700'
-            }`}
-          >
-            <button
-              onClick={() => onTankSizeChange(size)}
-              className="px-2 py-1 pl-3"
-            >
-              {size}
-            </button>
-            <button
-              onClick={() => handleRemovePreset(size)}
-              className={`pr-2 py-1 text-xs hover:opacity-70 ${
-                tankSize === size ? 'text-white/70' : 'text-gray-400'
-              }`}
-              title="Remove preset"
-            >
-              x
-            </button>
-          </span>
-        ))}
+      {sprayer && sprayer.tankSize > 0 && tankSize !== sprayer.tankSize && (
         <button
-          onClick={handleAddPreset}
-          disabled={tankSize <= 0 || presets.includes(tankSize)}
-          className="px-2 py-1 rounded text-sm font-medium bg-gray-100 hover:bg-gray-200 text-gray-500 disabled:opacity-30 disabled:cursor-not-allowed transition-colors"
-          title="Save current value as preset"
+          onClick={() => onTankSizeChange(sprayer.tankSize)}
+          className="mt-2 text-xs text-blue-600 hover:text-blue-800"
         >
-          +
+          Reset to {sprayer.name} tank ({sprayer.tankSize} gal)
         </button>
-      </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,71 @@
+import React from 'react';
+import { ActiveWeatherLog } from '../../types';
+import { WEATHER_LOG_INTERVAL_MINUTES, formatLogTime, summarizeWeatherLog } from '../../utils/weatherLog';
+
+interface WeatherLogControlProps {
+  log: ActiveWeatherLog | null;
+  running: boolean;
+  onStart: () => void;
+  onStop: () => void;
+  onDiscard: () => void;
+}
+
+const WeatherLogControl: React.FC<WeatherLogControlProps> = ({ log, running, onStart, onStop, onDiscard }) => {
+  const summary = log ? summarizeWeatherLog(log.observations) : null;
+
+  if (!log) {
+    return (
+      <div className="flex items-center justify-between gap-3 border-t pt-3 mt-3">
+        <p className="text-sm text-gray-500">
+          Log weather every {WEATHER_LOG_INTERVAL_MINUTES} min while spraying for the record&apos;s audit trail
+        </p>
+        <button onClick={onStart} className="btn-secondary text-sm py-2 px-4 whitespace-nowrap">
+          Start Weather Log
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="border-t pt-3 mt-3 space-y-2">
+      <div className="flex items-center justify-between gap-3">
+        <div className="text-sm">
+          <div className="flex items-center gap-2 font-medium">
+            {running && <span className="w-2 h-2 rounded-full bg-red-500 animate-pulse" />}
+            {running
+              ? `Logging weather since ${formatLogTime(log.startedAt)}`
+              : `Weather logged ${formatLogTime(log.startedAt)}–${formatLogTime(log.endedAt!)}`}
+          </div>
+          <div className="text-gray-500">
+            {summary
+              ? `${summary.observations} observation${summary.observations !== 1 ? 's' : ''} · wind ${summary.minWind}–${summary.maxWind} mph`
+              : running ? 'Taking first observation...' : 'No observations logged'}
+            {!running && ' · attached when you save the record'}
+          </div>
+          {!!log.failedPolls && (
+            <div className="text-amber-700">
+              {log.failedPolls} poll{log.failedPolls !== 1 ? 's' : ''} skipped &mdash; weather unavailable
+            </div>
+          )}
+        </div>
+        {running ? (
+          <button onClick={onStop} className="btn-secondary text-sm py-2 px-4 whitespace-nowrap">
+            Stop Log
+          </button>
+        ) : (
+          <button onClick={onDiscard} className="text-sm text-red-600 hover:underline whitespace-nowrap">
+            Discard
+          </button>
+        )}
+      </div>
+      {summary && summary.excursions.length > 0 && (
+        <div className="p-3 bg-amber-50 border border-amber-200 rounded-lg text-sm text-amber-800">
+          Drift risk reached {summary.excursions.some((e) => e.peakRisk === 'extreme') ? 'extreme' : 'high'} at{' '}
+          {summary.excursions.map((e) => formatLogTime(e.start)).join(', ')} &mdash; this will be noted on the record.
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default WeatherLogControl;
@@ -1,7 +1,27 @@
 import React, { useState } from 'react';
 import { useWeather } from '../../hooks/useWeather';
+import NozzleRecommendation from './NozzleRecommendation';
+import RainfastAlert from './RainfastAlert';
+import { RainfastWarning } from '../../utils/rainfast';
+import { DRIFT_FACTOR_LABELS } from '../../utils/weatherService';
 
-const WeatherWidget: React.FC = () => {
+interface WeatherWidgetProps {
+  // Spray setup for the nozzle recommendation
+  targetGpa?: number;
+  speedMph?: number;
+  spacingInches?: number;
+  nozzleType?: string;
+  // Tank-mix products that need rain-free time before the forecast rain
+  rainfastWarnings?: RainfastWarning[];
+}
+
+const WeatherWidget: React.FC<WeatherWidgetProps> = ({
+  targetGpa = 15,
+  speedMph = 10,
+  spacingInches = 20,
+  nozzleType,
+  rainfastWarnings = [],
+}) => {
   const { weather, driftAssessment, loading, autoRefresh, setAutoRefresh, loadWeather, isGo, locationSource } =
     useWeather();
   const [open, setOpen] = useState(false);
@@ -64,6 +84,9 @@ const WeatherWidget: React.FC = () => {
         <div className="flex items-center gap-3">
           <h2 className="text-lg font-semibold">Weather Check</h2>
           {!open && badge}
+          {!open && rainfastWarnings.length > 0 && (
+            <span className="px-2 py-0.5 rounded text-xs font-bold bg-amber-100 text-amber-700">RAIN</span>
+          )}
           {loading && !weather && (
             <span className="text-xs text-gray-400">Loading...</span>
           )}
@@ -135,6 +158,8 @@ const WeatherWidget: React.FC = () => {
                 </div>
               </div>
 
+              <RainfastAlert warnings={rainfastWarnings} />
+
               <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
                 {/* Conditions */}
                 <div>
@@ -193,7 +218,9 @@ const WeatherWidget: React.FC = () => {
                         />
                         <div className="flex-1">
                           <div className="flex justify-between items-center">
-                            <span className="font-medium text-sm capitalize">{factor}</span>
+                            <span className="font-medium text-sm">
+                              {DRIFT_FACTOR_LABELS[factor as keyof typeof DRIFT_FACTOR_LABELS]}
+                            </span>
                             <span className="text-xs text-gray-500">Score: {data.score}</span>
                           </div>
                           <div className="text-xs text-gray-600">{data.impact}</div>
@@ -241,6 +268,18 @@ const WeatherWidget: React.FC = () => {
                   )}
                 </div>
               </div>
+
+              {/* Nozzle choice for the current drift risk */}
+              <div className="pt-4 border-t border-gray-200">
+                <h3 className="font-semibold mb-3">Nozzle &amp; Droplet Size</h3>
+                <NozzleRecommendation
+                  targetGpa={targetGpa}
+                  speedMph={speedMph}
+                  spacingInches={spacingInches}
+                  driftAssessment={driftAssessment}
+                  currentNozzleType={nozzleType}
+                />
+              </div>
             </>
           )}
         </div>
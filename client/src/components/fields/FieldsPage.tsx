@@ -1,7 +1,12 @@
 import React, { useState, useEffect, useMemo } from 'react';
-import { Field } from '../../types';
-import { getFields, saveField, deleteField } from '../../utils/storageService';
+import { Field, Product, SprayRecord } from '../../types';
+import { getFields, saveField, deleteField, getRecords, getProducts } from '../../utils/storageService';
+import { computeAllFieldStatuses, fieldStatusKey, formatIntervalEnd, FieldStatus } from '../../utils/sprayHistory';
+import { computeFieldMoaHistory, FieldMoaYear } from '../../utils/modeOfAction';
+import MoaHistoryList from '../records/MoaHistory';
 import { useCropYear } from '../../App';
+import { useFieldWeather } from '../../hooks/useFieldWeather';
+import FieldWeatherBadge from '../weather/FieldWeatherBadge';
 import FieldModal from './FieldModal';
 import ImportModal from './ImportModal';
 import BulkEditModal from './BulkEditModal';
@@ -10,6 +15,8 @@ import MergeBoundariesModal from './MergeBoundariesModal';
 const FieldsPage: React.FC = () => {
   const { cropYear } = useCropYear();
   const [fields, setFields] = useState<Field[]>([]);
+  const [records, setRecords] = useState<SprayRecord[]>([]);
+  const [products, setProducts] = useState<Product[]>([]);
   const [showFieldModal, setShowFieldModal] = useState(false);
   const [showImportModal, setShowImportModal] = useState(false);
   const [showBulkEditModal, setShowBulkEditModal] = useState(false);
@@ -34,8 +41,25 @@ const FieldsPage: React.FC = () => {
 
   useEffect(() => {
     reload();
+    getRecords().then(setRecords);
+    getProducts().then(setProducts);
   }, []);
 
+  const fieldStatuses = useMemo(
+    () => computeAllFieldStatuses(fields, records, products),
+    [fields, records, products]
+  );
+
+  const fieldWeather = useFieldWeather(fields);
+
+  const moaHistories = useMemo(() => {
+    const result = new Map<string, FieldMoaYear[]>();
+    for (const field of fields) {
+      result.set(field.id, computeFieldMoaHistory(records, products, field.id));
+    }
+    return result;
+  }, [fields, records, products]);
+
   // Clear selection when filters change
   useEffect(() => {
     setSelectedIds(new Set());
@@ -370,6 +394,9 @@ const FieldsPage: React.FC = () => {
                 <th className="text-left py-3 px-4 text-sm font-medium text-gray-600">Crop</th>
                 <th className="text-left py-3 px-4 text-sm font-medium text-gray-600">Location</th>
                 <th className="text-left py-3 px-4 text-sm font-medium text-gray-600">Microclimate</th>
+                <th className="text-left py-3 px-4 text-sm font-medium text-gray-600">Weather</th>
+                <th className="text-left py-3 px-4 text-sm font-medium text-gray-600">Field Status</th>
+                <th className="text-left py-3 px-4 text-sm font-medium text-gray-600">MOA Groups</th>
                 <th className="text-right py-3 px-4 text-sm font-medium text-gray-600">Actions</th>
               </tr>
             </thead>
@@ -400,6 +427,7 @@ const FieldsPage: React.FC = () => {
                           <div key={sf.id} className="text-xs text-ag-green-700 flex items-center gap-1">
                             <span className="text-gray-400">↳</span>
                             {sf.name} <span className="text-gray-400">({sf.acres} ac{sf.crop ? `, ${sf.crop}` : ''})</span>
+                            <FieldStatusBadge status={fieldStatuses.get(fieldStatusKey(field.id, sf.id))} compact />
                           </div>
                         ))}
                       </div>
@@ -426,6 +454,15 @@ const FieldsPage: React.FC = () => {
                       '—'
                     )}
                   </td>
+                  <td className="py-3 px-4">
+                    <FieldWeatherBadge weather={fieldWeather.get(field.id)} />
+                  </td>
+                  <td className="py-3 px-4">
+                    <FieldStatusBadge status={fieldStatuses.get(fieldStatusKey(field.id))} />
+                  </td>
+                  <td className="py-3 px-4">
+                    <MoaHistoryList history={moaHistories.get(field.id) || []} maxYears={3} />
+                  </td>
                   <td className="py-3 px-4 text-right">
                     <div className="flex gap-2 justify-end">
                       <button
@@ -532,4 +569,40 @@ const FieldsPage: React.FC = () => {
   );
 };
 
+// Re-entry / pre-harvest status derived from spray records
+const FieldStatusBadge: React.FC<{ status?: FieldStatus; compact?: boolean }> = ({ status, compact }) => {
+  if (!status || !status.lastApplication) {
+    return compact ? null : <span className="text-gray-400">—</span>;
+  }
+  if (status.underREI && status.reentryAt) {
+    return (
+      <span
+        className="px-2 py-0.5 bg-red-100 text-red-800 rounded text-xs font-medium whitespace-nowrap"
+        title={`Restricted entry: ${status.reiProducts.join(', ')}`}
+      >
+        REI until {formatIntervalEnd(status.reentryAt, true)}
+      </span>
+    );
+  }
+  if (status.underPHI && status.harvestAt) {
+    return (
+      <span
+        className="px-2 py-0.5 bg-amber-100 text-amber-800 rounded text-xs font-medium whitespace-nowrap"
+        title={`Pre-harvest interval: ${status.phiProducts.join(', ')}`}
+      >
+        No harvest until {formatIntervalEnd(status.harvestAt, false)}
+      </span>
+    );
+  }
+  if (compact) return null;
+  return (
+    <span
+      className="px-2 py-0.5 bg-green-100 text-green-800 rounded text-xs font-medium"
+      title={`Last sprayed ${status.lastApplication.toLocaleDateString()}`}
+    >
+      Clear
+    </span>
+  );
+};
+
 export default FieldsPage;
@@ -0,0 +1,148 @@
+import React, { useEffect, useState } from 'react';
+import { Applicator, JobPriority, PlannedJob } from '../../types';
+import { getApplicators, savePlannedJob } from '../../utils/storageService';
+import { JOB_PRIORITY_OPTIONS } from '../../utils/jobs';
+
+interface JobModalProps {
+  /** New job drafted from the calculator, or an existing job to edit */
+  job: PlannedJob;
+  isNew?: boolean;
+  onSave: (job: PlannedJob) => void;
+  onClose: () => void;
+}
+
+const JobModal: React.FC<JobModalProps> = ({ job, isNew, onSave, onClose }) => {
+  const [applicators, setApplicators] = useState<Applicator[]>([]);
+  const [name, setName] = useState(job.name);
+  const [startDate, setStartDate] = useState(job.startDate || '');
+  const [endDate, setEndDate] = useState(job.endDate || '');
+  const [applicatorId, setApplicatorId] = useState(job.applicatorId || '');
+  const [priority, setPriority] = useState<JobPriority>(job.priority || 'normal');
+  const [notes, setNotes] = useState(job.notes || '');
+
+  useEffect(() => {
+    getApplicators().then(setApplicators);
+  }, []);
+
+  const windowInvalid = !!startDate && !!endDate && endDate < startDate;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim() || windowInvalid) return;
+
+    const applicator = applicators.find((a) => a.id === applicatorId);
+    const saved: PlannedJob = {
+      ...job,
+      name: name.trim(),
+      startDate: startDate || undefined,
+      endDate: endDate || undefined,
+      applicatorId: applicator?.id,
+      applicatorName: applicator?.name,
+      priority,
+      status: job.status || 'planned',
+      notes: notes.trim() || undefined,
+    };
+
+    await savePlannedJob(saved);
+    onSave(saved);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg max-w-lg w-full p-6 max-h-[90vh] overflow-y-auto">
+        <h2 className="text-xl font-semibold mb-1">{isNew ? 'Plan Spray Job' : 'Edit Job'}</h2>
+        <p className="text-sm text-gray-500 mb-4">
+          {job.acres} ac &middot; {job.carrierRate} gal/ac &middot;{' '}
+          {job.products.map((p) => `${p.productName} @ ${p.rate}`).join(', ') || 'No products'}
+        </p>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+            <input
+              type="text"
+              className="input-field"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              required
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Start</label>
+              <input
+                type="date"
+                className="input-field"
+                value={startDate}
+                onChange={(e) => setStartDate(e.target.value)}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Finish By</label>
+              <input
+                type="date"
+                className="input-field"
+                value={endDate}
+                onChange={(e) => setEndDate(e.target.value)}
+              />
+            </div>
+          </div>
+          {windowInvalid && (
+            <p className="text-xs text-red-600 -mt-2">Finish date is before the start date</p>
+          )}
+
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Applicator</label>
+              <select
+                className="input-field"
+                value={applicatorId}
+                onChange={(e) => setApplicatorId(e.target.value)}
+              >
+                <option value="">Unassigned</option>
+                {applicators.map((a) => (
+                  <option key={a.id} value={a.id}>{a.name}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Priority</label>
+              <select
+                className="input-field"
+                value={priority}
+                onChange={(e) => setPriority(e.target.value as JobPriority)}
+              >
+                {JOB_PRIORITY_OPTIONS.map((o) => (
+                  <option key={o.value} value={o.value}>{o.label}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Notes</label>
+            <textarea
+              className="input-field"
+              rows={2}
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder="Instructions for the applicator"
+            />
+          </div>
+
+          <div className="flex gap-3 pt-2">
+            <button type="submit" className="btn-primary flex-1">
+              {isNew ? 'Add Job' : 'Update Job'}
+            </button>
+            <button type="button" onClick={onClose} className="btn-secondary flex-1">
+              Cancel
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default JobModal;
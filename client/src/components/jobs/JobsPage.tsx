@@ -0,0 +1,252 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { Field, PlannedJob, Product, SprayRecord } from '../../types';
+import {
+  getPlannedJobs,
+  savePlannedJob,
+  deletePlannedJob,
+  getFields,
+  getProducts,
+  saveRecord,
+} from '../../utils/storageService';
+import {
+  buildJobRecordPrefill,
+  describeJobWindow,
+  getJobFieldNames,
+  getJobPriority,
+  getJobStatus,
+  isJobOverdue,
+  sortJobQueue,
+} from '../../utils/jobs';
+import JobModal from './JobModal';
+import RecordModal from '../records/RecordModal';
+import ShoppingListModal from '../calculator/ShoppingListModal';
+
+const PRIORITY_STYLES: Record<string, string> = {
+  high: 'bg-red-100 text-red-700',
+  normal: 'bg-gray-100 text-gray-600',
+  low: 'bg-blue-50 text-blue-600',
+};
+
+const JobsPage: React.FC = () => {
+  const [jobs, setJobs] = useState<PlannedJob[]>([]);
+  const [fields, setFields] = useState<Field[]>([]);
+  const [products, setProducts] = useState<Product[]>([]);
+  const [editingJob, setEditingJob] = useState<PlannedJob | null>(null);
+  const [completingJob, setCompletingJob] = useState<PlannedJob | null>(null);
+  const [deleteConfirm, setDeleteConfirm] = useState<string | null>(null);
+  const [filterApplicator, setFilterApplicator] = useState('');
+  const [showCompleted, setShowCompleted] = useState(false);
+  const [showShoppingList, setShowShoppingList] = useState(false);
+
+  const reload = async () => {
+    setJobs(await getPlannedJobs());
+  };
+
+  useEffect(() => {
+    reload();
+    getFields().then(setFields);
+    getProducts().then(setProducts);
+  }, []);
+
+  const today = new Date().toISOString().split('T')[0];
+
+  const applicatorOptions = useMemo(
+    () => Array.from(new Set(jobs.map((j) => j.applicatorName).filter((n): n is string => !!n))).sort(),
+    [jobs]
+  );
+
+  const matchesApplicator = useCallback(
+    (job: PlannedJob) =>
+      !filterApplicator
+      || (filterApplicator === '__unassigned__' ? !job.applicatorName : job.applicatorName === filterApplicator),
+    [filterApplicator]
+  );
+
+  const pending = useMemo(
+    () => sortJobQueue(jobs.filter((j) => getJobStatus(j) === 'planned' && matchesApplicator(j))),
+    [jobs, matchesApplicator]
+  );
+  const completed = useMemo(
+    () => jobs
+      .filter((j) => getJobStatus(j) === 'completed' && matchesApplicator(j))
+      .sort((a, b) => (b.completedAt || '').localeCompare(a.completedAt || '')),
+    [jobs, matchesApplicator]
+  );
+
+  const handleComplete = async (record: SprayRecord) => {
+    if (!completingJob) return;
+    await saveRecord(record);
+    await savePlannedJob({
+      ...completingJob,
+      status: 'completed',
+      recordId: record.id,
+      completedAt: new Date().toISOString(),
+    });
+    setCompletingJob(null);
+    reload();
+  };
+
+  const handleReopen = async (job: PlannedJob) => {
+    await savePlannedJob({ ...job, status: 'planned', recordId: undefined, completedAt: undefined });
+    reload();
+  };
+
+  const handleDelete = async (id: string) => {
+    await deletePlannedJob(id);
+    setDeleteConfirm(null);
+    reload();
+  };
+
+  const renderJob = (job: PlannedJob) => {
+    const priority = getJobPriority(job);
+    const overdue = isJobOverdue(job, today);
+    const isCompleted = getJobStatus(job) === 'completed';
+
+    return (
+      <div key={job.id} className={`card ${overdue ? 'border-red-300' : ''}`}>
+        <div className="flex justify-between items-start gap-3">
+          <div className="flex-1 min-w-0">
+            <div className="flex items-center gap-2 flex-wrap">
+              <span className="font-semibold">{job.name}</span>
+              {!isCompleted && (
+                <span className={`px-1.5 py-0.5 rounded text-xs ${PRIORITY_STYLES[priority]}`}>
+                  {priority}
+                </span>
+              )}
+              <span className={`text-sm ${overdue ? 'text-red-600 font-medium' : 'text-gray-500'}`}>
+                {isCompleted && job.completedAt
+                  ? `Completed ${new Date(job.completedAt).toLocaleDateString()}`
+                  : overdue ? `Overdue · ${describeJobWindow(job)}` : describeJobWindow(job)}
+              </span>
+            </div>
+            <div className="text-sm text-gray-600 mt-1">
+              {job.applicatorName || 'Unassigned'} &middot; {job.acres} ac &middot; {job.carrierRate} gal/ac
+            </div>
+            <div className="text-sm text-gray-600">
+              {getJobFieldNames(job, fields).join(', ') || 'No fields'}
+            </div>
+            <div className="text-xs text-gray-500 mt-1">
+              {job.products.map((p) => `${p.productName} @ ${p.rate}`).join(' · ')}
+            </div>
+            {job.notes && <div className="text-xs text-gray-500 mt-1 italic">{job.notes}</div>}
+          </div>
+          <div className="flex flex-col items-end gap-2 flex-shrink-0">
+            {deleteConfirm === job.id ? (
+              <div className="flex gap-2">
+                <button onClick={() => handleDelete(job.id)} className="text-sm text-red-600 font-medium">
+                  Confirm Delete
+                </button>
+                <button onClick={() => setDeleteConfirm(null)} className="text-sm text-gray-500">
+                  Cancel
+                </button>
+              </div>
+            ) : isCompleted ? (
+              <div className="flex gap-3">
+                <button onClick={() => handleReopen(job)} className="text-sm text-blue-600 hover:text-blue-800">
+                  Reopen
+                </button>
+                <button onClick={() => setDeleteConfirm(job.id)} className="text-sm text-red-500 hover:text-red-700">
+                  Delete
+                </button>
+              </div>
+            ) : (
+              <>
+                <button onClick={() => setCompletingJob(job)} className="btn-primary text-sm py-1.5 px-3">
+                  Complete
+                </button>
+                <div className="flex gap-3">
+                  <button onClick={() => setEditingJob(job)} className="text-sm text-blue-600 hover:text-blue-800">
+                    Edit
+                  </button>
+                  <button onClick={() => setDeleteConfirm(job.id)} className="text-sm text-red-500 hover:text-red-700">
+                    Delete
+                  </button>
+                </div>
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="max-w-5xl mx-auto space-y-6">
+      <div className="flex justify-between items-center">
+        <h1 className="text-2xl font-bold">Spray Jobs</h1>
+        <button onClick={() => setShowShoppingList(true)} className="btn-secondary text-sm py-2 px-4">
+          Shopping List
+        </button>
+      </div>
+
+      <div className="flex flex-wrap gap-3 items-center">
+        <select
+          className="input-field w-auto"
+          value={filterApplicator}
+          onChange={(e) => setFilterApplicator(e.target.value)}
+        >
+          <option value="">All applicators</option>
+          <option value="__unassigned__">Unassigned</option>
+          {applicatorOptions.map((name) => (
+            <option key={name} value={name}>{name}</option>
+          ))}
+        </select>
+        <label className="flex items-center gap-2 text-sm">
+          <input
+            type="checkbox"
+            checked={showCompleted}
+            onChange={(e) => setShowCompleted(e.target.checked)}
+          />
+          Show completed ({completed.length})
+        </label>
+      </div>
+
+      {pending.length === 0 ? (
+        <div className="card text-center py-12">
+          <p className="text-gray-500">
+            No pending jobs. Plan a job from the Calculator with the fields and mix to apply.
+          </p>
+        </div>
+      ) : (
+        <div className="space-y-3">{pending.map(renderJob)}</div>
+      )}
+
+      {showCompleted && completed.length > 0 && (
+        <div className="space-y-3">
+          <h2 className="text-lg font-semibold text-gray-700">Completed</h2>
+          {completed.map(renderJob)}
+        </div>
+      )}
+
+      {editingJob && (
+        <JobModal
+          job={editingJob}
+          onSave={() => {
+            setEditingJob(null);
+            reload();
+          }}
+          onClose={() => setEditingJob(null)}
+        />
+      )}
+
+      {completingJob && (
+        <RecordModal
+          prefill={buildJobRecordPrefill(completingJob, fields, products, today)}
+          onSave={handleComplete}
+          onClose={() => setCompletingJob(null)}
+        />
+      )}
+
+      {showShoppingList && (
+        <ShoppingListModal
+          onClose={() => {
+            setShowShoppingList(false);
+            reload();
+          }}
+        />
+      )}
+    </div>
+  );
+};
+
+export default JobsPage;
@@ -1,10 +1,13 @@
 import React from 'react';
-import { Polygon, Marker, Popup } from 'react-leaflet';
+import { Polygon, Marker, Popup, Tooltip } from 'react-leaflet';
 import L from 'leaflet';
 import { Field } from '../../types';
+import { WeatherData } from '../../utils/weatherService';
+import FieldWeatherBadge from '../weather/FieldWeatherBadge';
 
 interface FieldLayerProps {
   fields: Field[];
+  fieldWeather?: Map<string, WeatherData>;   // shown as a badge on each field when given
 }
 
 // Simple green marker icon
@@ -20,7 +23,17 @@ const fieldIcon = new L.Icon({
   popupAnchor: [0, -12],
 });
 
-const FieldLayer: React.FC<FieldLayerProps> = ({ fields }) => {
+const FieldLayer: React.FC<FieldLayerProps> = ({ fields, fieldWeather }) => {
+  const weatherTooltip = (field: Field) => {
+    const weather = fieldWeather?.get(field.id);
+    if (!weather) return null;
+    return (
+      <Tooltip permanent direction="center" className="!bg-transparent !border-0 !shadow-none !p-0">
+        <FieldWeatherBadge weather={weather} />
+      </Tooltip>
+    );
+  };
+
   return (
     <>
       {fields.map((field) => {
@@ -38,6 +51,7 @@ const FieldLayer: React.FC<FieldLayerProps> = ({ fields }) => {
                   {field.crop && <div>Crop: {field.crop}</div>}
                 </div>
               </Popup>
+              {weatherTooltip(field)}
             </Polygon>
           );
         }
@@ -56,6 +70,7 @@ const FieldLayer: React.FC<FieldLayerProps> = ({ fields }) => {
                   {field.crop && <div>Crop: {field.crop}</div>}
                 </div>
               </Popup>
+              {weatherTooltip(field)}
             </Marker>
           );
         }
@@ -8,8 +8,14 @@ import FieldLayer from './FieldLayer';
 import DrawControls from './DrawControls';
 import RouteBuilder from './RouteBuilder';
 import PinManager from './PinManager';
+import SensitiveSiteManager from './SensitiveSiteManager';
+import { useWeather } from '../../hooks/useWeather';
+import { useFieldWeather } from '../../hooks/useFieldWeather';
 
-type MapMode = 'view' | 'draw' | 'route' | 'pins';
+type MapMode = 'view' | 'draw' | 'route' | 'pins' | 'sites';
+
+// Stable empty list so field weather isn't fetched until it's switched on
+const NO_FIELDS: Field[] = [];
 
 /** Inner component that can access the map instance via useMap() */
 function MapControls({ homeTarget }: { homeTarget: [number, number] | null }) {
@@ -34,7 +40,10 @@ const MapPage: React.FC = () => {
   const [center, setCenter] = useState<[number, number]>([40.0, -98.0]);
   const [homeTarget, setHomeTarget] = useState<[number, number] | null>(null);
   const [showLabels, setShowLabels] = useState(true);
+  const [showFieldWeather, setShowFieldWeather] = useState(false);
   const [mapRef, setMapRef] = useState<L.Map | null>(null);
+  const { weather } = useWeather();
+  const fieldWeather = useFieldWeather(showFieldWeather ? fields : NO_FIELDS);
 
   const loadHomeTarget = async () => {
     const pins = await getPins();
@@ -83,6 +92,7 @@ const MapPage: React.FC = () => {
     { key: 'draw', label: 'Draw Field' },
     { key: 'route', label: 'Route' },
     { key: 'pins', label: 'Pins' },
+    { key: 'sites', label: 'Sensitive' },
   ];
 
   return (
@@ -104,8 +114,8 @@ const MapPage: React.FC = () => {
         ))}
       </div>
 
-      {/* Map controls -- top right (visible when not in route or pins mode, which have their own panels) */}
-      {mode !== 'route' && mode !== 'pins' && (
+      {/* Map controls -- top right (visible when not in route, pins or sites mode, which have their own panels) */}
+      {mode !== 'route' && mode !== 'pins' && mode !== 'sites' && (
         <div className="absolute top-2 right-2 sm:top-4 sm:right-4 z-[1000] flex flex-col gap-2">
           {homeTarget && (
             <button
@@ -132,6 +142,19 @@ const MapPage: React.FC = () => {
             </svg>
             Roads
           </button>
+
+          <button
+            onClick={() => setShowFieldWeather((v) => !v)}
+            className={`bg-white rounded-lg shadow-lg px-3 py-2 text-sm font-medium transition-colors flex items-center gap-1.5 ${
+              showFieldWeather ? 'text-blue-700' : 'text-gray-500'
+            } hover:bg-gray-100`}
+            title={showFieldWeather ? 'Hide field weather' : 'Show wind and drift risk at each field'}
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor" className="w-4 h-4">
+              <path d="M2 7h10a2 2 0 1 0-2-2h-2a4 4 0 1 1 4 4H2V7zm0 4h13a3 3 0 1 1-3 3h2a1 1 0 1 0 1-1H2v-2z"/>
+            </svg>
+            Wind
+          </button>
         </div>
       )}
 
@@ -159,10 +182,16 @@ const MapPage: React.FC = () => {
 
         <ZoomControl position="bottomright" />
         <MapControls homeTarget={homeTarget} />
-        <FieldLayer fields={fields} />
+        <FieldLayer fields={fields} fieldWeather={showFieldWeather ? fieldWeather : undefined} />
         <DrawControls active={mode === 'draw'} onFieldCreated={reloadFields} />
         <RouteBuilder active={mode === 'route'} />
         <PinManager active={mode === 'pins'} onPinsChanged={handlePinsChanged} />
+        <SensitiveSiteManager
+          active={mode === 'sites'}
+          fields={fields}
+          windDirection={weather?.windDirection}
+          windSpeed={weather?.windSpeed}
+        />
       </MapContainer>
     </div>
   );
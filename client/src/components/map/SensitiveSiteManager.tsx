@@ -0,0 +1,280 @@
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { useMap } from 'react-leaflet';
+import L from 'leaflet';
+import { BufferSettings, Field, SensitiveSite, SensitiveSiteType } from '../../types';
+import {
+  getSensitiveSites,
+  saveSensitiveSite,
+  deleteSensitiveSite,
+  getBufferSettings,
+  saveBufferSettings,
+} from '../../utils/storageService';
+import {
+  DEFAULT_BUFFER_SETTINGS,
+  SENSITIVE_SITE_TYPES,
+  compassToDegrees,
+  degreesToCompass,
+  findDownwindSites,
+  getSiteTypeInfo,
+} from '../../utils/driftBuffer';
+
+interface SensitiveSiteManagerProps {
+  active: boolean;
+  fields: Field[];
+  windDirection?: string;
+  windSpeed?: number;
+}
+
+function makeSiteIcon(color: string, downwind: boolean) {
+  const size = downwind ? 28 : 22;
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" width="${size}" height="${size}">
+      <path d="M12 1 L23 12 L12 23 L1 12 Z" fill="${color}" stroke="${downwind ? '#dc2626' : 'white'}" stroke-width="${downwind ? 3 : 1.5}"/>
+      <circle cx="12" cy="12" r="3.5" fill="white"/>
+    </svg>`;
+  return new L.Icon({
+    iconUrl: 'data:image/svg+xml;base64,' + btoa(svg),
+    iconSize: [size, size],
+    iconAnchor: [size / 2, size / 2],
+    popupAnchor: [0, -size / 2],
+  });
+}
+
+const SensitiveSiteManager: React.FC<SensitiveSiteManagerProps> = ({ active, fields, windDirection, windSpeed }) => {
+  const map = useMap();
+  const [sites, setSites] = useState<SensitiveSite[]>([]);
+  const [settings, setSettings] = useState<BufferSettings>(DEFAULT_BUFFER_SETTINGS);
+  const [placing, setPlacing] = useState(false);
+  const [newName, setNewName] = useState('');
+  const [newType, setNewType] = useState<SensitiveSiteType>('organic');
+  const [fieldId, setFieldId] = useState('');
+  const [confirmDeleteId, setConfirmDeleteId] = useState<string | null>(null);
+  const [collapsed, setCollapsed] = useState(false);
+
+  const panelCallbackRef = useCallback((el: HTMLDivElement | null) => {
+    if (el) {
+      L.DomEvent.disableScrollPropagation(el);
+      L.DomEvent.disableClickPropagation(el);
+    }
+  }, []);
+
+  const reloadSites = async () => {
+    setSites(await getSensitiveSites());
+  };
+
+  useEffect(() => {
+    reloadSites();
+    getBufferSettings().then(setSettings);
+  }, []);
+
+  const mappedFields = useMemo(
+    () => fields.filter((f) => (f.boundary && f.boundary.length >= 3) || (f.latitude && f.longitude)),
+    [fields]
+  );
+  const selectedField = mappedFields.find((f) => f.id === fieldId);
+
+  const downwind = useMemo(
+    () => (selectedField ? findDownwindSites([selectedField], sites, windDirection, settings.distanceFeet) : []),
+    [selectedField, sites, windDirection, settings.distanceFeet]
+  );
+  const downwindIds = useMemo(() => new Set(downwind.map((d) => d.site.id)), [downwind]);
+
+  // Site markers (always shown) and the selected field outline
+  useEffect(() => {
+    const layers: L.Layer[] = [];
+
+    for (const site of sites) {
+      const info = getSiteTypeInfo(site.type);
+      const marker = L.marker([site.latitude, site.longitude], {
+        icon: makeSiteIcon(info.color, downwindIds.has(site.id)),
+      }).addTo(map);
+      marker.bindTooltip(`${site.name} (${info.label})`, { direction: 'top' });
+      layers.push(marker);
+    }
+
+    if (active && selectedField) {
+      const outline = selectedField.boundary && selectedField.boundary.length >= 3
+        ? L.polygon(selectedField.boundary, { color: '#f97316', weight: 3, fill: false, dashArray: '6 4' })
+        : L.circle([selectedField.latitude!, selectedField.longitude!], { radius: 30, color: '#f97316' });
+      layers.push(outline.addTo(map));
+    }
+
+    return () => layers.forEach((l) => map.removeLayer(l));
+  }, [map, sites, downwindIds, active, selectedField]);
+
+  // Map click -> place site
+  useEffect(() => {
+    if (!active || !placing) return;
+    const handler = async (e: L.LeafletMouseEvent) => {
+      const info = getSiteTypeInfo(newType);
+      const site: SensitiveSite = {
+        id: Date.now().toString(),
+        name: newName.trim() || `${info.label} ${sites.filter((s) => s.type === newType).length + 1}`,
+        type: newType,
+        latitude: e.latlng.lat,
+        longitude: e.latlng.lng,
+      };
+      await saveSensitiveSite(site);
+      await reloadSites();
+      setNewName('');
+      setPlacing(false);
+    };
+    map.on('click', handler);
+    return () => { map.off('click', handler); };
+  }, [active, placing, map, newName, newType, sites]);
+
+  const handleDistanceChange = (distanceFeet: number) => {
+    const updated = { ...settings, distanceFeet };
+    setSettings(updated);
+    saveBufferSettings(updated);
+  };
+
+  const doDeleteSite = async (id: string) => {
+    await deleteSensitiveSite(id);
+    await reloadSites();
+    setConfirmDeleteId(null);
+  };
+
+  if (!active) return null;
+
+  const from = windDirection ? compassToDegrees(windDirection) : null;
+
+  return (
+    <div
+      ref={panelCallbackRef}
+      className="absolute bottom-2 left-2 right-2 sm:bottom-auto sm:left-auto sm:top-4 sm:right-4 sm:w-80 z-[1000] bg-white rounded-lg shadow-lg flex flex-col"
+      style={{ maxHeight: 'calc(100% - 60px)' }}
+    >
+      <div
+        className="p-3 border-b flex items-center justify-between flex-shrink-0 cursor-pointer select-none"
+        onClick={() => setCollapsed((v) => !v)}
+      >
+        <div className="flex items-center gap-2">
+          <h3 className="font-semibold text-sm">Sensitive Sites</h3>
+          {sites.length > 0 && <span className="text-xs text-gray-400">{sites.length}</span>}
+        </div>
+        <span className="text-gray-400 text-xs">{collapsed ? '▼' : '▲'}</span>
+      </div>
+
+      {!collapsed && (
+        <div className="overflow-y-auto overscroll-contain p-3 space-y-3">
+          {/* Add site */}
+          <div className="space-y-2">
+            <div className="flex gap-2">
+              <input
+                type="text"
+                className="flex-1 min-w-0 text-sm border rounded px-2 py-1.5"
+                value={newName}
+                onChange={(e) => setNewName(e.target.value)}
+                placeholder="Name (optional)"
+              />
+              <select
+                className="text-sm border rounded px-2 py-1.5"
+                value={newType}
+                onChange={(e) => setNewType(e.target.value as SensitiveSiteType)}
+              >
+                {SENSITIVE_SITE_TYPES.map((t) => (
+                  <option key={t.value} value={t.value}>{t.label}</option>
+                ))}
+              </select>
+            </div>
+            <button
+              onClick={() => setPlacing(!placing)}
+              className={`w-full text-sm py-2 px-3 rounded font-medium ${
+                placing ? 'bg-red-100 text-red-700 border border-red-300' : 'bg-gray-100 text-gray-700 active:bg-gray-200'
+              }`}
+            >
+              {placing ? 'Tap map to place... (cancel)' : 'Place Site'}
+            </button>
+          </div>
+
+          {/* Downwind check */}
+          <div className="border-t pt-3 space-y-2">
+            <div className="flex items-center gap-2 text-sm">
+              <label className="text-gray-600">Buffer</label>
+              <input
+                type="number"
+                className="w-20 text-sm border rounded px-2 py-1"
+                value={settings.distanceFeet || ''}
+                onChange={(e) => handleDistanceChange(parseFloat(e.target.value) || 0)}
+                min="0"
+                step="50"
+              />
+              <span className="text-gray-600">ft</span>
+            </div>
+            <select
+              className="w-full text-sm border rounded px-2 py-1.5"
+              value={fieldId}
+              onChange={(e) => setFieldId(e.target.value)}
+            >
+              <option value="">Check a field...</option>
+              {mappedFields.map((f) => (
+                <option key={f.id} value={f.id}>{f.name}</option>
+              ))}
+            </select>
+            <p className="text-xs text-gray-500">
+              {from != null
+                ? `Wind from ${windDirection}${windSpeed != null ? ` at ${Math.round(windSpeed)} mph` : ''} — drift heads ${degreesToCompass(from + 180)}`
+                : 'Wind direction unknown — checking all directions'}
+            </p>
+            {selectedField && (
+              downwind.length === 0 ? (
+                <p className="text-xs text-green-700 bg-green-50 border border-green-200 rounded p-2">
+                  No sensitive sites downwind within {settings.distanceFeet} ft.
+                </p>
+              ) : (
+                <ul className="text-xs text-red-700 bg-red-50 border border-red-200 rounded p-2 space-y-0.5">
+                  {downwind.map((d) => (
+                    <li key={d.site.id}>
+                      {d.site.name} ({getSiteTypeInfo(d.site.type).label.toLowerCase()}):{' '}
+                      {d.distanceFeet === 0 ? 'inside the field' : `${d.distanceFeet} ft ${degreesToCompass(d.bearing)}`}
+                    </li>
+                  ))}
+                </ul>
+              )
+            )}
+          </div>
+
+          {/* Delete confirmation */}
+          {confirmDeleteId && (
+            <div className="flex items-center gap-2 bg-red-50 border border-red-200 rounded p-2">
+              <span className="text-xs text-red-700 flex-1">Delete "{sites.find((s) => s.id === confirmDeleteId)?.name}"?</span>
+              <button onClick={() => doDeleteSite(confirmDeleteId)} className="text-xs py-1 px-3 rounded bg-red-600 text-white font-medium">Delete</button>
+              <button onClick={() => setConfirmDeleteId(null)} className="text-xs py-1 px-3 rounded bg-gray-200 text-gray-700">Cancel</button>
+            </div>
+          )}
+
+          {/* Site list */}
+          {sites.length > 0 ? (
+            <div className="space-y-1 max-h-40 overflow-y-auto overscroll-contain border-t pt-3">
+              {sites.map((site) => (
+                <div key={site.id} className="flex items-center gap-2 text-sm bg-gray-50 rounded p-1.5">
+                  <span className="w-3 h-3 rotate-45 flex-shrink-0" style={{ backgroundColor: getSiteTypeInfo(site.type).color }} />
+                  <button
+                    onClick={() => map.flyTo([site.latitude, site.longitude], 16, { duration: 1 })}
+                    className={`flex-1 text-left truncate min-w-0 ${downwindIds.has(site.id) ? 'text-red-700 font-medium' : 'text-gray-700'}`}
+                  >
+                    {site.name}
+                  </button>
+                  <button
+                    onClick={() => setConfirmDeleteId(site.id)}
+                    className="text-red-400 active:text-red-600 text-base w-7 h-7 flex items-center justify-center flex-shrink-0"
+                  >
+                    &times;
+                  </button>
+                </div>
+              ))}
+            </div>
+          ) : (
+            !placing && (
+              <p className="text-xs text-gray-400 text-center py-2">
+                Mark organic fields, apiaries, water and residences to check drift buffers.
+              </p>
+            )
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SensitiveSiteManager;
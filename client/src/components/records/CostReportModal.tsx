@@ -0,0 +1,172 @@
+import React, { useMemo, useState } from 'react';
+import { Field, Product, ProductCategory, SprayRecord } from '../../types';
+import {
+  buildCostReport,
+  COST_GROUP_LABELS,
+  CostGroupBy,
+  costReportToCsv,
+  formatCurrency,
+  getFarmNames,
+} from '../../utils/costs';
+import { PRODUCT_CATEGORY_OPTIONS } from '../../utils/compatibilityRules';
+import { getRecordCropYear } from '../../utils/sprayHistory';
+import { downloadFile } from '../../utils/exportService';
+
+interface CostReportModalProps {
+  records: SprayRecord[];
+  fields: Field[];
+  products: Product[];
+  cropYear: string;
+  onClose: () => void;
+}
+
+const CostReportModal: React.FC<CostReportModalProps> = ({
+  records,
+  fields,
+  products,
+  cropYear,
+  onClose,
+}) => {
+  const [groupBy, setGroupBy] = useState<CostGroupBy>('field');
+  const [year, setYear] = useState(cropYear);
+  const [farm, setFarm] = useState('');
+  const [category, setCategory] = useState<ProductCategory | ''>('');
+
+  const years = useMemo(
+    () => Array.from(new Set([cropYear, ...records.map(getRecordCropYear)])).sort().reverse(),
+    [records, cropYear]
+  );
+  const farms = useMemo(() => getFarmNames(fields), [fields]);
+
+  const report = useMemo(
+    () => buildCostReport(records, fields, products, {
+      groupBy,
+      cropYear: year || undefined,
+      farm: farm || undefined,
+      category: category || undefined,
+    }),
+    [records, fields, products, groupBy, year, farm, category]
+  );
+
+  const handleCsv = () => {
+    const parts = [year || 'all-years', farm, category].filter(Boolean).map((p) => p.toLowerCase().replace(/\s+/g, '-'));
+    downloadFile(
+      costReportToCsv(report, groupBy),
+      `spray-costs-by-${groupBy === 'cropYear' ? 'crop-year' : groupBy}-${parts.join('-')}.csv`,
+      'text/csv'
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg max-w-2xl w-full p-6 max-h-[90vh] overflow-y-auto">
+        <h2 className="text-xl font-semibold mb-4">Cost Report</h2>
+
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 mb-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Group By</label>
+            <select
+              className="input-field"
+              value={groupBy}
+              onChange={(e) => setGroupBy(e.target.value as CostGroupBy)}
+            >
+              {(Object.keys(COST_GROUP_LABELS) as CostGroupBy[]).map((key) => (
+                <option key={key} value={key}>{COST_GROUP_LABELS[key]}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Crop Year</label>
+            <select className="input-field" value={year} onChange={(e) => setYear(e.target.value)}>
+              <option value="">All years</option>
+              {years.map((y) => (
+                <option key={y} value={y}>{y}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Farm</label>
+            <select className="input-field" value={farm} onChange={(e) => setFarm(e.target.value)}>
+              <option value="">All farms</option>
+              {farms.map((f) => (
+                <option key={f} value={f}>{f}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Products</label>
+            <select
+              className="input-field"
+              value={category}
+              onChange={(e) => setCategory(e.target.value as ProductCategory | '')}
+            >
+              <option value="">All products</option>
+              {PRODUCT_CATEGORY_OPTIONS.map((o) => (
+                <option key={o.value} value={o.value}>{o.label}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        {report.rows.length === 0 ? (
+          <p className="text-sm text-gray-400 mb-4">No applications match these filters.</p>
+        ) : (
+          <div className="overflow-x-auto border rounded mb-4">
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="text-left p-2 font-medium">{COST_GROUP_LABELS[groupBy]}</th>
+                  <th className="text-right p-2 font-medium">Apps</th>
+                  <th className="text-right p-2 font-medium">Acres</th>
+                  <th className="text-right p-2 font-medium">Cost</th>
+                  <th className="text-right p-2 font-medium">$/ac</th>
+                </tr>
+              </thead>
+              <tbody>
+                {report.rows.map((row) => (
+                  <tr key={row.label} className="border-t">
+                    <td className="p-2">{row.label}</td>
+                    <td className="p-2 text-right">{row.applications}</td>
+                    <td className="p-2 text-right">{row.acres}</td>
+                    <td className="p-2 text-right">{formatCurrency(row.cost)}</td>
+                    <td className="p-2 text-right">{formatCurrency(row.costPerAcre)}</td>
+                  </tr>
+                ))}
+                <tr className="border-t bg-gray-50 font-semibold">
+                  <td className="p-2">Total</td>
+                  <td className="p-2" />
+                  <td className="p-2 text-right">{report.totalAcres}</td>
+                  <td className="p-2 text-right">{formatCurrency(report.totalCost)}</td>
+                  <td className="p-2" />
+                </tr>
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {report.unpricedLines > 0 && (
+          <div className="p-3 bg-amber-50 border border-amber-200 rounded-lg text-xs text-amber-800 mb-4">
+            {report.unpricedLines} product application{report.unpricedLines !== 1 ? 's have' : ' has'} no
+            price and {report.unpricedLines !== 1 ? 'are' : 'is'} not counted. Set unit prices in Settings &rarr; Products.
+          </div>
+        )}
+
+        <p className="text-xs text-gray-500 mb-4">
+          Costs use the price saved on each record, or the product price in effect on the spray date.
+          Multi-field records are split by sprayed acres.
+        </p>
+
+        <div className="flex gap-3">
+          <button onClick={handleCsv} disabled={report.rows.length === 0} className="btn-primary flex-1">
+            Download CSV
+          </button>
+          <button onClick={onClose} className="btn-secondary flex-1">
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CostReportModal;
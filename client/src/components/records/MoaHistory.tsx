@@ -0,0 +1,47 @@
+import React from 'react';
+import { FieldMoaYear } from '../../utils/modeOfAction';
+
+const SYSTEM_STYLES: Record<string, string> = {
+  HRAC: 'bg-green-100 text-green-800',
+  FRAC: 'bg-purple-100 text-purple-800',
+  IRAC: 'bg-orange-100 text-orange-800',
+};
+
+export const MoaGroupBadge: React.FC<{ group: string; title?: string; count?: number }> = ({ group, title, count }) => {
+  const system = group.split(' ')[0];
+  return (
+    <span
+      className={`px-1.5 py-0.5 rounded text-xs font-medium whitespace-nowrap ${SYSTEM_STYLES[system] || 'bg-gray-100 text-gray-700'}`}
+      title={title}
+    >
+      {group}
+      {count && count > 1 ? ` ×${count}` : ''}
+    </span>
+  );
+};
+
+interface MoaHistoryListProps {
+  history: FieldMoaYear[];
+  maxYears?: number;
+}
+
+/** MOA groups used on a field, one line per crop year. */
+const MoaHistoryList: React.FC<MoaHistoryListProps> = ({ history, maxYears }) => {
+  if (history.length === 0) return <span className="text-gray-400">—</span>;
+  const years = maxYears ? history.slice(0, maxYears) : history;
+
+  return (
+    <div className="space-y-1">
+      {years.map((y) => (
+        <div key={y.cropYear} className="flex items-center gap-1 flex-wrap">
+          <span className="text-xs text-gray-500 w-10">{y.cropYear}</span>
+          {y.groups.map((g) => (
+            <MoaGroupBadge key={g.group} group={g.group} count={g.count} title={g.products.join(', ')} />
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default MoaHistoryList;
@@ -0,0 +1,191 @@
+import React, { useState, useRef } from 'react';
+import { Field, Product, SprayRecord } from '../../types';
+import { mergeImportedRecord, parseRecordsCSV, parseRecordsExcel, ParsedRecordImport } from '../../utils/importService';
+
+interface RecordImportModalProps {
+  existingRecords: SprayRecord[];
+  fields: Field[];
+  products: Product[];
+  onImport: (records: SprayRecord[]) => void;
+  onClose: () => void;
+}
+
+const CONFIDENCE_STYLES: Record<string, string> = {
+  high: 'bg-green-100 text-green-700',
+  medium: 'bg-yellow-100 text-yellow-700',
+  low: 'bg-orange-100 text-orange-700',
+  none: 'bg-red-100 text-red-700',
+};
+
+const RecordImportModal: React.FC<RecordImportModalProps> = ({
+  existingRecords,
+  fields,
+  products,
+  onImport,
+  onClose,
+}) => {
+  const [parsed, setParsed] = useState<ParsedRecordImport[]>([]);
+  const [skippedRows, setSkippedRows] = useState<number[]>([]);
+  const [error, setError] = useState('');
+  const [fileName, setFileName] = useState('');
+  const [replaceExisting, setReplaceExisting] = useState(false);
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  const existingIds = new Set(existingRecords.map((r) => r.id));
+  const duplicates = parsed.filter((p) => existingIds.has(p.record.id)).length;
+  const toImport = replaceExisting ? parsed : parsed.filter((p) => !existingIds.has(p.record.id));
+  const unmatchedCount = parsed.reduce(
+    (sum, p) => sum + p.fieldMatches.filter((m) => !m.fieldId).length,
+    0
+  );
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    setError('');
+    setParsed([]);
+    setSkippedRows([]);
+    setFileName(file.name);
+
+    try {
+      const isExcel = /\.xlsx?$/i.test(file.name);
+      const result = isExcel
+        ? parseRecordsExcel(await file.arrayBuffer(), fields, products)
+        : parseRecordsCSV(await file.text(), fields, products);
+
+      if (result.records.length === 0) {
+        setError('No spray records found in file. Use a file exported from this page.');
+        return;
+      }
+
+      setParsed(result.records);
+      setSkippedRows(result.skippedRows);
+    } catch (err) {
+      setError(`Failed to parse file: ${err instanceof Error ? err.message : 'Unknown error'}`);
+    }
+  };
+
+  const handleImport = () => {
+    if (toImport.length === 0) return;
+    onImport(toImport.map(({ record }) => {
+      const existing = existingRecords.find((r) => r.id === record.id);
+      return existing ? mergeImportedRecord(existing, record) : record;
+    }));
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg max-w-2xl w-full p-6 max-h-[90vh] overflow-y-auto">
+        <h2 className="text-xl font-semibold mb-4">Import Spray Records</h2>
+
+        <div className="bg-gray-50 rounded p-3 mb-4 text-sm text-gray-600">
+          <p className="font-medium mb-1">CSV / Excel Format</p>
+          <p>Use the layout from Export CSV or Export Excel: one row per product, grouped by Record ID.</p>
+          <p className="text-xs mt-1">
+            Field names are matched to your fields by name or field number. Unmatched names are kept as text.
+          </p>
+        </div>
+
+        <div className="mb-4">
+          <input
+            ref={fileRef}
+            type="file"
+            accept=".csv,.xlsx,.xls"
+            onChange={handleFile}
+            className="block w-full text-sm text-gray-500 file:mr-4 file:py-2 file:px-4 file:rounded file:border-0 file:text-sm file:font-semibold file:bg-ag-green-50 file:text-ag-green-700 hover:file:bg-ag-green-100"
+          />
+          {fileName && (
+            <p className="text-xs text-gray-500 mt-1">Selected: {fileName}</p>
+          )}
+        </div>
+
+        {error && (
+          <div className="p-3 bg-red-50 border border-red-200 rounded text-sm text-red-700 mb-4">
+            {error}
+          </div>
+        )}
+
+        {parsed.length > 0 && (
+          <div className="mb-4 space-y-3">
+            <h3 className="font-medium">Preview ({parsed.length} records)</h3>
+            {(skippedRows.length > 0 || unmatchedCount > 0) && (
+              <div className="p-3 bg-amber-50 border border-amber-200 rounded text-xs text-amber-800 space-y-1">
+                {skippedRows.length > 0 && (
+                  <p>Skipped row{skippedRows.length !== 1 ? 's' : ''} {skippedRows.join(', ')}: missing or unreadable date.</p>
+                )}
+                {unmatchedCount > 0 && (
+                  <p>{unmatchedCount} field name{unmatchedCount !== 1 ? 's' : ''} did not match an existing field.</p>
+                )}
+              </div>
+            )}
+            <div className="overflow-x-auto border rounded max-h-64 overflow-y-auto">
+              <table className="w-full text-sm">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="text-left p-2 font-medium">Date</th>
+                    <th className="text-left p-2 font-medium">Fields</th>
+                    <th className="text-left p-2 font-medium">Products</th>
+                    <th className="text-left p-2 font-medium">Status</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {parsed.map(({ record, fieldMatches }) => (
+                    <tr key={record.id} className="border-t align-top">
+                      <td className="p-2 whitespace-nowrap">{record.date}</td>
+                      <td className="p-2">
+                        <div className="flex flex-wrap gap-1">
+                          {fieldMatches.map((m) => (
+                            <span
+                              key={m.name}
+                              className={`px-1.5 py-0.5 rounded text-xs ${CONFIDENCE_STYLES[m.confidence]}`}
+                              title={m.reason}
+                            >
+                              {m.matchedName && m.matchedName !== m.name ? `${m.name} → ${m.matchedName}` : m.name}
+                            </span>
+                          ))}
+                        </div>
+                      </td>
+                      <td className="p-2 text-gray-600">
+                        {record.products.map((p) => p.productName).join(', ') || '—'}
+                      </td>
+                      <td className="p-2 text-xs whitespace-nowrap">
+                        {existingIds.has(record.id)
+                          ? <span className="text-gray-500">{replaceExisting ? 'Update' : 'Exists'}</span>
+                          : <span className="text-ag-green-700">New</span>}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            {duplicates > 0 && (
+              <label className="flex items-center gap-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={replaceExisting}
+                  onChange={(e) => setReplaceExisting(e.target.checked)}
+                />
+                Update {duplicates} existing record{duplicates !== 1 ? 's' : ''} from the imported version
+              </label>
+            )}
+          </div>
+        )}
+
+        {/* Actions */}
+        <div className="flex gap-3">
+          {toImport.length > 0 && (
+            <button onClick={handleImport} className="btn-primary flex-1">
+              Import {toImport.length} Record{toImport.length !== 1 ? 's' : ''}
+            </button>
+          )}
+          <button onClick={onClose} className="btn-secondary flex-1">
+            Cancel
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RecordImportModal;
@@ -1,6 +1,14 @@
-import React, { useState, useEffect } from 'react';
-import { SprayRecord, SprayRecordProduct, SprayedField, Field, Applicator } from '../../types';
-import { getFields, getApplicators } from '../../utils/storageService';
+import React, { useState, useEffect, useMemo } from 'react';
+import { SprayRecord, SprayRecordProduct, SprayedField, Field, Applicator, Product, VarianceSettings, SprayerProfile, SprayRecordSprayer } from '../../types';
+import { getFields, getApplicators, getRecords, getProducts, getVarianceSettings, getSprayers } from '../../utils/storageService';
+import { checkLabelCompliance } from '../../utils/labelCompliance';
+import LabelComplianceAlert from '../calculator/LabelComplianceAlert';
+import VarianceTable from './VarianceTable';
+import { computeRecordVariance, DEFAULT_VARIANCE_SETTINGS } from '../../utils/variance';
+import { describeSprayerSetup, toRecordSprayer } from '../../utils/sprayers';
+import { summarizeWeatherLog } from '../../utils/weatherLog';
+import { convertRateToAmount } from '../../utils/loadCalculations';
+import { resolveRecordProduct } from '../../utils/sprayHistory';
 import { useCropYear } from '../../App';
 
 // Field selection with partial acre support
@@ -22,6 +30,8 @@ const RecordModal: React.FC<RecordModalProps> = ({ prefill, onSave, onClose }) =
   const [fields, setFields] = useState<Field[]>([]);
   const [applicators, setApplicators] = useState<Applicator[]>([]);
   const [date, setDate] = useState(prefill?.date || new Date().toISOString().split('T')[0]);
+  const [startTime, setStartTime] = useState(prefill?.startTime || '');
+  const [endTime, setEndTime] = useState(prefill?.endTime || '');
 
   // Initialize field selections from prefill sprayedFields or fallback to legacy fieldIds
   const initializeSelections = (): FieldSelection[] => {
@@ -53,10 +63,18 @@ const RecordModal: React.FC<RecordModalProps> = ({ prefill, onSave, onClose }) =
   const [operator, setOperator] = useState(prefill?.operator || '');
   const [operatorMode, setOperatorMode] = useState<'select' | 'other'>('select');
   const [tankSize, setTankSize] = useState(prefill?.tankSize || 300);
+  const [sprayers, setSprayers] = useState<SprayerProfile[]>([]);
+  const [sprayer, setSprayer] = useState<SprayRecordSprayer | undefined>(prefill?.sprayer);
   const [carrierRate, setCarrierRate] = useState(prefill?.carrierRate || 20);
   const [acres, setAcres] = useState(prefill?.acres || 0);
   const [notes, setNotes] = useState(prefill?.notes || '');
   const [products, setProducts] = useState<SprayRecordProduct[]>(prefill?.products || []);
+  const [records, setRecords] = useState<SprayRecord[]>([]);
+  const [productLibrary, setProductLibrary] = useState<Product[]>([]);
+  const [overrideLimits, setOverrideLimits] = useState(false);
+  const [actualVolume, setActualVolume] = useState(prefill?.actualVolume ?? 0);
+  const [leftoverVolume, setLeftoverVolume] = useState(prefill?.leftoverVolume ?? 0);
+  const [varianceSettings, setVarianceSettings] = useState<VarianceSettings>(DEFAULT_VARIANCE_SETTINGS);
 
   useEffect(() => {
     getFields().then((loadedFields) => {
@@ -74,6 +92,10 @@ const RecordModal: React.FC<RecordModalProps> = ({ prefill, onSave, onClose }) =
         );
       }
     });
+    getRecords().then(setRecords);
+    getProducts().then(setProductLibrary);
+    getVarianceSettings().then(setVarianceSettings);
+    getSprayers().then(setSprayers);
     getApplicators().then((loadedApplicators) => {
       setApplicators(loadedApplicators);
       // If prefill has an operator that's not in the list, switch to "other" mode
@@ -179,6 +201,36 @@ const RecordModal: React.FC<RecordModalProps> = ({ prefill, onSave, onClose }) =
   const getSelection = (fieldId: string, subFieldId?: string) =>
     fieldSelections.find((s) => s.fieldId === fieldId && s.subFieldId === subFieldId);
 
+  const complianceIssues = useMemo(
+    () => checkLabelCompliance({
+      products: productLibrary,
+      records,
+      fields,
+      cropYear: prefill?.cropYear || cropYear,
+      targets: fieldSelections.map((sel) => ({ fieldId: sel.fieldId, subFieldId: sel.subFieldId })),
+      application: products,
+      carrierRate,
+      excludeRecordId: prefill?.id,
+    }),
+    [productLibrary, records, fields, prefill?.cropYear, prefill?.id, cropYear, fieldSelections, products, carrierRate]
+  );
+  const hasComplianceErrors = complianceIssues.some((i) => i.severity === 'error');
+
+  // Applied values against the calculated plan, for records saved from the calculator or a job
+  const variance = useMemo(
+    () => computeRecordVariance({
+      planned: prefill?.planned,
+      products,
+      acres,
+      carrierRate,
+      actualVolume: actualVolume > 0 ? actualVolume : undefined,
+      leftoverVolume,
+    }),
+    [prefill?.planned, products, acres, carrierRate, actualVolume, leftoverVolume]
+  );
+
+  const weatherLogSummary = useMemo(() => summarizeWeatherLog(prefill?.weatherLog || []), [prefill?.weatherLog]);
+
   const addProduct = () => {
     setProducts([
       ...products,
@@ -198,6 +250,16 @@ const RecordModal: React.FC<RecordModalProps> = ({ prefill, onSave, onClose }) =
     setProducts((prev) => prev.filter((_, i) => i !== index));
   };
 
+  // Picking a sprayer fills its tank size and calibrated rate
+  const handleSprayerChange = (id: string) => {
+    if (id === sprayer?.id) return;
+    const profile = sprayers.find((s) => s.id === id);
+    setSprayer(profile ? toRecordSprayer(profile) : undefined);
+    if (!profile) return;
+    if (profile.tankSize > 0) setTankSize(profile.tankSize);
+    if (profile.calibratedGpa > 0) setCarrierRate(profile.calibratedGpa);
+  };
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
 
@@ -228,6 +290,25 @@ const RecordModal: React.FC<RecordModalProps> = ({ prefill, onSave, onClose }) =
       : manualFieldName;
 
     if (!displayName || !date) return;
+    if (hasComplianceErrors && !overrideLimits) return;
+
+    // Snapshot the certification so later edits to the applicator don't rewrite history
+    const applicator = applicators.find((a) => a.name === operator);
+    const applicatorCertification = applicator?.certificationNumber
+      || (operator === prefill?.operator ? prefill?.applicatorCertification : undefined);
+
+    // Totals follow the rate and acres as entered, not the calculator's plan
+    const appliedProducts = products.map((rp) => ({
+      ...rp,
+      totalAmount: convertRateToAmount(
+        rp.rate,
+        rp.unit,
+        acres,
+        carrierRate * acres,
+        rp.rateBasis,
+        resolveRecordProduct(rp, productLibrary)?.measurementUnit
+      ),
+    }));
 
     const record: SprayRecord = {
       id: prefill?.id || Date.now().toString(),
@@ -240,13 +321,22 @@ const RecordModal: React.FC<RecordModalProps> = ({ prefill, onSave, onClose }) =
       tankSize,
       carrierRate,
       acres,
-      products,
+      products: appliedProducts,
       totalVolume: prefill?.totalVolume || carrierRate * acres,
       weather: prefill?.weather,
+      weatherLog: prefill?.weatherLog,
       notes: notes || undefined,
       createdAt: prefill?.createdAt || new Date().toISOString(),
+      startTime: startTime || undefined,
+      endTime: endTime || undefined,
+      applicatorCertification,
       sprayedFields: sprayedFields.length > 0 ? sprayedFields : undefined,
       cropYear: prefill?.cropYear || cropYear,
+      planned: prefill?.planned,
+      actualVolume: actualVolume > 0 ? actualVolume : undefined,
+      leftoverVolume: actualVolume > 0 && leftoverVolume > 0 ? leftoverVolume : undefined,
+      leftover: prefill?.leftover,
+      sprayer,
     };
 
     onSave(record);
@@ -315,6 +405,27 @@ const RecordModal: React.FC<RecordModalProps> = ({ prefill, onSave, onClose }) =
             </div>
           </div>
 
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Start Time</label>
+              <input
+                type="time"
+                className="input-field"
+                value={startTime}
+                onChange={(e) => setStartTime(e.target.value)}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">End Time</label>
+              <input
+                type="time"
+                className="input-field"
+                value={endTime}
+                onChange={(e) => setEndTime(e.target.value)}
+              />
+            </div>
+          </div>
+
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-1">
               Field{fields.length > 0 ? '(s)' : ''} *
@@ -408,6 +519,28 @@ const RecordModal: React.FC<RecordModalProps> = ({ prefill, onSave, onClose }) =
             )}
           </div>
 
+          {(sprayers.length > 0 || sprayer) && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Sprayer</label>
+              <select
+                className="input-field"
+                value={sprayer?.id || ''}
+                onChange={(e) => handleSprayerChange(e.target.value)}
+              >
+                <option value="">Not recorded</option>
+                {sprayer && !sprayers.some((s) => s.id === sprayer.id) && (
+                  <option value={sprayer.id}>{sprayer.name}</option>
+                )}
+                {sprayers.map((s) => (
+                  <option key={s.id} value={s.id}>{s.name}</option>
+                ))}
+              </select>
+              {sprayer && (
+                <p className="text-xs text-gray-500 mt-1">{describeSprayerSetup(sprayer)}</p>
+              )}
+            </div>
+          )}
+
           <div className="grid grid-cols-3 gap-3">
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-1">Tank (gal)</label>
@@ -440,6 +573,34 @@ const RecordModal: React.FC<RecordModalProps> = ({ prefill, onSave, onClose }) =
             </div>
           </div>
 
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Actual Gallons Loaded</label>
+              <input
+                type="number"
+                step="1"
+                min="0"
+                className="input-field"
+                value={actualVolume || ''}
+                onChange={(e) => setActualVolume(parseFloat(e.target.value) || 0)}
+                placeholder="Optional"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Leftover in Tank (gal)</label>
+              <input
+                type="number"
+                step="1"
+                min="0"
+                className="input-field"
+                value={leftoverVolume || ''}
+                onChange={(e) => setLeftoverVolume(parseFloat(e.target.value) || 0)}
+                placeholder="Optional"
+                disabled={actualVolume <= 0}
+              />
+            </div>
+          </div>
+
           {/* Products */}
           <div className="border-t pt-4">
             <div className="flex justify-between items-center mb-3">
@@ -491,10 +652,43 @@ const RecordModal: React.FC<RecordModalProps> = ({ prefill, onSave, onClose }) =
             )}
           </div>
 
+          {variance && (
+            <div className="border rounded-lg p-3 bg-gray-50">
+              <VarianceTable variance={variance} thresholdPercent={varianceSettings.thresholdPercent} />
+            </div>
+          )}
+
+          {complianceIssues.length > 0 && (
+            <div>
+              <LabelComplianceAlert issues={complianceIssues} />
+              {hasComplianceErrors && (
+                <label className="flex items-start gap-2 text-sm text-red-700 mt-2">
+                  <input
+                    type="checkbox"
+                    className="mt-0.5"
+                    checked={overrideLimits}
+                    onChange={(e) => setOverrideLimits(e.target.checked)}
+                  />
+                  Save anyway (e.g. supplemental label or split application &mdash; note the reason below)
+                </label>
+              )}
+            </div>
+          )}
+
           {/* Weather snapshot indicator */}
           {prefill?.weather && (
             <div className="text-xs text-gray-500 bg-gray-50 p-2 rounded">
               Weather snapshot: {prefill.weather.temperature}&deg;F, {prefill.weather.windSpeed} mph {prefill.weather.windDirection}, {prefill.weather.humidity}% RH
+              {weatherLogSummary && (
+                <div className="mt-1">
+                  Weather log: {weatherLogSummary.observations} observations, wind {weatherLogSummary.minWind}&ndash;{weatherLogSummary.maxWind} mph
+                  {weatherLogSummary.excursions.length > 0 && (
+                    <span className="text-red-600">
+                      {' '}&middot; {weatherLogSummary.excursions.length} drift-risk excursion{weatherLogSummary.excursions.length !== 1 ? 's' : ''}
+                    </span>
+                  )}
+                </div>
+              )}
             </div>
           )}
 
@@ -509,7 +703,11 @@ const RecordModal: React.FC<RecordModalProps> = ({ prefill, onSave, onClose }) =
           </div>
 
           <div className="flex gap-3 pt-2">
-            <button type="submit" className="btn-primary flex-1">
+            <button
+              type="submit"
+              className="btn-primary flex-1"
+              disabled={hasComplianceErrors && !overrideLimits}
+            >
               Save Record
             </button>
             <button type="button" onClick={onClose} className="btn-secondary flex-1">
@@ -1,7 +1,19 @@
 import React, { useState, useEffect, useMemo } from 'react';
-import { SprayRecord, Applicator } from '../../types';
-import { getRecords, saveRecord, deleteRecord, getApplicators } from '../../utils/storageService';
+import { SprayRecord, Applicator, Field, Product, VarianceSettings } from '../../types';
+import { getRecords, saveRecord, deleteRecord, getApplicators, getFields, getProducts, getVarianceSettings } from '../../utils/storageService';
+import { getRecordCropYear } from '../../utils/sprayHistory';
+import { computeFieldMoaHistory, getRecordProductMoaGroups } from '../../utils/modeOfAction';
+import { downloadFile, recordsToCsv, recordsToXlsx } from '../../utils/exportService';
 import RecordModal from './RecordModal';
+import RegulatoryExportModal from './RegulatoryExportModal';
+import RecordImportModal from './RecordImportModal';
+import CostReportModal from './CostReportModal';
+import VarianceTable from './VarianceTable';
+import WeatherLogDetail from './WeatherLogDetail';
+import { computeRecordVariance, DEFAULT_VARIANCE_SETTINGS, formatVariancePercent, isVarianceFlagged } from '../../utils/variance';
+import { describeTankLeftover } from '../../utils/leftover';
+import { describeSprayerSetup } from '../../utils/sprayers';
+import MoaHistoryList, { MoaGroupBadge } from './MoaHistory';
 import { useCropYear } from '../../App';
 
 const RecordsPage: React.FC = () => {
@@ -16,6 +28,14 @@ const RecordsPage: React.FC = () => {
   const [dateFilter, setDateFilter] = useState('');
   const [filterOperator, setFilterOperator] = useState('');
   const [showAllYears, setShowAllYears] = useState(false);
+  const [fields, setFields] = useState<Field[]>([]);
+  const [products, setProducts] = useState<Product[]>([]);
+  const [showMoaHistory, setShowMoaHistory] = useState(false);
+  const [showRegulatoryExport, setShowRegulatoryExport] = useState(false);
+  const [showImportModal, setShowImportModal] = useState(false);
+  const [showCostReport, setShowCostReport] = useState(false);
+  const [varianceSettings, setVarianceSettings] = useState<VarianceSettings>(DEFAULT_VARIANCE_SETTINGS);
+  const [offPlanOnly, setOffPlanOnly] = useState(false);
 
   const reload = async () => {
     const all = await getRecords();
@@ -26,14 +46,23 @@ const RecordsPage: React.FC = () => {
   useEffect(() => {
     reload();
     getApplicators().then(setApplicators);
+    getFields().then(setFields);
+    getProducts().then(setProducts);
+    getVarianceSettings().then(setVarianceSettings);
   }, []);
 
-  // Helper to get record's crop year (from cropYear field or extract from date for legacy)
-  const getRecordCropYear = (r: SprayRecord): string => {
-    if (r.cropYear) return r.cropYear;
-    // Extract year from date for legacy records
-    return r.date.split('-')[0];
-  };
+  const variances = useMemo(
+    () => new Map(records.map((r) => [r.id, computeRecordVariance(r)])),
+    [records]
+  );
+
+  // MOA groups used on each field across all crop years
+  const moaByField = useMemo(() => {
+    return fields
+      .map((field) => ({ field, history: computeFieldMoaHistory(records, products, field.id) }))
+      .filter((f) => f.history.length > 0)
+      .sort((a, b) => (a.field.fieldNumber || a.field.name).localeCompare(b.field.fieldNumber || b.field.name, undefined, { numeric: true }));
+  }, [fields, records, products]);
 
   // Build list of operators for the filter dropdown
   // Combines saved applicators + unique operators from existing records
@@ -67,9 +96,12 @@ const RecordsPage: React.FC = () => {
       if (filterOperator && r.operator !== filterOperator) {
         return false;
       }
+      if (offPlanOnly && !isVarianceFlagged(variances.get(r.id) || null, varianceSettings)) {
+        return false;
+      }
       return true;
     });
-  }, [records, searchTerm, dateFilter, cropYear, showAllYears, filterOperator]);
+  }, [records, searchTerm, dateFilter, cropYear, showAllYears, filterOperator, offPlanOnly, variances, varianceSettings]);
 
   const handleSave = async (record: SprayRecord) => {
     await saveRecord(record);
@@ -84,34 +116,26 @@ const RecordsPage: React.FC = () => {
     setDeleteConfirm(null);
   };
 
+  const exportStamp = () =>
+    `spray-records-${showAllYears ? 'all' : cropYear}-${new Date().toISOString().split('T')[0]}`;
+
   const exportCSV = () => {
-    const headers = ['Date', 'Field', 'Operator', 'Tank Size', 'Carrier Rate', 'Acres', 'Total Volume', 'Products', 'Notes'];
-    const rows = records.map((r) => [
-      r.date,
-      r.fieldName,
-      r.operator,
-      r.tankSize,
-      r.carrierRate,
-      r.acres,
-      r.totalVolume,
-      r.products.map((p) => `${p.productName} ${p.rate} ${p.unit}`).join('; '),
-      r.notes || '',
-    ]);
-
-    const csv = [headers.join(','), ...rows.map((row) =>
-      row.map((cell) => {
-        const s = String(cell);
-        return s.includes(',') || s.includes('"') ? `"${s.replace(/"/g, '""')}"` : s;
-      }).join(',')
-    )].join('\n');
-
-    const blob = new Blob([csv], { type: 'text/csv' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `spray-records-${new Date().toISOString().split('T')[0]}.csv`;
-    a.click();
-    URL.revokeObjectURL(url);
+    downloadFile(recordsToCsv(filtered, fields), `${exportStamp()}.csv`, 'text/csv');
+  };
+
+  const exportXLSX = () => {
+    downloadFile(
+      recordsToXlsx(filtered, fields),
+      `${exportStamp()}.xlsx`,
+      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+    );
+  };
+
+  const handleImport = async (imported: SprayRecord[]) => {
+    // Imported history predates inventory tracking, so it doesn't deduct stock
+    for (const r of imported) await saveRecord(r, { deductInventory: false });
+    await reload();
+    setShowImportModal(false);
   };
 
   return (
@@ -120,10 +144,34 @@ const RecordsPage: React.FC = () => {
         <h1 className="text-2xl font-bold">Spray Records</h1>
         <div className="flex gap-2">
           {records.length > 0 && (
-            <button onClick={exportCSV} className="btn-secondary text-sm py-2 px-4">
-              Export CSV
-            </button>
+            <>
+              <button onClick={() => setShowRegulatoryExport(true)} className="btn-secondary text-sm py-2 px-4">
+                Regulatory Export
+              </button>
+              <button onClick={() => setShowCostReport(true)} className="btn-secondary text-sm py-2 px-4">
+                Cost Report
+              </button>
+              <button
+                onClick={exportCSV}
+                disabled={filtered.length === 0}
+                className="btn-secondary text-sm py-2 px-4"
+                title="Export the records shown below"
+              >
+                Export CSV
+              </button>
+              <button
+                onClick={exportXLSX}
+                disabled={filtered.length === 0}
+                className="btn-secondary text-sm py-2 px-4"
+                title="Export the records shown below"
+              >
+                Export Excel
+              </button>
+            </>
           )}
+          <button onClick={() => setShowImportModal(true)} className="btn-secondary text-sm py-2 px-4">
+            Import
+          </button>
           <button
             onClick={() => setShowModal(true)}
             className="btn-primary text-sm py-2 px-4"
@@ -179,6 +227,15 @@ const RecordsPage: React.FC = () => {
               />
               Show all years
             </label>
+            <label className="flex items-center gap-2 text-sm text-gray-600 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={offPlanOnly}
+                onChange={(e) => setOffPlanOnly(e.target.checked)}
+                className="rounded text-ag-green-600"
+              />
+              Off plan only (&gt;{varianceSettings.thresholdPercent}%)
+            </label>
             {!showAllYears && (
               <span className="text-xs text-gray-400">Showing records for {cropYear}</span>
             )}
@@ -186,6 +243,32 @@ const RecordsPage: React.FC = () => {
         </div>
       )}
 
+      {moaByField.length > 0 && (
+        <div className="card">
+          <button
+            onClick={() => setShowMoaHistory(!showMoaHistory)}
+            className="flex justify-between items-center w-full text-left"
+          >
+            <h2 className="text-lg font-semibold">Mode of Action by Field</h2>
+            <span className="text-gray-400">{showMoaHistory ? '\u25B2' : '\u25BC'}</span>
+          </button>
+          {showMoaHistory && (
+            <div className="mt-4 divide-y divide-gray-100">
+              {moaByField.map(({ field, history }) => (
+                <div key={field.id} className="py-2 flex gap-4">
+                  <div className="w-40 text-sm font-medium">
+                    {field.fieldNumber ? `${field.fieldNumber} - ` : ''}{field.name}
+                  </div>
+                  <div className="flex-1">
+                    <MoaHistoryList history={history} />
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
       {filtered.length === 0 ? (
         <div className="card text-center py-12">
           <p className="text-gray-500">
@@ -196,154 +279,207 @@ const RecordsPage: React.FC = () => {
         </div>
       ) : (
         <div className="space-y-3">
-          {filtered.map((record) => (
-            <div key={record.id} className="card">
-              <div
-                className="flex justify-between items-center cursor-pointer"
-                onClick={() => setExpandedId(expandedId === record.id ? null : record.id)}
-              >
-                <div className="flex-1">
+          {filtered.map((record) => {
+            const variance = variances.get(record.id) || null;
+            const offPlan = isVarianceFlagged(variance, varianceSettings);
+            return (
+              <div key={record.id} className="card">
+                <div
+                  className="flex justify-between items-center cursor-pointer"
+                  onClick={() => setExpandedId(expandedId === record.id ? null : record.id)}
+                >
+                  <div className="flex-1">
+                    <div className="flex items-center gap-3">
+                      <span className="font-semibold">{record.fieldName}</span>
+                      <span className="text-sm text-gray-500">
+                        {new Date(record.date).toLocaleDateString()}
+                      </span>
+                      {offPlan && variance && (
+                        <span
+                          className="px-1.5 py-0.5 bg-red-100 text-red-700 rounded text-xs font-medium"
+                          title={`${variance.worstRate.label}: ${variance.worstRate.applied} vs. ${variance.worstRate.planned} ${variance.worstRate.unit} planned`}
+                        >
+                          Off plan {formatVariancePercent(variance.worstRate.percent)}
+                        </span>
+                      )}
+                    </div>
+                    <div className="text-sm text-gray-600 mt-1">
+                      {record.operator && <span>{record.operator} &middot; </span>}
+                      {record.products.length} product{record.products.length !== 1 ? 's' : ''} &middot;{' '}
+                      {record.totalVolume.toFixed(0)} gal &middot; {record.acres} ac
+                    </div>
+                  </div>
                   <div className="flex items-center gap-3">
-                    <span className="font-semibold">{record.fieldName}</span>
-                    <span className="text-sm text-gray-500">
-                      {new Date(record.date).toLocaleDateString()}
+                    {deleteConfirm === record.id ? (
+                      <div className="flex gap-2" onClick={(e) => e.stopPropagation()}>
+                        <button
+                          onClick={() => handleDelete(record.id)}
+                          className="text-sm text-red-600 font-medium"
+                        >
+                          Confirm Delete
+                        </button>
+                        <button
+                          onClick={() => setDeleteConfirm(null)}
+                          className="text-sm text-gray-500"
+                        >
+                          Cancel
+                        </button>
+                      </div>
+                    ) : (
+                      <>
+                        <button
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            setEditingRecord(record);
+                            setShowModal(true);
+                          }}
+                          className="text-sm text-blue-600 hover:text-blue-800"
+                        >
+                          Edit
+                        </button>
+                        <button
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            setDeleteConfirm(record.id);
+                          }}
+                          className="text-sm text-red-500 hover:text-red-700"
+                        >
+                          Delete
+                        </button>
+                      </>
+                    )}
+                    <span className="text-gray-400">
+                      {expandedId === record.id ? '\u25B2' : '\u25BC'}
                     </span>
                   </div>
-                  <div className="text-sm text-gray-600 mt-1">
-                    {record.operator && <span>{record.operator} &middot; </span>}
-                    {record.products.length} product{record.products.length !== 1 ? 's' : ''} &middot;{' '}
-                    {record.totalVolume.toFixed(0)} gal &middot; {record.acres} ac
-                  </div>
-                </div>
-                <div className="flex items-center gap-3">
-                  {deleteConfirm === record.id ? (
-                    <div className="flex gap-2" onClick={(e) => e.stopPropagation()}>
-                      <button
-                        onClick={() => handleDelete(record.id)}
-                        className="text-sm text-red-600 font-medium"
-                      >
-                        Confirm Delete
-                      </button>
-                      <button
-                        onClick={() => setDeleteConfirm(null)}
-                        className="text-sm text-gray-500"
-                      >
-                        Cancel
-                      </button>
-                    </div>
-                  ) : (
-                    <>
-                      <button
-                        onClick={(e) => {
-                          e.stopPropagation();
-                          setEditingRecord(record);
-                          setShowModal(true);
-                        }}
-                        className="text-sm text-blue-600 hover:text-blue-800"
-                      >
-                        Edit
-                      </button>
-                      <button
-                        onClick={(e) => {
-                          e.stopPropagation();
-                          setDeleteConfirm(record.id);
-                        }}
-                        className="text-sm text-red-500 hover:text-red-700"
-                      >
-                        Delete
-                      </button>
-                    </>
-                  )}
-                  <span className="text-gray-400">
-                    {expandedId === record.id ? '\u25B2' : '\u25BC'}
-                  </span>
                 </div>
-              </div>
 
-              {expandedId === record.id && (
-                <div className="mt-4 pt-4 border-t border-gray-100 space-y-4">
-                  <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-sm">
-                    <div>
-                      <span className="text-gray-500 block">Tank Size</span>
-                      <span className="font-medium">{record.tankSize} gal</span>
-                    </div>
-                    <div>
-                      <span className="text-gray-500 block">Carrier Rate</span>
-                      <span className="font-medium">{record.carrierRate} gpa</span>
-                    </div>
-                    <div>
-                      <span className="text-gray-500 block">Acres</span>
-                      <span className="font-medium">{record.acres}</span>
-                    </div>
-                    <div>
-                      <span className="text-gray-500 block">Total Volume</span>
-                      <span className="font-medium">{record.totalVolume.toFixed(0)} gal</span>
+                {expandedId === record.id && (
+                  <div className="mt-4 pt-4 border-t border-gray-100 space-y-4">
+                    <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-sm">
+                      <div>
+                        <span className="text-gray-500 block">Tank Size</span>
+                        <span className="font-medium">{record.tankSize} gal</span>
+                      </div>
+                      <div>
+                        <span className="text-gray-500 block">Carrier Rate</span>
+                        <span className="font-medium">{record.carrierRate} gpa</span>
+                      </div>
+                      <div>
+                        <span className="text-gray-500 block">Acres</span>
+                        <span className="font-medium">{record.acres}</span>
+                      </div>
+                      <div>
+                        <span className="text-gray-500 block">Total Volume</span>
+                        <span className="font-medium">{record.totalVolume.toFixed(0)} gal</span>
+                      </div>
                     </div>
-                  </div>
 
-                  {/* Sprayed Fields with partial acres */}
-                  {record.sprayedFields && record.sprayedFields.length > 0 && (
-                    <div>
-                      <h4 className="text-sm font-medium text-gray-700 mb-2">Fields Sprayed</h4>
-                      <div className="space-y-1">
-                        {record.sprayedFields.map((sf, i) => (
-                          <div key={i} className="flex justify-between text-sm bg-gray-50 p-2 rounded">
-                            <span>
-                              {sf.subFieldName ? `${sf.fieldName} - ${sf.subFieldName}` : sf.fieldName}
-                            </span>
-                            <span className="text-gray-600">
-                              {sf.sprayedAcres === sf.totalAcres ? (
-                                <>{sf.totalAcres} ac</>
-                              ) : (
-                                <>{sf.sprayedAcres} / {sf.totalAcres} ac <span className="text-xs text-amber-600">(partial)</span></>
-                              )}
-                            </span>
-                          </div>
-                        ))}
+                    {record.sprayer && (
+                      <div className="text-sm">
+                        <span className="text-gray-500">Sprayer: </span>
+                        <span className="font-medium">{record.sprayer.name}</span>
+                        <span className="text-gray-500 ml-2">{describeSprayerSetup(record.sprayer)}</span>
                       </div>
-                    </div>
-                  )}
-
-                  {record.products.length > 0 && (
-                    <div>
-                      <h4 className="text-sm font-medium text-gray-700 mb-2">Products</h4>
-                      <div className="space-y-1">
-                        {record.products.map((p, i) => (
-                          <div key={i} className="flex justify-between text-sm bg-gray-50 p-2 rounded">
-                            <span>{p.productName}</span>
-                            <span className="text-gray-600">
-                              {p.rate} {p.unit} &middot; {p.totalAmount.toFixed(2)} total
-                            </span>
+                    )}
+
+                    {/* Sprayed Fields with partial acres */}
+                    {record.sprayedFields && record.sprayedFields.length > 0 && (
+                      <div>
+                        <h4 className="text-sm font-medium text-gray-700 mb-2">Fields Sprayed</h4>
+                        <div className="space-y-1">
+                          {record.sprayedFields.map((sf, i) => (
+                            <div key={i} className="flex justify-between text-sm bg-gray-50 p-2 rounded">
+                              <span>
+                                {sf.subFieldName ? `${sf.fieldName} - ${sf.subFieldName}` : sf.fieldName}
+                              </span>
+                              <span className="text-gray-600">
+                                {sf.sprayedAcres === sf.totalAcres ? (
+                                  <>{sf.totalAcres} ac</>
+                                ) : (
+                                  <>{sf.sprayedAcres} / {sf.totalAcres} ac <span className="text-xs text-amber-600">(partial)</span></>
+                                )}
+                              </span>
+                            </div>
+                          ))}
+                        </div>
+                      </div>
+                    )}
+
+                    {record.products.length > 0 && (
+                      <div>
+                        <h4 className="text-sm font-medium text-gray-700 mb-2">Products</h4>
+                        <div className="space-y-1">
+                          {record.products.map((p, i) => (
+                            <div key={i} className="flex justify-between text-sm bg-gray-50 p-2 rounded">
+                              <span className="flex items-center gap-1">
+                                {p.productName}
+                                {getRecordProductMoaGroups(p, products).map((g) => (
+                                  <MoaGroupBadge key={g} group={g} />
+                                ))}
+                              </span>
+                              <span className="text-gray-600">
+                                {p.rate} {p.unit} &middot; {p.totalAmount.toFixed(2)} total
+                              </span>
+                            </div>
+                          ))}
+                        </div>
+                      </div>
+                    )}
+
+                    {variance && (
+                      <div className={`p-3 rounded border ${offPlan ? 'border-red-200 bg-red-50' : 'border-gray-200 bg-gray-50'}`}>
+                        <VarianceTable variance={variance} thresholdPercent={varianceSettings.thresholdPercent} />
+                        {record.actualVolume !== undefined && (
+                          <p className="text-xs text-gray-500 mt-2">
+                            Loaded {record.actualVolume} gal
+                            {record.leftoverVolume ? `, ${record.leftoverVolume} gal left in tank` : ''}
+                          </p>
+                        )}
+                      </div>
+                    )}
+
+                    {record.leftover && (
+                      <div className="text-sm bg-gray-50 p-3 rounded">
+                        <span className="font-medium">Tank leftover: </span>
+                        {describeTankLeftover(record.leftover)}
+                        {record.leftover.products.length > 0 && (
+                          <div className="text-xs text-gray-500 mt-1">
+                            {record.leftover.products.map((p) => `${p.productName} ${p.amount.toFixed(2)} ${p.unit}`).join(' · ')}
                           </div>
-                        ))}
+                        )}
                       </div>
-                    </div>
-                  )}
-
-                  {record.weather && (
-                    <div className="text-sm bg-blue-50 p-3 rounded">
-                      <span className="font-medium">Weather at spray time: </span>
-                      {record.weather.temperature}&deg;F, {record.weather.windSpeed} mph{' '}
-                      {record.weather.windDirection}, {record.weather.humidity}% RH
-                      <span className="text-xs text-gray-500 ml-2">({record.weather.source})</span>
-                    </div>
-                  )}
+                    )}
 
-                  {record.cropYear && (
-                    <div className="text-xs text-gray-400">
-                      Crop Year: {record.cropYear}
-                    </div>
-                  )}
+                    {record.weather && (
+                      <div className="text-sm bg-blue-50 p-3 rounded">
+                        <span className="font-medium">Weather at spray time: </span>
+                        {record.weather.temperature}&deg;F, {record.weather.windSpeed} mph{' '}
+                        {record.weather.windDirection}, {record.weather.humidity}% RH
+                        <span className="text-xs text-gray-500 ml-2">({record.weather.source})</span>
+                      </div>
+                    )}
 
-                  {record.notes && (
-                    <div className="text-sm text-gray-600">
-                      <span className="font-medium">Notes: </span>{record.notes}
-                    </div>
-                  )}
-                </div>
-              )}
-            </div>
-          ))}
+                    {record.weatherLog && record.weatherLog.length > 0 && (
+                      <WeatherLogDetail log={record.weatherLog} />
+                    )}
+
+                    {record.cropYear && (
+                      <div className="text-xs text-gray-400">
+                        Crop Year: {record.cropYear}
+                      </div>
+                    )}
+
+                    {record.notes && (
+                      <div className="text-sm text-gray-600">
+                        <span className="font-medium">Notes: </span>{record.notes}
+                      </div>
+                    )}
+                  </div>
+                )}
+              </div>
+            );
+          })}
         </div>
       )}
 
@@ -357,6 +493,37 @@ const RecordsPage: React.FC = () => {
           }}
         />
       )}
+
+      {showImportModal && (
+        <RecordImportModal
+          existingRecords={records}
+          fields={fields}
+          products={products}
+          onImport={handleImport}
+          onClose={() => setShowImportModal(false)}
+        />
+      )}
+
+      {showRegulatoryExport && (
+        <RegulatoryExportModal
+          records={records}
+          fields={fields}
+          products={products}
+          applicators={applicators}
+          cropYear={cropYear}
+          onClose={() => setShowRegulatoryExport(false)}
+        />
+      )}
+
+      {showCostReport && (
+        <CostReportModal
+          records={records}
+          fields={fields}
+          products={products}
+          cropYear={cropYear}
+          onClose={() => setShowCostReport(false)}
+        />
+      )}
     </div>
   );
 };
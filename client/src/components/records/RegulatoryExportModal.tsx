@@ -0,0 +1,160 @@
+import React, { useMemo, useState } from 'react';
+import { Applicator, Field, Product, SprayRecord } from '../../types';
+import {
+  buildRegulatoryEntries,
+  getMissingRegulatoryFields,
+  printRegulatoryReport,
+  regulatoryEntriesToCsv,
+  RegulatoryReportFilter,
+} from '../../utils/regulatoryReport';
+import { downloadFile } from '../../utils/exportService';
+
+interface RegulatoryExportModalProps {
+  records: SprayRecord[];
+  fields: Field[];
+  products: Product[];
+  applicators: Applicator[];
+  cropYear: string;
+  onClose: () => void;
+}
+
+const RegulatoryExportModal: React.FC<RegulatoryExportModalProps> = ({
+  records,
+  fields,
+  products,
+  applicators,
+  cropYear,
+  onClose,
+}) => {
+  const [mode, setMode] = useState<'cropYear' | 'dates'>('cropYear');
+  const [year, setYear] = useState(cropYear);
+  const [from, setFrom] = useState(`${cropYear}-01-01`);
+  const [to, setTo] = useState(new Date().toISOString().split('T')[0]);
+  const [restrictedOnly, setRestrictedOnly] = useState(true);
+
+  const filter: RegulatoryReportFilter = useMemo(
+    () => (mode === 'cropYear'
+      ? { cropYear: year, restrictedOnly }
+      : { from: from || undefined, to: to || undefined, restrictedOnly }),
+    [mode, year, from, to, restrictedOnly]
+  );
+
+  const entries = useMemo(
+    () => buildRegulatoryEntries(records, { fields, products, applicators }, filter),
+    [records, fields, products, applicators, filter]
+  );
+
+  const incomplete = useMemo(
+    () => entries
+      .map((entry) => ({ entry, missing: getMissingRegulatoryFields(entry) }))
+      .filter((e) => e.missing.length > 0),
+    [entries]
+  );
+
+  const fileSuffix = mode === 'cropYear' ? year : `${from || 'start'}_${to || 'end'}`;
+
+  const handleCsv = () => {
+    downloadFile(
+      regulatoryEntriesToCsv(entries),
+      `${restrictedOnly ? 'rup' : 'pesticide'}-application-records-${fileSuffix}.csv`,
+      'text/csv'
+    );
+  };
+
+  const handlePdf = () => {
+    if (!printRegulatoryReport(entries, filter)) {
+      alert('Allow pop-ups for this site to print the report.');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg max-w-lg w-full p-6 max-h-[90vh] overflow-y-auto">
+        <h2 className="text-xl font-semibold mb-4">Regulatory Records Export</h2>
+
+        <div className="space-y-4">
+          <div className="flex gap-4 text-sm">
+            <label className="flex items-center gap-2">
+              <input type="radio" checked={mode === 'cropYear'} onChange={() => setMode('cropYear')} />
+              Crop year
+            </label>
+            <label className="flex items-center gap-2">
+              <input type="radio" checked={mode === 'dates'} onChange={() => setMode('dates')} />
+              Date range
+            </label>
+          </div>
+
+          {mode === 'cropYear' ? (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Crop Year</label>
+              <input
+                type="number"
+                className="input-field"
+                value={year}
+                onChange={(e) => setYear(e.target.value)}
+              />
+            </div>
+          ) : (
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">From</label>
+                <input type="date" className="input-field" value={from} onChange={(e) => setFrom(e.target.value)} />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">To</label>
+                <input type="date" className="input-field" value={to} onChange={(e) => setTo(e.target.value)} />
+              </div>
+            </div>
+          )}
+
+          <label className="flex items-center gap-2 text-sm">
+            <input
+              type="checkbox"
+              checked={restrictedOnly}
+              onChange={(e) => setRestrictedOnly(e.target.checked)}
+            />
+            Restricted-use products only
+          </label>
+
+          <div className="text-sm text-gray-600">
+            {entries.length} application{entries.length !== 1 ? 's' : ''} in this period
+            {restrictedOnly && entries.length === 0 && (
+              <p className="text-xs text-gray-500 mt-1">
+                Mark products as restricted use in Settings &rarr; Products.
+              </p>
+            )}
+          </div>
+
+          {incomplete.length > 0 && (
+            <div className="p-3 bg-amber-50 border border-amber-200 rounded-lg">
+              <p className="text-sm font-medium text-amber-800 mb-1">
+                {incomplete.length} record{incomplete.length !== 1 ? 's are' : ' is'} missing required details
+              </p>
+              <ul className="text-xs text-amber-700 space-y-0.5 max-h-32 overflow-y-auto">
+                {incomplete.map(({ entry, missing }) => (
+                  <li key={entry.recordId}>
+                    {entry.date} &middot; {entry.sites.map((s) => s.fieldName).join(', ')}: {missing.join(', ')}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          <div className="flex gap-3 pt-2">
+            <button onClick={handlePdf} disabled={entries.length === 0} className="btn-primary flex-1">
+              Print / PDF
+            </button>
+            <button onClick={handleCsv} disabled={entries.length === 0} className="btn-secondary flex-1">
+              Download CSV
+            </button>
+            <button onClick={onClose} className="btn-secondary flex-1">
+              Close
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RegulatoryExportModal;
@@ -0,0 +1,42 @@
+import React from 'react';
+import { RecordVariance, VarianceLine, formatVariancePercent } from '../../utils/variance';
+
+interface VarianceTableProps {
+  variance: RecordVariance;
+  thresholdPercent: number;
+}
+
+const VarianceTable: React.FC<VarianceTableProps> = ({ variance, thresholdPercent }) => {
+  const renderRow = (line: VarianceLine, isRate: boolean) => {
+    const flagged = isRate && Math.abs(line.percent) > thresholdPercent;
+    return (
+      <tr key={line.label} className="border-t">
+        <td className="py-1 pr-2">{line.label}</td>
+        <td className="py-1 px-2 text-right whitespace-nowrap">{line.planned} <span className="text-gray-400">{line.unit}</span></td>
+        <td className="py-1 px-2 text-right whitespace-nowrap">{line.applied} <span className="text-gray-400">{line.unit}</span></td>
+        <td className={`py-1 pl-2 text-right whitespace-nowrap ${flagged ? 'text-red-600 font-semibold' : line.percent !== 0 ? 'text-gray-700' : 'text-gray-400'}`}>
+          {formatVariancePercent(line.percent)}
+        </td>
+      </tr>
+    );
+  };
+
+  return (
+    <table className="w-full text-xs">
+      <thead>
+        <tr className="text-gray-500">
+          <th className="text-left font-medium pb-1">Planned vs. applied</th>
+          <th className="text-right font-medium pb-1 px-2">Plan</th>
+          <th className="text-right font-medium pb-1 px-2">Applied</th>
+          <th className="text-right font-medium pb-1 pl-2">Var.</th>
+        </tr>
+      </thead>
+      <tbody>
+        {variance.lines.map((line) => renderRow(line, line.label === 'Carrier rate'))}
+        {variance.products.map((line) => renderRow(line, true))}
+      </tbody>
+    </table>
+  );
+};
+
+export default VarianceTable;
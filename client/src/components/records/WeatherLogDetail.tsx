@@ -0,0 +1,94 @@
+import React, { useState } from 'react';
+import { WeatherObservation } from '../../types';
+import { formatLogTime, summarizeWeatherLog } from '../../utils/weatherLog';
+
+interface WeatherLogDetailProps {
+  log: WeatherObservation[];
+}
+
+const RISK_COLORS: Record<WeatherObservation['driftRisk'], string> = {
+  low: 'text-green-600',
+  moderate: 'text-yellow-600',
+  high: 'text-orange-600',
+  extreme: 'text-red-600',
+};
+
+/** Wind range, drift-risk excursions and the full observation list for a record. */
+const WeatherLogDetail: React.FC<WeatherLogDetailProps> = ({ log }) => {
+  const [showAll, setShowAll] = useState(false);
+  const summary = summarizeWeatherLog(log);
+  if (!summary) return null;
+
+  return (
+    <div className="text-sm bg-blue-50 p-3 rounded space-y-2">
+      <div>
+        <span className="font-medium">Weather log: </span>
+        {summary.observations} observation{summary.observations !== 1 ? 's' : ''},{' '}
+        {formatLogTime(summary.start)}&ndash;{formatLogTime(summary.end)}
+      </div>
+      <div className="grid grid-cols-3 gap-2 text-xs">
+        <div>
+          <div className="text-gray-500">Wind</div>
+          <div className="font-medium">{summary.minWind}&ndash;{summary.maxWind} mph</div>
+        </div>
+        <div>
+          <div className="text-gray-500">Max gust</div>
+          <div className="font-medium">{summary.maxGust != null ? `${summary.maxGust} mph` : '—'}</div>
+        </div>
+        <div>
+          <div className="text-gray-500">Temperature</div>
+          <div className="font-medium">{summary.minTemperature}&ndash;{summary.maxTemperature}&deg;F</div>
+        </div>
+      </div>
+
+      {summary.excursions.length > 0 ? (
+        <div className="border border-red-300 bg-red-50 rounded p-2">
+          <div className="font-medium text-red-800 text-xs mb-1">Drift-risk excursions</div>
+          <ul className="text-xs text-red-700 space-y-0.5">
+            {summary.excursions.map((e) => (
+              <li key={e.start}>
+                {e.start === e.end ? formatLogTime(e.start) : `${formatLogTime(e.start)}–${formatLogTime(e.end)}`}:{' '}
+                {e.peakRisk} risk, wind up to {e.maxWind} mph
+              </li>
+            ))}
+          </ul>
+        </div>
+      ) : (
+        <div className="text-xs text-green-700">Drift risk stayed below high throughout.</div>
+      )}
+
+      <button onClick={() => setShowAll(!showAll)} className="text-xs text-blue-700 hover:underline">
+        {showAll ? 'Hide observations' : 'Show observations'}
+      </button>
+      {showAll && (
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="text-gray-500 text-left">
+              <th className="py-1 font-medium">Time</th>
+              <th className="py-1 font-medium">Temp</th>
+              <th className="py-1 font-medium">RH</th>
+              <th className="py-1 font-medium">Wind</th>
+              <th className="py-1 font-medium">Drift</th>
+            </tr>
+          </thead>
+          <tbody>
+            {log.map((o) => (
+              <tr key={o.timestamp} className="border-t border-blue-100">
+                <td className="py-1">{formatLogTime(o.timestamp)}</td>
+                <td className="py-1">{o.temperature}&deg;F</td>
+                <td className="py-1">{o.humidity}%</td>
+                <td className="py-1">
+                  {o.windSpeed} mph {o.windDirection}
+                  {o.windGust ? <span className="text-gray-500"> (g{o.windGust})</span> : null}
+                </td>
+                <td className={`py-1 capitalize ${RISK_COLORS[o.driftRisk]}`}>{o.driftRisk}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
+
+export default WeatherLogDetail;
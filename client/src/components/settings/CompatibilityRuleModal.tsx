@@ -0,0 +1,217 @@
+import React, { useState } from 'react';
+import { CompatibilityRule, CompatibilitySeverity, FormulationType, ProductCategory, ProductMatcher } from '../../types';
+import { FORMULATION_OPTIONS, PRODUCT_CATEGORY_OPTIONS, SEVERITY_OPTIONS } from '../../utils/compatibilityRules';
+
+interface CompatibilityRuleModalProps {
+  rule?: CompatibilityRule | null;
+  onSave: (rule: CompatibilityRule) => void;
+  onClose: () => void;
+}
+
+interface MatcherEditorProps {
+  label: string;
+  matcher: ProductMatcher;
+  onChange: (matcher: ProductMatcher) => void;
+}
+
+// Drop empty attributes so a cleared input doesn't keep matching on ''
+function cleanMatcher(matcher: ProductMatcher): ProductMatcher {
+  const result: ProductMatcher = {};
+  if (matcher.category) result.category = matcher.category;
+  if (matcher.formulation) result.formulation = matcher.formulation;
+  if (matcher.activeIngredient?.trim()) result.activeIngredient = matcher.activeIngredient.trim();
+  if (matcher.chemicalClass?.trim()) result.chemicalClass = matcher.chemicalClass.trim();
+  if (matcher.pHSensitive !== undefined) result.pHSensitive = matcher.pHSensitive;
+  return result;
+}
+
+function isEmptyMatcher(matcher: ProductMatcher): boolean {
+  return Object.keys(cleanMatcher(matcher)).length === 0;
+}
+
+const MatcherEditor: React.FC<MatcherEditorProps> = ({ label, matcher, onChange }) => (
+  <div className="border border-gray-200 rounded-lg p-3 space-y-2">
+    <div className="text-sm font-medium text-gray-700">{label}</div>
+    <div className="grid grid-cols-2 gap-2">
+      <select
+        className="input-field text-sm"
+        value={matcher.category || ''}
+        onChange={(e) => onChange({ ...matcher, category: (e.target.value || undefined) as ProductCategory | undefined })}
+      >
+        <option value="">Any category</option>
+        {PRODUCT_CATEGORY_OPTIONS.map((o) => (
+          <option key={o.value} value={o.value}>{o.label}</option>
+        ))}
+      </select>
+      <select
+        className="input-field text-sm"
+        value={matcher.formulation || ''}
+        onChange={(e) => onChange({ ...matcher, formulation: (e.target.value || undefined) as FormulationType | undefined })}
+      >
+        <option value="">Any formulation</option>
+        {FORMULATION_OPTIONS.map((o) => (
+          <option key={o.value} value={o.value}>{o.label}</option>
+        ))}
+      </select>
+      <input
+        type="text"
+        className="input-field text-sm"
+        placeholder="Active ingredient"
+        value={matcher.activeIngredient || ''}
+        onChange={(e) => onChange({ ...matcher, activeIngredient: e.target.value })}
+      />
+      <input
+        type="text"
+        className="input-field text-sm"
+        placeholder="Chemical class"
+        value={matcher.chemicalClass || ''}
+        onChange={(e) => onChange({ ...matcher, chemicalClass: e.target.value })}
+      />
+    </div>
+    <select
+      className="input-field text-sm"
+      value={matcher.pHSensitive === undefined ? '' : matcher.pHSensitive ? 'yes' : 'no'}
+      onChange={(e) => onChange({
+        ...matcher,
+        pHSensitive: e.target.value === '' ? undefined : e.target.value === 'yes',
+      })}
+    >
+      <option value="">pH sensitivity: any</option>
+      <option value="yes">pH sensitive</option>
+      <option value="no">Not pH sensitive</option>
+    </select>
+  </div>
+);
+
+const CompatibilityRuleModal: React.FC<CompatibilityRuleModalProps> = ({ rule, onSave, onClose }) => {
+  const [name, setName] = useState(rule?.name || '');
+  const [severity, setSeverity] = useState<CompatibilitySeverity>(rule?.severity || 'caution');
+  const [message, setMessage] = useState(rule?.message || '');
+  const [productA, setProductA] = useState<ProductMatcher>(rule?.productA || {});
+  const [pairRule, setPairRule] = useState(rule ? !!rule.productB : true);
+  const [productB, setProductB] = useState<ProductMatcher>(rule?.productB || {});
+  const [minCount, setMinCount] = useState(rule?.minCount || 2);
+  const [addFirst, setAddFirst] = useState<'' | 'A' | 'B'>(rule?.addFirst || '');
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim() || !message.trim() || isEmptyMatcher(productA)) return;
+    if (pairRule && isEmptyMatcher(productB)) return;
+
+    onSave({
+      id: rule?.id || `custom-rule-${Date.now()}`,
+      name: name.trim(),
+      enabled: rule?.enabled ?? true,
+      severity,
+      productA: cleanMatcher(productA),
+      ...(pairRule ? { productB: cleanMatcher(productB) } : { minCount }),
+      message: message.trim(),
+      ...(pairRule && addFirst ? { addFirst } : {}),
+      isCustom: true,
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg max-w-lg w-full p-6 max-h-[90vh] overflow-y-auto">
+        <h2 className="text-xl font-semibold mb-4">
+          {rule ? 'Edit Compatibility Rule' : 'Add Compatibility Rule'}
+        </h2>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-3 gap-3">
+            <div className="col-span-2">
+              <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+              <input
+                type="text"
+                className="input-field"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="e.g., Glyphosate + clay-based WP"
+                required
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Severity</label>
+              <select
+                className="input-field"
+                value={severity}
+                onChange={(e) => setSeverity(e.target.value as CompatibilitySeverity)}
+              >
+                {SEVERITY_OPTIONS.map((o) => (
+                  <option key={o.value} value={o.value}>{o.label}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div className="flex gap-4 text-sm">
+            <label className="flex items-center gap-2">
+              <input type="radio" checked={pairRule} onChange={() => setPairRule(true)} />
+              Two products together
+            </label>
+            <label className="flex items-center gap-2">
+              <input type="radio" checked={!pairRule} onChange={() => setPairRule(false)} />
+              Several matching products
+            </label>
+          </div>
+
+          <MatcherEditor label={pairRule ? 'Product A' : 'Matching products'} matcher={productA} onChange={setProductA} />
+
+          {pairRule ? (
+            <>
+              <MatcherEditor label="Product B" matcher={productB} onChange={setProductB} />
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Suggested Order</label>
+                <select
+                  className="input-field"
+                  value={addFirst}
+                  onChange={(e) => setAddFirst(e.target.value as '' | 'A' | 'B')}
+                >
+                  <option value="">No preference</option>
+                  <option value="A">Add product A first</option>
+                  <option value="B">Add product B first</option>
+                </select>
+              </div>
+            </>
+          ) : (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Warn when at least
+              </label>
+              <input
+                type="number"
+                className="input-field"
+                value={minCount}
+                onChange={(e) => setMinCount(Math.max(1, parseInt(e.target.value) || 1))}
+                min="1"
+              />
+            </div>
+          )}
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Warning Message</label>
+            <textarea
+              className="input-field"
+              rows={2}
+              value={message}
+              onChange={(e) => setMessage(e.target.value)}
+              required
+            />
+          </div>
+
+          <div className="flex gap-3 pt-2">
+            <button type="submit" className="btn-primary flex-1">
+              {rule ? 'Update' : 'Add'} Rule
+            </button>
+            <button type="button" onClick={onClose} className="btn-secondary flex-1">
+              Cancel
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default CompatibilityRuleModal;
@@ -0,0 +1,207 @@
+import React, { useMemo, useState } from 'react';
+import { InventoryTransaction, Product } from '../../types';
+import { saveInventoryTransaction, deleteInventoryTransaction } from '../../utils/storageService';
+import { formatInventoryQuantity, TRANSACTION_TYPE_LABELS } from '../../utils/inventory';
+import { getBaseDisplayUnit } from '../../utils/unitConstants';
+
+interface InventoryModalProps {
+  product: Product;
+  transactions: InventoryTransaction[];   // this product's ledger
+  onChange: () => void;
+  onClose: () => void;
+}
+
+type EntryType = 'receipt' | 'transfer_in' | 'transfer_out' | 'count';
+
+const InventoryModal: React.FC<InventoryModalProps> = ({ product, transactions, onChange, onClose }) => {
+  const [entryType, setEntryType] = useState<EntryType>('receipt');
+  const [quantity, setQuantity] = useState(0);
+  const [date, setDate] = useState(new Date().toISOString().split('T')[0]);
+  const [location, setLocation] = useState('');
+  const [notes, setNotes] = useState('');
+
+  const unit = getBaseDisplayUnit(product.measurementUnit);
+
+  // Oldest first with a running balance, then shown newest first
+  const ledger = useMemo(() => {
+    let balance = 0;
+    return [...transactions]
+      .sort((a, b) => a.date.localeCompare(b.date) || a.createdAt.localeCompare(b.createdAt))
+      .map((t) => {
+        balance += t.quantity;
+        return { transaction: t, balance };
+      })
+      .reverse();
+  }, [transactions]);
+  const onHand = ledger.length > 0 ? ledger[0].balance : 0;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (entryType !== 'count' && quantity <= 0) return;
+
+    const signed = entryType === 'count'
+      ? quantity - onHand
+      : entryType === 'transfer_out' ? -quantity : quantity;
+    if (signed === 0) return;
+
+    await saveInventoryTransaction({
+      id: `inv-${Date.now()}`,
+      productId: product.id,
+      date,
+      type: entryType === 'count' ? 'adjustment' : entryType === 'receipt' ? 'receipt' : 'transfer',
+      quantity: Math.round(signed * 1000) / 1000,
+      location: entryType.startsWith('transfer') && location.trim() ? location.trim() : undefined,
+      notes: notes.trim() || undefined,
+      createdAt: new Date().toISOString(),
+    });
+    setQuantity(0);
+    setLocation('');
+    setNotes('');
+    onChange();
+  };
+
+  const handleDelete = async (id: string) => {
+    await deleteInventoryTransaction(id);
+    onChange();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg max-w-lg w-full p-6 max-h-[90vh] overflow-y-auto">
+        <div className="flex justify-between items-start mb-4">
+          <div>
+            <h2 className="text-xl font-semibold">{product.name} Inventory</h2>
+            <p className={`text-sm font-medium ${onHand < 0 ? 'text-red-600' : 'text-gray-600'}`}>
+              On hand: {formatInventoryQuantity(onHand, product)}
+            </p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600 text-xl">&times;</button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-3 border rounded-lg p-3 mb-4">
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Entry</label>
+              <select
+                className="input-field"
+                value={entryType}
+                onChange={(e) => setEntryType(e.target.value as EntryType)}
+              >
+                <option value="receipt">Receipt (purchase)</option>
+                <option value="transfer_in">Transfer in</option>
+                <option value="transfer_out">Transfer out</option>
+                <option value="count">Physical count</option>
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                {entryType === 'count' ? `Counted (${unit})` : `Quantity (${unit})`}
+              </label>
+              <input
+                type="number"
+                className="input-field"
+                value={quantity || ''}
+                onChange={(e) => setQuantity(parseFloat(e.target.value) || 0)}
+                step="0.1"
+                min="0"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Date</label>
+              <input type="date" className="input-field" value={date} onChange={(e) => setDate(e.target.value)} />
+            </div>
+            {entryType.startsWith('transfer') ? (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  {entryType === 'transfer_in' ? 'From' : 'To'}
+                </label>
+                <input
+                  type="text"
+                  className="input-field"
+                  value={location}
+                  onChange={(e) => setLocation(e.target.value)}
+                  placeholder="e.g. North shop"
+                />
+              </div>
+            ) : (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Notes</label>
+                <input
+                  type="text"
+                  className="input-field"
+                  value={notes}
+                  onChange={(e) => setNotes(e.target.value)}
+                  placeholder={entryType === 'receipt' ? 'Invoice / dealer' : 'Optional'}
+                />
+              </div>
+            )}
+          </div>
+          {entryType === 'count' && (
+            <p className="text-xs text-gray-500">
+              Records an adjustment of {Math.round((quantity - onHand) * 100) / 100} {unit} to match the count.
+            </p>
+          )}
+          <button type="submit" className="btn-primary w-full text-sm py-2">
+            Add Entry
+          </button>
+        </form>
+
+        <h3 className="font-medium text-gray-700 mb-2">Ledger</h3>
+        {ledger.length === 0 ? (
+          <p className="text-sm text-gray-400">
+            No entries yet. Add a receipt or count to start tracking this product.
+          </p>
+        ) : (
+          <div className="border rounded max-h-64 overflow-y-auto">
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50 sticky top-0">
+                <tr>
+                  <th className="text-left p-2 font-medium">Date</th>
+                  <th className="text-left p-2 font-medium">Entry</th>
+                  <th className="text-right p-2 font-medium">Qty</th>
+                  <th className="text-right p-2 font-medium">Balance</th>
+                  <th className="p-2" />
+                </tr>
+              </thead>
+              <tbody>
+                {ledger.map(({ transaction: t, balance }) => (
+                  <tr key={t.id} className="border-t align-top">
+                    <td className="p-2 whitespace-nowrap">{t.date}</td>
+                    <td className="p-2">
+                      {TRANSACTION_TYPE_LABELS[t.type]}
+                      {(t.location || t.notes) && (
+                        <div className="text-xs text-gray-500">
+                          {[t.location, t.notes].filter(Boolean).join(' · ')}
+                        </div>
+                      )}
+                    </td>
+                    <td className={`p-2 text-right whitespace-nowrap ${t.quantity < 0 ? 'text-red-600' : 'text-ag-green-700'}`}>
+                      {t.quantity > 0 ? '+' : ''}{Math.round(t.quantity * 100) / 100}
+                    </td>
+                    <td className="p-2 text-right whitespace-nowrap">{Math.round(balance * 100) / 100}</td>
+                    <td className="p-2 text-right">
+                      {t.type !== 'application' && (
+                        <button
+                          onClick={() => handleDelete(t.id)}
+                          className="text-red-400 hover:text-red-600"
+                          title="Delete entry"
+                        >
+                          &times;
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+        <p className="text-xs text-gray-500 mt-2">
+          Applied amounts are deducted automatically when spray records are saved and follow edits to those records.
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default InventoryModal;
@@ -1,7 +1,11 @@
 import React, { useState } from 'react';
-import { Product, ProductType, MeasurementUnit, RateBasis } from '../../types';
+import { Product, ProductType, MeasurementUnit, RateBasis, ProductCategory, FormulationType, MixingStep, ActiveIngredient, MoaSystem } from '../../types';
 import { saveProduct, getContainers } from '../../utils/storageService';
 import { getUnitsForProductType, formatUnitDisplay, parseLegacyUnit, getBaseDisplayUnit, getContainerCategory } from '../../utils/unitConstants';
+import { FORMULATION_OPTIONS, PRODUCT_CATEGORY_OPTIONS } from '../../utils/compatibilityRules';
+import { MIXING_STEPS, getMixingStep, getMixingStepInfo } from '../../utils/mixingOrder';
+import { ACTIVE_INGREDIENT_CATALOG, findCatalogIngredient } from '../../utils/modeOfAction';
+import { addPriceEntry, formatCurrency } from '../../utils/costs';
 
 interface ProductModalProps {
   product?: Product | null;
@@ -32,9 +36,23 @@ const ProductModal: React.FC<ProductModalProps> = ({ product, onSave, onClose })
   const [measurementUnit, setMeasurementUnit] = useState<MeasurementUnit>(initMeasurementUnit(product));
   const [rateBasis, setRateBasis] = useState<RateBasis>(initRateBasis(product));
   const [defaultRate, setDefaultRate] = useState(product?.defaultRate || 0);
-  const [mixingOrder, setMixingOrder] = useState(product?.mixingOrder || 2);
+  const [mixingStep, setMixingStep] = useState<MixingStep | ''>(product?.mixingStep || '');
   const [pHSensitive, setPHSensitive] = useState(product?.pHSensitive || false);
   const [packageSize, setPackageSize] = useState(product?.packageSize || 0);
+  const [reiHours, setReiHours] = useState(product?.reiHours || 0);
+  const [phiDays, setPhiDays] = useState(product?.phiDays || 0);
+  const [rainfastHours, setRainfastHours] = useState(product?.rainfastHours || 0);
+  const [maxRatePerApplication, setMaxRatePerApplication] = useState(product?.maxRatePerApplication || 0);
+  const [maxSeasonalRate, setMaxSeasonalRate] = useState(product?.maxSeasonalRate || 0);
+  const [maxApplicationsPerYear, setMaxApplicationsPerYear] = useState(product?.maxApplicationsPerYear || 0);
+  const [category, setCategory] = useState<ProductCategory | ''>(product?.category || '');
+  const [formulation, setFormulation] = useState<FormulationType | ''>(product?.formulation || '');
+  const [activeIngredients, setActiveIngredients] = useState<ActiveIngredient[]>(product?.activeIngredients || []);
+  const [chemicalClass, setChemicalClass] = useState(product?.chemicalClass || '');
+  const [epaRegNumber, setEpaRegNumber] = useState(product?.epaRegNumber || '');
+  const [restrictedUse, setRestrictedUse] = useState(product?.restrictedUse || false);
+  const [unitPrice, setUnitPrice] = useState(product?.unitPrice || 0);
+  const [priceDate, setPriceDate] = useState(new Date().toISOString().split('T')[0]);
   const [preferredContainers, setPreferredContainers] = useState<string[]>(
     product?.preferredContainers || []
   );
@@ -57,6 +75,22 @@ const ProductModal: React.FC<ProductModalProps> = ({ product, onSave, onClose })
     );
   };
 
+  const updateIngredient = (index: number, updates: Partial<ActiveIngredient>) => {
+    setActiveIngredients((prev) => prev.map((ai, i) => {
+      if (i !== index) return ai;
+      const next = { ...ai, ...updates };
+      // Fill the MOA group from the catalog when a known ingredient is picked
+      if (updates.name !== undefined && !ai.moaGroup) {
+        const known = findCatalogIngredient(updates.name);
+        if (known) {
+          next.moaSystem = known.moaSystem;
+          next.moaGroup = known.moaGroup;
+        }
+      }
+      return next;
+    }));
+  };
+
   const handleTypeChange = (newType: ProductType) => {
     setType(newType);
     // Reset measurement unit to first available for the new type
@@ -71,6 +105,19 @@ const ProductModal: React.FC<ProductModalProps> = ({ product, onSave, onClose })
     if (!name.trim() || defaultRate <= 0) return;
 
     const unitDisplay = formatUnitDisplay(measurementUnit, rateBasis);
+    const aiList = activeIngredients
+      .filter((ai) => ai.name.trim())
+      .map((ai) => ({
+        name: ai.name.trim(),
+        ...(ai.concentration ? { concentration: ai.concentration, concentrationUnit: ai.concentrationUnit || 'percent' } : {}),
+        ...(ai.moaSystem && ai.moaGroup?.trim() ? { moaSystem: ai.moaSystem, moaGroup: ai.moaGroup.trim() } : {}),
+      }));
+
+    // A changed price is added to the history as of its effective date
+    let priceHistory = product?.priceHistory || [];
+    if (unitPrice > 0 && unitPrice !== product?.unitPrice) {
+      priceHistory = addPriceEntry(priceHistory, unitPrice, priceDate);
+    }
 
     const saved: Product = {
       id: product?.id || `custom-${Date.now()}`,
@@ -78,13 +125,26 @@ const ProductModal: React.FC<ProductModalProps> = ({ product, onSave, onClose })
       type,
       unit: unitDisplay,
       defaultRate,
-      mixingOrder,
+      ...(mixingStep ? { mixingStep } : {}),
       pHSensitive,
       isCustom: true,
       measurementUnit,
       rateBasis,
       ...(packageSize > 0 ? { packageSize } : {}),
+      ...(reiHours > 0 ? { reiHours } : {}),
+      ...(phiDays > 0 ? { phiDays } : {}),
+      ...(rainfastHours > 0 ? { rainfastHours } : {}),
+      ...(maxRatePerApplication > 0 ? { maxRatePerApplication } : {}),
+      ...(maxSeasonalRate > 0 ? { maxSeasonalRate } : {}),
+      ...(maxApplicationsPerYear > 0 ? { maxApplicationsPerYear } : {}),
+      ...(category ? { category } : {}),
+      ...(formulation ? { formulation } : {}),
+      ...(aiList.length > 0 ? { activeIngredients: aiList } : {}),
+      ...(chemicalClass.trim() ? { chemicalClass: chemicalClass.trim() } : {}),
+      ...(epaRegNumber.trim() ? { epaRegNumber: epaRegNumber.trim() } : {}),
+      ...(restrictedUse ? { restrictedUse } : {}),
       ...(preferredContainers.length > 0 ? { preferredContainers } : {}),
+      ...(unitPrice > 0 ? { unitPrice, priceHistory } : {}),
     };
 
     await saveProduct(saved);
@@ -93,7 +153,7 @@ const ProductModal: React.FC<ProductModalProps> = ({ product, onSave, onClose })
 
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
-      <div className="bg-white rounded-lg max-w-md w-full p-6">
+      <div className="bg-white rounded-lg max-w-lg w-full p-6 max-h-[90vh] overflow-y-auto">
         <h2 className="text-xl font-semibold mb-4">
           {product ? 'Edit Product' : 'Add Product'}
         </h2>
@@ -156,6 +216,126 @@ const ProductModal: React.FC<ProductModalProps> = ({ product, onSave, onClose })
             </p>
           )}
 
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Category</label>
+              <select
+                className="input-field"
+                value={category}
+                onChange={(e) => setCategory(e.target.value as ProductCategory | '')}
+              >
+                <option value="">Not set</option>
+                {PRODUCT_CATEGORY_OPTIONS.map((o) => (
+                  <option key={o.value} value={o.value}>{o.label}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Formulation</label>
+              <select
+                className="input-field"
+                value={formulation}
+                onChange={(e) => setFormulation(e.target.value as FormulationType | '')}
+              >
+                <option value="">Not set</option>
+                {FORMULATION_OPTIONS.map((o) => (
+                  <option key={o.value} value={o.value}>{o.label}</option>
+                ))}
+              </select>
+            </div>
+            <div className="col-span-2">
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Chemical Class
+              </label>
+              <input
+                type="text"
+                className="input-field"
+                value={chemicalClass}
+                onChange={(e) => setChemicalClass(e.target.value)}
+                placeholder="e.g., phenoxy"
+              />
+            </div>
+          </div>
+
+          <div>
+            <div className="flex justify-between items-center mb-1">
+              <label className="block text-sm font-medium text-gray-700">Active Ingredients</label>
+              <button
+                type="button"
+                onClick={() => setActiveIngredients([...activeIngredients, { name: '' }])}
+                className="text-sm text-ag-green-700 hover:text-ag-green-800 font-medium"
+              >
+                + Add
+              </button>
+            </div>
+            <datalist id="ai-catalog">
+              {ACTIVE_INGREDIENT_CATALOG.map((ai) => (
+                <option key={ai.name} value={ai.name} />
+              ))}
+            </datalist>
+            {activeIngredients.length === 0 ? (
+              <p className="text-xs text-gray-500">
+                Add ingredients to track mode-of-action (HRAC/FRAC/IRAC) groups
+              </p>
+            ) : (
+              <div className="space-y-2">
+                {activeIngredients.map((ai, i) => (
+                  <div key={i} className="flex gap-2 items-center">
+                    <input
+                      type="text"
+                      list="ai-catalog"
+                      className="input-field text-sm py-2 flex-1"
+                      placeholder="Ingredient"
+                      value={ai.name}
+                      onChange={(e) => updateIngredient(i, { name: e.target.value })}
+                    />
+                    <input
+                      type="number"
+                      className="input-field text-sm py-2 w-16"
+                      placeholder="Conc."
+                      value={ai.concentration || ''}
+                      onChange={(e) => updateIngredient(i, { concentration: parseFloat(e.target.value) || undefined })}
+                      step="0.1"
+                      min="0"
+                    />
+                    <select
+                      className="input-field text-sm py-2 w-20"
+                      value={ai.concentrationUnit || 'percent'}
+                      onChange={(e) => updateIngredient(i, { concentrationUnit: e.target.value as ActiveIngredient['concentrationUnit'] })}
+                    >
+                      <option value="percent">%</option>
+                      <option value="lb_per_gal">lb/gal</option>
+                    </select>
+                    <select
+                      className="input-field text-sm py-2 w-20"
+                      value={ai.moaSystem || ''}
+                      onChange={(e) => updateIngredient(i, { moaSystem: (e.target.value || undefined) as MoaSystem | undefined })}
+                    >
+                      <option value="">MOA</option>
+                      <option value="HRAC">HRAC</option>
+                      <option value="FRAC">FRAC</option>
+                      <option value="IRAC">IRAC</option>
+                    </select>
+                    <input
+                      type="text"
+                      className="input-field text-sm py-2 w-14"
+                      placeholder="Grp"
+                      value={ai.moaGroup || ''}
+                      onChange={(e) => updateIngredient(i, { moaGroup: e.target.value })}
+                    />
+                    <button
+                      type="button"
+                      onClick={() => setActiveIngredients(activeIngredients.filter((_, j) => j !== i))}
+                      className="text-red-400 hover:text-red-600"
+                    >
+                      &times;
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
           <div className="grid grid-cols-2 gap-3">
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-1">
@@ -173,16 +353,22 @@ const ProductModal: React.FC<ProductModalProps> = ({ product, onSave, onClose })
             </div>
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-1">
-                Mixing Order
+                Mixing Step
               </label>
-              <input
-                type="number"
+              <select
                 className="input-field"
-                value={mixingOrder}
-                onChange={(e) => setMixingOrder(parseInt(e.target.value) || 1)}
-                min="1"
-                max="10"
-              />
+                value={mixingStep}
+                onChange={(e) => setMixingStep(e.target.value as MixingStep | '')}
+              >
+                <option value="">
+                  Auto: {getMixingStepInfo(getMixingStep({ type, formulation: formulation || undefined })).label}
+                </option>
+                {MIXING_STEPS.map((step, i) => (
+                  <option key={step.key} value={step.key}>
+                    {i + 1}. {step.label}
+                  </option>
+                ))}
+              </select>
             </div>
           </div>
 
@@ -204,6 +390,166 @@ const ProductModal: React.FC<ProductModalProps> = ({ product, onSave, onClose })
             </p>
           </div>
 
+          <div>
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Unit Price ($ / {baseUnit})
+                </label>
+                <input
+                  type="number"
+                  className="input-field"
+                  value={unitPrice || ''}
+                  onChange={(e) => setUnitPrice(parseFloat(e.target.value) || 0)}
+                  step="0.01"
+                  min="0"
+                  placeholder="Optional"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Price Effective
+                </label>
+                <input
+                  type="date"
+                  className="input-field"
+                  value={priceDate}
+                  onChange={(e) => setPriceDate(e.target.value)}
+                  disabled={unitPrice <= 0 || unitPrice === product?.unitPrice}
+                />
+              </div>
+            </div>
+            {product?.priceHistory && product.priceHistory.length > 0 && (
+              <p className="text-xs text-gray-500 mt-1">
+                History:{' '}
+                {[...product.priceHistory].reverse().map((h) => `${formatCurrency(h.price)} from ${h.effectiveDate}`).join(' · ')}
+              </p>
+            )}
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                EPA Reg. No.
+              </label>
+              <input
+                type="text"
+                className="input-field"
+                value={epaRegNumber}
+                onChange={(e) => setEpaRegNumber(e.target.value)}
+                placeholder="e.g. 524-549"
+              />
+            </div>
+            <div className="flex items-end pb-2">
+              <label className="flex items-center gap-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={restrictedUse}
+                  onChange={(e) => setRestrictedUse(e.target.checked)}
+                />
+                Restricted use (RUP)
+              </label>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-3 gap-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                REI (hours)
+              </label>
+              <input
+                type="number"
+                className="input-field"
+                value={reiHours || ''}
+                onChange={(e) => setReiHours(parseFloat(e.target.value) || 0)}
+                step="1"
+                min="0"
+                placeholder="Optional"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                PHI (days)
+              </label>
+              <input
+                type="number"
+                className="input-field"
+                value={phiDays || ''}
+                onChange={(e) => setPhiDays(parseFloat(e.target.value) || 0)}
+                step="1"
+                min="0"
+                placeholder="Optional"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Rainfast (hours)
+              </label>
+              <input
+                type="number"
+                className="input-field"
+                value={rainfastHours || ''}
+                onChange={(e) => setRainfastHours(parseFloat(e.target.value) || 0)}
+                step="0.25"
+                min="0"
+                placeholder="Optional"
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Label Limits
+            </label>
+            <div className="grid grid-cols-3 gap-3">
+              <div>
+                <label className="block text-xs text-gray-500 mb-1">
+                  Max rate / application
+                </label>
+                <input
+                  type="number"
+                  className="input-field"
+                  value={maxRatePerApplication || ''}
+                  onChange={(e) => setMaxRatePerApplication(parseFloat(e.target.value) || 0)}
+                  step="0.1"
+                  min="0"
+                  placeholder="Optional"
+                />
+              </div>
+              <div>
+                <label className="block text-xs text-gray-500 mb-1">
+                  Max per season ({formatUnitDisplay(measurementUnit, 'per_acre')})
+                </label>
+                <input
+                  type="number"
+                  className="input-field"
+                  value={maxSeasonalRate || ''}
+                  onChange={(e) => setMaxSeasonalRate(parseFloat(e.target.value) || 0)}
+                  step="0.1"
+                  min="0"
+                  placeholder="Optional"
+                />
+              </div>
+              <div>
+                <label className="block text-xs text-gray-500 mb-1">
+                  Max applications / year
+                </label>
+                <input
+                  type="number"
+                  className="input-field"
+                  value={maxApplicationsPerYear || ''}
+                  onChange={(e) => setMaxApplicationsPerYear(parseInt(e.target.value) || 0)}
+                  step="1"
+                  min="0"
+                  placeholder="Optional"
+                />
+              </div>
+            </div>
+            <p className="text-xs text-gray-500 mt-1">
+              Max rate uses the rate unit above ({formatUnitDisplay(measurementUnit, rateBasis)})
+            </p>
+          </div>
+
           {relevantContainers.length > 0 && (
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-1">
@@ -1,5 +1,5 @@
 import React, { useState, useEffect } from 'react';
-import { Product, Applicator } from '../../types';
+import { Product, Applicator, CompatibilityRule, MoaSettings, InventoryTransaction, VarianceSettings, SprayerProfile } from '../../types';
 import { ContainerType } from '../../utils/containerCalculations';
 import { LocationWeatherService, LocationData, getCurrentPosition, geocodeAddress } from '../../utils/weatherService';
 import {
@@ -15,12 +15,34 @@ import {
   getApplicators,
   saveApplicator,
   deleteApplicator,
+  getCompatibilityRules,
+  saveCompatibilityRules,
+  getMoaSettings,
+  saveMoaSettings,
+  getVarianceSettings,
+  saveVarianceSettings,
+  getInventoryTransactions,
+  getSprayers,
+  saveSprayer,
+  deleteSprayer,
 } from '../../utils/storageService';
+import { DEFAULT_COMPATIBILITY_RULES, describeMatcher, SEVERITY_OPTIONS } from '../../utils/compatibilityRules';
 import ProductModal from './ProductModal';
 import ContainerModal from './ContainerModal';
+import CompatibilityRuleModal from './CompatibilityRuleModal';
+import InventoryModal from './InventoryModal';
+import SprayerModal from './SprayerModal';
+import CalibrationModal from '../calculator/CalibrationModal';
+import { getMixingStep, getMixingStepInfo } from '../../utils/mixingOrder';
+import { DEFAULT_MOA_SETTINGS, getProductMoaGroups } from '../../utils/modeOfAction';
+import { computeOnHand, formatInventoryQuantity } from '../../utils/inventory';
+import { formatCurrency } from '../../utils/costs';
+import { DEFAULT_VARIANCE_SETTINGS } from '../../utils/variance';
+import { getBaseDisplayUnit } from '../../utils/unitConstants';
 import { supabaseConfigured } from '../../utils/supabaseClient';
+import { describeSprayerSetup } from '../../utils/sprayers';
 
-type Tab = 'location' | 'products' | 'containers' | 'applicators' | 'sync';
+type Tab = 'location' | 'products' | 'compatibility' | 'containers' | 'sprayers' | 'applicators' | 'sync';
 
 const SettingsPage: React.FC = () => {
   const [tab, setTab] = useState<Tab>('location');
@@ -28,7 +50,9 @@ const SettingsPage: React.FC = () => {
   const tabs: { key: Tab; label: string }[] = [
     { key: 'location', label: 'Farm Location' },
     { key: 'products', label: 'Products' },
+    { key: 'compatibility', label: 'Tank-Mix Rules' },
     { key: 'containers', label: 'Containers' },
+    { key: 'sprayers', label: 'Sprayers' },
     { key: 'applicators', label: 'Applicators' },
     { key: 'sync', label: 'Data Sync' },
   ];
@@ -54,7 +78,9 @@ const SettingsPage: React.FC = () => {
 
       {tab === 'location' && <LocationTab />}
       {tab === 'products' && <ProductsTab />}
+      {tab === 'compatibility' && <CompatibilityTab />}
       {tab === 'containers' && <ContainersTab />}
+      {tab === 'sprayers' && <SprayersTab />}
       {tab === 'applicators' && <ApplicatorsTab />}
       {tab === 'sync' && <DataSyncTab />}
     </div>
@@ -227,13 +253,40 @@ const ProductsTab: React.FC = () => {
   const [products, setProducts] = useState<Product[]>([]);
   const [showModal, setShowModal] = useState(false);
   const [editingProduct, setEditingProduct] = useState<Product | null>(null);
+  const [moaSettings, setMoaSettings] = useState<MoaSettings>(DEFAULT_MOA_SETTINGS);
+  const [transactions, setTransactions] = useState<InventoryTransaction[]>([]);
+  const [inventoryProduct, setInventoryProduct] = useState<Product | null>(null);
+  const [varianceSettings, setVarianceSettings] = useState<VarianceSettings>(DEFAULT_VARIANCE_SETTINGS);
 
   const reload = async () => {
     const p = await getProducts();
     setProducts(p);
   };
 
-  useEffect(() => { reload(); }, []);
+  const reloadInventory = async () => {
+    setTransactions(await getInventoryTransactions());
+  };
+
+  useEffect(() => {
+    reload();
+    reloadInventory();
+    getMoaSettings().then(setMoaSettings);
+    getVarianceSettings().then(setVarianceSettings);
+  }, []);
+
+  const onHand = computeOnHand(transactions);
+
+  const updateMoaSettings = (updates: Partial<MoaSettings>) => {
+    const next = { ...moaSettings, ...updates };
+    setMoaSettings(next);
+    saveMoaSettings(next);
+  };
+
+  const updateVarianceSettings = (updates: Partial<VarianceSettings>) => {
+    const next = { ...varianceSettings, ...updates };
+    setVarianceSettings(next);
+    saveVarianceSettings(next);
+  };
 
   return (
     <div className="space-y-4">
@@ -261,6 +314,53 @@ const ProductsTab: React.FC = () => {
         </div>
       </div>
 
+      <div className="card">
+        <h3 className="font-semibold mb-1">Resistance Management</h3>
+        <p className="text-sm text-gray-600 mb-3">
+          Warn in the calculator when the same mode-of-action group would be used on a field too often.
+        </p>
+        <div className="grid grid-cols-2 gap-3 max-w-md">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Max uses per group</label>
+            <input
+              type="number"
+              className="input-field"
+              value={moaSettings.maxRepeats}
+              onChange={(e) => updateMoaSettings({ maxRepeats: Math.max(1, parseInt(e.target.value) || 1) })}
+              min="1"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Within crop years</label>
+            <input
+              type="number"
+              className="input-field"
+              value={moaSettings.lookbackYears}
+              onChange={(e) => updateMoaSettings({ lookbackYears: Math.max(1, parseInt(e.target.value) || 1) })}
+              min="1"
+            />
+          </div>
+        </div>
+      </div>
+
+      <div className="card">
+        <h3 className="font-semibold mb-1">Planned vs. Applied</h3>
+        <p className="text-sm text-gray-600 mb-3">
+          Flag spray records whose applied carrier or product rate is off the calculated plan by more than this.
+        </p>
+        <div className="max-w-[12rem]">
+          <label className="block text-sm font-medium text-gray-700 mb-1">Variance threshold (%)</label>
+          <input
+            type="number"
+            className="input-field"
+            value={varianceSettings.thresholdPercent}
+            onChange={(e) => updateVarianceSettings({ thresholdPercent: Math.max(0, parseFloat(e.target.value) || 0) })}
+            min="0"
+            step="1"
+          />
+        </div>
+      </div>
+
       <div className="space-y-3">
         {products.map((p) => (
           <div key={p.id} className="card flex justify-between items-center">
@@ -272,13 +372,37 @@ const ProductsTab: React.FC = () => {
                     custom
                   </span>
                 )}
+                {p.restrictedUse && (
+                  <span className="ml-2 px-1.5 py-0.5 bg-red-100 text-red-700 rounded text-xs">
+                    RUP
+                  </span>
+                )}
               </h3>
               <p className="text-sm text-gray-600">
-                {p.defaultRate} {p.unit} &middot; {p.type} &middot; Order: {p.mixingOrder}
+                {p.defaultRate} {p.unit} &middot; {p.type} &middot; {getMixingStepInfo(getMixingStep(p)).label}
                 {p.pHSensitive && ' &middot; pH sensitive'}
+                {p.reiHours ? ` \u00B7 REI ${p.reiHours} hr` : ''}
+                {p.phiDays ? ` \u00B7 PHI ${p.phiDays} d` : ''}
+                {p.rainfastHours ? ` \u00B7 Rainfast ${p.rainfastHours} hr` : ''}
+                {p.formulation ? ` \u00B7 ${p.formulation}` : ''}
+                {p.epaRegNumber ? ` \u00B7 EPA ${p.epaRegNumber}` : ''}
+                {p.unitPrice ? ` \u00B7 ${formatCurrency(p.unitPrice)}/${getBaseDisplayUnit(p.measurementUnit)}` : ''}
+                {p.activeIngredients?.length ? ` \u00B7 ${p.activeIngredients.map((a) => a.name).join(', ')}` : ''}
+                {getProductMoaGroups(p).length > 0 && ` \u00B7 ${getProductMoaGroups(p).join(', ')}`}
               </p>
+              {onHand.has(p.id) && (
+                <p className={`text-sm font-medium ${(onHand.get(p.id) || 0) <= 0 ? 'text-red-600' : 'text-ag-green-700'}`}>
+                  On hand: {formatInventoryQuantity(onHand.get(p.id) || 0, p)}
+                </p>
+              )}
             </div>
             <div className="flex gap-2">
+              <button
+                onClick={() => setInventoryProduct(p)}
+                className="text-sm text-gray-600 hover:text-gray-800"
+              >
+                Inventory
+              </button>
               <button
                 onClick={() => {
                   setEditingProduct(p);
@@ -316,6 +440,142 @@ const ProductsTab: React.FC = () => {
           }}
         />
       )}
+
+      {inventoryProduct && (
+        <InventoryModal
+          product={inventoryProduct}
+          transactions={transactions.filter((t) => t.productId === inventoryProduct.id)}
+          onChange={reloadInventory}
+          onClose={() => setInventoryProduct(null)}
+        />
+      )}
+    </div>
+  );
+};
+
+// --- Tank-Mix Compatibility Rules Tab ---
+const SEVERITY_BADGES: Record<CompatibilityRule['severity'], string> = {
+  incompatible: 'bg-red-100 text-red-700',
+  caution: 'bg-yellow-100 text-yellow-700',
+  info: 'bg-blue-100 text-blue-700',
+};
+
+const CompatibilityTab: React.FC = () => {
+  const [rules, setRules] = useState<CompatibilityRule[]>([]);
+  const [showModal, setShowModal] = useState(false);
+  const [editingRule, setEditingRule] = useState<CompatibilityRule | null>(null);
+
+  useEffect(() => {
+    getCompatibilityRules().then(setRules);
+  }, []);
+
+  const update = async (next: CompatibilityRule[]) => {
+    setRules(next);
+    await saveCompatibilityRules(next);
+  };
+
+  const handleSave = (rule: CompatibilityRule) => {
+    const idx = rules.findIndex((r) => r.id === rule.id);
+    const next = idx >= 0
+      ? rules.map((r) => (r.id === rule.id ? rule : r))
+      : [...rules, rule];
+    update(next);
+    setShowModal(false);
+    setEditingRule(null);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-between items-center">
+        <h2 className="text-xl font-semibold">Tank-Mix Compatibility Rules</h2>
+        <div className="flex gap-2">
+          <button
+            onClick={() => {
+              setEditingRule(null);
+              setShowModal(true);
+            }}
+            className="btn-primary text-sm py-2 px-4"
+          >
+            + Add Rule
+          </button>
+          <button
+            onClick={() => update(DEFAULT_COMPATIBILITY_RULES)}
+            className="btn-secondary text-sm py-2 px-4"
+          >
+            Reset to Defaults
+          </button>
+        </div>
+      </div>
+
+      <p className="text-sm text-gray-600">
+        Rules match on product category, formulation, active ingredient and chemical class
+        (set these on each product) and show up under Mixing Instructions in the calculator.
+      </p>
+
+      <div className="space-y-3">
+        {rules.map((r) => (
+          <div key={r.id} className={`card flex justify-between items-center ${r.enabled ? '' : 'opacity-60'}`}>
+            <div>
+              <h3 className="font-semibold">
+                {r.name}
+                <span className={`ml-2 px-1.5 py-0.5 rounded text-xs ${SEVERITY_BADGES[r.severity]}`}>
+                  {SEVERITY_OPTIONS.find((o) => o.value === r.severity)?.label}
+                </span>
+                {r.isCustom && (
+                  <span className="ml-2 px-1.5 py-0.5 bg-blue-100 text-blue-700 rounded text-xs">
+                    custom
+                  </span>
+                )}
+              </h3>
+              <p className="text-sm text-gray-600">
+                {r.productB
+                  ? `${describeMatcher(r.productA)} + ${describeMatcher(r.productB)}`
+                  : `${r.minCount ?? 2}+ products: ${describeMatcher(r.productA)}`}
+                {r.addFirst && ` \u00B7 add ${r.addFirst} first`}
+              </p>
+              <p className="text-sm text-gray-500">{r.message}</p>
+            </div>
+            <div className="flex items-center gap-2">
+              <button
+                onClick={() => update(rules.map((x) => (x.id === r.id ? { ...x, enabled: !x.enabled } : x)))}
+                className={`text-xs px-2 py-1 rounded ${
+                  r.enabled
+                    ? 'bg-ag-green-50 text-ag-green-700'
+                    : 'bg-gray-100 text-gray-500'
+                }`}
+              >
+                {r.enabled ? 'Enabled' : 'Disabled'}
+              </button>
+              <button
+                onClick={() => {
+                  setEditingRule(r);
+                  setShowModal(true);
+                }}
+                className="text-sm text-blue-600 hover:text-blue-800"
+              >
+                Edit
+              </button>
+              <button
+                onClick={() => update(rules.filter((x) => x.id !== r.id))}
+                className="text-sm text-red-500 hover:text-red-700"
+              >
+                Delete
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {showModal && (
+        <CompatibilityRuleModal
+          rule={editingRule}
+          onSave={handleSave}
+          onClose={() => {
+            setShowModal(false);
+            setEditingRule(null);
+          }}
+        />
+      )}
     </div>
   );
 };
@@ -419,12 +679,146 @@ const ContainersTab: React.FC = () => {
   );
 };
 
+// --- Sprayers Tab ---
+const SprayersTab: React.FC = () => {
+  const [sprayers, setSprayers] = useState<SprayerProfile[]>([]);
+  const [showModal, setShowModal] = useState(false);
+  const [editingSprayer, setEditingSprayer] = useState<SprayerProfile | null>(null);
+  const [calibratingId, setCalibratingId] = useState<string | null>(null);
+  const [deleteConfirm, setDeleteConfirm] = useState<string | null>(null);
+
+  const reload = async () => {
+    const list = await getSprayers();
+    setSprayers([...list].sort((a, b) => a.name.localeCompare(b.name)));
+  };
+
+  useEffect(() => { reload(); }, []);
+
+  const handleDelete = async (id: string) => {
+    await deleteSprayer(id);
+    setDeleteConfirm(null);
+    reload();
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-between items-center">
+        <h2 className="text-xl font-semibold">Sprayers</h2>
+        <button
+          onClick={() => {
+            setEditingSprayer(null);
+            setShowModal(true);
+          }}
+          className="btn-primary text-sm py-2 px-4"
+        >
+          + Add Sprayer
+        </button>
+      </div>
+
+      <p className="text-sm text-gray-600">
+        Selecting a sprayer in the calculator fills its tank size and calibrated rate.
+        The sprayer setup is copied onto each spray record.
+      </p>
+
+      {sprayers.length === 0 ? (
+        <div className="card text-center py-8">
+          <p className="text-gray-500">No sprayers added yet.</p>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {sprayers.map((s) => (
+            <div key={s.id} className="card flex justify-between items-center">
+              <div>
+                <h3 className="font-semibold">{s.name}</h3>
+                <p className="text-sm text-gray-600">
+                  {s.tankSize} gal tank &middot; {describeSprayerSetup(s)}
+                </p>
+                {s.calibratedAt && (
+                  <p className="text-xs text-gray-400">Calibrated {s.calibratedAt}</p>
+                )}
+                {s.notes && <p className="text-xs text-gray-500 mt-1">{s.notes}</p>}
+              </div>
+              <div className="flex items-center gap-2">
+                {deleteConfirm === s.id ? (
+                  <>
+                    <button onClick={() => handleDelete(s.id)} className="text-sm text-red-600 font-medium">
+                      Confirm Delete
+                    </button>
+                    <button onClick={() => setDeleteConfirm(null)} className="text-sm text-gray-500">
+                      Cancel
+                    </button>
+                  </>
+                ) : (
+                  <>
+                    <button
+                      onClick={() => setCalibratingId(s.id)}
+                      className="text-sm text-ag-green-600 hover:text-ag-green-800"
+                    >
+                      Calibrate
+                    </button>
+                    <button
+                      onClick={() => {
+                        setEditingSprayer(s);
+                        setShowModal(true);
+                      }}
+                      className="text-sm text-blue-600 hover:text-blue-800"
+                    >
+                      Edit
+                    </button>
+                    <button
+                      onClick={() => setDeleteConfirm(s.id)}
+                      className="text-sm text-red-500 hover:text-red-700"
+                    >
+                      Delete
+                    </button>
+                  </>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {calibratingId && (
+        <CalibrationModal
+          sprayers={sprayers}
+          sprayerId={calibratingId}
+          onSave={async (sprayer) => {
+            await saveSprayer(sprayer);
+            setCalibratingId(null);
+            reload();
+          }}
+          onClose={() => setCalibratingId(null)}
+        />
+      )}
+
+      {showModal && (
+        <SprayerModal
+          sprayer={editingSprayer}
+          onSave={async (sprayer) => {
+            await saveSprayer(sprayer);
+            setShowModal(false);
+            setEditingSprayer(null);
+            reload();
+          }}
+          onClose={() => {
+            setShowModal(false);
+            setEditingSprayer(null);
+          }}
+        />
+      )}
+    </div>
+  );
+};
+
 // --- Applicators Tab ---
 const ApplicatorsTab: React.FC = () => {
   const [applicators, setApplicators] = useState<Applicator[]>([]);
   const [newName, setNewName] = useState('');
   const [editingId, setEditingId] = useState<string | null>(null);
   const [editName, setEditName] = useState('');
+  const [editCertification, setEditCertification] = useState('');
+  const [editExpires, setEditExpires] = useState('');
 
   const reload = async () => {
     const list = await getApplicators();
@@ -454,22 +848,32 @@ const ApplicatorsTab: React.FC = () => {
   const startEdit = (applicator: Applicator) => {
     setEditingId(applicator.id);
     setEditName(applicator.name);
+    setEditCertification(applicator.certificationNumber || '');
+    setEditExpires(applicator.certificationExpires || '');
   };
 
   const cancelEdit = () => {
     setEditingId(null);
     setEditName('');
+    setEditCertification('');
+    setEditExpires('');
   };
 
   const handleSaveEdit = async (applicator: Applicator) => {
     const trimmed = editName.trim();
     if (!trimmed) return;
-    await saveApplicator({ ...applicator, name: trimmed });
-    setEditingId(null);
-    setEditName('');
+    await saveApplicator({
+      ...applicator,
+      name: trimmed,
+      certificationNumber: editCertification.trim() || undefined,
+      certificationExpires: editExpires || undefined,
+    });
+    cancelEdit();
     reload();
   };
 
+  const today = new Date().toISOString().split('T')[0];
+
   const handleEditKeyDown = (e: React.KeyboardEvent, applicator: Applicator) => {
     if (e.key === 'Enter') {
       handleSaveEdit(applicator);
@@ -492,6 +896,7 @@ const ApplicatorsTab: React.FC = () => {
       <div className="card">
         <p className="text-sm text-gray-600 mb-4">
           Manage the list of people who apply sprays. These will appear as options when creating spray records.
+          Certification numbers are copied onto each record for restricted-use reporting.
         </p>
 
         {/* Add new applicator */}
@@ -521,7 +926,7 @@ const ApplicatorsTab: React.FC = () => {
             {applicators.map((a) => (
               <div key={a.id} className="flex items-center justify-between bg-gray-50 p-3 rounded">
                 {editingId === a.id ? (
-                  <div className="flex-1 flex gap-2">
+                  <div className="flex-1 flex gap-2 flex-wrap">
                     <input
                       type="text"
                       className="input-field flex-1 py-1"
@@ -530,6 +935,21 @@ const ApplicatorsTab: React.FC = () => {
                       onKeyDown={(e) => handleEditKeyDown(e, a)}
                       autoFocus
                     />
+                    <input
+                      type="text"
+                      className="input-field w-36 py-1"
+                      placeholder="Cert. number"
+                      value={editCertification}
+                      onChange={(e) => setEditCertification(e.target.value)}
+                      onKeyDown={(e) => handleEditKeyDown(e, a)}
+                    />
+                    <input
+                      type="date"
+                      className="input-field w-40 py-1"
+                      title="Certification expires"
+                      value={editExpires}
+                      onChange={(e) => setEditExpires(e.target.value)}
+                    />
                     <button
                       onClick={() => handleSaveEdit(a)}
                       className="text-sm text-ag-green-600 hover:text-ag-green-800 font-medium"
@@ -545,7 +965,17 @@ const ApplicatorsTab: React.FC = () => {
                   </div>
                 ) : (
                   <>
-                    <span className="font-medium">{a.name}</span>
+                    <div>
+                      <span className="font-medium">{a.name}</span>
+                      {a.certificationNumber && (
+                        <span className="text-xs text-gray-500 ml-2">Cert. {a.certificationNumber}</span>
+                      )}
+                      {a.certificationExpires && (
+                        <span className={`text-xs ml-2 ${a.certificationExpires < today ? 'text-red-600 font-medium' : 'text-gray-400'}`}>
+                          {a.certificationExpires < today ? 'expired' : 'expires'} {a.certificationExpires}
+                        </span>
+                      )}
+                    </div>
                     <div className="flex gap-2">
                       <button
                         onClick={() => startEdit(a)}
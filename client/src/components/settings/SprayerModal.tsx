@@ -0,0 +1,139 @@
+import React, { useState } from 'react';
+import { SprayerProfile } from '../../types';
+
+interface SprayerModalProps {
+  sprayer?: SprayerProfile | null;
+  onSave: (sprayer: SprayerProfile) => void;
+  onClose: () => void;
+}
+
+const SprayerModal: React.FC<SprayerModalProps> = ({ sprayer, onSave, onClose }) => {
+  const [name, setName] = useState(sprayer?.name || '');
+  const [tankSize, setTankSize] = useState(sprayer?.tankSize || 0);
+  const [boomWidth, setBoomWidth] = useState(sprayer?.boomWidth || 0);
+  const [nozzleType, setNozzleType] = useState(sprayer?.nozzleType || '');
+  const [nozzleCount, setNozzleCount] = useState(sprayer?.nozzleCount || 0);
+  const [nozzleSpacing, setNozzleSpacing] = useState(sprayer?.nozzleSpacing || 0);
+  const [pressure, setPressure] = useState(sprayer?.pressure || 0);
+  const [calibratedGpa, setCalibratedGpa] = useState(sprayer?.calibratedGpa || 0);
+  const [notes, setNotes] = useState(sprayer?.notes || '');
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim() || tankSize <= 0) return;
+
+    onSave({
+      ...sprayer,
+      id: sprayer?.id || `sprayer-${Date.now()}`,
+      name: name.trim(),
+      tankSize,
+      boomWidth,
+      nozzleType: nozzleType.trim(),
+      nozzleCount,
+      nozzleSpacing: nozzleSpacing > 0 ? nozzleSpacing : undefined,
+      pressure,
+      calibratedGpa,
+      notes: notes.trim() || undefined,
+      createdAt: sprayer?.createdAt || new Date().toISOString(),
+    });
+  };
+
+  const numberInput = (value: number, onChange: (v: number) => void, step: string) => (
+    <input
+      type="number"
+      className="input-field"
+      value={value || ''}
+      onChange={(e) => onChange(parseFloat(e.target.value) || 0)}
+      step={step}
+      min="0"
+    />
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg max-w-md w-full p-6 max-h-[90vh] overflow-y-auto">
+        <h2 className="text-xl font-semibold mb-4">
+          {sprayer ? 'Edit Sprayer' : 'Add Sprayer'}
+        </h2>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+            <input
+              type="text"
+              className="input-field"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g., Patriot 1000"
+              required
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Tank Size (gal)</label>
+              {numberInput(tankSize, setTankSize, '10')}
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Boom Width (ft)</label>
+              {numberInput(boomWidth, setBoomWidth, '1')}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Nozzle Type</label>
+              <input
+                type="text"
+                className="input-field"
+                value={nozzleType}
+                onChange={(e) => setNozzleType(e.target.value)}
+                placeholder="e.g., AIXR 11004"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Nozzle Count</label>
+              {numberInput(nozzleCount, setNozzleCount, '1')}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-3 gap-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Spacing (in)</label>
+              {numberInput(nozzleSpacing, setNozzleSpacing, '1')}
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Pressure (psi)</label>
+              {numberInput(pressure, setPressure, '1')}
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Rate (GPA)</label>
+              {numberInput(calibratedGpa, setCalibratedGpa, '0.1')}
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Notes</label>
+            <input
+              type="text"
+              className="input-field"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+            />
+          </div>
+
+          <div className="flex gap-3 pt-2">
+            <button type="submit" className="btn-primary flex-1">
+              {sprayer ? 'Update' : 'Add'} Sprayer
+            </button>
+            <button type="button" onClick={onClose} className="btn-secondary flex-1">
+              Cancel
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default SprayerModal;
@@ -0,0 +1,81 @@
+import React from 'react';
+import { WeatherData } from '../../utils/weatherService';
+import { DELTA_T_BANDS, DeltaTBand, getDeltaTBand, InversionLikelihood } from '../../utils/sprayConditions';
+
+interface DeltaTCardProps {
+  weather: WeatherData;
+}
+
+const BAND_COLORS: Record<DeltaTBand, string> = {
+  low: 'bg-yellow-100 border-yellow-300 text-yellow-800',
+  ideal: 'bg-green-100 border-green-300 text-green-800',
+  marginal: 'bg-orange-100 border-orange-300 text-orange-800',
+  high: 'bg-red-100 border-red-300 text-red-800',
+};
+
+const LIKELIHOOD_COLORS: Record<InversionLikelihood, string> = {
+  unlikely: 'text-green-600',
+  possible: 'text-yellow-600',
+  likely: 'text-red-600',
+};
+
+const DeltaTCard: React.FC<DeltaTCardProps> = ({ weather }) => {
+  const current = weather.deltaT != null ? getDeltaTBand(weather.deltaT).band : null;
+  const inversion = weather.inversion;
+
+  return (
+    <div className="card">
+      <h3 className="font-semibold text-lg mb-4">Delta-T &amp; Inversion</h3>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div>
+          <div className="flex items-baseline gap-2 mb-3">
+            <span className="text-3xl font-bold">
+              {weather.deltaT != null ? `${weather.deltaT}°C` : '—'}
+            </span>
+            <span className="text-sm text-gray-500">Delta-T (dry bulb &minus; wet bulb)</span>
+          </div>
+          <div className="grid grid-cols-4 gap-1">
+            {DELTA_T_BANDS.map(({ info }) => (
+              <div
+                key={info.band}
+                className={`p-2 rounded border text-center text-xs ${
+                  info.band === current ? `${BAND_COLORS[info.band]} font-semibold ring-2 ring-offset-1 ring-gray-400` : 'bg-gray-50 border-gray-200 text-gray-500'
+                }`}
+              >
+                <div>{info.label}&deg;C</div>
+              </div>
+            ))}
+          </div>
+          {current && (
+            <p className="text-sm text-gray-600 mt-2">{getDeltaTBand(weather.deltaT!).description}</p>
+          )}
+        </div>
+
+        <div>
+          {inversion ? (
+            <>
+              <div className="text-sm text-gray-600">Inversion likelihood</div>
+              <div className={`text-2xl font-bold capitalize ${LIKELIHOOD_COLORS[inversion.likelihood]}`}>
+                {inversion.likelihood}
+              </div>
+              {inversion.reasons.length > 0 && (
+                <ul className="mt-2 space-y-0.5 text-sm text-gray-600 list-disc list-inside">
+                  {inversion.reasons.map((r) => (
+                    <li key={r}>{r}</li>
+                  ))}
+                </ul>
+              )}
+              {weather.cloudCover != null && (
+                <p className="text-xs text-gray-500 mt-2">Cloud cover {Math.round(weather.cloudCover)}%</p>
+              )}
+            </>
+          ) : (
+            <p className="text-sm text-gray-500">Inversion estimate unavailable.</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DeltaTCard;
@@ -0,0 +1,40 @@
+import React from 'react';
+import { WeatherData } from '../../utils/weatherService';
+
+interface FieldWeatherBadgeProps {
+  weather?: WeatherData;
+}
+
+const RECOMMENDATION_COLORS: Record<WeatherData['sprayRecommendation'], string> = {
+  optimal: 'bg-green-100 border-green-300 text-green-800',
+  acceptable: 'bg-blue-100 border-blue-300 text-blue-800',
+  caution: 'bg-yellow-100 border-yellow-300 text-yellow-800',
+  avoid: 'bg-red-100 border-red-300 text-red-800',
+};
+
+/** Wind and drift risk at a field, coloured by its spray recommendation. */
+const FieldWeatherBadge: React.FC<FieldWeatherBadgeProps> = ({ weather }) => {
+  if (!weather) return <span className="text-xs text-gray-400">&mdash;</span>;
+
+  const title = [
+    `${Math.round(weather.temperature)}°F, ${Math.round(weather.humidity)}% RH`,
+    `Wind ${Math.round(weather.windSpeed)} mph ${weather.windDirection}${weather.windGust ? `, gusts ${Math.round(weather.windGust)}` : ''}`,
+    weather.deltaT != null ? `Delta-T ${weather.deltaT}°C` : null,
+    weather.inversion ? `Inversion ${weather.inversion.likelihood}` : null,
+    `Spray: ${weather.sprayRecommendation}`,
+  ].filter(Boolean).join('\n');
+
+  return (
+    <span
+      className={`inline-flex items-center gap-1 px-2 py-0.5 rounded border text-xs font-medium whitespace-nowrap ${
+        RECOMMENDATION_COLORS[weather.sprayRecommendation]
+      }`}
+      title={title}
+    >
+      {Math.round(weather.windSpeed)} mph {weather.windDirection}
+      <span className="opacity-75">&middot; {weather.driftRisk} drift</span>
+    </span>
+  );
+};
+
+export default FieldWeatherBadge;
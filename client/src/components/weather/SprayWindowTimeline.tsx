@@ -0,0 +1,120 @@
+import React, { useMemo } from 'react';
+import { HourlyForecast } from '../../utils/weatherService';
+import { findSprayWindows, scoreForecast, ScoredHour } from '../../utils/sprayWindows';
+
+interface SprayWindowTimelineProps {
+  forecast: HourlyForecast | null;
+}
+
+const HOUR_COLORS: Record<string, string> = {
+  optimal: 'bg-green-100 border-green-300',
+  acceptable: 'bg-blue-100 border-blue-300',
+  caution: 'bg-yellow-100 border-yellow-300',
+  avoid: 'bg-red-100 border-red-300',
+};
+
+const formatDay = (iso: string) =>
+  new Date(iso).toLocaleDateString([], { weekday: 'short', month: 'short', day: 'numeric' });
+
+const formatHour = (iso: string) =>
+  new Date(iso).toLocaleTimeString([], { hour: 'numeric' });
+
+const SprayWindowTimeline: React.FC<SprayWindowTimelineProps> = ({ forecast }) => {
+  const scored = useMemo(() => (forecast ? scoreForecast(forecast.hours) : []), [forecast]);
+  const windows = useMemo(() => findSprayWindows(scored), [scored]);
+
+  // Group hours by calendar day for the timeline rows
+  const days = useMemo(() => {
+    const groups: { label: string; hours: ScoredHour[] }[] = [];
+    for (const h of scored) {
+      const label = formatDay(h.hour.time);
+      const last = groups[groups.length - 1];
+      if (last && last.label === label) last.hours.push(h);
+      else groups.push({ label, hours: [h] });
+    }
+    return groups;
+  }, [scored]);
+
+  if (!forecast || scored.length === 0) {
+    return (
+      <div className="card">
+        <h3 className="font-semibold text-lg mb-2">48-Hour Spray Windows</h3>
+        <p className="text-sm text-gray-500">Hourly forecast unavailable.</p>
+      </div>
+    );
+  }
+
+  const windowStarts = new Set(windows.map((w) => w.start));
+
+  return (
+    <div className="card">
+      <div className="flex justify-between items-baseline mb-4">
+        <h3 className="font-semibold text-lg">48-Hour Spray Windows</h3>
+        <span className="text-xs text-gray-500">{forecast.source}</span>
+      </div>
+
+      {windows.length === 0 ? (
+        <div className="p-3 bg-amber-50 border border-amber-200 rounded-lg text-sm text-amber-800 mb-4">
+          No spray window of two hours or more in the forecast.
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 mb-4">
+          {windows.map((w, i) => (
+            <div key={w.start} className="p-3 bg-ag-green-50 border border-ag-green-200 rounded-lg">
+              <div className="text-xs text-gray-500">{i === 0 ? 'Best window' : `Option ${i + 1}`}</div>
+              <div className="font-semibold text-ag-green-800">
+                {formatDay(w.start)}, {formatHour(w.start)} &ndash; {formatHour(w.end)}
+              </div>
+              <div className="text-sm text-gray-600 capitalize">
+                {w.hours} h &middot; {w.recommendation}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="space-y-3">
+        {days.map((day) => (
+          <div key={day.label}>
+            <div className="text-sm font-medium text-gray-700 mb-1">{day.label}</div>
+            <div className="flex gap-1 overflow-x-auto pb-1">
+              {day.hours.map((h) => (
+                <div
+                  key={h.hour.time}
+                  title={[
+                    h.hour.precipitationProbability != null ? `${h.hour.precipitationProbability}% chance of rain` : '',
+                    ...h.assessment.recommendations,
+                  ].filter(Boolean).join('\n') || 'No precautions'}
+                  className={`flex-shrink-0 w-14 text-center text-xs p-1 rounded border ${
+                    h.rain ? 'bg-gray-200 border-gray-400' : HOUR_COLORS[h.weather.sprayRecommendation]
+                  } ${windowStarts.has(h.hour.time) ? 'ring-2 ring-ag-green-600' : ''}`}
+                >
+                  <div className="font-medium">{formatHour(h.hour.time)}</div>
+                  <div>{Math.round(h.hour.temperature)}&deg;</div>
+                  <div>
+                    {Math.round(h.hour.windSpeed)}
+                    {h.hour.windGust ? `/${Math.round(h.hour.windGust)}` : ''}
+                  </div>
+                  <div className="text-gray-500">
+                    {h.rain ? 'Rain' : h.weather.temperatureInversion ? 'Inv' : '\u00A0'}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap gap-3 mt-3 text-xs text-gray-600">
+        <span>Wind/gust in mph</span>
+        <span className="flex items-center gap-1"><span className="w-3 h-3 rounded bg-green-100 border border-green-300" /> Optimal</span>
+        <span className="flex items-center gap-1"><span className="w-3 h-3 rounded bg-blue-100 border border-blue-300" /> Acceptable</span>
+        <span className="flex items-center gap-1"><span className="w-3 h-3 rounded bg-yellow-100 border border-yellow-300" /> Caution</span>
+        <span className="flex items-center gap-1"><span className="w-3 h-3 rounded bg-red-100 border border-red-300" /> Avoid</span>
+        <span className="flex items-center gap-1"><span className="w-3 h-3 rounded bg-gray-200 border border-gray-400" /> Rain</span>
+      </div>
+    </div>
+  );
+};
+
+export default SprayWindowTimeline;
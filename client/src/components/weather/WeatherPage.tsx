@@ -1,9 +1,12 @@
 import React from 'react';
 import { useWeather } from '../../hooks/useWeather';
+import SprayWindowTimeline from './SprayWindowTimeline';
+import DeltaTCard from './DeltaTCard';
+import { DRIFT_FACTOR_LABELS } from '../../utils/weatherService';
 
 const WeatherPage: React.FC = () => {
-  const { weather, driftAssessment, loading, autoRefresh, setAutoRefresh, loadWeather, isGo, locationSource } =
-    useWeather();
+  const { weather, driftAssessment, forecast, loading, autoRefresh, setAutoRefresh, loadWeather, isGo, locationSource } =
+    useWeather({ forecast: true });
 
   const getRecommendationColor = (rec: string): string => {
     switch (rec) {
@@ -168,7 +171,9 @@ const WeatherPage: React.FC = () => {
                   />
                   <div className="flex-1">
                     <div className="flex justify-between items-center">
-                      <span className="font-medium text-sm capitalize">{factor}</span>
+                      <span className="font-medium text-sm">
+                        {DRIFT_FACTOR_LABELS[factor as keyof typeof DRIFT_FACTOR_LABELS]}
+                      </span>
                       <span className="text-xs text-gray-500">Score: {data.score}</span>
                     </div>
                     <div className="text-xs text-gray-600">{data.impact}</div>
@@ -219,6 +224,10 @@ const WeatherPage: React.FC = () => {
           </div>
         )}
       </div>
+
+      <DeltaTCard weather={weather} />
+
+      <SprayWindowTimeline forecast={forecast} />
     </div>
   );
 };
@@ -1,5 +1,5 @@
 import { useState, useMemo, useCallback, useEffect, useRef } from 'react';
-import { TankMixProduct, Product } from '../types';
+import { TankMixProduct, Product, TankMixRecipe, SprayerProfile } from '../types';
 import { getCalculatorDefaults, saveCalculatorDefaults } from '../utils/storageService';
 import { convertRateToAmount } from '../utils/loadCalculations';
 
@@ -7,6 +7,7 @@ export function useCalculator() {
   const [tankSize, setTankSizeState] = useState(300);
   const [carrierRate, setCarrierRateState] = useState(20);
   const [acres, setAcresState] = useState(160);
+  const [sprayerId, setSprayerId] = useState<string | undefined>(undefined);
   const [selectedProducts, setSelectedProducts] = useState<TankMixProduct[]>([]);
   const [defaultsLoaded, setDefaultsLoaded] = useState(false);
   const initializedRef = useRef(false);
@@ -19,6 +20,7 @@ export function useCalculator() {
       setTankSizeState(defaults.tankSize);
       setCarrierRateState(defaults.carrierRate);
       setAcresState(defaults.acres);
+      setSprayerId(defaults.sprayerId);
       setDefaultsLoaded(true);
       initializedRef.current = true;
     });
@@ -28,8 +30,8 @@ export function useCalculator() {
   // Persist defaults when values change (skip initial load)
   useEffect(() => {
     if (!initializedRef.current) return;
-    saveCalculatorDefaults({ tankSize, carrierRate, acres });
-  }, [tankSize, carrierRate, acres]);
+    saveCalculatorDefaults({ tankSize, carrierRate, acres, sprayerId });
+  }, [tankSize, carrierRate, acres, sprayerId]);
 
   const setTankSize = useCallback((v: number) => {
     setTankSizeState(Math.max(0, v));
@@ -43,6 +45,14 @@ export function useCalculator() {
     setAcresState(Math.max(0, v));
   }, []);
 
+  // Selecting a sprayer fills tank size and its calibrated carrier rate
+  const selectSprayer = useCallback((sprayer: SprayerProfile | null) => {
+    setSprayerId(sprayer?.id);
+    if (!sprayer) return;
+    if (sprayer.tankSize > 0) setTankSizeState(sprayer.tankSize);
+    if (sprayer.calibratedGpa > 0) setCarrierRateState(sprayer.calibratedGpa);
+  }, []);
+
   const totalVolume = useMemo(() => carrierRate * acres, [carrierRate, acres]);
 
   const numberOfLoads = useMemo(() => {
@@ -102,6 +112,37 @@ export function useCalculator() {
     setSelectedProducts((prev) => prev.filter((_, i) => i !== index));
   }, []);
 
+  /**
+   * Replace the mix with a saved recipe. Returns the names of recipe products
+   * no longer in the library, which are left out.
+   */
+  const loadRecipe = useCallback(
+    (recipe: TankMixRecipe, library: Product[]): string[] => {
+      const missing: string[] = [];
+      const mix: TankMixProduct[] = [];
+      for (const rp of recipe.products) {
+        const product = library.find((p) => p.id === rp.productId);
+        if (!product) {
+          missing.push(rp.productName);
+          continue;
+        }
+        const totalAmount = convertRateToAmount(
+          rp.rate,
+          product.unit,
+          acres,
+          recipe.carrierRate * acres,
+          product.rateBasis,
+          product.measurementUnit
+        );
+        mix.push({ product, rate: rp.rate, totalAmount, rateBasis: product.rateBasis ?? 'per_acre' });
+      }
+      setCarrierRateState(Math.max(0, recipe.carrierRate));
+      setSelectedProducts(mix);
+      return missing;
+    },
+    [acres]
+  );
+
   // Recalculate product totals when acres or carrierRate changes
   useEffect(() => {
     setSelectedProducts((prev) =>
@@ -126,6 +167,8 @@ export function useCalculator() {
     setCarrierRate,
     acres,
     setAcres,
+    sprayerId,
+    selectSprayer,
     selectedProducts,
     setSelectedProducts,
     totalVolume,
@@ -134,6 +177,7 @@ export function useCalculator() {
     addProduct,
     updateProductRate,
     removeProduct,
+    loadRecipe,
     defaultsLoaded,
   };
 }
@@ -0,0 +1,39 @@
+import { useEffect, useState } from 'react';
+import { Field } from '../types';
+import { LocationWeatherService, WeatherData, isMockWeather } from '../utils/weatherService';
+
+/**
+ * Current weather for each mapped field, keyed by field id and refreshed
+ * every 10 minutes. Fields are fetched one at a time so a long field list
+ * doesn't flood the weather API; results appear as they arrive. A field whose
+ * fetch failed has no entry rather than placeholder readings.
+ */
+export function useFieldWeather(fields: Field[]) {
+  const [weather, setWeather] = useState<Map<string, WeatherData>>(new Map());
+
+  useEffect(() => {
+    let cancelled = false;
+    const mapped = fields.filter((f) => LocationWeatherService.getFieldCoordinates(f));
+
+    const load = async () => {
+      for (const field of mapped) {
+        const data = await LocationWeatherService.getFieldWeather(field);
+        if (cancelled) return;
+        setWeather((prev) => {
+          const next = new Map(prev);
+          if (isMockWeather(data)) next.delete(field.id);
+          else next.set(field.id, data);
+          return next;
+        });
+      }
+    };
+    load();
+    const interval = setInterval(load, 10 * 60 * 1000);
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, [fields]);
+
+  return weather;
+}
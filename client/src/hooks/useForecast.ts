@@ -0,0 +1,30 @@
+import { useEffect, useState } from 'react';
+import { HourlyForecast, WeatherService } from '../utils/weatherService';
+
+/**
+ * Hourly forecast for a location (the farm location when none is given),
+ * refreshed every 30 minutes.
+ */
+export function useForecast(coords?: { latitude: number; longitude: number }, hours: number = 24) {
+  const [forecast, setForecast] = useState<HourlyForecast | null>(null);
+  const latitude = coords?.latitude;
+  const longitude = coords?.longitude;
+
+  useEffect(() => {
+    let cancelled = false;
+    const location = latitude != null && longitude != null ? { latitude, longitude } : undefined;
+    const load = () => {
+      WeatherService.getHourlyForecast(location, hours).then((data) => {
+        if (!cancelled) setForecast(data);
+      });
+    };
+    load();
+    const interval = setInterval(load, 30 * 60 * 1000);
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, [latitude, longitude, hours]);
+
+  return forecast;
+}
@@ -1,11 +1,12 @@
 import { useState, useMemo, useCallback, useEffect } from 'react';
-import { TankMixProduct } from '../types';
+import { LeftoverDisposition, TankMixProduct } from '../types';
 import {
   calculateEvenSplit,
   redistributeLoadVolumes,
   calculateLoadProducts,
   LoadProductAmount,
 } from '../utils/loadCalculations';
+import { calculateLeftoverProducts } from '../utils/leftover';
 
 export interface LoadInfo {
   loadNumber: number;
@@ -14,6 +15,23 @@ export interface LoadInfo {
   products: LoadProductAmount[];
 }
 
+/** Mix remaining after the last load, and what's being done with it. */
+export interface LeftoverEntry {
+  gallons: number;
+  rinseGallons: number;
+  disposition: LeftoverDisposition;
+  fieldId: string;            // target when applying to a labeled field
+  notes: string;
+}
+
+const EMPTY_LEFTOVER: LeftoverEntry = {
+  gallons: 0,
+  rinseGallons: 0,
+  disposition: 'apply_to_field',
+  fieldId: '',
+  notes: '',
+};
+
 export function useLoadSplitter(
   totalVolume: number,
   tankSize: number,
@@ -24,6 +42,7 @@ export function useLoadSplitter(
   const [splitMode, setSplitMode] = useState<'even' | 'custom'>('even');
   const [customVolumes, setCustomVolumes] = useState<number[]>([]);
   const [lockedLoads, setLockedLoads] = useState<Set<number>>(new Set());
+  const [leftover, setLeftover] = useState<LeftoverEntry>(EMPTY_LEFTOVER);
 
   // Sync numberOfLoads to minLoads when inputs change
   useEffect(() => {
@@ -101,6 +120,33 @@ export function useLoadSplitter(
     setLockedLoads(new Set());
   }, []);
 
+  const updateLeftover = useCallback((changes: Partial<LeftoverEntry>) => {
+    setLeftover((prev) => ({ ...prev, ...changes }));
+  }, []);
+
+  const resetLeftover = useCallback(() => {
+    setLeftover(EMPTY_LEFTOVER);
+  }, []);
+
+  // Product still in the tank, at the job's mix concentration
+  const leftoverProducts = useMemo(
+    () => calculateLeftoverProducts(leftover.gallons, totalVolume, selectedProducts),
+    [leftover.gallons, totalVolume, selectedProducts]
+  );
+
+  // Final load topped up with that much less fresh mix
+  const adjustedFinalLoad: LoadInfo | null = useMemo(() => {
+    const last = loads[loads.length - 1];
+    if (!last || leftover.gallons <= 0) return null;
+    const volume = Math.max(0, last.volume - leftover.gallons);
+    return {
+      loadNumber: last.loadNumber,
+      volume: Math.round(volume * 100) / 100,
+      percentage: tankSize > 0 ? Math.round((volume / tankSize) * 100) : 0,
+      products: calculateLoadProducts(volume, totalVolume, selectedProducts),
+    };
+  }, [loads, leftover.gallons, tankSize, totalVolume, selectedProducts]);
+
   return {
     numberOfLoads,
     setNumberOfLoads,
@@ -113,5 +159,10 @@ export function useLoadSplitter(
     partialLoads,
     lockedLoads,
     resetLocks,
+    leftover,
+    updateLeftover,
+    resetLeftover,
+    leftoverProducts,
+    adjustedFinalLoad,
   };
 }
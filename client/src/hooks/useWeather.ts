@@ -1,15 +1,26 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
-import { WeatherService, WeatherData, DriftAssessment, getCurrentPosition, LocationWeatherService } from '../utils/weatherService';
+import { WeatherService, WeatherData, DriftAssessment, HourlyForecast, getCurrentPosition, LocationWeatherService } from '../utils/weatherService';
+import { TemperatureReading } from '../utils/sprayConditions';
+
+// Earlier readings kept for the inversion temperature trend
+const HISTORY_WINDOW_MS = 3 * 60 * 60 * 1000;
 
 export type LocationSource = 'gps' | 'farm' | 'loading';
 
-export function useWeather() {
+export interface UseWeatherOptions {
+  forecast?: boolean;   // also load the 48-hour hourly forecast
+}
+
+export function useWeather(options: UseWeatherOptions = {}) {
+  const includeForecast = !!options.forecast;
   const [weather, setWeather] = useState<WeatherData | null>(null);
   const [driftAssessment, setDriftAssessment] = useState<DriftAssessment | null>(null);
+  const [forecast, setForecast] = useState<HourlyForecast | null>(null);
   const [loading, setLoading] = useState(true);
   const [autoRefresh, setAutoRefresh] = useState(true);
   const [locationSource, setLocationSource] = useState<LocationSource>('loading');
   const coordsRef = useRef<{ latitude: number; longitude: number } | null>(null);
+  const historyRef = useRef<TemperatureReading[]>([]);
 
   // Resolve geolocation once on mount
   useEffect(() => {
@@ -33,16 +44,24 @@ export function useWeather() {
   const loadWeather = useCallback(async () => {
     try {
       setLoading(true);
-      const data = await WeatherService.getCurrentWeather(coordsRef.current || undefined);
+      const data = await WeatherService.getCurrentWeather(coordsRef.current || undefined, historyRef.current);
+      const cutoff = Date.now() - HISTORY_WINDOW_MS;
+      historyRef.current = [
+        ...historyRef.current.filter((r) => Date.parse(r.timestamp) >= cutoff),
+        { timestamp: data.timestamp, temperature: data.temperature },
+      ];
       const assessment = WeatherService.assessDriftConditions(data);
       setWeather(data);
       setDriftAssessment(assessment);
+      if (includeForecast) {
+        setForecast(await WeatherService.getHourlyForecast(coordsRef.current || undefined));
+      }
     } catch (err) {
       console.error('Weather load error:', err);
     } finally {
       setLoading(false);
     }
-  }, []);
+  }, [includeForecast]);
 
   // Load weather once coords are resolved (locationSource changes from 'loading')
   useEffect(() => {
@@ -64,6 +83,7 @@ export function useWeather() {
   return {
     weather,
     driftAssessment,
+    forecast,
     loading,
     autoRefresh,
     setAutoRefresh,
@@ -0,0 +1,69 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { ActiveWeatherLog, Field } from '../types';
+import { getActiveWeatherLog, saveActiveWeatherLog } from '../utils/storageService';
+import { LocationWeatherService, WeatherService, getCurrentPosition, isMockWeather } from '../utils/weatherService';
+import { WEATHER_LOG_INTERVAL_MINUTES, toWeatherObservation } from '../utils/weatherLog';
+
+const INTERVAL_MS = WEATHER_LOG_INTERVAL_MINUTES * 60 * 1000;
+
+/**
+ * Polls weather while a spray job is in progress and keeps the observations
+ * on this device until they're saved to a record, so a reload mid-job
+ * doesn't lose the log. Weather comes from the job's field when it is
+ * mapped, otherwise from the device's position.
+ */
+export function useWeatherLog(fields: Field[]) {
+  const [log, setLog] = useState<ActiveWeatherLog | null>(getActiveWeatherLog);
+  const fieldsRef = useRef(fields);
+  fieldsRef.current = fields;
+
+  const update = useCallback((next: ActiveWeatherLog | null) => {
+    saveActiveWeatherLog(next);
+    setLog(next);
+  }, []);
+
+  const observe = useCallback(async (final: boolean = false) => {
+    const started = getActiveWeatherLog();
+    if (!started || started.endedAt) return;
+
+    const field = fieldsRef.current.find((f) => f.id === started.fieldId);
+    const weather = field && LocationWeatherService.getFieldCoordinates(field)
+      ? await LocationWeatherService.getFieldWeather(field)
+      : await WeatherService.getCurrentWeather((await getCurrentPosition()) || undefined);
+
+    // Re-read in case logging was stopped or discarded during the fetch
+    const current = getActiveWeatherLog();
+    if (!current || current.endedAt || current.startedAt !== started.startedAt) return;
+    // Placeholder data from a failed fetch isn't an observation; skip it
+    const failed = isMockWeather(weather);
+    const now = new Date().toISOString();
+    update({
+      ...current,
+      observations: failed ? current.observations : [...current.observations, toWeatherObservation(weather, now)],
+      lastPolledAt: now,
+      failedPolls: (current.failedPolls || 0) + (failed ? 1 : 0),
+      endedAt: final ? now : undefined,
+    });
+  }, [update]);
+
+  const running = !!log && !log.endedAt;
+  const lastPolledAt = log?.lastPolledAt;
+
+  // Poll while running, catching up straight away after a reload
+  useEffect(() => {
+    if (!running) return;
+    const elapsed = lastPolledAt ? Date.now() - Date.parse(lastPolledAt) : INTERVAL_MS;
+    const timeout = setTimeout(() => observe(), Math.max(0, INTERVAL_MS - elapsed));
+    return () => clearTimeout(timeout);
+  }, [running, lastPolledAt, observe]);
+
+  const start = useCallback((fieldId?: string) => {
+    update({ startedAt: new Date().toISOString(), fieldId, observations: [] });
+  }, [update]);
+
+  const stop = useCallback(() => observe(true), [observe]);
+
+  const clear = useCallback(() => update(null), [update]);
+
+  return { log, running, start, stop, clear };
+}
@@ -1,10 +1,19 @@
 // Re-export from utils
 export type { ContainerType, ContainerBreakdown } from '../utils/containerCalculations';
-export type { WeatherData, DriftAssessment, LocationData, FieldLocation, WeatherStation } from '../utils/weatherService';
+export type { WeatherData, DriftAssessment, LocationData, WeatherStation } from '../utils/weatherService';
 
 export type RateBasis = 'per_acre' | 'per_100_gal';
 export type ProductType = 'liquid' | 'dry' | 'bulk';
 export type MeasurementUnit = 'fl_oz' | 'pt' | 'qt' | 'gal' | 'oz' | 'lbs';
+export type ProductCategory = 'herbicide' | 'fungicide' | 'insecticide' | 'adjuvant' | 'fertilizer' | 'other';
+// Label formulation codes (WP wettable powder, WG water-dispersible granule, SG soluble granule,
+// SC suspension concentrate, CS capsule suspension, EC emulsifiable concentrate, SL soluble liquid, ...)
+// plus WC water conditioner, WSP water-soluble packet and DRT drift retardant for adjuvants
+export type FormulationType =
+  | 'WC' | 'WSP' | 'WP' | 'WG' | 'SG' | 'SC' | 'CS' | 'SE' | 'EC' | 'EW' | 'ME' | 'SL' | 'SURF' | 'DRT';
+// Tank loading steps, in APPLES order
+export type MixingStep =
+  | 'water_conditioner' | 'packets' | 'dry' | 'flowable' | 'emulsion' | 'solution' | 'surfactant' | 'drift_retardant';
 
 export interface UnitConfig {
   value: MeasurementUnit;
@@ -36,19 +45,86 @@ export interface Field {
   subFields?: SubField[];
 }
 
+// Resistance-management classification: HRAC (herbicides), FRAC (fungicides), IRAC (insecticides)
+export type MoaSystem = 'HRAC' | 'FRAC' | 'IRAC';
+
+export interface ActiveIngredient {
+  name: string;
+  concentration?: number;
+  concentrationUnit?: 'percent' | 'lb_per_gal';
+  moaSystem?: MoaSystem;
+  moaGroup?: string;      // e.g. '9', '3A', 'M05'
+}
+
+export interface MoaSettings {
+  maxRepeats: number;     // applications of the same group per field before warning
+  lookbackYears: number;  // crop years counted, including the current one
+}
+
+export interface ProductPrice {
+  price: number;           // $ per base unit (gal or lbs)
+  effectiveDate: string;   // ISO date the price took effect
+}
+
 export interface Product {
   id: string;
   name: string;
   type: ProductType;
   unit: string; // display string e.g. 'fl oz / acre' (kept for backward compat)
   defaultRate: number;
-  mixingOrder: number;
+  mixingStep?: MixingStep;  // overrides the step derived from formulation
+  mixingOrder?: number;     // legacy 1-10 priority, read only; breaks ties within a mixing step
   pHSensitive?: boolean;
   isCustom?: boolean;
   measurementUnit?: MeasurementUnit;
   rateBasis?: RateBasis;
   packageSize?: number;
   preferredContainers?: string[];
+  // Label safety intervals
+  reiHours?: number;   // restricted-entry interval
+  phiDays?: number;    // pre-harvest interval
+  rainfastHours?: number;  // rain-free time needed after application
+  // Label attributes used by tank-mix compatibility rules
+  category?: ProductCategory;
+  formulation?: FormulationType;
+  activeIngredients?: ActiveIngredient[];
+  chemicalClass?: string;           // e.g. 'phenoxy', 'triazine', 'strobilurin'
+  // Label use limits
+  maxRatePerApplication?: number;   // in the product's unit / rate basis
+  maxSeasonalRate?: number;         // total per acre per crop year, in measurement units
+  maxApplicationsPerYear?: number;
+  // Regulatory
+  epaRegNumber?: string;            // e.g. '524-549'
+  restrictedUse?: boolean;          // restricted-use pesticide (RUP)
+  // Cost
+  unitPrice?: number;               // current $ per base unit (gal or lbs)
+  priceHistory?: ProductPrice[];    // oldest first; unitPrice mirrors the latest entry
+}
+
+// --- Tank-mix compatibility rules ---
+
+export type CompatibilitySeverity = 'info' | 'caution' | 'incompatible';
+
+/** Product attributes a rule matches on; every attribute set must match. */
+export interface ProductMatcher {
+  category?: ProductCategory;
+  formulation?: FormulationType;
+  activeIngredient?: string;
+  chemicalClass?: string;
+  pHSensitive?: boolean;
+}
+
+export interface CompatibilityRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  severity: CompatibilitySeverity;
+  productA: ProductMatcher;
+  productB?: ProductMatcher;  // omitted: fires when minCount products match productA
+  minCount?: number;          // default 2 for single-matcher rules
+  message: string;
+  addFirst?: 'A' | 'B';       // suggested mixing order between the matched products
+  isCustom?: boolean;
 }
 
 export interface TankMixProduct {
@@ -58,12 +134,49 @@ export interface TankMixProduct {
   rateBasis: RateBasis;
 }
 
+// Saved tank mix ("Post corn pass 1") reloadable into the calculator
+export interface TankMixRecipeProduct {
+  productId: string;
+  productName: string;   // denormalized in case the product is removed
+  rate: number;          // in the product's unit / rate basis
+}
+
+export interface TankMixRecipe {
+  id: string;
+  name: string;
+  carrierRate: number;   // gal/acre
+  products: TankMixRecipeProduct[];
+  createdAt: string;
+}
+
 export interface CalculatorDefaults {
   tankSize: number;
   carrierRate: number;
   acres: number;
+  sprayerId?: string;             // last sprayer selected in the calculator
+}
+
+// --- Sprayer equipment ---
+
+export interface SprayerProfile {
+  id: string;
+  name: string;
+  tankSize: number;               // gal
+  boomWidth: number;              // ft
+  nozzleType: string;             // e.g. 'AIXR 11004'
+  nozzleCount: number;
+  pressure: number;               // psi
+  nozzleSpacing?: number;         // in
+  calibratedGpa: number;          // gal/acre from the last calibration
+  calibrationSpeed?: number;      // mph the calibration was run at
+  calibratedAt?: string;          // YYYY-MM-DD of the last catch test
+  notes?: string;
+  createdAt: string;
 }
 
+/** Sprayer setup copied onto a record at the time of application. */
+export type SprayRecordSprayer = Omit<SprayerProfile, 'notes' | 'createdAt'>;
+
 export interface LoadConfig {
   loadNumber: number;
   volume: number;       // gallons for this load
@@ -96,27 +209,109 @@ export interface SprayRecord {
   acres: number;
   products: SprayRecordProduct[];
   totalVolume: number;
-  weather?: {                     // snapshot at time of spray
+  weather?: {                     // snapshot at time of spray (first logged observation when a log was kept)
     temperature: number;
     humidity: number;
     windSpeed: number;
     windDirection: string;
     source: string;
   };
+  weatherLog?: WeatherObservation[]; // observations polled while the job was in progress
   notes?: string;
   createdAt: string;
+  startTime?: string;             // "HH:MM" local, when application began
+  endTime?: string;               // "HH:MM" local, when application finished
+  applicatorCertification?: string; // operator's certification number at time of application
   // Partial field spraying details
   sprayedFields?: SprayedField[]; // Detailed breakdown of sprayed acres per field
   // Crop year governance
   cropYear?: string;              // "2024", "2025", etc.
+  // Planned vs. applied
+  planned?: PlannedApplication;   // calculated mix when saved from the calculator or a job
+  actualVolume?: number;          // gal of spray mix actually loaded
+  leftoverVolume?: number;        // gal left in the tank at finish
+  // Equipment
+  sprayer?: SprayRecordSprayer;   // sprayer setup used for the application
+  // Disposal compliance
+  leftover?: TankLeftover;        // leftover mix / rinsate and where it went
+}
+
+// --- Weather logging ---
+export interface WeatherObservation {
+  timestamp: string;              // ISO, when the observation was logged
+  temperature: number;            // °F
+  humidity: number;               // %
+  windSpeed: number;              // mph
+  windGust?: number;              // mph
+  windDirection: string;
+  driftRisk: 'low' | 'moderate' | 'high' | 'extreme';
+  sprayRecommendation: 'optimal' | 'acceptable' | 'caution' | 'avoid';
+  source: string;
+}
+
+/** Weather log for the job currently being sprayed, kept on this device until saved to a record. */
+export interface ActiveWeatherLog {
+  startedAt: string;              // ISO
+  endedAt?: string;               // set when logging is stopped
+  fieldId?: string;               // field the weather is polled for
+  observations: WeatherObservation[];
+  lastPolledAt?: string;          // last poll, including ones that failed
+  failedPolls?: number;           // polls skipped because no weather source answered
+}
+
+export type LeftoverDisposition = 'apply_to_field' | 'adjust_final_load' | 'disposed';
+
+export interface TankLeftoverProduct {
+  productName: string;
+  amount: number;                 // base units (gal or lbs) left in the tank
+  unit: string;                   // 'gal' or 'lbs'
+}
+
+export interface TankLeftover {
+  gallons: number;                // spray mix remaining after the last load
+  products: TankLeftoverProduct[];
+  rinseGallons?: number;          // rinse water added to the tank
+  disposition: LeftoverDisposition;
+  fieldId?: string;               // labeled field the leftover was applied to
+  subFieldId?: string;
+  fieldName?: string;
+  acres?: number;                 // acres covered at the job's carrier rate
+  notes?: string;
+}
+
+export interface PlannedApplicationProduct {
+  productId?: string;
+  productName: string;
+  rate: number;
+  unit: string;
+  rateBasis: RateBasis;
+  totalAmount: number;            // base units (gal or lbs)
+}
+
+export interface PlannedApplication {
+  acres: number;
+  carrierRate: number;
+  totalVolume: number;
+  products: PlannedApplicationProduct[];
+}
+
+export interface VarianceSettings {
+  thresholdPercent: number;       // flag records whose applied rate is off plan by more than this
 }
 
 export interface SprayRecordProduct {
+  productId?: string;             // links to Product when saved from the calculator
   productName: string;
   rate: number;
   unit: string;
   rateBasis: 'per_acre' | 'per_100_gal';
   totalAmount: number;
+  reiHours?: number;              // label intervals at time of application
+  phiDays?: number;
+  moaGroups?: string[];           // e.g. ['HRAC 9'] at time of application
+  epaRegNumber?: string;
+  restrictedUse?: boolean;
+  unitPrice?: number;             // $ per base unit at time of application
 }
 
 export interface SavedPin {
@@ -129,6 +324,23 @@ export interface SavedPin {
   isHome?: boolean;
 }
 
+// --- Sensitive sites for drift buffers ---
+
+export type SensitiveSiteType = 'organic' | 'apiary' | 'water' | 'residence';
+
+export interface SensitiveSite {
+  id: string;
+  name: string;
+  type: SensitiveSiteType;
+  latitude: number;
+  longitude: number;
+  notes?: string;
+}
+
+export interface BufferSettings {
+  distanceFeet: number;           // warn for downwind sites within this distance of a field
+}
+
 export interface TenderRoute {
   id: string;
   name: string;
@@ -167,5 +379,61 @@ export interface SubField {
 export interface Applicator {
   id: string;
   name: string;
+  certificationNumber?: string;   // state private/commercial applicator certification
+  certificationExpires?: string;  // YYYY-MM-DD
   isDefault?: boolean;  // prevent deletion of default entry
 }
+
+// --- Product Inventory ---
+export type InventoryTransactionType = 'receipt' | 'transfer' | 'adjustment' | 'application';
+
+export interface InventoryTransaction {
+  id: string;
+  productId: string;
+  date: string;          // YYYY-MM-DD
+  type: InventoryTransactionType;
+  quantity: number;      // signed, in the product's base unit (gal or lbs); negative = out
+  recordId?: string;     // spray record that consumed the product (type 'application')
+  location?: string;     // other party for transfers, e.g. "North shop"
+  notes?: string;
+  createdAt: string;
+}
+
+// --- Planned Jobs ---
+export interface PlannedJobField {
+  fieldId: string;
+  subFieldId?: string;
+  acres: number;         // acres planned for this field or sub-field
+}
+
+export interface PlannedJobProduct {
+  productId: string;
+  productName: string;   // denormalized for display if the product is removed
+  rate: number;          // in the product's unit / rate basis
+  unit?: string;
+  rateBasis?: RateBasis;
+}
+
+export type JobPriority = 'high' | 'normal' | 'low';
+export type JobStatus = 'planned' | 'completed';
+
+export interface PlannedJob {
+  id: string;
+  name: string;
+  fields: PlannedJobField[];
+  acres: number;
+  carrierRate: number;
+  tankSize: number;
+  products: PlannedJobProduct[];
+  notes?: string;
+  createdAt: string;
+  // Work order
+  startDate?: string;        // target window, YYYY-MM-DD
+  endDate?: string;
+  applicatorId?: string;
+  applicatorName?: string;   // denormalized for display
+  priority?: JobPriority;    // defaults to normal
+  status?: JobStatus;        // defaults to planned
+  recordId?: string;         // "as applied" record created when the job was completed
+  completedAt?: string;
+}
@@ -0,0 +1,84 @@
+import { MeasurementUnit } from '../types';
+import { getConversionFactor } from './unitConstants';
+
+// GPA = GPM × 5940 / (MPH × nozzle spacing in inches)
+export const GPA_CONSTANT = 5940;
+
+// Nozzles more than this far from the average should be cleaned or replaced
+export const NOZZLE_TOLERANCE_PERCENT = 10;
+
+export interface NozzleCatch {
+  nozzle: number;           // 1-based position on the boom
+  volume: number;           // in the catch unit
+  deviationPercent: number; // vs. the average catch
+  outOfTolerance: boolean;
+}
+
+export interface CalibrationResult {
+  averageCatch: number;     // in the catch unit
+  nozzleGpm: number;
+  gpa: number;
+  nozzles: NozzleCatch[];
+}
+
+function round(value: number, digits = 2): number {
+  const f = Math.pow(10, digits);
+  return Math.round(value * f) / f;
+}
+
+/** Convert a catch volume over a timed interval to gallons per minute. */
+export function catchToGpm(volume: number, unit: MeasurementUnit, seconds: number): number {
+  if (seconds <= 0) return 0;
+  return (volume * getConversionFactor(unit)) / (seconds / 60);
+}
+
+/** Catch volume a nozzle flowing at `gpm` should collect in `seconds`. */
+export function gpmToCatch(gpm: number, unit: MeasurementUnit, seconds: number): number {
+  const factor = getConversionFactor(unit);
+  if (factor <= 0) return 0;
+  return (gpm * (seconds / 60)) / factor;
+}
+
+export function calculateGpa(nozzleGpm: number, speedMph: number, spacingInches: number): number {
+  if (speedMph <= 0 || spacingInches <= 0) return 0;
+  return (nozzleGpm * GPA_CONSTANT) / (speedMph * spacingInches);
+}
+
+/** Per-nozzle flow needed to hit a target rate at a given speed and spacing. */
+export function requiredNozzleGpm(targetGpa: number, speedMph: number, spacingInches: number): number {
+  return (targetGpa * speedMph * spacingInches) / GPA_CONSTANT;
+}
+
+/**
+ * Compute the sprayer's rate from a nozzle catch test. Zero or blank catches
+ * are ignored so a partly filled sheet still gives a result.
+ */
+export function calculateCalibration(
+  catches: number[],
+  unit: MeasurementUnit,
+  seconds: number,
+  speedMph: number,
+  spacingInches: number
+): CalibrationResult | null {
+  const measured = catches
+    .map((volume, i) => ({ nozzle: i + 1, volume }))
+    .filter((c) => c.volume > 0);
+  if (measured.length === 0 || seconds <= 0) return null;
+
+  const average = measured.reduce((sum, c) => sum + c.volume, 0) / measured.length;
+  const nozzleGpm = catchToGpm(average, unit, seconds);
+
+  return {
+    averageCatch: round(average),
+    nozzleGpm: round(nozzleGpm, 3),
+    gpa: round(calculateGpa(nozzleGpm, speedMph, spacingInches), 1),
+    nozzles: measured.map((c) => {
+      const deviationPercent = round(((c.volume - average) / average) * 100, 1);
+      return {
+        ...c,
+        deviationPercent,
+        outOfTolerance: Math.abs(deviationPercent) > NOZZLE_TOLERANCE_PERCENT,
+      };
+    }),
+  };
+}
@@ -0,0 +1,236 @@
+import {
+  CompatibilityRule,
+  CompatibilitySeverity,
+  FormulationType,
+  Product,
+  ProductCategory,
+  ProductMatcher,
+} from '../types';
+
+export const PRODUCT_CATEGORY_OPTIONS: { value: ProductCategory; label: string }[] = [
+  { value: 'herbicide', label: 'Herbicide' },
+  { value: 'fungicide', label: 'Fungicide' },
+  { value: 'insecticide', label: 'Insecticide' },
+  { value: 'adjuvant', label: 'Adjuvant' },
+  { value: 'fertilizer', label: 'Fertilizer' },
+  { value: 'other', label: 'Other' },
+];
+
+export const FORMULATION_OPTIONS: { value: FormulationType; label: string }[] = [
+  { value: 'WC', label: 'Water conditioner (AMS)' },
+  { value: 'WSP', label: 'WSP - Water-soluble packet' },
+  { value: 'WP', label: 'WP - Wettable powder' },
+  { value: 'WG', label: 'WDG/WG/DF - Water-dispersible granule' },
+  { value: 'SG', label: 'SG/SP - Soluble granule or powder' },
+  { value: 'SC', label: 'SC/F - Suspension concentrate (flowable)' },
+  { value: 'CS', label: 'CS - Capsule suspension' },
+  { value: 'SE', label: 'SE - Suspo-emulsion' },
+  { value: 'EC', label: 'EC - Emulsifiable concentrate' },
+  { value: 'EW', label: 'EW - Emulsion, oil in water' },
+  { value: 'ME', label: 'ME - Microemulsion' },
+  { value: 'SL', label: 'SL - Soluble liquid' },
+  { value: 'SURF', label: 'Surfactant / oil adjuvant' },
+  { value: 'DRT', label: 'Drift retardant / antifoam' },
+];
+
+export const SEVERITY_OPTIONS: { value: CompatibilitySeverity; label: string }[] = [
+  { value: 'incompatible', label: 'Incompatible' },
+  { value: 'caution', label: 'Caution' },
+  { value: 'info', label: 'Note' },
+];
+
+export interface CompatibilityWarning {
+  ruleId: string;
+  ruleName: string;
+  severity: CompatibilitySeverity;
+  message: string;
+  productNames: string[];
+}
+
+export interface MixingOrderSuggestion {
+  productName: string;   // product that should go in earlier
+  beforeName: string;    // product it should be added before
+  reason: string;
+}
+
+export interface CompatibilityResult {
+  warnings: CompatibilityWarning[];
+  orderSuggestions: MixingOrderSuggestion[];
+}
+
+export const DEFAULT_COMPATIBILITY_RULES: CompatibilityRule[] = [
+  {
+    id: 'default-herbicide-fungicide',
+    name: 'Herbicide + fungicide',
+    enabled: true,
+    severity: 'caution',
+    productA: { category: 'herbicide' },
+    productB: { category: 'fungicide' },
+    message: 'Monitor spray solution pH carefully',
+  },
+  {
+    id: 'default-ph-sensitive',
+    name: 'Multiple pH-sensitive products',
+    enabled: true,
+    severity: 'caution',
+    productA: { pHSensitive: true },
+    minCount: 2,
+    message: 'Test a small batch first and buffer to the narrowest labeled pH range',
+  },
+  {
+    id: 'default-ams-glyphosate',
+    name: 'Water conditioner + glyphosate',
+    enabled: true,
+    severity: 'info',
+    productA: { activeIngredient: 'ammonium sulfate' },
+    productB: { activeIngredient: 'glyphosate' },
+    message: 'Dissolve AMS fully before adding glyphosate so hard-water cations are tied up first',
+    addFirst: 'A',
+  },
+  {
+    id: 'default-phenoxy-glyphosate',
+    name: 'Phenoxy + glyphosate',
+    enabled: true,
+    severity: 'caution',
+    productA: { chemicalClass: 'phenoxy' },
+    productB: { activeIngredient: 'glyphosate' },
+    message: 'Salt formulations can gel at low carrier volumes; keep tank at least half full while adding',
+  },
+  {
+    id: 'default-dry-ec',
+    name: 'Dry formulation + emulsifiable concentrate',
+    enabled: true,
+    severity: 'caution',
+    productA: { formulation: 'WG' },
+    productB: { formulation: 'EC' },
+    message: 'Fully disperse granules before adding EC products to avoid clumping',
+    addFirst: 'A',
+  },
+  {
+    id: 'default-wp-ec',
+    name: 'Wettable powder + emulsifiable concentrate',
+    enabled: true,
+    severity: 'caution',
+    productA: { formulation: 'WP' },
+    productB: { formulation: 'EC' },
+    message: 'Slurry wettable powders before adding EC products to avoid clumping',
+    addFirst: 'A',
+  },
+];
+
+const SEVERITY_RANK: Record<CompatibilitySeverity, number> = {
+  incompatible: 0,
+  caution: 1,
+  info: 2,
+};
+
+function sameText(a: string, b: string): boolean {
+  return a.trim().toLowerCase() === b.trim().toLowerCase();
+}
+
+/**
+ * Whether a product has every attribute set on the matcher.
+ * An empty matcher never matches.
+ */
+export function matchesProduct(product: Product, matcher: ProductMatcher): boolean {
+  let checked = false;
+  if (matcher.category) {
+    checked = true;
+    if (product.category !== matcher.category) return false;
+  }
+  if (matcher.formulation) {
+    checked = true;
+    if (product.formulation !== matcher.formulation) return false;
+  }
+  if (matcher.activeIngredient) {
+    checked = true;
+    const ai = matcher.activeIngredient;
+    if (!(product.activeIngredients || []).some((a) => sameText(a.name, ai))) return false;
+  }
+  if (matcher.chemicalClass) {
+    checked = true;
+    if (!product.chemicalClass || !sameText(product.chemicalClass, matcher.chemicalClass)) return false;
+  }
+  if (matcher.pHSensitive !== undefined) {
+    checked = true;
+    if (!!product.pHSensitive !== matcher.pHSensitive) return false;
+  }
+  return checked;
+}
+
+/** Short description of a matcher, e.g. "herbicide, EC". */
+export function describeMatcher(matcher: ProductMatcher): string {
+  const parts: string[] = [];
+  if (matcher.category) parts.push(matcher.category);
+  if (matcher.formulation) parts.push(matcher.formulation);
+  if (matcher.activeIngredient) parts.push(matcher.activeIngredient);
+  if (matcher.chemicalClass) parts.push(matcher.chemicalClass);
+  if (matcher.pHSensitive !== undefined) parts.push(matcher.pHSensitive ? 'pH sensitive' : 'not pH sensitive');
+  return parts.join(', ') || 'any product';
+}
+
+/**
+ * Evaluate a tank mix against the compatibility rules.
+ *
+ * `products` must be in the current mixing order; order suggestions are only
+ * produced when a rule's preferred order is not already followed.
+ */
+export function evaluateCompatibility(
+  products: Product[],
+  rules: CompatibilityRule[]
+): CompatibilityResult {
+  const warnings: CompatibilityWarning[] = [];
+  const orderSuggestions: MixingOrderSuggestion[] = [];
+
+  for (const rule of rules) {
+    if (!rule.enabled) continue;
+    const matchesA = products.filter((p) => matchesProduct(p, rule.productA));
+
+    if (!rule.productB) {
+      if (matchesA.length >= (rule.minCount ?? 2)) {
+        warnings.push({
+          ruleId: rule.id,
+          ruleName: rule.name,
+          severity: rule.severity,
+          message: rule.message,
+          productNames: matchesA.map((p) => p.name),
+        });
+      }
+      continue;
+    }
+
+    const matchesB = products.filter((p) => matchesProduct(p, rule.productB!));
+    const pairs: Array<[Product, Product]> = [];
+    for (const a of matchesA) {
+      for (const b of matchesB) {
+        if (a.id !== b.id) pairs.push([a, b]);
+      }
+    }
+    if (pairs.length === 0) continue;
+
+    const involved = new Set<string>();
+    pairs.forEach(([a, b]) => { involved.add(a.name); involved.add(b.name); });
+    warnings.push({
+      ruleId: rule.id,
+      ruleName: rule.name,
+      severity: rule.severity,
+      message: rule.message,
+      productNames: Array.from(involved),
+    });
+
+    if (!rule.addFirst) continue;
+    for (const [a, b] of pairs) {
+      const [first, second] = rule.addFirst === 'A' ? [a, b] : [b, a];
+      if (products.indexOf(first) < products.indexOf(second)) continue;
+      const exists = orderSuggestions.some(
+        (s) => s.productName === first.name && s.beforeName === second.name
+      );
+      if (!exists) {
+        orderSuggestions.push({ productName: first.name, beforeName: second.name, reason: rule.name });
+      }
+    }
+  }
+
+  warnings.sort((a, b) => SEVERITY_RANK[a.severity] - SEVERITY_RANK[b.severity]);
+  return { warnings, orderSuggestions };
+}
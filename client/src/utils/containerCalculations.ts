@@ -79,6 +79,35 @@ export class ContainerCalculator {
     return breakdown;
   }
 
+  /**
+   * Breakdown for purchasing: whole containers only, with the remainder
+   * rounded up to one more of the smallest available container.
+   * Returns no containers when none are assigned to the product.
+   */
+  calculatePurchaseBreakdown(
+    totalAmount: number,
+    productType: 'liquid' | 'dry' | 'granular',
+    preferredContainers?: string[]
+  ): ContainerBreakdown {
+    const breakdown = this.calculateOptimalBreakdown(totalAmount, productType, preferredContainers);
+    if (breakdown.remainder.amount <= 0) return breakdown;
+
+    const smallest = this.containerTypes
+      .filter(c => c.productType === productType && c.available && preferredContainers?.includes(c.id))
+      .sort((a, b) => a.size - b.size)[0];
+    if (!smallest) return breakdown;
+
+    const existing = breakdown.containers.find(c => c.type.id === smallest.id);
+    if (existing) {
+      existing.quantity += 1;
+      existing.totalAmount += smallest.size;
+    } else {
+      breakdown.containers.push({ type: smallest, quantity: 1, totalAmount: smallest.size });
+    }
+    breakdown.remainder = { amount: 0, unit: '', displayText: '' };
+    return breakdown;
+  }
+
   private formatRemainder(amount: number, productType: string, bulk = false): {
     amount: number;
     unit: string;
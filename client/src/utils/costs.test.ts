@@ -0,0 +1,121 @@
+import { Field, Product, SprayRecord, TankMixProduct } from '../types';
+import { addPriceEntry, buildCostReport, calculateMixCost, getPriceOnDate } from './costs';
+
+describe('getPriceOnDate', () => {
+  const history = addPriceEntry(addPriceEntry([], 30, '2025-03-01'), 25, '2024-06-01');
+
+  it('uses the latest entry on or before the date', () => {
+    expect(getPriceOnDate({ unitPrice: 28, priceHistory: history }, '2025-04-15')).toBe(30);
+    expect(getPriceOnDate({ unitPrice: 28, priceHistory: history }, '2025-03-01')).toBe(30);
+    expect(getPriceOnDate({ unitPrice: 28, priceHistory: history }, '2024-12-31')).toBe(25);
+  });
+
+  it('uses the earliest known price before the history starts', () => {
+    expect(getPriceOnDate({ unitPrice: 28, priceHistory: history }, '2023-01-01')).toBe(25);
+  });
+
+  it('falls back to the current price without history', () => {
+    expect(getPriceOnDate({ unitPrice: 28 }, '2023-01-01')).toBe(28);
+    expect(getPriceOnDate({}, '2023-01-01')).toBeUndefined();
+  });
+});
+
+const glyphosate: Product = {
+  id: 'p1',
+  name: 'Roundup PowerMAX',
+  type: 'liquid',
+  unit: 'fl oz / acre',
+  defaultRate: 32,
+  measurementUnit: 'fl_oz',
+  rateBasis: 'per_acre',
+  unitPrice: 20,
+  category: 'herbicide',
+};
+const unpriced: Product = { ...glyphosate, id: 'p2', name: 'Surfactant', unitPrice: undefined, category: 'adjuvant' };
+
+describe('calculateMixCost', () => {
+  const mix = (product: Product, totalAmount: number): TankMixProduct =>
+    ({ product, rate: 32, totalAmount, rateBasis: 'per_acre' });
+
+  it('splits the total per acre and per full tank', () => {
+    // 20 gal at $20 over 100 ac; 1500 gal of mix in 300 gal loads
+    const cost = calculateMixCost([mix(glyphosate, 20)], 100, 1500, 300);
+    expect(cost).toEqual({ total: 400, perAcre: 4, perLoad: 80, unpricedProducts: [] });
+  });
+
+  it('costs a job smaller than one tank as a single load', () => {
+    expect(calculateMixCost([mix(glyphosate, 2)], 10, 150, 300)?.perLoad).toBe(40);
+  });
+
+  it('lists products without a price and returns null when none are priced', () => {
+    expect(calculateMixCost([mix(glyphosate, 20), mix(unpriced, 5)], 100, 1500, 300)?.unpricedProducts)
+      .toEqual(['Surfactant']);
+    expect(calculateMixCost([mix(unpriced, 5)], 100, 1500, 300)).toBeNull();
+  });
+});
+
+describe('buildCostReport', () => {
+  const fields: Field[] = [
+    { id: 'f1', name: 'North', acres: 60, carrierRate: 15, crop: 'Corn', farmName: 'Home' },
+    { id: 'f2', name: 'South', acres: 40, carrierRate: 15, crop: 'Soybeans', farmName: 'Home' },
+  ];
+
+  function record(id: string, extra: Partial<SprayRecord> = {}): SprayRecord {
+    return {
+      id,
+      date: '2025-05-10',
+      fieldName: 'North, South',
+      operator: 'Sam',
+      tankSize: 300,
+      carrierRate: 15,
+      acres: 100,
+      totalVolume: 1500,
+      products: [
+        { productId: 'p1', productName: 'Roundup PowerMAX', rate: 32, unit: 'fl oz / acre', rateBasis: 'per_acre', totalAmount: 20 },
+      ],
+      sprayedFields: [
+        { fieldId: 'f1', fieldName: 'North', totalAcres: 60, sprayedAcres: 60 },
+        { fieldId: 'f2', fieldName: 'South', totalAcres: 40, sprayedAcres: 40 },
+      ],
+      createdAt: '2025-05-10T12:00:00.000Z',
+      ...extra,
+    };
+  }
+
+  it('splits a record across its fields by sprayed acres', () => {
+    const report = buildCostReport([record('r1')], fields, [glyphosate], { groupBy: 'field' });
+    expect(report.rows).toEqual([
+      { label: 'North', acres: 60, cost: 240, costPerAcre: 4, applications: 1 },
+      { label: 'South', acres: 40, cost: 160, costPerAcre: 4, applications: 1 },
+    ]);
+    expect(report.totalCost).toBe(400);
+    expect(report.totalAcres).toBe(100);
+  });
+
+  it('prefers the price saved on the record over the library price', () => {
+    const r = record('r1');
+    r.products[0].unitPrice = 10;
+    expect(buildCostReport([r], fields, [glyphosate], { groupBy: 'cropYear' }).rows)
+      .toEqual([{ label: '2025', acres: 100, cost: 200, costPerAcre: 2, applications: 1 }]);
+  });
+
+  it('groups by crop and counts unpriced product lines', () => {
+    const r = record('r1', {
+      products: [
+        ...record('r1').products,
+        { productId: 'p2', productName: 'Surfactant', rate: 1, unit: 'fl oz / acre', rateBasis: 'per_acre', totalAmount: 1 },
+      ],
+    });
+    const report = buildCostReport([r], fields, [glyphosate, unpriced], { groupBy: 'crop' });
+    expect(report.rows.map((row) => [row.label, row.cost])).toEqual([['Corn', 240], ['Soybeans', 160]]);
+    expect(report.unpricedLines).toBe(1);
+  });
+
+  it('filters by crop year and product category', () => {
+    const older = record('r0', { date: '2024-05-10' });
+    expect(buildCostReport([older, record('r1')], fields, [glyphosate], { groupBy: 'cropYear', cropYear: '2025' }).rows)
+      .toHaveLength(1);
+    expect(buildCostReport([record('r1')], fields, [glyphosate], { groupBy: 'field', category: 'adjuvant' }).rows)
+      .toEqual([]);
+  });
+});
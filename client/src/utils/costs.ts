@@ -0,0 +1,248 @@
+import { Field, Product, ProductCategory, ProductPrice, SprayRecord, SprayRecordProduct, TankMixProduct } from '../types';
+import { getLeftoverTarget, getRecordCropYear, resolveRecordProduct } from './sprayHistory';
+import { getRecordProductUsage } from './inventory';
+import { toCsv } from './exportService';
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+export function formatCurrency(value: number): string {
+  return value.toLocaleString(undefined, { style: 'currency', currency: 'USD' });
+}
+
+// --- Prices ---
+
+/**
+ * Price ($ per base unit) in effect on a date: the latest history entry on or
+ * before it. Dates before the history starts get the earliest known price
+ * rather than today's; products with no history use their current price.
+ */
+export function getPriceOnDate(product: Pick<Product, 'unitPrice' | 'priceHistory'>, date: string): number | undefined {
+  const history = [...(product.priceHistory || [])]
+    .sort((a, b) => a.effectiveDate.localeCompare(b.effectiveDate));
+  if (history.length === 0) return product.unitPrice;
+  const effective = history.filter((h) => h.effectiveDate <= date);
+  return effective.length > 0 ? effective[effective.length - 1].price : history[0].price;
+}
+
+/** Add (or replace) the history entry for a date, keeping history oldest first. */
+export function addPriceEntry(history: ProductPrice[], price: number, effectiveDate: string): ProductPrice[] {
+  return [...history.filter((h) => h.effectiveDate !== effectiveDate), { price, effectiveDate }]
+    .sort((a, b) => a.effectiveDate.localeCompare(b.effectiveDate));
+}
+
+// --- Mix cost (calculator) ---
+
+export interface MixCost {
+  total: number;
+  perAcre: number;
+  perLoad: number;             // one full tank
+  unpricedProducts: string[];
+}
+
+/**
+ * Cost of the current mix at today's prices. Returns null when no product in
+ * the mix has a price.
+ */
+export function calculateMixCost(
+  selectedProducts: TankMixProduct[],
+  acres: number,
+  totalVolume: number,
+  tankSize: number
+): MixCost | null {
+  const today = new Date().toISOString().split('T')[0];
+  let total = 0;
+  let priced = 0;
+  const unpricedProducts: string[] = [];
+
+  for (const p of selectedProducts) {
+    const price = getPriceOnDate(p.product, today);
+    if (price === undefined) {
+      unpricedProducts.push(p.product.name);
+      continue;
+    }
+    total += p.totalAmount * price;
+    priced++;
+  }
+  if (priced === 0) return null;
+
+  return {
+    total: round(total),
+    perAcre: acres > 0 ? round(total / acres) : 0,
+    // Products scale with spray volume, so a full tank costs its share of the total
+    perLoad: totalVolume > 0 ? round((total / totalVolume) * Math.min(tankSize, totalVolume)) : 0,
+    unpricedProducts,
+  };
+}
+
+// --- Record cost ---
+
+/**
+ * Cost of one product on a record: the price snapshot taken at save time,
+ * else the library price in effect on the record date.
+ */
+export function getRecordProductCost(
+  recordProduct: SprayRecordProduct,
+  record: SprayRecord,
+  product?: Product
+): number | undefined {
+  const price = recordProduct.unitPrice ?? (product ? getPriceOnDate(product, record.date) : undefined);
+  if (price === undefined) return undefined;
+  return getRecordProductUsage(recordProduct, record, product) * price;
+}
+
+// --- Cost report ---
+
+export type CostGroupBy = 'field' | 'crop' | 'farm' | 'cropYear';
+
+export const COST_GROUP_LABELS: Record<CostGroupBy, string> = {
+  field: 'Field',
+  crop: 'Crop',
+  farm: 'Farm',
+  cropYear: 'Crop Year',
+};
+
+export interface CostReportFilter {
+  groupBy: CostGroupBy;
+  cropYear?: string;
+  farm?: string;
+  category?: ProductCategory;
+}
+
+export interface CostReportRow {
+  label: string;
+  acres: number;               // treated acres, counted once per application
+  cost: number;
+  costPerAcre: number;
+  applications: number;
+}
+
+export interface CostReport {
+  rows: CostReportRow[];
+  totalCost: number;
+  totalAcres: number;
+  unpricedLines: number;       // record products with no known price
+}
+
+interface CostSite {
+  fieldName: string;
+  crop: string;
+  farm: string;
+  acres: number;
+}
+
+const UNASSIGNED = 'Unassigned';
+
+function getCostSites(record: SprayRecord, fields: Field[]): CostSite[] {
+  const siteFor = (fieldId: string | undefined, fallbackName: string, acres: number, subFieldId?: string): CostSite => {
+    const field = fieldId ? fields.find((f) => f.id === fieldId) : undefined;
+    const subField = subFieldId ? field?.subFields?.find((sf) => sf.id === subFieldId) : undefined;
+    const name = field?.name || fallbackName || UNASSIGNED;
+    return {
+      fieldName: subField ? `${name} - ${subField.name}` : name,
+      crop: subField?.crop || field?.crop || UNASSIGNED,
+      farm: field?.farmName || UNASSIGNED,
+      acres,
+    };
+  };
+
+  let sites: CostSite[];
+  if (record.sprayedFields && record.sprayedFields.length > 0) {
+    sites = record.sprayedFields.map((sf) => siteFor(sf.fieldId, sf.fieldName, sf.sprayedAcres, sf.subFieldId));
+  } else {
+    const ids = record.fieldIds && record.fieldIds.length > 0
+      ? record.fieldIds
+      : record.fieldId ? [record.fieldId] : [];
+    sites = ids.length > 1
+      // Legacy multi-field records don't store per-field acres; use field sizes
+      ? ids.map((id, i) => siteFor(id, record.fieldNames?.[i] || id, fields.find((f) => f.id === id)?.acres || 0))
+      : [siteFor(ids[0], record.fieldName, record.acres)];
+  }
+  // Leftover mix sprayed on another field carries its share of the cost
+  const leftover = getLeftoverTarget(record);
+  if (leftover) sites.push(siteFor(leftover.fieldId, leftover.fieldName || '', leftover.acres, leftover.subFieldId));
+  return sites;
+}
+
+/** Farm names across fields, for the report's farm filter. */
+export function getFarmNames(fields: Field[]): string[] {
+  return Array.from(new Set(fields.map((f) => f.farmName?.trim()).filter((n): n is string => !!n))).sort();
+}
+
+/**
+ * Product spend from spray records, grouped by field, crop, farm or crop year.
+ * A record's cost is split across its fields by sprayed acres.
+ */
+export function buildCostReport(
+  records: SprayRecord[],
+  fields: Field[],
+  products: Product[],
+  filter: CostReportFilter
+): CostReport {
+  const groups = new Map<string, CostReportRow>();
+  let unpricedLines = 0;
+
+  for (const record of records) {
+    const cropYear = getRecordCropYear(record);
+    if (filter.cropYear && cropYear !== filter.cropYear) continue;
+
+    let recordCost = 0;
+    let recordUnpriced = 0;
+    let hasLines = false;
+    for (const rp of record.products) {
+      const product = resolveRecordProduct(rp, products);
+      if (filter.category && product?.category !== filter.category) continue;
+      hasLines = true;
+      const cost = getRecordProductCost(rp, record, product);
+      if (cost === undefined) recordUnpriced++;
+      else recordCost += cost;
+    }
+    if (!hasLines) continue;
+
+    const allSites = getCostSites(record, fields);
+    const sites = allSites.filter((s) => !filter.farm || s.farm === filter.farm);
+    if (sites.length === 0) continue;
+    unpricedLines += recordUnpriced;
+    const siteAcres = allSites.reduce((sum, s) => sum + s.acres, 0);
+
+    // A record on two fields of the same crop or farm is still one application
+    const counted = new Set<string>();
+    for (const site of sites) {
+      const share = siteAcres > 0 ? site.acres / siteAcres : 1 / allSites.length;
+      const label = filter.groupBy === 'field' ? site.fieldName
+        : filter.groupBy === 'crop' ? site.crop
+        : filter.groupBy === 'farm' ? site.farm
+        : cropYear;
+      const row = groups.get(label) || { label, acres: 0, cost: 0, costPerAcre: 0, applications: 0 };
+      row.acres += site.acres;
+      row.cost += recordCost * share;
+      if (!counted.has(label)) row.applications++;
+      counted.add(label);
+      groups.set(label, row);
+    }
+  }
+
+  const rows = Array.from(groups.values())
+    .map((r) => ({
+      ...r,
+      acres: round(r.acres),
+      cost: round(r.cost),
+      costPerAcre: r.acres > 0 ? round(r.cost / r.acres) : 0,
+    }))
+    .sort((a, b) => b.cost - a.cost || a.label.localeCompare(b.label));
+
+  return {
+    rows,
+    totalCost: round(rows.reduce((sum, r) => sum + r.cost, 0)),
+    totalAcres: round(rows.reduce((sum, r) => sum + r.acres, 0)),
+    unpricedLines,
+  };
+}
+
+export function costReportToCsv(report: CostReport, groupBy: CostGroupBy): string {
+  const headers = [COST_GROUP_LABELS[groupBy], 'Applications', 'Acres Treated', 'Cost', 'Cost / Acre'];
+  const rows = report.rows.map((r) => [r.label, r.applications, r.acres, r.cost, r.costPerAcre]);
+  rows.push(['Total', '', report.totalAcres, report.totalCost, '']);
+  return toCsv(headers, rows);
+}
@@ -0,0 +1,108 @@
+import { Field, SensitiveSite } from '../types';
+import { distanceFromField, findDownwindSites } from './driftBuffer';
+
+const LAT = 40;
+const LNG = -90;
+const METERS_PER_DEGREE = 111320;
+
+/** Coordinates offset from (LAT, LNG) by feet north and east. */
+function offset(northFeet: number, eastFeet: number): [number, number] {
+  const north = northFeet / 3.28084;
+  const east = eastFeet / 3.28084;
+  return [
+    LAT + north / METERS_PER_DEGREE,
+    LNG + east / (METERS_PER_DEGREE * Math.cos((LAT * Math.PI) / 180)),
+  ];
+}
+
+/** Offset by distance (ft) along a bearing (degrees clockwise from north). */
+function along(bearing: number, feet: number): [number, number] {
+  const rad = (bearing * Math.PI) / 180;
+  return offset(feet * Math.cos(rad), feet * Math.sin(rad));
+}
+
+// 1000 ft square with its south-west corner at (LAT, LNG)
+const square: Field = {
+  id: 'f1',
+  name: 'Square',
+  acres: 23,
+  carrierRate: 15,
+  boundary: [offset(0, 0), offset(1000, 0), offset(1000, 1000), offset(0, 1000)],
+};
+
+const pin: Field = { id: 'f2', name: 'Pin', acres: 40, carrierRate: 15, latitude: LAT, longitude: LNG };
+
+function site(id: string, [latitude, longitude]: [number, number]): SensitiveSite {
+  return { id, name: id, type: 'apiary', latitude, longitude };
+}
+
+describe('distanceFromField', () => {
+  it('is zero for a site inside the boundary', () => {
+    const [lat, lng] = offset(500, 500);
+    expect(distanceFromField(square, lat, lng)).toEqual({ distanceFeet: 0, bearing: 0 });
+  });
+
+  it('measures to the nearest edge with the bearing from the field to the site', () => {
+    const [lat, lng] = offset(1300, 500);
+    const result = distanceFromField(square, lat, lng)!;
+    expect(result.distanceFeet).toBeCloseTo(300, -1);
+    expect(result.bearing).toBeCloseTo(0, 0);
+
+    const [wLat, wLng] = offset(500, -200);
+    const west = distanceFromField(square, wLat, wLng)!;
+    expect(west.distanceFeet).toBeCloseTo(200, -1);
+    expect(west.bearing).toBeCloseTo(270, 0);
+  });
+
+  it('uses the pin when the field has no boundary', () => {
+    const [lat, lng] = along(135, 400);
+    const result = distanceFromField(pin, lat, lng)!;
+    expect(result.distanceFeet).toBeCloseTo(400, -1);
+    expect(result.bearing).toBeCloseTo(135, 0);
+  });
+
+  it('returns null for a field with no location', () => {
+    expect(distanceFromField({ id: 'f3', name: 'Unmapped', acres: 10, carrierRate: 15 }, LAT, LNG)).toBeNull();
+  });
+});
+
+describe('findDownwindSites', () => {
+  const ids = (results: ReturnType<typeof findDownwindSites>) => results.map((r) => r.site.id);
+
+  it('flags sites downwind within the buffer and skips upwind ones', () => {
+    const sites = [
+      site('north', offset(1300, 500)),
+      site('south', offset(-300, 500)),
+      site('far-north', offset(1800, 500)),
+    ];
+    // Wind from the south blows toward the north
+    expect(ids(findDownwindSites([square], sites, 'S', 500))).toEqual(['north']);
+  });
+
+  it('always flags sites inside the field', () => {
+    expect(ids(findDownwindSites([square], [site('inside', offset(500, 500))], 'N', 500))).toEqual(['inside']);
+  });
+
+  it('uses a 45° sector either side of straight downwind', () => {
+    const sites = [site('in', along(40, 300)), site('out', along(50, 300))];
+    expect(ids(findDownwindSites([pin], sites, 'S', 500))).toEqual(['in']);
+  });
+
+  it('wraps the sector around north', () => {
+    // Wind from the SSE blows toward 337.5°
+    const sites = [
+      site('east-of-north', along(10, 300)),
+      site('west', along(300, 300)),
+      site('too-far-west', along(280, 300)),
+    ];
+    expect(ids(findDownwindSites([pin], sites, 'SSE', 500)).sort()).toEqual(['east-of-north', 'west']);
+    expect(ids(findDownwindSites([pin], [site('just-west-of-north', along(350, 300))], 'S', 500)))
+      .toEqual(['just-west-of-north']);
+  });
+
+  it('flags every site in the buffer when the wind direction is unknown', () => {
+    const sites = [site('north', along(0, 300)), site('south', along(180, 200))];
+    expect(ids(findDownwindSites([pin], sites, undefined, 500))).toEqual(['south', 'north']);
+    expect(ids(findDownwindSites([pin], sites, 'VRB', 500))).toEqual(['south', 'north']);
+  });
+});
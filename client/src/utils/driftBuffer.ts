@@ -0,0 +1,138 @@
+import { BufferSettings, Field, SensitiveSite, SensitiveSiteType } from '../types';
+
+export const DEFAULT_BUFFER_SETTINGS: BufferSettings = {
+  distanceFeet: 500,
+};
+
+export const SENSITIVE_SITE_TYPES: { value: SensitiveSiteType; label: string; color: string }[] = [
+  { value: 'organic', label: 'Organic field', color: '#65a30d' },
+  { value: 'apiary', label: 'Apiary', color: '#d97706' },
+  { value: 'water', label: 'Water body', color: '#0284c7' },
+  { value: 'residence', label: 'Residence', color: '#be123c' },
+];
+
+export function getSiteTypeInfo(type: SensitiveSiteType) {
+  return SENSITIVE_SITE_TYPES.find((t) => t.value === type) || SENSITIVE_SITE_TYPES[0];
+}
+
+// Sites within this many degrees either side of straight downwind are flagged
+export const DOWNWIND_SECTOR_DEGREES = 45;
+
+const COMPASS_POINTS = ['N', 'NNE', 'NE', 'ENE', 'E', 'ESE', 'SE', 'SSE',
+                        'S', 'SSW', 'SW', 'WSW', 'W', 'WNW', 'NW', 'NNW'];
+
+/** Degrees for a compass point like "SW" (the direction the wind blows from). */
+export function compassToDegrees(direction: string): number | null {
+  const i = COMPASS_POINTS.indexOf((direction || '').trim().toUpperCase());
+  return i >= 0 ? i * 22.5 : null;
+}
+
+export function degreesToCompass(degrees: number): string {
+  return COMPASS_POINTS[Math.round((((degrees % 360) + 360) % 360) / 22.5) % 16];
+}
+
+const FEET_PER_METER = 3.28084;
+const METERS_PER_DEGREE = 111320;
+
+/**
+ * Nearest point on a field (boundary edge, or its pin when there is no
+ * boundary) to a site, as a distance in feet and a bearing from that point
+ * to the site. Uses a flat projection around the site, which is accurate at
+ * buffer distances.
+ */
+export function distanceFromField(
+  field: Field,
+  latitude: number,
+  longitude: number
+): { distanceFeet: number; bearing: number } | null {
+  const cosLat = Math.cos((latitude * Math.PI) / 180);
+  const toXY = ([lat, lng]: [number, number]) => ({
+    x: (lng - longitude) * METERS_PER_DEGREE * cosLat,
+    y: (lat - latitude) * METERS_PER_DEGREE,
+  });
+
+  let points: { x: number; y: number }[];
+  if (field.boundary && field.boundary.length >= 3) {
+    points = field.boundary.map(toXY);
+  } else if (field.latitude != null && field.longitude != null) {
+    points = [toXY([field.latitude, field.longitude])];
+  } else {
+    return null;
+  }
+
+  if (points.length >= 3 && pointInPolygon(points)) {
+    return { distanceFeet: 0, bearing: 0 };
+  }
+
+  // Closest point on any edge to the site (the origin)
+  let best = points[0];
+  let bestDist = Math.hypot(best.x, best.y);
+  for (let i = 0; i < points.length; i++) {
+    const a = points[i];
+    const b = points[(i + 1) % points.length];
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    const len2 = dx * dx + dy * dy;
+    const t = len2 > 0 ? Math.max(0, Math.min(1, -(a.x * dx + a.y * dy) / len2)) : 0;
+    const p = { x: a.x + t * dx, y: a.y + t * dy };
+    const d = Math.hypot(p.x, p.y);
+    if (d < bestDist) {
+      best = p;
+      bestDist = d;
+    }
+  }
+
+  // Bearing from the field edge to the site, clockwise from north
+  const bearing = ((Math.atan2(-best.x, -best.y) * 180) / Math.PI + 360) % 360;
+  return { distanceFeet: Math.round(bestDist * FEET_PER_METER), bearing };
+}
+
+/** Ray cast from the origin. */
+function pointInPolygon(points: { x: number; y: number }[]): boolean {
+  let inside = false;
+  for (let i = 0, j = points.length - 1; i < points.length; j = i++) {
+    const a = points[i];
+    const b = points[j];
+    if ((a.y > 0) !== (b.y > 0) && 0 < ((b.x - a.x) * -a.y) / (b.y - a.y) + a.x) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+export interface DownwindSite {
+  site: SensitiveSite;
+  fieldId: string;
+  fieldName: string;
+  distanceFeet: number;
+  bearing: number;          // from the field edge to the site
+}
+
+/**
+ * Sensitive sites within the buffer distance and downwind of the fields.
+ * When the wind direction is unknown (calm or variable), every site inside
+ * the buffer is returned.
+ */
+export function findDownwindSites(
+  fields: Field[],
+  sites: SensitiveSite[],
+  windDirection: string | undefined,
+  distanceFeet: number
+): DownwindSite[] {
+  const from = windDirection ? compassToDegrees(windDirection) : null;
+  const downwind = from != null ? (from + 180) % 360 : null;
+
+  const results: DownwindSite[] = [];
+  for (const field of fields) {
+    for (const site of sites) {
+      const nearest = distanceFromField(field, site.latitude, site.longitude);
+      if (!nearest || nearest.distanceFeet > distanceFeet) continue;
+      if (downwind != null && nearest.distanceFeet > 0) {
+        const diff = Math.abs(((nearest.bearing - downwind + 540) % 360) - 180);
+        if (diff > DOWNWIND_SECTOR_DEGREES) continue;
+      }
+      results.push({ site, fieldId: field.id, fieldName: field.name, ...nearest });
+    }
+  }
+  return results.sort((a, b) => a.distanceFeet - b.distanceFeet);
+}
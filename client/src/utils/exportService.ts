@@ -0,0 +1,107 @@
+import * as XLSX from 'xlsx';
+import { Field, SprayRecord } from '../types';
+import { getRecordCropYear } from './sprayHistory';
+
+/**
+ * Client-side file export helpers (CSV text, Excel workbooks and browser downloads).
+ */
+
+function escapeCsvCell(cell: unknown): string {
+  const s = cell === undefined || cell === null ? '' : String(cell);
+  return /[",\n\r]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+/** Build CSV text from a header row and data rows. */
+export function toCsv(headers: string[], rows: unknown[][]): string {
+  return [headers, ...rows].map((row) => row.map(escapeCsvCell).join(',')).join('\n');
+}
+
+/** Trigger a browser download for in-memory content. */
+export function downloadFile(content: BlobPart, filename: string, type: string): void {
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+// --- Spray records ---
+
+/**
+ * Column headers for spray record export. One row per product; record-level
+ * columns repeat on each row and are regrouped by Record ID on import.
+ * Multi-field values are joined with "; ".
+ */
+export const RECORD_COLUMNS = [
+  'Record ID', 'Date', 'Start Time', 'End Time', 'Crop Year',
+  'Fields', 'Field Numbers', 'Field Acres', 'Acres',
+  'Operator', 'Certification No.', 'Tank Size', 'Carrier Rate', 'Total Volume',
+  'Actual Volume', 'Leftover Volume',
+  'Product', 'EPA Reg. No.', 'Rate', 'Unit', 'Rate Basis', 'Total Amount',
+  'REI (hr)', 'PHI (days)', 'MOA Groups', 'Restricted Use', 'Unit Price',
+  'Temperature', 'Humidity', 'Wind Speed', 'Wind Direction', 'Weather Source',
+  'Notes', 'Created At',
+] as const;
+
+export const MULTI_VALUE_SEPARATOR = '; ';
+
+function recordFieldColumns(record: SprayRecord, fields: Field[]): [string, string, string] {
+  if (record.sprayedFields && record.sprayedFields.length > 0) {
+    const names = record.sprayedFields.map((sf) =>
+      sf.subFieldName ? `${sf.fieldName} - ${sf.subFieldName}` : sf.fieldName
+    );
+    const numbers = record.sprayedFields.map((sf) => fields.find((f) => f.id === sf.fieldId)?.fieldNumber || '');
+    return [
+      names.join(MULTI_VALUE_SEPARATOR),
+      numbers.some(Boolean) ? numbers.join(MULTI_VALUE_SEPARATOR) : '',
+      record.sprayedFields.map((sf) => sf.sprayedAcres).join(MULTI_VALUE_SEPARATOR),
+    ];
+  }
+  const names = record.fieldNames || [record.fieldName];
+  return [names.join(MULTI_VALUE_SEPARATOR), '', ''];
+}
+
+/** Flatten records into rows matching RECORD_COLUMNS. */
+export function recordsToRows(records: SprayRecord[], fields: Field[]): unknown[][] {
+  const rows: unknown[][] = [];
+  for (const r of records) {
+    const [fieldNames, fieldNumbers, fieldAcres] = recordFieldColumns(r, fields);
+    const recordCells = [
+      r.id, r.date, r.startTime || '', r.endTime || '', getRecordCropYear(r),
+      fieldNames, fieldNumbers, fieldAcres, r.acres,
+      r.operator, r.applicatorCertification || '', r.tankSize, r.carrierRate, r.totalVolume,
+      r.actualVolume ?? '', r.leftoverVolume ?? '',
+    ];
+    const trailingCells = [
+      r.weather?.temperature ?? '', r.weather?.humidity ?? '', r.weather?.windSpeed ?? '',
+      r.weather?.windDirection ?? '', r.weather?.source ?? '',
+      r.notes || '', r.createdAt,
+    ];
+    // Records without products still export one row so they survive a round trip
+    const products = r.products.length > 0 ? r.products : [undefined];
+    for (const p of products) {
+      rows.push([
+        ...recordCells,
+        p?.productName ?? '', p?.epaRegNumber ?? '', p?.rate ?? '', p?.unit ?? '', p?.rateBasis ?? '',
+        p?.totalAmount ?? '', p?.reiHours ?? '', p?.phiDays ?? '',
+        p?.moaGroups?.join(MULTI_VALUE_SEPARATOR) ?? '', p?.restrictedUse ? 'Yes' : '', p?.unitPrice ?? '',
+        ...trailingCells,
+      ]);
+    }
+  }
+  return rows;
+}
+
+export function recordsToCsv(records: SprayRecord[], fields: Field[]): string {
+  return toCsv([...RECORD_COLUMNS], recordsToRows(records, fields));
+}
+
+/** Build an .xlsx workbook (single "Spray Records" sheet) as an ArrayBuffer. */
+export function recordsToXlsx(records: SprayRecord[], fields: Field[]): ArrayBuffer {
+  const sheet = XLSX.utils.aoa_to_sheet([[...RECORD_COLUMNS], ...recordsToRows(records, fields)]);
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, sheet, 'Spray Records');
+  return XLSX.write(workbook, { type: 'array', bookType: 'xlsx' });
+}
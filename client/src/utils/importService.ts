@@ -1,5 +1,8 @@
-import { Field } from '../types';
-import type { GeoJSONFeatureData } from './boundaryMatcher';
+import { Field, Product, SprayedField, SprayRecord, SprayRecordProduct } from '../types';
+import { matchFeaturesToFields } from './boundaryMatcher';
+import type { GeoJSONFeatureData, MatchConfidence } from './boundaryMatcher';
+import { RECORD_COLUMNS } from './exportService';
+import { resolveRecordProduct } from './sprayHistory';
 import * as XLSX from 'xlsx';
 
 /**
@@ -404,3 +407,284 @@ export function parseGeoJSON(text: string): Field[] {
 
   return fields;
 }
+
+// --- Spray records ---
+
+export interface RecordFieldMatch {
+  name: string;                 // as written in the file
+  fieldId: string | null;
+  subFieldId?: string;
+  matchedName: string | null;
+  confidence: MatchConfidence;
+  reason: string;
+}
+
+export interface ParsedRecordImport {
+  record: SprayRecord;
+  fieldMatches: RecordFieldMatch[];
+}
+
+export interface RecordImportResult {
+  records: ParsedRecordImport[];
+  skippedRows: number[];        // 1-based sheet rows without a usable date
+}
+
+function normalizeHeader(header: string): string {
+  return header.trim().toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+const RECORD_HEADER_ALIASES: Record<string, string[]> = {
+  'Fields': ['field', 'fieldname', 'fieldnames'],
+  'Field Numbers': ['fieldnumber', 'fieldno'],
+  'Operator': ['applicator', 'applicatorname'],
+  'Certification No.': ['certification', 'certificationnumber', 'certno'],
+  'Carrier Rate': ['gpa', 'carrierrategpa'],
+  'Product': ['productname'],
+  'EPA Reg. No.': ['epareg', 'epanumber', 'eparegistrationnumber'],
+  'Restricted Use': ['rup', 'restricteduseproduct'],
+  'Temperature': ['temperaturef', 'temp'],
+  'Humidity': ['relativehumidity', 'rh'],
+  'Wind Speed': ['windspeedmph', 'wind'],
+};
+
+function normalizeDate(value: string): string {
+  const v = value.trim();
+  if (/^\d{4}-\d{2}-\d{2}/.test(v)) return v.slice(0, 10);
+  const us = v.match(/^(\d{1,2})\/(\d{1,2})\/(\d{2}|\d{4})$/);
+  if (us) {
+    const year = us[3].length === 2 ? `20${us[3]}` : us[3];
+    return `${year}-${us[1].padStart(2, '0')}-${us[2].padStart(2, '0')}`;
+  }
+  return '';
+}
+
+function normalizeTime(value: string): string | undefined {
+  const m = value.trim().match(/^(\d{1,2}):(\d{2})/);
+  return m ? `${m[1].padStart(2, '0')}:${m[2]}` : undefined;
+}
+
+function parseNumber(value: string): number | undefined {
+  const n = parseFloat(value.replace(/,/g, ''));
+  return isNaN(n) ? undefined : n;
+}
+
+function splitMulti(value: string): string[] {
+  return value.split(';').map((v) => v.trim()).filter((v) => v.length > 0);
+}
+
+/**
+ * Match a record's field names to existing fields with the same rules as
+ * boundary merging. "Field - Sub-field" names resolve to the sub-field first.
+ */
+export function matchRecordFieldNames(names: string[], numbers: string[], fields: Field[]): RecordFieldMatch[] {
+  const toFeature = (name: string, index: number, number?: string): GeoJSONFeatureData => ({
+    index,
+    name,
+    acres: 0,
+    properties: number ? { number } : {},
+  });
+
+  return names.map((name, i) => {
+    const sep = name.lastIndexOf(' - ');
+    if (sep > 0) {
+      const [parent] = matchFeaturesToFields([toFeature(name.slice(0, sep), 0)], fields);
+      const field = fields.find((f) => f.id === parent.matchedFieldId);
+      const subName = name.slice(sep + 3).trim().toLowerCase();
+      const subField = field?.subFields?.find((sf) => sf.name.trim().toLowerCase() === subName);
+      if (field && subField) {
+        return {
+          name,
+          fieldId: field.id,
+          subFieldId: subField.id,
+          matchedName: `${field.name} - ${subField.name}`,
+          confidence: parent.confidence,
+          reason: `${parent.matchReason} (sub-field)`,
+        };
+      }
+    }
+
+    const [match] = matchFeaturesToFields([toFeature(name, 0, numbers[i])], fields);
+    return {
+      name,
+      fieldId: match.matchedFieldId,
+      matchedName: match.matchedFieldName,
+      confidence: match.confidence,
+      reason: match.matchReason || 'No matching field',
+    };
+  });
+}
+
+/**
+ * Turn sheet rows in the spray record export layout back into SprayRecords.
+ * Rows are grouped by Record ID (or date, fields and operator when the ID
+ * column is blank); each row contributes one product.
+ */
+export function parseRecordRows(rows: string[][], fields: Field[], products: Product[]): RecordImportResult {
+  const headerRow = rows[0] || [];
+  const headers = headerRow.map((h) => normalizeHeader(String(h)));
+  const colMap: Record<string, number> = {};
+  for (const column of RECORD_COLUMNS) {
+    const names = [normalizeHeader(column), ...(RECORD_HEADER_ALIASES[column] || [])];
+    const idx = headers.findIndex((h) => names.includes(h));
+    if (idx >= 0) colMap[column] = idx;
+  }
+  if (colMap['Date'] === undefined || colMap['Fields'] === undefined) {
+    throw new Error('Missing "Date" or "Fields" column');
+  }
+
+  const groups = new Map<string, string[][]>();
+  const skippedRows: number[] = [];
+  rows.slice(1).forEach((values, i) => {
+    if (values.every((v) => !String(v).trim())) return;
+    const get = (column: string) => {
+      const idx = colMap[column];
+      return idx !== undefined && idx < values.length ? String(values[idx]).trim() : '';
+    };
+    const date = normalizeDate(get('Date'));
+    if (!date) {
+      skippedRows.push(i + 2);
+      return;
+    }
+    const key = get('Record ID') || [date, get('Fields'), get('Operator'), get('Start Time')].join('|');
+    groups.set(key, [...(groups.get(key) || []), values]);
+  });
+
+  const records: ParsedRecordImport[] = [];
+  let index = 0;
+  groups.forEach((groupRows) => {
+    const cell = (values: string[], column: string) => {
+      const idx = colMap[column];
+      return idx !== undefined && idx < values.length ? String(values[idx]).trim() : '';
+    };
+    const first = groupRows[0];
+    const get = (column: string) => cell(first, column);
+
+    const names = splitMulti(get('Fields'));
+    const numbers = get('Field Numbers').split(';').map((v) => v.trim());
+    const acresList = get('Field Acres').split(';').map((v) => parseNumber(v));
+    const fieldMatches = matchRecordFieldNames(names, numbers, fields);
+
+    const sprayedFields: SprayedField[] = [];
+    fieldMatches.forEach((m, i) => {
+      const field = fields.find((f) => f.id === m.fieldId);
+      if (!field) return;
+      const subField = m.subFieldId ? field.subFields?.find((sf) => sf.id === m.subFieldId) : undefined;
+      const totalAcres = subField ? subField.acres : field.acres;
+      sprayedFields.push({
+        fieldId: field.id,
+        fieldName: field.name,
+        totalAcres,
+        sprayedAcres: acresList[i] ?? totalAcres,
+        subFieldId: subField?.id,
+        subFieldName: subField?.name,
+      });
+    });
+    const fieldIds = Array.from(new Set(sprayedFields.map((sf) => sf.fieldId)));
+
+    const recordProducts: SprayRecordProduct[] = groupRows
+      .filter((values) => cell(values, 'Product'))
+      .map((values) => {
+        const productName = cell(values, 'Product');
+        const unit = cell(values, 'Unit');
+        const basis = cell(values, 'Rate Basis') || unit;
+        const moaGroups = splitMulti(cell(values, 'MOA Groups'));
+        const restrictedUse = cell(values, 'Restricted Use');
+        const unitPrice = parseNumber(cell(values, 'Unit Price').replace('$', ''));
+        return {
+          productId: resolveRecordProduct({ productName }, products)?.id,
+          productName,
+          rate: parseNumber(cell(values, 'Rate')) ?? 0,
+          unit,
+          rateBasis: basis.includes('100') ? 'per_100_gal' : 'per_acre',
+          totalAmount: parseNumber(cell(values, 'Total Amount')) ?? 0,
+          reiHours: parseNumber(cell(values, 'REI (hr)')),
+          phiDays: parseNumber(cell(values, 'PHI (days)')),
+          moaGroups: moaGroups.length > 0 ? moaGroups : undefined,
+          epaRegNumber: cell(values, 'EPA Reg. No.') || undefined,
+          restrictedUse: restrictedUse ? /^(y|yes|true|1)$/i.test(restrictedUse) : undefined,
+          // A blank price keeps the stored one when the record is merged
+          ...(unitPrice !== undefined ? { unitPrice } : {}),
+        };
+      });
+
+    const carrierRate = parseNumber(get('Carrier Rate')) ?? 20;
+    const acres = parseNumber(get('Acres')) ?? sprayedFields.reduce((sum, sf) => sum + sf.sprayedAcres, 0);
+    const temperature = parseNumber(get('Temperature'));
+    const windSpeed = parseNumber(get('Wind Speed'));
+
+    const record: SprayRecord = {
+      id: get('Record ID') || `${Date.now()}-${index}`,
+      date: normalizeDate(get('Date')),
+      fieldId: fieldIds.length === 1 ? fieldIds[0] : undefined,
+      fieldName: names.join(', '),
+      fieldIds: fieldIds.length > 0 ? fieldIds : undefined,
+      fieldNames: names.length > 0 ? names : undefined,
+      operator: get('Operator'),
+      tankSize: parseNumber(get('Tank Size')) ?? 0,
+      carrierRate,
+      acres,
+      products: recordProducts,
+      totalVolume: parseNumber(get('Total Volume')) ?? carrierRate * acres,
+      actualVolume: parseNumber(get('Actual Volume')),
+      leftoverVolume: parseNumber(get('Leftover Volume')),
+      weather: temperature !== undefined || windSpeed !== undefined
+        ? {
+            temperature: temperature ?? 0,
+            humidity: parseNumber(get('Humidity')) ?? 0,
+            windSpeed: windSpeed ?? 0,
+            windDirection: get('Wind Direction'),
+            source: get('Weather Source') || 'imported',
+          }
+        : undefined,
+      notes: get('Notes') || undefined,
+      createdAt: get('Created At') || new Date().toISOString(),
+      startTime: normalizeTime(get('Start Time')),
+      endTime: normalizeTime(get('End Time')),
+      applicatorCertification: get('Certification No.') || undefined,
+      sprayedFields: sprayedFields.length > 0 ? sprayedFields : undefined,
+      cropYear: get('Crop Year') || undefined,
+    };
+    index++;
+    records.push({ record, fieldMatches });
+  });
+
+  return { records, skippedRows };
+}
+
+/**
+ * Apply an imported record over the stored one with the same ID. The export
+ * only carries its own columns, so anything else on the record (planned mix,
+ * leftover, sprayer, weather log) and per-product details such as the price
+ * at application are kept. Products are matched by name.
+ */
+export function mergeImportedRecord(existing: SprayRecord, imported: SprayRecord): SprayRecord {
+  const products = imported.products.map((p) => {
+    const match = existing.products.find(
+      (ep) => ep.productName.trim().toLowerCase() === p.productName.trim().toLowerCase()
+    );
+    return match ? { ...match, ...p } : p;
+  });
+  return { ...existing, ...imported, products };
+}
+
+function sheetToRows(workbook: XLSX.WorkBook): string[][] {
+  const sheetName = workbook.SheetNames[0];
+  if (!sheetName) return [];
+  return XLSX.utils.sheet_to_json<string[]>(workbook.Sheets[sheetName], {
+    header: 1,
+    raw: false,
+    defval: '',
+    dateNF: 'yyyy-mm-dd',
+  });
+}
+
+/** Parse a spray record CSV export. */
+export function parseRecordsCSV(text: string, fields: Field[], products: Product[]): RecordImportResult {
+  // raw keeps dates, times and field numbers as the text in the file
+  return parseRecordRows(sheetToRows(XLSX.read(text, { type: 'string', raw: true })), fields, products);
+}
+
+/** Parse a spray record Excel export (first sheet). */
+export function parseRecordsExcel(data: ArrayBuffer, fields: Field[], products: Product[]): RecordImportResult {
+  return parseRecordRows(sheetToRows(XLSX.read(data, { type: 'array' })), fields, products);
+}
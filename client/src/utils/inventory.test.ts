@@ -0,0 +1,84 @@
+import { InventoryTransaction, Product, SprayRecord } from '../types';
+import {
+  buildApplicationTransactions,
+  checkInventoryShortfalls,
+  computeOnHand,
+  getTrackingStartDates,
+} from './inventory';
+
+function entry(productId: string, type: InventoryTransaction['type'], quantity: number, date = '2025-05-01'): InventoryTransaction {
+  return { id: `${productId}-${type}-${date}-${quantity}`, productId, date, type, quantity, createdAt: `${date}T12:00:00.000Z` };
+}
+
+const product: Product = {
+  id: 'p1',
+  name: 'Roundup PowerMAX',
+  type: 'liquid',
+  unit: 'fl oz / acre',
+  defaultRate: 32,
+  measurementUnit: 'fl_oz',
+  rateBasis: 'per_acre',
+};
+
+function record(date: string): SprayRecord {
+  return {
+    id: 'r1',
+    date,
+    fieldName: 'North 80',
+    operator: 'Sam',
+    tankSize: 300,
+    carrierRate: 15,
+    acres: 80,
+    totalVolume: 1200,
+    products: [{ productId: 'p1', productName: 'Roundup PowerMAX', rate: 32, unit: 'fl oz / acre', rateBasis: 'per_acre', totalAmount: 20 }],
+    createdAt: `${date}T12:00:00.000Z`,
+  };
+}
+
+describe('computeOnHand', () => {
+  it('sums receipts, adjustments and applications for tracked products', () => {
+    const onHand = computeOnHand([
+      entry('p1', 'receipt', 100),
+      entry('p1', 'application', -20),
+      entry('p1', 'adjustment', -5),
+    ]);
+    expect(onHand.get('p1')).toBe(75);
+  });
+
+  it('leaves products that have only been sprayed untracked', () => {
+    const onHand = computeOnHand([entry('p1', 'application', -20), entry('p2', 'transfer', 10)]);
+    expect(onHand.has('p1')).toBe(false);
+    expect(onHand.get('p2')).toBe(10);
+  });
+
+  it('reports shortfalls against tracked stock only', () => {
+    const mix = [{ product, rate: 32, totalAmount: 10, rateBasis: 'per_acre' as const }];
+    expect(checkInventoryShortfalls(mix, computeOnHand([entry('p1', 'receipt', 4)]))).toEqual([
+      { productName: 'Roundup PowerMAX', required: 10, onHand: 4, unit: 'gal' },
+    ]);
+  });
+
+  it('does not report shortfalls for untracked products', () => {
+    const onHand = computeOnHand([entry('p1', 'application', -20)]);
+    const shortfalls = checkInventoryShortfalls([{ product, rate: 32, totalAmount: 10, rateBasis: 'per_acre' }], onHand);
+    expect(shortfalls).toEqual([]);
+  });
+});
+
+describe('buildApplicationTransactions', () => {
+  it('deducts products once tracking has started', () => {
+    const trackedSince = getTrackingStartDates([entry('p1', 'receipt', 100, '2025-04-01')]);
+    const transactions = buildApplicationTransactions(record('2025-05-01'), [product], trackedSince);
+    expect(transactions).toHaveLength(1);
+    expect(transactions[0]).toMatchObject({ productId: 'p1', type: 'application', quantity: -20 });
+  });
+
+  it('skips records dated before tracking started', () => {
+    const trackedSince = getTrackingStartDates([entry('p1', 'receipt', 100, '2025-06-01')]);
+    expect(buildApplicationTransactions(record('2025-05-01'), [product], trackedSince)).toEqual([]);
+  });
+
+  it('skips products that are not tracked', () => {
+    expect(buildApplicationTransactions(record('2025-05-01'), [product], new Map())).toEqual([]);
+  });
+});
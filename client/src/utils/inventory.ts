@@ -0,0 +1,123 @@
+import { InventoryTransaction, InventoryTransactionType, Product, SprayRecord, SprayRecordProduct, TankMixProduct } from '../types';
+import { convertRateToAmount } from './loadCalculations';
+import { getBaseDisplayUnit } from './unitConstants';
+import { getLeftoverTarget, resolveRecordProduct } from './sprayHistory';
+
+export const TRANSACTION_TYPE_LABELS: Record<InventoryTransactionType, string> = {
+  receipt: 'Receipt',
+  transfer: 'Transfer',
+  adjustment: 'Adjustment',
+  application: 'Applied',
+};
+
+/**
+ * Amount of product a record used, in the product's base unit (gal or lbs).
+ * Records entered by hand carry no total, so it is derived from the rate.
+ */
+export function getRecordProductUsage(
+  recordProduct: SprayRecordProduct,
+  record: Pick<SprayRecord, 'acres' | 'totalVolume'>,
+  product?: Product
+): number {
+  if (recordProduct.totalAmount > 0) return recordProduct.totalAmount;
+  return convertRateToAmount(
+    recordProduct.rate,
+    recordProduct.unit,
+    record.acres,
+    record.totalVolume,
+    recordProduct.rateBasis,
+    product?.measurementUnit
+  );
+}
+
+/**
+ * Date each product's inventory tracking started: its earliest receipt,
+ * transfer or adjustment. Application entries alone don't start tracking.
+ */
+export function getTrackingStartDates(transactions: InventoryTransaction[]): Map<string, string> {
+  const starts = new Map<string, string>();
+  for (const t of transactions) {
+    if (t.type === 'application') continue;
+    const current = starts.get(t.productId);
+    if (!current || t.date < current) starts.set(t.productId, t.date);
+  }
+  return starts;
+}
+
+/**
+ * Ledger entries deducting a record's products from inventory. Products that
+ * aren't in the library can't be tracked and are skipped, as are products
+ * whose tracking started after the record's date (or hasn't started), so
+ * editing an old record doesn't deduct stock retroactively.
+ */
+export function buildApplicationTransactions(
+  record: SprayRecord,
+  products: Product[],
+  trackedSince: Map<string, string>
+): InventoryTransaction[] {
+  const transactions: InventoryTransaction[] = [];
+  // The leftover was part of the mixed amount; note where it went
+  const leftover = getLeftoverTarget(record);
+  const notes = leftover?.fieldName ? `${record.fieldName}; leftover on ${leftover.fieldName}` : record.fieldName;
+  record.products.forEach((rp, i) => {
+    const product = resolveRecordProduct(rp, products);
+    if (!product) return;
+    const start = trackedSince.get(product.id);
+    if (!start || record.date < start) return;
+    const used = getRecordProductUsage(rp, record, product);
+    if (used <= 0) return;
+    transactions.push({
+      id: `app-${record.id}-${i}`,
+      productId: product.id,
+      date: record.date,
+      type: 'application',
+      quantity: -Math.round(used * 1000) / 1000,
+      recordId: record.id,
+      notes,
+      createdAt: record.createdAt,
+    });
+  });
+  return transactions;
+}
+
+/**
+ * On-hand quantity per product id. A product is tracked once it has a
+ * receipt, transfer or adjustment; products that have only been sprayed are
+ * absent (untracked) rather than showing a negative balance.
+ */
+export function computeOnHand(transactions: InventoryTransaction[]): Map<string, number> {
+  const tracked = new Set(transactions.filter((t) => t.type !== 'application').map((t) => t.productId));
+  const onHand = new Map<string, number>();
+  for (const t of transactions) {
+    if (!tracked.has(t.productId)) continue;
+    onHand.set(t.productId, (onHand.get(t.productId) || 0) + t.quantity);
+  }
+  return onHand;
+}
+
+export function formatInventoryQuantity(quantity: number, product: Pick<Product, 'measurementUnit'>): string {
+  const rounded = Math.round(quantity * 100) / 100;
+  return `${rounded} ${getBaseDisplayUnit(product.measurementUnit)}`;
+}
+
+export interface InventoryShortfall {
+  productName: string;
+  required: number;
+  onHand: number;
+  unit: string;
+}
+
+/** Planned products whose total exceeds the tracked on-hand quantity. */
+export function checkInventoryShortfalls(
+  selectedProducts: TankMixProduct[],
+  onHand: Map<string, number>
+): InventoryShortfall[] {
+  return selectedProducts
+    .filter((p) => onHand.has(p.product.id) && p.totalAmount > (onHand.get(p.product.id) || 0))
+    .map((p) => ({
+      productName: p.product.name,
+      required: Math.round(p.totalAmount * 100) / 100,
+      onHand: Math.round((onHand.get(p.product.id) || 0) * 100) / 100,
+      unit: getBaseDisplayUnit(p.product.measurementUnit),
+    }));
+}
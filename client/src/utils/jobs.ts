@@ -0,0 +1,125 @@
+import { Field, JobPriority, JobStatus, PlannedJob, Product, SprayRecord, SprayRecordProduct, SprayedField } from '../types';
+import { convertRateToAmount } from './loadCalculations';
+import { getProductMoaGroups } from './modeOfAction';
+import { getPriceOnDate } from './costs';
+import { buildPlannedApplication } from './variance';
+
+export const JOB_PRIORITY_OPTIONS: { value: JobPriority; label: string }[] = [
+  { value: 'high', label: 'High' },
+  { value: 'normal', label: 'Normal' },
+  { value: 'low', label: 'Low' },
+];
+
+const PRIORITY_RANK: Record<JobPriority, number> = { high: 0, normal: 1, low: 2 };
+
+export function getJobPriority(job: PlannedJob): JobPriority {
+  return job.priority || 'normal';
+}
+
+export function getJobStatus(job: PlannedJob): JobStatus {
+  return job.status || 'planned';
+}
+
+/** Whether a planned job's target window has already closed. */
+export function isJobOverdue(job: PlannedJob, today: string): boolean {
+  return getJobStatus(job) === 'planned' && !!job.endDate && job.endDate < today;
+}
+
+/** Human-readable target window, e.g. "May 3 – May 7" or "by May 7". */
+export function describeJobWindow(job: PlannedJob): string {
+  const fmt = (d: string) => {
+    const [y, m, day] = d.split('-').map((v) => parseInt(v, 10));
+    return new Date(y, m - 1, day).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+  };
+  if (job.startDate && job.endDate) {
+    return job.startDate === job.endDate ? fmt(job.startDate) : `${fmt(job.startDate)} – ${fmt(job.endDate)}`;
+  }
+  if (job.startDate) return `from ${fmt(job.startDate)}`;
+  if (job.endDate) return `by ${fmt(job.endDate)}`;
+  return 'Unscheduled';
+}
+
+/**
+ * Pending work queue: priority first, then the earliest deadline, then the
+ * order jobs were planned. Unscheduled jobs sort after scheduled ones.
+ */
+export function sortJobQueue(jobs: PlannedJob[]): PlannedJob[] {
+  const deadline = (j: PlannedJob) => j.endDate || j.startDate || '9999-12-31';
+  return [...jobs].sort((a, b) =>
+    PRIORITY_RANK[getJobPriority(a)] - PRIORITY_RANK[getJobPriority(b)]
+    || deadline(a).localeCompare(deadline(b))
+    || a.createdAt.localeCompare(b.createdAt)
+  );
+}
+
+/** Display names of a job's fields, with sub-fields as "Field - Sub". */
+export function getJobFieldNames(job: PlannedJob, fields: Field[]): string[] {
+  return job.fields.map((jf) => {
+    const field = fields.find((f) => f.id === jf.fieldId);
+    const subField = jf.subFieldId ? field?.subFields?.find((sf) => sf.id === jf.subFieldId) : undefined;
+    const name = field?.name || 'Unknown field';
+    return subField ? `${name} - ${subField.name}` : name;
+  });
+}
+
+/**
+ * Build a record pre-fill from a job's plan. The record modal then captures
+ * what was actually applied.
+ */
+export function buildJobRecordPrefill(
+  job: PlannedJob,
+  fields: Field[],
+  products: Product[],
+  date: string
+): Partial<SprayRecord> {
+  const totalVolume = job.carrierRate * job.acres;
+
+  const recordProducts: SprayRecordProduct[] = job.products.map((jp) => {
+    const product = products.find((p) => p.id === jp.productId);
+    const unit = product?.unit || jp.unit || '';
+    const rateBasis = product?.rateBasis || jp.rateBasis || 'per_acre';
+    return {
+      productId: jp.productId,
+      productName: product?.name || jp.productName,
+      rate: jp.rate,
+      unit,
+      rateBasis,
+      totalAmount: convertRateToAmount(jp.rate, unit, job.acres, totalVolume, rateBasis, product?.measurementUnit),
+      reiHours: product?.reiHours,
+      phiDays: product?.phiDays,
+      moaGroups: product ? getProductMoaGroups(product) : undefined,
+      epaRegNumber: product?.epaRegNumber,
+      restrictedUse: product?.restrictedUse,
+      unitPrice: product ? getPriceOnDate(product, date) : undefined,
+    };
+  });
+
+  const sprayedFields: SprayedField[] = job.fields.map((jf) => {
+    const field = fields.find((f) => f.id === jf.fieldId);
+    const subField = jf.subFieldId ? field?.subFields?.find((sf) => sf.id === jf.subFieldId) : undefined;
+    return {
+      fieldId: jf.fieldId,
+      fieldName: field?.name || '',
+      totalAcres: subField ? subField.acres : (field?.acres || 0),
+      sprayedAcres: jf.acres,
+      subFieldId: jf.subFieldId,
+      subFieldName: subField?.name,
+    };
+  });
+  const fieldIds = Array.from(new Set(job.fields.map((jf) => jf.fieldId)));
+
+  return {
+    date,
+    operator: job.applicatorName,
+    tankSize: job.tankSize,
+    carrierRate: job.carrierRate,
+    acres: job.acres,
+    totalVolume,
+    fieldIds: fieldIds.length > 0 ? fieldIds : undefined,
+    fieldName: getJobFieldNames(job, fields).join(', ') || job.name,
+    products: recordProducts,
+    sprayedFields: sprayedFields.length > 0 ? sprayedFields : undefined,
+    planned: buildPlannedApplication(job.acres, job.carrierRate, totalVolume, recordProducts),
+    notes: job.notes,
+  };
+}
@@ -0,0 +1,164 @@
+import { Field, Product, RateBasis, SprayRecord } from '../types';
+import {
+  getRecordCropYear,
+  recordTouchesField,
+  resolveRecordProduct,
+  RecordFieldTarget,
+} from './sprayHistory';
+import { formatUnitDisplay, parseLegacyUnit } from './unitConstants';
+
+export type ComplianceSeverity = 'error' | 'warning';
+export type ComplianceKind = 'rate' | 'seasonal' | 'count';
+
+export interface ComplianceIssue {
+  productName: string;
+  fieldName?: string;
+  kind: ComplianceKind;
+  severity: ComplianceSeverity;
+  message: string;
+}
+
+/** A product line in a planned or recorded application. */
+export interface PlannedApplicationProduct {
+  productId?: string;
+  productName: string;
+  rate: number;
+  rateBasis: RateBasis;
+}
+
+export interface ComplianceCheckInput {
+  products: Product[];            // product library (holds the label limits)
+  records: SprayRecord[];         // spray history
+  fields: Field[];
+  cropYear: string;
+  targets: RecordFieldTarget[];   // fields / sub-fields being sprayed
+  application: PlannedApplicationProduct[];
+  carrierRate: number;            // gal/acre, used to normalize per-100-gal rates
+  excludeRecordId?: string;       // record being edited (not counted as prior history)
+}
+
+// Warn once a field has used this share of its seasonal allowance
+const SEASONAL_WARNING_THRESHOLD = 0.9;
+
+/**
+ * Normalize a rate to product units per acre so per-100-gal products can be
+ * compared against per-acre seasonal label limits.
+ */
+export function ratePerAcre(rate: number, rateBasis: RateBasis, carrierRate: number): number {
+  if (rateBasis === 'per_100_gal') return rate * (carrierRate / 100);
+  return rate;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function targetName(fields: Field[], target: RecordFieldTarget): string {
+  const field = fields.find((f) => f.id === target.fieldId);
+  if (!field) return target.fieldId;
+  const subField = target.subFieldId
+    ? field.subFields?.find((sf) => sf.id === target.subFieldId)
+    : undefined;
+  return subField ? `${field.name} - ${subField.name}` : field.name;
+}
+
+/**
+ * Check a planned application against each product's label limits:
+ * max rate per application, max seasonal total per acre and max number of
+ * applications per crop year (summed over prior records on the same fields).
+ */
+export function checkLabelCompliance(input: ComplianceCheckInput): ComplianceIssue[] {
+  const { products, records, fields, cropYear, targets, application, carrierRate, excludeRecordId } = input;
+  const issues: ComplianceIssue[] = [];
+
+  const seasonRecords = records.filter(
+    (r) => r.id !== excludeRecordId && getRecordCropYear(r) === cropYear
+  );
+
+  for (const item of application) {
+    const product = resolveRecordProduct(item, products);
+    if (!product || item.rate <= 0) continue;
+
+    const legacy = parseLegacyUnit(product.unit);
+    const measurementUnit = product.measurementUnit ?? legacy.measurementUnit;
+    const productBasis = product.rateBasis ?? legacy.rateBasis;
+    const plannedPerAcre = ratePerAcre(item.rate, item.rateBasis, carrierRate);
+
+    // Label max rate is expressed in the product's own rate basis
+    if (product.maxRatePerApplication) {
+      const exceeds = item.rateBasis === productBasis
+        ? item.rate > product.maxRatePerApplication
+        : plannedPerAcre > ratePerAcre(product.maxRatePerApplication, productBasis, carrierRate);
+      if (exceeds) {
+        issues.push({
+          productName: product.name,
+          kind: 'rate',
+          severity: 'error',
+          message: `${product.name}: ${item.rate} ${formatUnitDisplay(measurementUnit, item.rateBasis)} exceeds label max of ${product.maxRatePerApplication} ${formatUnitDisplay(measurementUnit, productBasis)} per application`,
+        });
+      }
+    }
+
+    if (!product.maxSeasonalRate && !product.maxApplicationsPerYear) continue;
+    const seasonalUnit = formatUnitDisplay(measurementUnit, 'per_acre');
+
+    for (const target of targets) {
+      let priorPerAcre = 0;
+      let priorCount = 0;
+      for (const record of seasonRecords) {
+        if (!recordTouchesField(record, target.fieldId, target.subFieldId)) continue;
+        for (const rp of record.products) {
+          if (resolveRecordProduct(rp, products)?.id !== product.id) continue;
+          priorPerAcre += ratePerAcre(rp.rate, rp.rateBasis, record.carrierRate);
+          priorCount += 1;
+        }
+      }
+
+      const name = targetName(fields, target);
+
+      if (product.maxSeasonalRate) {
+        const seasonTotal = priorPerAcre + plannedPerAcre;
+        if (seasonTotal > product.maxSeasonalRate) {
+          issues.push({
+            productName: product.name,
+            fieldName: name,
+            kind: 'seasonal',
+            severity: 'error',
+            message: `${product.name} on ${name}: ${round(seasonTotal)} ${seasonalUnit} for ${cropYear} exceeds seasonal max of ${product.maxSeasonalRate} (${round(priorPerAcre)} already applied)`,
+          });
+        } else if (seasonTotal >= product.maxSeasonalRate * SEASONAL_WARNING_THRESHOLD) {
+          issues.push({
+            productName: product.name,
+            fieldName: name,
+            kind: 'seasonal',
+            severity: 'warning',
+            message: `${product.name} on ${name}: ${round(seasonTotal)} of ${product.maxSeasonalRate} ${seasonalUnit} seasonal max used for ${cropYear}`,
+          });
+        }
+      }
+
+      if (product.maxApplicationsPerYear) {
+        const count = priorCount + 1;
+        if (count > product.maxApplicationsPerYear) {
+          issues.push({
+            productName: product.name,
+            fieldName: name,
+            kind: 'count',
+            severity: 'error',
+            message: `${product.name} on ${name}: application #${count} exceeds label max of ${product.maxApplicationsPerYear} per crop year`,
+          });
+        } else if (count === product.maxApplicationsPerYear) {
+          issues.push({
+            productName: product.name,
+            fieldName: name,
+            kind: 'count',
+            severity: 'warning',
+            message: `${product.name} on ${name}: last allowed application for ${cropYear} (${count} of ${product.maxApplicationsPerYear})`,
+          });
+        }
+      }
+    }
+  }
+
+  return issues;
+}
@@ -0,0 +1,123 @@
+import { Field, LeftoverDisposition, Product, SprayRecord, TankLeftover, TankLeftoverProduct, TankMixProduct } from '../types';
+import { calculateLoadProducts, LoadProductAmount } from './loadCalculations';
+import { checkLabelCompliance } from './labelCompliance';
+import { RecordFieldTarget } from './sprayHistory';
+
+export const LEFTOVER_DISPOSITION_OPTIONS: { value: LeftoverDisposition; label: string }[] = [
+  { value: 'apply_to_field', label: 'Apply to a labeled field' },
+  { value: 'adjust_final_load', label: 'Mix into the final load' },
+  { value: 'disposed', label: 'Disposed per label' },
+];
+
+/** Product left in the tank, assuming the leftover is at the job's mix concentration. */
+export function calculateLeftoverProducts(
+  gallons: number,
+  totalVolume: number,
+  selectedProducts: TankMixProduct[]
+): LoadProductAmount[] {
+  if (gallons <= 0) return [];
+  return calculateLoadProducts(gallons, totalVolume, selectedProducts);
+}
+
+export interface LeftoverFieldSuggestion {
+  fieldId: string;
+  name: string;
+  acres: number;              // field size
+  sameCrop: boolean;          // crop matches one of the job's fields
+  warnings: string[];         // label warnings (near seasonal / count limits)
+}
+
+export interface LeftoverSuggestionInput {
+  gallons: number;
+  carrierRate: number;
+  fields: Field[];
+  records: SprayRecord[];
+  products: Product[];
+  cropYear: string;
+  selectedProducts: TankMixProduct[];
+  targets: RecordFieldTarget[];   // fields already sprayed by this job
+}
+
+/**
+ * Fields the leftover can go on at the job's carrier rate: big enough to take
+ * it without exceeding the rate, not already sprayed by this job and within
+ * every product's label limits. Fields with the job's crop sort first.
+ */
+export function suggestLeftoverFields(input: LeftoverSuggestionInput): LeftoverFieldSuggestion[] {
+  const { gallons, carrierRate, fields, records, products, cropYear, selectedProducts, targets } = input;
+  if (gallons <= 0 || carrierRate <= 0 || selectedProducts.length === 0) return [];
+
+  const coverAcres = gallons / carrierRate;
+  const targetIds = new Set(targets.map((t) => t.fieldId));
+  const jobCrops = new Set(
+    fields.filter((f) => targetIds.has(f.id) && f.crop).map((f) => f.crop!.trim().toLowerCase())
+  );
+  const application = selectedProducts.map((p) => ({
+    productId: p.product.id,
+    productName: p.product.name,
+    rate: p.rate,
+    rateBasis: p.rateBasis,
+  }));
+
+  const suggestions: LeftoverFieldSuggestion[] = [];
+  for (const field of fields) {
+    if (targetIds.has(field.id) || field.acres < coverAcres) continue;
+    const issues = checkLabelCompliance({
+      products,
+      records,
+      fields,
+      cropYear,
+      targets: [{ fieldId: field.id }],
+      application,
+      carrierRate,
+    });
+    if (issues.some((i) => i.severity === 'error')) continue;
+    suggestions.push({
+      fieldId: field.id,
+      name: field.name,
+      acres: field.acres,
+      sameCrop: !!field.crop && jobCrops.has(field.crop.trim().toLowerCase()),
+      warnings: issues.map((i) => i.message),
+    });
+  }
+
+  return suggestions.sort((a, b) =>
+    Number(b.sameCrop) - Number(a.sameCrop)
+    || a.warnings.length - b.warnings.length
+    || a.name.localeCompare(b.name)
+  );
+}
+
+/** Snapshot the leftover for the spray record. */
+export function buildTankLeftover(
+  gallons: number,
+  products: LoadProductAmount[],
+  details: Omit<TankLeftover, 'gallons' | 'products'>
+): TankLeftover {
+  const remaining: TankLeftoverProduct[] = products.map((p) => ({
+    productName: p.product.product.name,
+    amount: p.amount,
+    unit: p.displayUnit,
+  }));
+  return { ...details, gallons, products: remaining };
+}
+
+const DISPOSITION_SUMMARY: Record<LeftoverDisposition, string> = {
+  apply_to_field: 'applied to a labeled field',
+  adjust_final_load: 'mixed into the final load',
+  disposed: 'disposed per label',
+};
+
+/** One-line summary for reports, e.g. "40 gal applied to North 80 (2.7 ac); 30 gal rinse water". */
+export function describeTankLeftover(leftover: TankLeftover): string {
+  const parts: string[] = [];
+  if (leftover.gallons > 0) {
+    const where = leftover.disposition === 'apply_to_field' && leftover.fieldName
+      ? `applied to ${leftover.fieldName}${leftover.acres ? ` (${leftover.acres} ac)` : ''}`
+      : DISPOSITION_SUMMARY[leftover.disposition];
+    parts.push(`${leftover.gallons} gal ${where}`);
+  }
+  if (leftover.rinseGallons) parts.push(`${leftover.rinseGallons} gal rinse water`);
+  if (leftover.notes) parts.push(leftover.notes);
+  return parts.join('; ');
+}
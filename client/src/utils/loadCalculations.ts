@@ -1,4 +1,4 @@
-import { TankMixProduct, RateBasis, MeasurementUnit } from '../types';
+import { TankMixProduct, RateBasis, MeasurementUnit, LoadConfig } from '../types';
 import { getConversionFactor, getBaseDisplayUnit, parseLegacyUnit } from './unitConstants';
 
 /**
@@ -57,6 +57,90 @@ export function calculateEvenSplit(
   );
 }
 
+// Share of theoretical field capacity left after turns, overlap and refills
+export const FIELD_EFFICIENCY = 0.65;
+
+/**
+ * Acres per hour a boom covers: mph × boom width (ft) / 8.25, derated by
+ * field efficiency.
+ */
+export function calculateFieldCapacity(
+  speedMph: number,
+  boomWidthFt: number,
+  efficiency: number = FIELD_EFFICIENCY
+): number {
+  if (speedMph <= 0 || boomWidthFt <= 0) return 0;
+  return (speedMph * boomWidthFt / 8.25) * efficiency;
+}
+
+export interface LoadTiming extends LoadConfig {
+  acres: number;        // acres this load covers at the carrier rate
+  minutes: number;      // spraying time to empty the load
+}
+
+/**
+ * Acres and time-to-empty for each load. Minutes are 0 when the field
+ * capacity is unknown.
+ */
+export function calculateLoadTimings(
+  loads: LoadConfig[],
+  carrierRate: number,
+  acresPerHour: number
+): LoadTiming[] {
+  return loads.map((load) => {
+    const acres = carrierRate > 0 ? load.volume / carrierRate : 0;
+    return {
+      ...load,
+      acres: Math.round(acres * 10) / 10,
+      minutes: acresPerHour > 0 ? Math.round((acres / acresPerHour) * 60) : 0,
+    };
+  });
+}
+
+export interface PartialLoadWarning {
+  fieldName: string;
+  fieldAcres: number;
+  fullLoads: number;
+  remainingAcres: number;   // acres left after the full loads
+  remainingVolume: number;  // gal to mix for them
+  percentage: number;       // of a tank
+  evenSplit: number[];      // alternative: the field split evenly
+}
+
+/**
+ * Fields whose acres leave a final load that doesn't fill the tank, with
+ * the even split as an alternative. Fields smaller than one tank and
+ * remainders of a tenth of an acre or less are ignored.
+ */
+export function findPartialLoadFields(
+  fields: { name: string; acres: number }[],
+  tankSize: number,
+  carrierRate: number
+): PartialLoadWarning[] {
+  if (tankSize <= 0 || carrierRate <= 0) return [];
+  const acresPerLoad = tankSize / carrierRate;
+
+  const warnings: PartialLoadWarning[] = [];
+  for (const field of fields) {
+    if (field.acres <= 0) continue;
+    const fullLoads = Math.floor(field.acres / acresPerLoad);
+    const remainingAcres = field.acres - fullLoads * acresPerLoad;
+    if (fullLoads === 0 || remainingAcres <= 0.1) continue;
+    const remainingVolume = remainingAcres * carrierRate;
+    const volume = field.acres * carrierRate;
+    warnings.push({
+      fieldName: field.name,
+      fieldAcres: field.acres,
+      fullLoads,
+      remainingAcres: Math.round(remainingAcres * 10) / 10,
+      remainingVolume: Math.round(remainingVolume),
+      percentage: Math.round((remainingVolume / tankSize) * 100),
+      evenSplit: calculateEvenSplit(volume, fullLoads + 1, tankSize),
+    });
+  }
+  return warnings;
+}
+
 /**
  * Redistribute load volumes when a user changes one load's volume in custom mode.
  * Locked loads (previously set by user) are not touched — only unlocked loads
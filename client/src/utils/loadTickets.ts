@@ -0,0 +1,157 @@
+import { LoadInfo } from '../hooks/useLoadSplitter';
+import { ContainerCalculator } from './containerCalculations';
+import { getContainerCategory } from './unitConstants';
+import { buildMixingSteps } from './mixingOrder';
+import { escapeHtml, printDocument } from './printService';
+
+/** Job details printed at the top of every ticket. */
+export interface LoadTicketHeader {
+  fieldNames: string[];
+  date: string;           // YYYY-MM-DD
+  cropYear?: string;
+  tankSize: number;
+  carrierRate: number;
+  acres: number;
+  totalVolume: number;
+}
+
+export interface LoadTicketProduct {
+  name: string;
+  rate: number;
+  unit: string;
+  amount: number;
+  displayUnit: string;
+  breakdownText: string;
+}
+
+export interface LoadTicket {
+  loadNumber: number;
+  totalLoads: number;
+  volume: number;
+  acres: number;
+  products: LoadTicketProduct[];
+  mixingSteps: string[];
+}
+
+/**
+ * Build one ticket per load with container breakdowns and mixing steps
+ * scaled to that load.
+ */
+export function buildLoadTickets(
+  loads: LoadInfo[],
+  header: LoadTicketHeader,
+  calculator: ContainerCalculator
+): LoadTicket[] {
+  return loads.map((load) => {
+    const products = load.products.map((lp) => {
+      const product = lp.product.product;
+      // For bulk products, resolve the container category from the measurement unit
+      const containerType = product.type === 'bulk'
+        ? getContainerCategory(product.measurementUnit)
+        : product.type;
+      const breakdownText = calculator.formatContainerBreakdown(
+        calculator.calculateOptimalBreakdown(lp.amount, containerType, product.preferredContainers)
+      );
+      return {
+        product,
+        ticket: {
+          name: product.name,
+          rate: lp.product.rate,
+          unit: product.unit,
+          amount: lp.amount,
+          displayUnit: lp.displayUnit,
+          breakdownText,
+        },
+      };
+    });
+
+    return {
+      loadNumber: load.loadNumber,
+      totalLoads: loads.length,
+      volume: load.volume,
+      acres: header.totalVolume > 0 ? header.acres * (load.volume / header.totalVolume) : 0,
+      products: products.map((p) => p.ticket),
+      mixingSteps: buildMixingSteps(
+        products.map((p) => ({ product: p.product, amountText: p.ticket.breakdownText }))
+      ),
+    };
+  });
+}
+
+const TICKET_CSS = `
+  .ticket { border: 2px solid #111827; padding: 16px; margin-bottom: 24px; }
+  .ticket-head { display: flex; justify-content: space-between; align-items: flex-start; }
+  .load-no { font-size: 28px; font-weight: 700; }
+  .facts { display: grid; grid-template-columns: repeat(4, 1fr); gap: 8px; margin: 12px 0; }
+  .fact { border: 1px solid #d1d5db; padding: 6px; }
+  .fact .label { font-size: 10px; color: #6b7280; text-transform: uppercase; }
+  .fact .value { font-size: 16px; font-weight: 600; }
+  ol { margin: 0; padding-left: 20px; }
+  li.note { list-style: none; margin-left: 8px; color: #92400e; }
+  .signatures { display: grid; grid-template-columns: 2fr 1fr 1fr; gap: 16px; margin-top: 24px; }
+  .sig { border-top: 1px solid #111827; padding-top: 4px; font-size: 10px; color: #6b7280; }
+`;
+
+function renderTicket(ticket: LoadTicket, header: LoadTicketHeader): string {
+  const productRows = ticket.products.map((p) => `
+    <tr>
+      <td>${escapeHtml(p.name)}</td>
+      <td>${escapeHtml(p.rate)} ${escapeHtml(p.unit)}</td>
+      <td>${p.amount.toFixed(2)} ${escapeHtml(p.displayUnit)}</td>
+      <td><strong>${escapeHtml(p.breakdownText)}</strong></td>
+    </tr>`).join('');
+
+  const steps = ticket.mixingSteps.map((step) => (
+    step.startsWith('   ')
+      ? `<li class="note">${escapeHtml(step.trim())}</li>`
+      : `<li>${escapeHtml(step.replace(/^\d+\.\s*/, ''))}</li>`
+  )).join('');
+
+  return `
+  <div class="ticket">
+    <div class="ticket-head">
+      <div>
+        <h1>Load Ticket</h1>
+        <div>${escapeHtml(header.fieldNames.join(', ') || 'Field: ____________________')}</div>
+        <div class="muted">${escapeHtml(header.date)}${header.cropYear ? ` &middot; Crop year ${escapeHtml(header.cropYear)}` : ''}</div>
+      </div>
+      <div class="load-no">Load ${ticket.loadNumber} of ${ticket.totalLoads}</div>
+    </div>
+
+    <div class="facts">
+      <div class="fact"><div class="label">Water</div><div class="value">${Math.round(ticket.volume)} gal</div></div>
+      <div class="fact"><div class="label">Tank</div><div class="value">${escapeHtml(header.tankSize)} gal</div></div>
+      <div class="fact"><div class="label">Carrier</div><div class="value">${escapeHtml(header.carrierRate)} gpa</div></div>
+      <div class="fact"><div class="label">Covers</div><div class="value">${ticket.acres.toFixed(1)} ac</div></div>
+    </div>
+
+    <h2>Products</h2>
+    <table>
+      <thead><tr><th>Product</th><th>Rate</th><th>Amount</th><th>Containers</th></tr></thead>
+      <tbody>${productRows}</tbody>
+    </table>
+
+    <h2>Mixing Steps</h2>
+    <ol>${steps}</ol>
+
+    <div class="signatures">
+      <div class="sig">Operator signature</div>
+      <div class="sig">Time mixed</div>
+      <div class="sig">Time applied</div>
+    </div>
+  </div>`;
+}
+
+/**
+ * Open the print dialog with one ticket per page.
+ * Returns false when the popup was blocked.
+ */
+export function printLoadTickets(tickets: LoadTicket[], header: LoadTicketHeader): boolean {
+  const body = tickets
+    .map((t, i) => `<div class="${i < tickets.length - 1 ? 'page-break' : ''}">${renderTicket(t, header)}</div>`)
+    .join('');
+  const title = tickets.length === 1
+    ? `Load ticket ${tickets[0].loadNumber} - ${header.date}`
+    : `Load tickets - ${header.date}`;
+  return printDocument(title, body, TICKET_CSS);
+}
@@ -0,0 +1,53 @@
+import { FormulationType, MixingStep, Product } from '../types';
+import { getMixingStep, needsJarTest, sortByMixingOrder } from './mixingOrder';
+
+function product(name: string, extra: Partial<Product> = {}): Product {
+  return { id: name, name, type: 'liquid', unit: 'fl oz / acre', defaultRate: 1, ...extra };
+}
+
+describe('getMixingStep', () => {
+  it('prefers the override, then the formulation, then the product type', () => {
+    expect(getMixingStep(product('A', { formulation: 'EC', mixingStep: 'surfactant' }))).toBe('surfactant');
+    expect(getMixingStep(product('B', { formulation: 'WG' }))).toBe('dry');
+    expect(getMixingStep(product('C', { type: 'dry' }))).toBe('dry');
+    expect(getMixingStep(product('D'))).toBe('solution');
+  });
+
+  it('ignores the legacy numeric order when resolving the step', () => {
+    expect(getMixingStep(product('A', { mixingOrder: 2 }))).toBe('solution');
+    expect(getMixingStep(product('B', { mixingOrder: 1, type: 'dry' }))).toBe('dry');
+    expect(getMixingStep(product('C', { mixingOrder: 1, formulation: 'EC' }))).toBe('emulsion');
+  });
+
+  it('ignores unknown formulation and step codes', () => {
+    expect(getMixingStep(product('A', { formulation: 'XX' as unknown as FormulationType }))).toBe('solution');
+    expect(getMixingStep(product('B', { mixingStep: 'bogus' as unknown as MixingStep, formulation: 'SC' }))).toBe('flowable');
+  });
+});
+
+describe('sortByMixingOrder', () => {
+  it('uses the legacy order only to break ties within a step', () => {
+    const sorted = sortByMixingOrder(
+      [
+        product('Oil', { formulation: 'SURF', mixingOrder: 1 }),
+        product('Third', { mixingOrder: 3 }),
+        product('First', { mixingOrder: 1 }),
+        product('Granule', { formulation: 'WG', mixingOrder: 9 }),
+        product('Second', { mixingOrder: 2 }),
+      ],
+      (p) => p
+    );
+    expect(sorted.map((p) => p.name)).toEqual(['Granule', 'First', 'Second', 'Third', 'Oil']);
+  });
+});
+
+describe('needsJarTest', () => {
+  it('asks for a jar test when a product in a mix has an unrecognised formulation', () => {
+    expect(needsJarTest([product('A', { formulation: 'SL' }), product('B', { formulation: 'XX' as unknown as FormulationType })])).toBe(true);
+    expect(needsJarTest([product('A', { formulation: 'SL' }), product('B', { formulation: 'SURF' })])).toBe(false);
+  });
+
+  it('treats legacy liquids without a formulation as solutions', () => {
+    expect(needsJarTest([product('A', { mixingOrder: 2 }), product('B', { formulation: 'SURF' })])).toBe(false);
+  });
+});
@@ -0,0 +1,171 @@
+import { FormulationType, MixingStep, Product } from '../types';
+
+export interface MixingStepInfo {
+  key: MixingStep;
+  label: string;
+  agitation: string;      // agitation / handling note shown with each product in this step
+  needsJarTest: boolean;  // physical-compatibility risk worth a jar test when tank mixed
+}
+
+/**
+ * Tank loading sequence, following the APPLES order (an extension of WALES):
+ * Ammonium sulfate / water conditioners, water-soluble Packets, Powders and dry
+ * granules, Liquid flowables and suspensions, Emulsifiable concentrates,
+ * Solutions, then Surfactants / oils and drift retardants last.
+ */
+export const MIXING_STEPS: MixingStepInfo[] = [
+  {
+    key: 'water_conditioner',
+    label: 'Water conditioners (AMS)',
+    agitation: 'Let dissolve completely before adding pesticides',
+    needsJarTest: false,
+  },
+  {
+    key: 'packets',
+    label: 'Water-soluble packets',
+    agitation: 'Drop in unopened; wait until fully dissolved before the next product',
+    needsJarTest: false,
+  },
+  {
+    key: 'dry',
+    label: 'Dry formulations (WP, WDG, SG)',
+    agitation: 'Pre-slurry if possible; agitate 3-5 minutes until fully dispersed',
+    needsJarTest: true,
+  },
+  {
+    key: 'flowable',
+    label: 'Liquid flowables and suspensions (SC, CS, SE)',
+    agitation: 'Shake jug well; keep agitation running to hold particles in suspension',
+    needsJarTest: true,
+  },
+  {
+    key: 'emulsion',
+    label: 'Emulsifiable concentrates (EC, EW, ME)',
+    agitation: 'Add slowly under agitation; watch for creaming or oily separation',
+    needsJarTest: true,
+  },
+  {
+    key: 'solution',
+    label: 'Solutions (SL)',
+    agitation: 'Mixes readily; maintain agitation',
+    needsJarTest: false,
+  },
+  {
+    key: 'surfactant',
+    label: 'Surfactants and crop oils',
+    agitation: 'Add near the end with reduced agitation to limit foaming',
+    needsJarTest: false,
+  },
+  {
+    key: 'drift_retardant',
+    label: 'Drift retardants and antifoams',
+    agitation: 'Add last; avoid high-shear agitation',
+    needsJarTest: false,
+  },
+];
+
+const FORMULATION_STEPS: Record<FormulationType, MixingStep> = {
+  WC: 'water_conditioner',
+  WSP: 'packets',
+  WP: 'dry',
+  WG: 'dry',
+  SG: 'dry',
+  SC: 'flowable',
+  CS: 'flowable',
+  SE: 'flowable',
+  EC: 'emulsion',
+  EW: 'emulsion',
+  ME: 'emulsion',
+  SL: 'solution',
+  SURF: 'surfactant',
+  DRT: 'drift_retardant',
+};
+
+const isMixingStep = (step: unknown): step is MixingStep =>
+  MIXING_STEPS.some((s) => s.key === step);
+
+/**
+ * Resolve a product's mixing step: explicit override first, then its
+ * formulation, then a best guess from the product type. Unknown step or
+ * formulation codes (e.g. from older data) fall through to the next rule.
+ */
+export function getMixingStep(product: Pick<Product, 'type' | 'formulation' | 'mixingStep'>): MixingStep {
+  if (isMixingStep(product.mixingStep)) return product.mixingStep;
+  const fromFormulation = product.formulation ? FORMULATION_STEPS[product.formulation] : undefined;
+  if (fromFormulation) return fromFormulation;
+  return product.type === 'dry' ? 'dry' : 'solution';
+}
+
+export function getMixingStepInfo(step: MixingStep): MixingStepInfo {
+  return MIXING_STEPS.find((s) => s.key === step) || MIXING_STEPS[MIXING_STEPS.length - 1];
+}
+
+function stepIndex(product: Product): number {
+  return MIXING_STEPS.findIndex((s) => s.key === getMixingStep(product));
+}
+
+// Products saved before steps existed carry a free 1-10 priority
+const legacyOrder = (product: Product) => product.mixingOrder ?? Number.MAX_SAFE_INTEGER;
+
+/**
+ * Sort items into tank loading order. Within a step, a legacy mixing order
+ * breaks ties; otherwise products keep their original (selection) order.
+ */
+export function sortByMixingOrder<T>(items: T[], getProduct: (item: T) => Product): T[] {
+  return items
+    .map((item, i) => ({ item, i, product: getProduct(item) }))
+    .sort((a, b) =>
+      stepIndex(a.product) - stepIndex(b.product) ||
+      legacyOrder(a.product) - legacyOrder(b.product) ||
+      a.i - b.i
+    )
+    .map((x) => x.item);
+}
+
+/**
+ * Whether a tank mix should be jar tested first: more than one product and at
+ * least one formulation with physical-compatibility risk (or an unrecognised one).
+ */
+export function needsJarTest(products: Product[]): boolean {
+  if (products.length < 2) return false;
+  return products.some(
+    (p) => (!!p.formulation && !FORMULATION_STEPS[p.formulation] && !isMixingStep(p.mixingStep)) ||
+      getMixingStepInfo(getMixingStep(p)).needsJarTest
+  );
+}
+
+/**
+ * Build numbered tank mixing steps for products with their amount text
+ * (e.g. a container breakdown). Sub-notes are indented with three spaces.
+ */
+export function buildMixingSteps(items: Array<{ product: Product; amountText: string }>): string[] {
+  const sorted = sortByMixingOrder(items, (i) => i.product);
+
+  const steps: string[] = [];
+  if (needsJarTest(items.map((i) => i.product))) {
+    steps.push('Jar test: combine proportional amounts in a quart jar in the order below; let stand 15 minutes and check for separation, flakes or gels');
+  }
+  steps.push('Fill tank 1/2 with clean water');
+  steps.push('Begin agitation');
+
+  let lastStep = '';
+  sorted.forEach(({ product, amountText }) => {
+    const step = getMixingStepInfo(getMixingStep(product));
+    steps.push(`Add ${product.name} (${amountText})`);
+    // Handling note once per formulation category
+    if (step.key !== lastStep) {
+      steps.push(`   - ${step.label}: ${step.agitation}`);
+      lastStep = step.key;
+    }
+    if (product.pHSensitive) {
+      steps.push('   - Check and adjust pH if needed');
+    }
+  });
+  steps.push('Top off tank with water to desired volume');
+  steps.push('Continue agitation for 2-3 minutes');
+  steps.push('Verify even mixing before application');
+
+  // Number the main steps; sub-notes keep their indent
+  let n = 0;
+  return steps.map((step) => (step.startsWith('   ') ? step : `${++n}. ${step}`));
+}
@@ -0,0 +1,197 @@
+import { ActiveIngredient, Field, MoaSettings, MoaSystem, Product, SprayRecord, SprayRecordProduct } from '../types';
+import {
+  getRecordCropYear,
+  recordTouchesField,
+  resolveRecordProduct,
+  RecordFieldTarget,
+} from './sprayHistory';
+
+export const DEFAULT_MOA_SETTINGS: MoaSettings = {
+  maxRepeats: 2,
+  lookbackYears: 1,
+};
+
+/** Common active ingredients and their resistance-management groups. */
+export const ACTIVE_INGREDIENT_CATALOG: ActiveIngredient[] = [
+  // Herbicides
+  { name: 'clethodim', moaSystem: 'HRAC', moaGroup: '1' },
+  { name: 'imazethapyr', moaSystem: 'HRAC', moaGroup: '2' },
+  { name: 'chlorimuron-ethyl', moaSystem: 'HRAC', moaGroup: '2' },
+  { name: 'nicosulfuron', moaSystem: 'HRAC', moaGroup: '2' },
+  { name: '2,4-D', moaSystem: 'HRAC', moaGroup: '4' },
+  { name: 'dicamba', moaSystem: 'HRAC', moaGroup: '4' },
+  { name: 'atrazine', moaSystem: 'HRAC', moaGroup: '5' },
+  { name: 'metribuzin', moaSystem: 'HRAC', moaGroup: '5' },
+  { name: 'bentazon', moaSystem: 'HRAC', moaGroup: '6' },
+  { name: 'glyphosate', moaSystem: 'HRAC', moaGroup: '9' },
+  { name: 'glufosinate', moaSystem: 'HRAC', moaGroup: '10' },
+  { name: 'fomesafen', moaSystem: 'HRAC', moaGroup: '14' },
+  { name: 'flumioxazin', moaSystem: 'HRAC', moaGroup: '14' },
+  { name: 'saflufenacil', moaSystem: 'HRAC', moaGroup: '14' },
+  { name: 'S-metolachlor', moaSystem: 'HRAC', moaGroup: '15' },
+  { name: 'acetochlor', moaSystem: 'HRAC', moaGroup: '15' },
+  { name: 'pyroxasulfone', moaSystem: 'HRAC', moaGroup: '15' },
+  { name: 'paraquat', moaSystem: 'HRAC', moaGroup: '22' },
+  { name: 'mesotrione', moaSystem: 'HRAC', moaGroup: '27' },
+  { name: 'tembotrione', moaSystem: 'HRAC', moaGroup: '27' },
+  // Fungicides
+  { name: 'propiconazole', moaSystem: 'FRAC', moaGroup: '3' },
+  { name: 'tebuconazole', moaSystem: 'FRAC', moaGroup: '3' },
+  { name: 'prothioconazole', moaSystem: 'FRAC', moaGroup: '3' },
+  { name: 'fluxapyroxad', moaSystem: 'FRAC', moaGroup: '7' },
+  { name: 'azoxystrobin', moaSystem: 'FRAC', moaGroup: '11' },
+  { name: 'pyraclostrobin', moaSystem: 'FRAC', moaGroup: '11' },
+  { name: 'trifloxystrobin', moaSystem: 'FRAC', moaGroup: '11' },
+  { name: 'chlorothalonil', moaSystem: 'FRAC', moaGroup: 'M05' },
+  // Insecticides
+  { name: 'chlorpyrifos', moaSystem: 'IRAC', moaGroup: '1B' },
+  { name: 'bifenthrin', moaSystem: 'IRAC', moaGroup: '3A' },
+  { name: 'lambda-cyhalothrin', moaSystem: 'IRAC', moaGroup: '3A' },
+  { name: 'imidacloprid', moaSystem: 'IRAC', moaGroup: '4A' },
+  { name: 'chlorantraniliprole', moaSystem: 'IRAC', moaGroup: '28' },
+];
+
+export function findCatalogIngredient(name: string): ActiveIngredient | undefined {
+  const key = name.trim().toLowerCase();
+  if (!key) return undefined;
+  return ACTIVE_INGREDIENT_CATALOG.find((ai) => ai.name.toLowerCase() === key);
+}
+
+/** Group label used for display and comparison, e.g. "HRAC 9". */
+export function formatMoaGroup(system: MoaSystem, group: string): string {
+  return `${system} ${group.trim().toUpperCase()}`;
+}
+
+/** Unique MOA groups across a product's active ingredients. */
+export function getProductMoaGroups(product: Product): string[] {
+  const groups = (product.activeIngredients || [])
+    .filter((ai) => ai.moaSystem && ai.moaGroup?.trim())
+    .map((ai) => formatMoaGroup(ai.moaSystem!, ai.moaGroup!));
+  return Array.from(new Set(groups));
+}
+
+/** MOA groups for a record product: snapshot at application, else the current product. */
+export function getRecordProductMoaGroups(
+  recordProduct: Pick<SprayRecordProduct, 'productId' | 'productName' | 'moaGroups'>,
+  products: Product[]
+): string[] {
+  if (recordProduct.moaGroups) return recordProduct.moaGroups;
+  const product = resolveRecordProduct(recordProduct, products);
+  return product ? getProductMoaGroups(product) : [];
+}
+
+export interface MoaGroupUsage {
+  group: string;
+  count: number;        // applications containing this group
+  products: string[];
+}
+
+export interface FieldMoaYear {
+  cropYear: string;
+  groups: MoaGroupUsage[];
+}
+
+/**
+ * MOA groups applied to a field (or sub-field) per crop year, newest year first.
+ */
+export function computeFieldMoaHistory(
+  records: SprayRecord[],
+  products: Product[],
+  fieldId: string,
+  subFieldId?: string
+): FieldMoaYear[] {
+  const byYear = new Map<string, Map<string, MoaGroupUsage>>();
+
+  for (const record of records) {
+    if (!recordTouchesField(record, fieldId, subFieldId)) continue;
+    const year = getRecordCropYear(record);
+    const groups = byYear.get(year) || new Map<string, MoaGroupUsage>();
+    byYear.set(year, groups);
+
+    // Count each group once per application even if two products share it
+    const seen = new Set<string>();
+    for (const rp of record.products) {
+      for (const group of getRecordProductMoaGroups(rp, products)) {
+        const usage = groups.get(group) || { group, count: 0, products: [] };
+        if (!seen.has(group)) {
+          usage.count += 1;
+          seen.add(group);
+        }
+        if (!usage.products.includes(rp.productName)) usage.products.push(rp.productName);
+        groups.set(group, usage);
+      }
+    }
+  }
+
+  return Array.from(byYear.entries())
+    .map(([cropYear, groups]) => ({
+      cropYear,
+      groups: Array.from(groups.values()).sort((a, b) => a.group.localeCompare(b.group, undefined, { numeric: true })),
+    }))
+    .filter((y) => y.groups.length > 0)
+    .sort((a, b) => b.cropYear.localeCompare(a.cropYear));
+}
+
+export interface MoaRepeatWarning {
+  group: string;
+  fieldName: string;
+  count: number;        // applications including the planned one
+  products: string[];   // planned products carrying the group
+}
+
+export interface MoaRotationInput {
+  products: Product[];
+  records: SprayRecord[];
+  fields: Field[];
+  cropYear: string;
+  targets: RecordFieldTarget[];
+  application: Pick<SprayRecordProduct, 'productId' | 'productName'>[];
+  settings: MoaSettings;
+}
+
+/**
+ * Warn when a planned application would use an MOA group on a field more than
+ * `settings.maxRepeats` times within the lookback window of crop years.
+ */
+export function checkMoaRotation(input: MoaRotationInput): MoaRepeatWarning[] {
+  const { products, records, fields, cropYear, targets, application, settings } = input;
+  const warnings: MoaRepeatWarning[] = [];
+
+  const plannedGroups = new Map<string, string[]>();
+  for (const item of application) {
+    const product = resolveRecordProduct(item, products);
+    if (!product) continue;
+    for (const group of getProductMoaGroups(product)) {
+      plannedGroups.set(group, [...(plannedGroups.get(group) || []), product.name]);
+    }
+  }
+  if (plannedGroups.size === 0) return warnings;
+
+  const firstYear = parseInt(cropYear, 10) - Math.max(1, settings.lookbackYears) + 1;
+  const inWindow = (year: string) => {
+    const y = parseInt(year, 10);
+    return y >= firstYear && y <= parseInt(cropYear, 10);
+  };
+
+  for (const target of targets) {
+    const history = computeFieldMoaHistory(records, products, target.fieldId, target.subFieldId)
+      .filter((y) => inWindow(y.cropYear));
+    const field = fields.find((f) => f.id === target.fieldId);
+    const subField = target.subFieldId
+      ? field?.subFields?.find((sf) => sf.id === target.subFieldId)
+      : undefined;
+    const fieldName = subField ? `${field?.name} - ${subField.name}` : field?.name || target.fieldId;
+
+    plannedGroups.forEach((productNames, group) => {
+      const prior = history.reduce(
+        (sum, y) => sum + (y.groups.find((g) => g.group === group)?.count || 0),
+        0
+      );
+      if (prior + 1 > settings.maxRepeats) {
+        warnings.push({ group, fieldName, count: prior + 1, products: productNames });
+      }
+    });
+  }
+
+  return warnings;
+}
@@ -0,0 +1,165 @@
+import { DriftAssessment } from './weatherService';
+import { requiredNozzleGpm } from './calibration';
+
+// ASABE S572 droplet size classes, finest to coarsest
+export type DropletClass = 'F' | 'M' | 'C' | 'VC' | 'XC' | 'UC';
+
+export const DROPLET_CLASSES: DropletClass[] = ['F', 'M', 'C', 'VC', 'XC', 'UC'];
+
+export const DROPLET_CLASS_LABELS: Record<DropletClass, string> = {
+  F: 'Fine',
+  M: 'Medium',
+  C: 'Coarse',
+  VC: 'Very Coarse',
+  XC: 'Extremely Coarse',
+  UC: 'Ultra Coarse',
+};
+
+export interface CatalogNozzle {
+  id: string;
+  name: string;             // e.g. 'AIXR 11004'
+  series: string;
+  flowAt40: number;         // GPM at 40 psi
+  dropletClass: DropletClass; // at 40 psi
+  minPsi: number;
+  maxPsi: number;
+}
+
+interface NozzleSeries {
+  series: string;
+  minPsi: number;
+  maxPsi: number;
+  classes: Record<string, DropletClass>;  // 110° size code → class at 40 psi
+}
+
+const NOZZLE_SERIES: NozzleSeries[] = [
+  {
+    series: 'XR',
+    minPsi: 15,
+    maxPsi: 60,
+    classes: { '02': 'F', '025': 'F', '03': 'M', '04': 'M', '05': 'M', '06': 'M', '08': 'C' },
+  },
+  {
+    series: 'TT',
+    minPsi: 15,
+    maxPsi: 90,
+    classes: { '02': 'M', '025': 'M', '03': 'C', '04': 'C', '05': 'C', '06': 'C', '08': 'VC' },
+  },
+  {
+    series: 'AIXR',
+    minPsi: 15,
+    maxPsi: 90,
+    classes: { '02': 'C', '025': 'C', '03': 'C', '04': 'VC', '05': 'VC', '06': 'VC', '08': 'XC' },
+  },
+  {
+    series: 'TTI',
+    minPsi: 15,
+    maxPsi: 100,
+    classes: { '02': 'UC', '025': 'UC', '03': 'UC', '04': 'UC', '05': 'UC', '06': 'UC', '08': 'UC' },
+  },
+];
+
+/** 110° tips by series and size; the size code is the flow in tenths of a GPM at 40 psi. */
+export const NOZZLE_CATALOG: CatalogNozzle[] = NOZZLE_SERIES.flatMap((s) =>
+  Object.entries(s.classes).map(([size, dropletClass]) => ({
+    id: `${s.series}-110${size}`.toLowerCase(),
+    name: `${s.series} 110${size}`,
+    series: s.series,
+    flowAt40: parseFloat(`0.${size.slice(1)}`),
+    dropletClass,
+    minPsi: s.minPsi,
+    maxPsi: s.maxPsi,
+  }))
+);
+
+/** Minimum droplet class for the current drift risk. */
+const MIN_CLASS_FOR_DRIFT: Record<DriftAssessment['overall'], DropletClass> = {
+  low: 'M',
+  moderate: 'C',
+  high: 'VC',
+  extreme: 'UC',
+};
+
+function shiftClass(dropletClass: DropletClass, steps: number): DropletClass {
+  const i = DROPLET_CLASSES.indexOf(dropletClass) + steps;
+  return DROPLET_CLASSES[Math.max(0, Math.min(DROPLET_CLASSES.length - 1, i))];
+}
+
+export function isAtLeastAsCoarse(dropletClass: DropletClass, minimum: DropletClass): boolean {
+  return DROPLET_CLASSES.indexOf(dropletClass) >= DROPLET_CLASSES.indexOf(minimum);
+}
+
+/** Flow through a tip scales with the square root of pressure. */
+export function pressureForFlow(nozzle: CatalogNozzle, gpm: number): number {
+  return 40 * Math.pow(gpm / nozzle.flowAt40, 2);
+}
+
+/**
+ * Droplets get finer as pressure rises: one class finer above 60 psi, one
+ * class coarser below 30 psi.
+ */
+export function dropletClassAtPressure(nozzle: CatalogNozzle, psi: number): DropletClass {
+  if (psi > 60) return shiftClass(nozzle.dropletClass, -1);
+  if (psi < 30) return shiftClass(nozzle.dropletClass, 1);
+  return nozzle.dropletClass;
+}
+
+/** Look up a sprayer's nozzle description (e.g. "AIXR 11004") in the catalog. */
+export function findCatalogNozzle(nozzleType: string): CatalogNozzle | undefined {
+  const key = nozzleType.replace(/[\s-]/g, '').toUpperCase();
+  if (!key) return undefined;
+  return NOZZLE_CATALOG.find((n) => n.name.replace(/\s/g, '').toUpperCase() === key);
+}
+
+export interface NozzleOption {
+  nozzle: CatalogNozzle;
+  pressure: number;         // psi needed for the target rate
+  dropletClass: DropletClass;
+}
+
+export interface NozzleRecommendation {
+  requiredGpm: number;
+  minDropletClass: DropletClass;
+  recommended?: NozzleOption;
+  alternatives: NozzleOption[];
+  driftRisk?: DriftAssessment['overall'];
+}
+
+/**
+ * Pick tips that can deliver the target rate within their pressure range and
+ * are at least as coarse as the drift risk calls for. The recommended tip is
+ * the finest qualifying class (better coverage), run closest to 40 psi.
+ */
+export function recommendNozzles(
+  targetGpa: number,
+  speedMph: number,
+  spacingInches: number,
+  drift: DriftAssessment | null
+): NozzleRecommendation {
+  const requiredGpm = requiredNozzleGpm(targetGpa, speedMph, spacingInches);
+  const minDropletClass = MIN_CLASS_FOR_DRIFT[drift?.overall || 'low'];
+
+  if (requiredGpm <= 0) {
+    return { requiredGpm: 0, minDropletClass, alternatives: [], driftRisk: drift?.overall };
+  }
+
+  const options: NozzleOption[] = NOZZLE_CATALOG
+    .map((nozzle) => {
+      const pressure = pressureForFlow(nozzle, requiredGpm);
+      return { nozzle, pressure: Math.round(pressure), dropletClass: dropletClassAtPressure(nozzle, pressure) };
+    })
+    .filter((o) => o.pressure >= o.nozzle.minPsi && o.pressure <= o.nozzle.maxPsi)
+    .filter((o) => isAtLeastAsCoarse(o.dropletClass, minDropletClass))
+    .sort((a, b) =>
+      DROPLET_CLASSES.indexOf(a.dropletClass) - DROPLET_CLASSES.indexOf(b.dropletClass)
+      || Math.abs(a.pressure - 40) - Math.abs(b.pressure - 40)
+    );
+
+  return {
+    requiredGpm: Math.round(requiredGpm * 1000) / 1000,
+    minDropletClass,
+    recommended: options[0],
+    alternatives: options.slice(1, 4),
+    driftRisk: drift?.overall,
+  };
+}
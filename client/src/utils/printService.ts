@@ -0,0 +1,52 @@
+/**
+ * Print-ready documents rendered into a new browser window.
+ *
+ * There is no PDF library in the bundle; the browser's print dialog
+ * ("Save as PDF") produces the PDF.
+ */
+
+export function escapeHtml(value: unknown): string {
+  return String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+const BASE_CSS = `
+  * { box-sizing: border-box; }
+  body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; color: #111827; margin: 24px; font-size: 12px; }
+  h1 { font-size: 20px; margin: 0 0 4px; }
+  h2 { font-size: 14px; margin: 16px 0 6px; }
+  table { width: 100%; border-collapse: collapse; }
+  th, td { border: 1px solid #d1d5db; padding: 4px 6px; text-align: left; vertical-align: top; }
+  th { background: #f3f4f6; }
+  .muted { color: #6b7280; }
+  .page-break { page-break-after: always; break-after: page; }
+  @media print { body { margin: 0; } }
+`;
+
+/**
+ * Open a print window with the given body HTML and trigger the print dialog.
+ * Returns false when the popup was blocked.
+ */
+export function printDocument(title: string, bodyHtml: string, extraCss = ''): boolean {
+  const win = window.open('', '_blank');
+  if (!win) return false;
+
+  win.document.write(`<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8" />
+<title>${escapeHtml(title)}</title>
+<style>${BASE_CSS}${extraCss}</style>
+</head>
+<body>${bodyHtml}</body>
+</html>`);
+  win.document.close();
+  win.focus();
+  // Give the new document a tick to lay out before printing
+  setTimeout(() => win.print(), 250);
+  return true;
+}
@@ -0,0 +1,62 @@
+import { Product } from '../types';
+import { ForecastHour } from './weatherService';
+import { checkRainfastness, findNextRain, formatDuration } from './rainfast';
+
+const now = new Date('2025-05-12T14:00:00.000Z');
+
+function hour(offsetHours: number, precipitation = 0, precipitationProbability = 0): ForecastHour {
+  return {
+    time: new Date(now.getTime() + offsetHours * 3600000).toISOString(),
+    temperature: 70,
+    humidity: 60,
+    dewPoint: 55,
+    windSpeed: 6,
+    windDirection: 'SW',
+    precipitation,
+    precipitationProbability,
+  };
+}
+
+function product(name: string, rainfastHours?: number): Product {
+  return { id: name, name, type: 'liquid', unit: 'fl oz / acre', defaultRate: 32, rainfastHours };
+}
+
+describe('formatDuration', () => {
+  it('formats minutes and hours', () => {
+    expect(formatDuration(45)).toBe('45 min');
+    expect(formatDuration(60)).toBe('1 hr');
+    expect(formatDuration(150)).toBe('2 hr 30 min');
+  });
+});
+
+describe('findNextRain', () => {
+  it('finds the first wet hour by amount or probability', () => {
+    expect(findNextRain([hour(1), hour(2, 0, 60), hour(3, 0.2)], now)!.minutes).toBe(120);
+  });
+
+  it('returns null when no rain is forecast', () => {
+    expect(findNextRain([hour(1), hour(2)], now)).toBeNull();
+  });
+});
+
+describe('checkRainfastness', () => {
+  const hours = [hour(0), hour(1), hour(2, 0.1, 80)];
+
+  it('warns for products that are not rainfast before the rain', () => {
+    const warnings = checkRainfastness([product('Slow', 4), product('Fast', 0.5)], hours, 0, now);
+    expect(warnings).toHaveLength(1);
+    expect(warnings[0]).toMatchObject({ productName: 'Slow', rainfastHours: 4, rainInMinutes: 120, precipitationProbability: 80 });
+    expect(warnings[0].message).toBe('Rain expected in 2 hr, Slow needs 4 hr rainfast');
+  });
+
+  it('adds the time spent spraying before the interval starts', () => {
+    const warnings = checkRainfastness([product('Fast', 0.5)], hours, 100, now);
+    expect(warnings).toHaveLength(1);
+    expect(warnings[0].message).toBe('Rain expected in 2 hr, Fast needs 30 min rainfast after about 1 hr 40 min of spraying');
+  });
+
+  it('ignores products without a rainfast interval and dry forecasts', () => {
+    expect(checkRainfastness([product('Unknown')], hours, 0, now)).toEqual([]);
+    expect(checkRainfastness([product('Slow', 4)], [hour(0), hour(1)], 0, now)).toEqual([]);
+  });
+});
@@ -0,0 +1,61 @@
+import { Product } from '../types';
+import { ForecastHour } from './weatherService';
+import { isRainHour } from './sprayWindows';
+
+export interface RainfastWarning {
+  productName: string;
+  rainfastHours: number;
+  rainInMinutes: number;        // 0 when rain is already expected this hour
+  rainAt: string;               // ISO start of the first wet hour
+  precipitationProbability?: number;
+  message: string;
+}
+
+/** "45 min", "1 hr", "2 hr 30 min" */
+export function formatDuration(minutes: number): string {
+  const rounded = Math.max(0, Math.round(minutes));
+  if (rounded < 60) return `${rounded} min`;
+  const h = Math.floor(rounded / 60);
+  const m = rounded % 60;
+  return m > 0 ? `${h} hr ${m} min` : `${h} hr`;
+}
+
+/** Minutes until the first forecast hour with rain, or null if none is expected. */
+export function findNextRain(
+  hours: ForecastHour[],
+  now: Date = new Date()
+): { hour: ForecastHour; minutes: number } | null {
+  const hourMs = 60 * 60 * 1000;
+  const next = hours.find((h) => isRainHour(h) && new Date(h.time).getTime() + hourMs > now.getTime());
+  if (!next) return null;
+  return { hour: next, minutes: Math.max(0, (new Date(next.time).getTime() - now.getTime()) / 60000) };
+}
+
+/**
+ * Products whose rainfast interval runs past the next forecast rain. The
+ * interval starts once spraying finishes, so `applicationMinutes` (time to
+ * spray the job) is added before comparing.
+ */
+export function checkRainfastness(
+  products: Product[],
+  hours: ForecastHour[],
+  applicationMinutes: number = 0,
+  now: Date = new Date()
+): RainfastWarning[] {
+  const rain = findNextRain(hours, now);
+  if (!rain) return [];
+
+  const when = rain.minutes < 1 ? 'now' : `in ${formatDuration(rain.minutes)}`;
+  const after = applicationMinutes > 0 ? ` after about ${formatDuration(applicationMinutes)} of spraying` : '';
+
+  return products
+    .filter((p) => p.rainfastHours && p.rainfastHours * 60 + applicationMinutes > rain.minutes)
+    .map((p) => ({
+      productName: p.name,
+      rainfastHours: p.rainfastHours!,
+      rainInMinutes: Math.round(rain.minutes),
+      rainAt: rain.hour.time,
+      precipitationProbability: rain.hour.precipitationProbability,
+      message: `Rain expected ${when}, ${p.name} needs ${formatDuration(p.rainfastHours! * 60)} rainfast${after}`,
+    }));
+}
@@ -0,0 +1,317 @@
+import { Applicator, Field, Product, SprayRecord } from '../types';
+import { getLeftoverTarget, getRecordCropYear, resolveRecordProduct } from './sprayHistory';
+import { ratePerAcre } from './labelCompliance';
+import { toCsv } from './exportService';
+import { describeTankLeftover } from './leftover';
+import { escapeHtml, printDocument } from './printService';
+
+export interface RegulatoryReportFilter {
+  cropYear?: string;      // when set, from/to are ignored
+  from?: string;          // YYYY-MM-DD inclusive
+  to?: string;            // YYYY-MM-DD inclusive
+  restrictedOnly?: boolean;
+}
+
+export interface RegulatoryReportContext {
+  fields: Field[];
+  products: Product[];
+  applicators: Applicator[];
+}
+
+/** One treated site of an application. */
+export interface RegulatorySite {
+  fieldName: string;
+  fieldNumber?: string;
+  farmName?: string;
+  location: string;       // legal description, else coordinates
+  crop?: string;
+  acres: number;
+}
+
+export interface RegulatoryProductLine {
+  productName: string;
+  epaRegNumber: string;
+  restrictedUse: boolean;
+  rate: number;
+  rateUnit: string;
+  totalAmount: number;    // for the whole application, in the rate's measurement unit
+  totalUnit: string;
+}
+
+/** One application formatted for a state-style pesticide application record. */
+export interface RegulatoryEntry {
+  recordId: string;
+  date: string;
+  startTime: string;
+  endTime: string;
+  applicator: string;
+  certificationNumber: string;
+  sites: RegulatorySite[];
+  totalAcres: number;
+  carrierRate: number;
+  totalVolume: number;
+  products: RegulatoryProductLine[];
+  weather?: SprayRecord['weather'];
+  leftover: string;       // leftover mix / rinsate disposal
+  notes: string;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function formatLocation(field?: Field): string {
+  if (!field) return '';
+  if (field.legalDescription?.trim()) return field.legalDescription.trim();
+  if (field.latitude !== undefined && field.longitude !== undefined) {
+    return `${field.latitude.toFixed(5)}, ${field.longitude.toFixed(5)}`;
+  }
+  return '';
+}
+
+function getSites(record: SprayRecord, fields: Field[]): RegulatorySite[] {
+  const siteFor = (fieldId: string | undefined, fallbackName: string, acres: number, subFieldName?: string): RegulatorySite => {
+    const field = fieldId ? fields.find((f) => f.id === fieldId) : undefined;
+    const name = field?.name || fallbackName;
+    return {
+      fieldName: subFieldName ? `${name} - ${subFieldName}` : name,
+      fieldNumber: field?.fieldNumber,
+      farmName: field?.farmName,
+      location: formatLocation(field),
+      crop: field?.crop,
+      acres,
+    };
+  };
+
+  let sites: RegulatorySite[];
+  const ids = record.fieldIds && record.fieldIds.length > 0
+    ? record.fieldIds
+    : record.fieldId ? [record.fieldId] : [];
+  if (record.sprayedFields && record.sprayedFields.length > 0) {
+    sites = record.sprayedFields.map((sf) => siteFor(sf.fieldId, sf.fieldName, sf.sprayedAcres, sf.subFieldName));
+  } else if (ids.length > 1) {
+    // Legacy multi-field records don't store per-field acres; use field sizes
+    sites = ids.map((id, i) => {
+      const field = fields.find((f) => f.id === id);
+      return siteFor(id, record.fieldNames?.[i] || id, field?.acres || 0);
+    });
+  } else {
+    sites = [siteFor(ids[0], record.fieldName, record.acres)];
+  }
+
+  // The labeled field that took the leftover mix is an application site too
+  const leftover = getLeftoverTarget(record);
+  if (leftover) {
+    const subFieldName = leftover.subFieldId
+      ? fields.find((f) => f.id === leftover.fieldId)?.subFields?.find((sf) => sf.id === leftover.subFieldId)?.name
+      : undefined;
+    sites.push(siteFor(leftover.fieldId, leftover.fieldName || leftover.fieldId, leftover.acres, subFieldName));
+  }
+  return sites;
+}
+
+function inRange(record: SprayRecord, filter: RegulatoryReportFilter): boolean {
+  if (filter.cropYear) return getRecordCropYear(record) === filter.cropYear;
+  if (filter.from && record.date < filter.from) return false;
+  if (filter.to && record.date > filter.to) return false;
+  return true;
+}
+
+/**
+ * Build pesticide application records for the given period, oldest first.
+ * Label details captured on the record win over the current product library.
+ */
+export function buildRegulatoryEntries(
+  records: SprayRecord[],
+  context: RegulatoryReportContext,
+  filter: RegulatoryReportFilter
+): RegulatoryEntry[] {
+  const { fields, products, applicators } = context;
+
+  return records
+    .filter((r) => inRange(r, filter))
+    .map((record): RegulatoryEntry => {
+      const lines = record.products.map((rp): RegulatoryProductLine => {
+        const product = resolveRecordProduct(rp, products);
+        const totalUnit = rp.unit.split('/')[0].trim() || rp.unit;
+        return {
+          productName: rp.productName,
+          epaRegNumber: rp.epaRegNumber || product?.epaRegNumber || '',
+          restrictedUse: rp.restrictedUse ?? product?.restrictedUse ?? false,
+          rate: rp.rate,
+          rateUnit: rp.unit,
+          totalAmount: round(ratePerAcre(rp.rate, rp.rateBasis, record.carrierRate) * record.acres),
+          totalUnit,
+        };
+      });
+      const applicator = applicators.find((a) => a.name === record.operator);
+
+      return {
+        recordId: record.id,
+        date: record.date,
+        startTime: record.startTime || '',
+        endTime: record.endTime || '',
+        applicator: record.operator,
+        certificationNumber: record.applicatorCertification || applicator?.certificationNumber || '',
+        sites: getSites(record, fields),
+        totalAcres: record.acres,
+        carrierRate: record.carrierRate,
+        totalVolume: record.totalVolume,
+        products: filter.restrictedOnly ? lines.filter((l) => l.restrictedUse) : lines,
+        weather: record.weather,
+        leftover: record.leftover ? describeTankLeftover(record.leftover) : '',
+        notes: record.notes || '',
+      };
+    })
+    .filter((e) => e.products.length > 0)
+    .sort((a, b) => a.date.localeCompare(b.date) || a.startTime.localeCompare(b.startTime));
+}
+
+/** Any required field left blank on an entry, for a pre-export review. */
+export function getMissingRegulatoryFields(entry: RegulatoryEntry): string[] {
+  const missing: string[] = [];
+  if (!entry.applicator.trim()) missing.push('applicator');
+  if (!entry.certificationNumber) missing.push('certification number');
+  if (!entry.startTime) missing.push('time');
+  if (entry.products.some((p) => !p.epaRegNumber)) missing.push('EPA reg. no.');
+  if (entry.sites.some((s) => !s.location)) missing.push('field location');
+  if (!entry.weather) missing.push('weather');
+  return missing;
+}
+
+export function describeReportPeriod(filter: RegulatoryReportFilter): string {
+  if (filter.cropYear) return `Crop year ${filter.cropYear}`;
+  if (filter.from && filter.to) return `${filter.from} to ${filter.to}`;
+  if (filter.from) return `From ${filter.from}`;
+  if (filter.to) return `Through ${filter.to}`;
+  return 'All records';
+}
+
+const CSV_HEADERS = [
+  'Date', 'Start Time', 'End Time', 'Applicator', 'Certification No.',
+  'Farm', 'Field', 'Field No.', 'Location / Legal Description', 'Crop / Site', 'Acres Treated',
+  'Product', 'EPA Reg. No.', 'Restricted Use', 'Rate', 'Rate Unit', 'Total Applied', 'Total Unit',
+  'Carrier Rate (gpa)', 'Temperature (F)', 'Humidity (%)', 'Wind Speed (mph)', 'Wind Direction',
+  'Weather Source', 'Leftover / Rinsate', 'Notes',
+];
+
+/**
+ * CSV with one row per product per treated site; totals are prorated to
+ * each site's acres.
+ */
+export function regulatoryEntriesToCsv(entries: RegulatoryEntry[]): string {
+  const rows: unknown[][] = [];
+  for (const entry of entries) {
+    for (const site of entry.sites) {
+      const share = entry.totalAcres > 0 ? site.acres / entry.totalAcres : 0;
+      for (const line of entry.products) {
+        rows.push([
+          entry.date,
+          entry.startTime,
+          entry.endTime,
+          entry.applicator,
+          entry.certificationNumber,
+          site.farmName || '',
+          site.fieldName,
+          site.fieldNumber || '',
+          site.location,
+          site.crop || '',
+          site.acres,
+          line.productName,
+          line.epaRegNumber,
+          line.restrictedUse ? 'Yes' : 'No',
+          line.rate,
+          line.rateUnit,
+          round(line.totalAmount * share),
+          line.totalUnit,
+          entry.carrierRate,
+          entry.weather?.temperature ?? '',
+          entry.weather?.humidity ?? '',
+          entry.weather?.windSpeed ?? '',
+          entry.weather?.windDirection ?? '',
+          entry.weather?.source ?? '',
+          entry.leftover,
+          entry.notes,
+        ]);
+      }
+    }
+  }
+  return toCsv(CSV_HEADERS, rows);
+}
+
+const REPORT_CSS = `
+  @page { size: landscape; margin: 12mm; }
+  .entry { border: 1px solid #111827; padding: 10px; margin-bottom: 14px; page-break-inside: avoid; break-inside: avoid; }
+  .entry-head { display: grid; grid-template-columns: repeat(4, 1fr); gap: 6px; margin-bottom: 8px; }
+  .label { font-size: 9px; color: #6b7280; text-transform: uppercase; }
+  .rup { font-weight: 700; color: #b91c1c; }
+  .signature { margin-top: 16px; border-top: 1px solid #111827; width: 40%; padding-top: 2px; font-size: 9px; color: #6b7280; }
+`;
+
+function renderEntry(entry: RegulatoryEntry): string {
+  const weather = entry.weather
+    ? `${escapeHtml(entry.weather.temperature)}&deg;F, ${escapeHtml(entry.weather.humidity)}% RH, wind ${escapeHtml(entry.weather.windSpeed)} mph ${escapeHtml(entry.weather.windDirection)}`
+    : '&mdash;';
+  const time = entry.startTime
+    ? `${escapeHtml(entry.startTime)}${entry.endTime ? ` &ndash; ${escapeHtml(entry.endTime)}` : ''}`
+    : '&mdash;';
+
+  const siteRows = entry.sites.map((s) => `
+    <tr>
+      <td>${escapeHtml(s.fieldNumber ? `${s.fieldNumber} - ${s.fieldName}` : s.fieldName)}${s.farmName ? `<div class="muted">${escapeHtml(s.farmName)}</div>` : ''}</td>
+      <td>${escapeHtml(s.location) || '&mdash;'}</td>
+      <td>${escapeHtml(s.crop) || '&mdash;'}</td>
+      <td>${s.acres}</td>
+    </tr>`).join('');
+
+  const productRows = entry.products.map((p) => `
+    <tr>
+      <td>${escapeHtml(p.productName)}${p.restrictedUse ? ' <span class="rup">RUP</span>' : ''}</td>
+      <td>${escapeHtml(p.epaRegNumber) || '&mdash;'}</td>
+      <td>${p.rate} ${escapeHtml(p.rateUnit)}</td>
+      <td>${p.totalAmount} ${escapeHtml(p.totalUnit)}</td>
+    </tr>`).join('');
+
+  return `
+  <div class="entry">
+    <div class="entry-head">
+      <div><div class="label">Date</div>${escapeHtml(entry.date)}</div>
+      <div><div class="label">Time</div>${time}</div>
+      <div><div class="label">Applicator</div>${escapeHtml(entry.applicator) || '&mdash;'}</div>
+      <div><div class="label">Certification No.</div>${escapeHtml(entry.certificationNumber) || '&mdash;'}</div>
+      <div><div class="label">Acres Treated</div>${entry.totalAcres}</div>
+      <div><div class="label">Carrier</div>${entry.carrierRate} gpa &middot; ${Math.round(entry.totalVolume)} gal</div>
+      <div style="grid-column: span 2"><div class="label">Weather</div>${weather}</div>
+    </div>
+    <table>
+      <thead><tr><th>Field</th><th>Location / Legal Description</th><th>Crop / Site</th><th>Acres</th></tr></thead>
+      <tbody>${siteRows}</tbody>
+    </table>
+    <table style="margin-top: 6px">
+      <thead><tr><th>Product</th><th>EPA Reg. No.</th><th>Rate</th><th>Total Applied</th></tr></thead>
+      <tbody>${productRows}</tbody>
+    </table>
+    ${entry.leftover ? `<p class="muted">Leftover / rinsate: ${escapeHtml(entry.leftover)}</p>` : ''}
+    ${entry.notes ? `<p class="muted">Notes: ${escapeHtml(entry.notes)}</p>` : ''}
+    <div class="signature">Applicator signature</div>
+  </div>`;
+}
+
+/**
+ * Open a printable pesticide application record report ("Save as PDF").
+ * Returns false when the popup was blocked.
+ */
+export function printRegulatoryReport(
+  entries: RegulatoryEntry[],
+  filter: RegulatoryReportFilter
+): boolean {
+  const period = describeReportPeriod(filter);
+  const title = filter.restrictedOnly
+    ? 'Restricted-Use Pesticide Application Records'
+    : 'Pesticide Application Records';
+  const body = `
+    <h1>${escapeHtml(title)}</h1>
+    <p class="muted">${escapeHtml(period)} &middot; ${entries.length} application${entries.length !== 1 ? 's' : ''} &middot; generated ${escapeHtml(new Date().toISOString().split('T')[0])}</p>
+    ${entries.map(renderEntry).join('')}`;
+  return printDocument(`${title} - ${period}`, body, REPORT_CSS);
+}
@@ -0,0 +1,150 @@
+import { PlannedJob, PlannedJobProduct, Product } from '../types';
+import { calculatePackages, convertRateToAmount } from './loadCalculations';
+import { ContainerCalculator } from './containerCalculations';
+import { getBaseDisplayUnit, getContainerCategory } from './unitConstants';
+import { toCsv } from './exportService';
+import { escapeHtml, printDocument } from './printService';
+
+export interface ShoppingListItem {
+  productId: string;
+  productName: string;
+  unit: string;             // base unit: gal or lbs
+  required: number;         // across all selected jobs
+  onHand?: number;          // undefined when the product's inventory isn't tracked
+  shortfall: number;        // required minus on-hand, never negative
+  orderText: string;        // e.g. "2x 2.5 gal jug" or "3 packages (30 gal each)"
+  orderAmount: number;      // quantity bought after rounding up
+  jobs: string[];
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/** Total product (base units) a job needs for one product in its mix. */
+export function getJobProductAmount(job: PlannedJob, jobProduct: PlannedJobProduct, product: Product): number {
+  return convertRateToAmount(
+    jobProduct.rate,
+    product.unit,
+    job.acres,
+    job.carrierRate * job.acres,
+    product.rateBasis,
+    product.measurementUnit
+  );
+}
+
+function roundToPurchase(
+  amount: number,
+  product: Product,
+  calculator: ContainerCalculator
+): { orderText: string; orderAmount: number } {
+  const unit = getBaseDisplayUnit(product.measurementUnit);
+  if (amount <= 0) return { orderText: 'Covered by inventory', orderAmount: 0 };
+
+  if (product.packageSize && product.packageSize > 0) {
+    const pkg = calculatePackages(amount, product.packageSize);
+    return {
+      orderText: `${pkg.packages} package${pkg.packages !== 1 ? 's' : ''} (${product.packageSize} ${unit} each)`,
+      orderAmount: pkg.totalFromPackages,
+    };
+  }
+
+  const containerType = product.type === 'bulk'
+    ? getContainerCategory(product.measurementUnit)
+    : product.type;
+  const breakdown = calculator.calculatePurchaseBreakdown(amount, containerType, product.preferredContainers);
+  if (breakdown.containers.length > 0 && breakdown.remainder.amount <= 0) {
+    return {
+      orderText: calculator.formatContainerBreakdown(breakdown),
+      orderAmount: breakdown.containers.reduce((sum, c) => sum + c.totalAmount, 0),
+    };
+  }
+
+  // Bulk product with no containers assigned: round up to a whole unit
+  const whole = Math.ceil(amount);
+  return { orderText: `${whole} ${unit} bulk`, orderAmount: whole };
+}
+
+/**
+ * Roll up product needs across planned jobs, subtract tracked inventory and
+ * round each shortfall up to whole packages or containers.
+ */
+export function buildShoppingList(
+  jobs: PlannedJob[],
+  products: Product[],
+  onHand: Map<string, number>,
+  calculator: ContainerCalculator
+): ShoppingListItem[] {
+  const totals = new Map<string, { product: Product; required: number; jobs: string[] }>();
+
+  for (const job of jobs) {
+    for (const jp of job.products) {
+      const product = products.find((p) => p.id === jp.productId);
+      if (!product) continue;
+      const entry = totals.get(product.id) || { product, required: 0, jobs: [] };
+      entry.required += getJobProductAmount(job, jp, product);
+      if (!entry.jobs.includes(job.name)) entry.jobs.push(job.name);
+      totals.set(product.id, entry);
+    }
+  }
+
+  return Array.from(totals.values())
+    .map(({ product, required, jobs: jobNames }) => {
+      const tracked = onHand.has(product.id);
+      const available = tracked ? Math.max(0, onHand.get(product.id) || 0) : 0;
+      const shortfall = Math.max(0, required - available);
+      return {
+        productId: product.id,
+        productName: product.name,
+        unit: getBaseDisplayUnit(product.measurementUnit),
+        required: round(required),
+        onHand: tracked ? round(onHand.get(product.id) || 0) : undefined,
+        shortfall: round(shortfall),
+        ...roundToPurchase(shortfall, product, calculator),
+        jobs: jobNames,
+      };
+    })
+    .sort((a, b) => a.productName.localeCompare(b.productName));
+}
+
+export function shoppingListToCsv(items: ShoppingListItem[]): string {
+  const headers = ['Product', 'Needed', 'On Hand', 'To Buy', 'Unit', 'Order', 'Order Quantity', 'Jobs'];
+  const rows = items.map((i) => [
+    i.productName,
+    i.required,
+    i.onHand ?? '',
+    i.shortfall,
+    i.unit,
+    i.orderText,
+    round(i.orderAmount),
+    i.jobs.join('; '),
+  ]);
+  return toCsv(headers, rows);
+}
+
+/**
+ * Open a printable dealer order ("Save as PDF").
+ * Returns false when the popup was blocked.
+ */
+export function printShoppingList(items: ShoppingListItem[], jobs: PlannedJob[]): boolean {
+  const date = new Date().toISOString().split('T')[0];
+  const rows = items.map((i) => `
+    <tr>
+      <td>${escapeHtml(i.productName)}</td>
+      <td>${i.required} ${escapeHtml(i.unit)}</td>
+      <td>${i.onHand !== undefined ? `${i.onHand} ${escapeHtml(i.unit)}` : '&mdash;'}</td>
+      <td><strong>${escapeHtml(i.orderText)}</strong></td>
+    </tr>`).join('');
+  const jobList = jobs.map((j) => `<li>${escapeHtml(j.name)} &middot; ${j.acres} ac</li>`).join('');
+
+  const body = `
+    <h1>Product Order</h1>
+    <p class="muted">${escapeHtml(date)} &middot; ${jobs.length} planned job${jobs.length !== 1 ? 's' : ''}</p>
+    <table>
+      <thead><tr><th>Product</th><th>Needed</th><th>On Hand</th><th>Order</th></tr></thead>
+      <tbody>${rows}</tbody>
+    </table>
+    <h2>Jobs</h2>
+    <ul>${jobList}</ul>`;
+  return printDocument(`Product order - ${date}`, body);
+}
@@ -0,0 +1,153 @@
+// Delta-T and inversion estimates for spray timing
+
+export type DeltaTBand = 'low' | 'ideal' | 'marginal' | 'high';
+
+export interface DeltaTBandInfo {
+  band: DeltaTBand;
+  label: string;
+  description: string;
+}
+
+// Delta-T bands in °C (dry bulb minus wet bulb)
+export const DELTA_T_BANDS: { max: number; info: DeltaTBandInfo }[] = [
+  { max: 2, info: { band: 'low', label: 'Below 2', description: 'Fine droplets hang in the air; inversion risk' } },
+  { max: 8, info: { band: 'ideal', label: '2–8', description: 'Ideal for spraying' } },
+  { max: 10, info: { band: 'marginal', label: '8–10', description: 'Marginal — use coarser droplets' } },
+  { max: Infinity, info: { band: 'high', label: 'Above 10', description: 'Droplets evaporate quickly — avoid fine sprays' } },
+];
+
+export type InversionLikelihood = 'unlikely' | 'possible' | 'likely';
+
+export interface InversionEstimate {
+  likelihood: InversionLikelihood;
+  score: number;
+  reasons: string[];
+}
+
+export interface TemperatureReading {
+  timestamp: string;
+  temperature: number;      // °F
+}
+
+const fToC = (f: number) => (f - 32) * 5 / 9;
+
+/** Relative humidity from temperature and dew point (Magnus formula). */
+export function humidityFromDewPoint(temperatureF: number, dewPointF: number): number {
+  const a = 17.625;
+  const b = 243.04;
+  const t = fToC(temperatureF);
+  const td = fToC(dewPointF);
+  return 100 * Math.exp((a * td) / (b + td) - (a * t) / (b + t));
+}
+
+/** Wet-bulb temperature in °C (Stull 2011), valid for 5–99% RH. */
+function wetBulbC(temperatureC: number, humidity: number): number {
+  const rh = Math.min(99, Math.max(5, humidity));
+  return temperatureC * Math.atan(0.151977 * Math.sqrt(rh + 8.313659))
+    + Math.atan(temperatureC + rh)
+    - Math.atan(rh - 1.676331)
+    + 0.00391838 * Math.pow(rh, 1.5) * Math.atan(0.023101 * rh)
+    - 4.686035;
+}
+
+/**
+ * Delta-T in °C from temperature and humidity, falling back to the dew point
+ * when humidity is missing. Returns null when neither is available.
+ */
+export function calculateDeltaT(temperatureF: number, humidity?: number | null, dewPointF?: number | null): number | null {
+  if (temperatureF == null || isNaN(temperatureF)) return null;
+  const rh = humidity != null && !isNaN(humidity)
+    ? humidity
+    : dewPointF != null && !isNaN(dewPointF) ? humidityFromDewPoint(temperatureF, dewPointF) : null;
+  if (rh == null) return null;
+  const t = fToC(temperatureF);
+  return Math.round(Math.max(0, t - wetBulbC(t, rh)) * 10) / 10;
+}
+
+export function getDeltaTBand(deltaT: number): DeltaTBandInfo {
+  return DELTA_T_BANDS.find((b) => deltaT < b.max)!.info;
+}
+
+/** °F per hour between the oldest and newest readings at least 15 minutes apart. */
+export function temperatureTrend(readings: TemperatureReading[]): number | null {
+  if (readings.length < 2) return null;
+  const sorted = [...readings].sort((a, b) => Date.parse(a.timestamp) - Date.parse(b.timestamp));
+  const first = sorted[0];
+  const last = sorted[sorted.length - 1];
+  const hours = (Date.parse(last.timestamp) - Date.parse(first.timestamp)) / 3600000;
+  if (hours < 0.25) return null;
+  return Math.round(((last.temperature - first.temperature) / hours) * 10) / 10;
+}
+
+export interface InversionInput {
+  timestamp: string;
+  temperature: number;
+  dewPoint?: number;
+  windSpeed: number;
+  cloudCover?: number;      // percent
+  history?: TemperatureReading[];   // earlier readings for the trend
+}
+
+/**
+ * Surface inversions form on calm, clear evenings and nights as the ground
+ * cools, and break up once the sun warms it in the morning. Each condition
+ * adds to the score; 5 or more is likely, 3–4 possible.
+ */
+export function estimateInversion(input: InversionInput): InversionEstimate {
+  const hour = new Date(input.timestamp).getHours();
+  const reasons: string[] = [];
+  let score = 0;
+
+  const isNight = hour >= 20 || hour < 5;
+  const isEvening = hour >= 17 && hour < 20;
+  const isEarlyMorning = hour >= 5 && hour < 9;
+  if (isNight) {
+    score += 2;
+    reasons.push('Night-time cooling');
+  } else if (isEvening || isEarlyMorning) {
+    score += 1;
+    reasons.push(isEvening ? 'Evening cooling' : 'Early morning');
+  } else if (hour >= 10 && hour < 17) {
+    score -= 2;
+  }
+
+  if (input.windSpeed < 3) {
+    score += 2;
+    reasons.push('Calm winds');
+  } else if (input.windSpeed < 6) {
+    score += 1;
+    reasons.push('Light winds');
+  } else if (input.windSpeed > 10) {
+    score -= 2;
+  }
+
+  if (input.cloudCover != null) {
+    if (input.cloudCover < 30) {
+      score += 1;
+      reasons.push('Clear skies');
+    } else if (input.cloudCover > 70) {
+      score -= 1;
+    }
+  }
+
+  const trend = input.history ? temperatureTrend([...input.history, input]) : null;
+  if (trend != null) {
+    if (trend <= -1.5) {
+      score += 2;
+      reasons.push(`Temperature falling ${Math.abs(trend)}°F/hr`);
+    } else if (trend <= -0.5) {
+      score += 1;
+      reasons.push('Temperature falling');
+    } else if (trend >= 1.5) {
+      score -= 1;
+    }
+  }
+
+  if (input.dewPoint != null && input.temperature - input.dewPoint < 5) {
+    score += 1;
+    reasons.push('Near dew point');
+  }
+
+  const likelihood: InversionLikelihood = score >= 5 ? 'likely' : score >= 3 ? 'possible' : 'unlikely';
+  return { likelihood, score, reasons };
+}
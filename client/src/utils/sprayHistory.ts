@@ -0,0 +1,192 @@
+import { Field, Product, SprayRecord, SprayRecordProduct } from '../types';
+
+/**
+ * Return a record's crop year (from cropYear, or the year of its date for legacy records).
+ */
+export function getRecordCropYear(record: SprayRecord): string {
+  if (record.cropYear) return record.cropYear;
+  return record.date.split('-')[0];
+}
+
+/**
+ * Resolve the time a record was applied.
+ *
+ * Records only carry a date, so when the record was created on that same day
+ * we use createdAt; otherwise we assume the end of the day so re-entry windows
+ * err on the safe side.
+ */
+export function getApplicationTime(record: SprayRecord): Date {
+  // record.date is a local calendar date, so compare createdAt's local date too
+  const created = record.createdAt ? new Date(record.createdAt) : null;
+  if (created && !isNaN(created.getTime()) && toLocalDateString(created) === record.date) {
+    return created;
+  }
+  const [y, m, d] = record.date.split('-').map((v) => parseInt(v, 10));
+  return new Date(y, (m || 1) - 1, d || 1, 23, 59);
+}
+
+function toLocalDateString(d: Date): string {
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+}
+
+export interface RecordFieldTarget {
+  fieldId: string;
+  subFieldId?: string;
+}
+
+/**
+ * The labeled field a record's leftover mix was applied to. It got the job's
+ * mix at the job's carrier rate, so the same per-acre rates apply.
+ */
+export function getLeftoverTarget(record: SprayRecord): (RecordFieldTarget & { acres: number; fieldName?: string }) | undefined {
+  const leftover = record.leftover;
+  if (leftover?.disposition !== 'apply_to_field' || !leftover.fieldId || leftover.gallons <= 0) return undefined;
+  return {
+    fieldId: leftover.fieldId,
+    subFieldId: leftover.subFieldId,
+    fieldName: leftover.fieldName,
+    acres: leftover.acres ?? 0,
+  };
+}
+
+/**
+ * List the fields (and sub-fields) a record was applied to, including the
+ * field that took the leftover mix.
+ * Prefers sprayedFields, falling back to legacy fieldIds / fieldId.
+ */
+export function getRecordFieldTargets(record: SprayRecord): RecordFieldTarget[] {
+  const targets: RecordFieldTarget[] =
+    record.sprayedFields && record.sprayedFields.length > 0
+      ? record.sprayedFields.map((sf) => ({ fieldId: sf.fieldId, subFieldId: sf.subFieldId }))
+      : record.fieldIds && record.fieldIds.length > 0
+        ? record.fieldIds.map((id) => ({ fieldId: id }))
+        : record.fieldId ? [{ fieldId: record.fieldId }] : [];
+  const leftover = getLeftoverTarget(record);
+  if (leftover) targets.push({ fieldId: leftover.fieldId, subFieldId: leftover.subFieldId });
+  return targets;
+}
+
+/**
+ * Whether a record touched the given field or sub-field.
+ *
+ * A whole-field application covers every sub-field, and a sub-field
+ * application counts toward its parent field.
+ */
+export function recordTouchesField(record: SprayRecord, fieldId: string, subFieldId?: string): boolean {
+  return getRecordFieldTargets(record).some((t) => {
+    if (t.fieldId !== fieldId) return false;
+    if (!subFieldId || !t.subFieldId) return true;
+    return t.subFieldId === subFieldId;
+  });
+}
+
+/**
+ * Match a record product back to the product library, by id when the record
+ * was saved from the calculator, otherwise by name.
+ */
+export function resolveRecordProduct(
+  recordProduct: Pick<SprayRecordProduct, 'productId' | 'productName'>,
+  products: Product[]
+): Product | undefined {
+  if (recordProduct.productId) {
+    const byId = products.find((p) => p.id === recordProduct.productId);
+    if (byId) return byId;
+  }
+  const name = recordProduct.productName.trim().toLowerCase();
+  if (!name) return undefined;
+  return products.find((p) => p.name.trim().toLowerCase() === name);
+}
+
+// --- Re-entry (REI) and pre-harvest (PHI) intervals ---
+
+export interface FieldStatus {
+  lastApplication?: Date;
+  reentryAt?: Date;       // latest REI expiry across applications
+  harvestAt?: Date;       // latest PHI expiry across applications
+  reiProducts: string[];  // products driving the current REI
+  phiProducts: string[];  // products driving the current PHI
+  underREI: boolean;
+  underPHI: boolean;
+}
+
+/** Key used to look up a field or sub-field in a status map. */
+export function fieldStatusKey(fieldId: string, subFieldId?: string): string {
+  return subFieldId ? `${fieldId}:${subFieldId}` : fieldId;
+}
+
+/**
+ * Compute re-entry and harvest status for a field (or one of its sub-fields)
+ * from spray record history.
+ */
+export function computeFieldStatus(
+  records: SprayRecord[],
+  products: Product[],
+  fieldId: string,
+  subFieldId?: string,
+  now: Date = new Date()
+): FieldStatus {
+  const status: FieldStatus = { reiProducts: [], phiProducts: [], underREI: false, underPHI: false };
+
+  for (const record of records) {
+    if (!recordTouchesField(record, fieldId, subFieldId)) continue;
+    const appliedAt = getApplicationTime(record);
+    if (!status.lastApplication || appliedAt > status.lastApplication) {
+      status.lastApplication = appliedAt;
+    }
+
+    for (const rp of record.products) {
+      const product = resolveRecordProduct(rp, products);
+      const reiHours = rp.reiHours ?? product?.reiHours;
+      const phiDays = rp.phiDays ?? product?.phiDays;
+
+      if (reiHours && reiHours > 0) {
+        const reentryAt = new Date(appliedAt.getTime() + reiHours * 60 * 60 * 1000);
+        if (reentryAt > now) status.reiProducts.push(rp.productName);
+        if (!status.reentryAt || reentryAt > status.reentryAt) status.reentryAt = reentryAt;
+      }
+      if (phiDays && phiDays > 0) {
+        const harvestAt = new Date(appliedAt.getTime() + phiDays * 24 * 60 * 60 * 1000);
+        if (harvestAt > now) status.phiProducts.push(rp.productName);
+        if (!status.harvestAt || harvestAt > status.harvestAt) status.harvestAt = harvestAt;
+      }
+    }
+  }
+
+  status.underREI = !!status.reentryAt && status.reentryAt > now;
+  status.underPHI = !!status.harvestAt && status.harvestAt > now;
+  status.reiProducts = Array.from(new Set(status.reiProducts));
+  status.phiProducts = Array.from(new Set(status.phiProducts));
+  return status;
+}
+
+/**
+ * Compute statuses for every field and its sub-fields, keyed by fieldStatusKey().
+ */
+export function computeAllFieldStatuses(
+  fields: Field[],
+  records: SprayRecord[],
+  products: Product[],
+  now: Date = new Date()
+): Map<string, FieldStatus> {
+  const result = new Map<string, FieldStatus>();
+  for (const field of fields) {
+    result.set(fieldStatusKey(field.id), computeFieldStatus(records, products, field.id, undefined, now));
+    for (const sf of field.subFields || []) {
+      result.set(
+        fieldStatusKey(field.id, sf.id),
+        computeFieldStatus(records, products, field.id, sf.id, now)
+      );
+    }
+  }
+  return result;
+}
+
+/**
+ * Short human-readable time for REI / PHI expiry, e.g. "Tue 3:30 PM" or "Jun 12".
+ */
+export function formatIntervalEnd(date: Date, withTime: boolean): string {
+  if (withTime) {
+    return date.toLocaleString(undefined, { weekday: 'short', hour: 'numeric', minute: '2-digit' });
+  }
+  return date.toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+}
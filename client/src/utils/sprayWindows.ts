@@ -0,0 +1,88 @@
+import { DriftAssessment, ForecastHour, WeatherData, WeatherService } from './weatherService';
+
+// Hours wetter than this aren't counted as spray windows
+export const RAIN_THRESHOLD_INCHES = 0.01;
+export const RAIN_PROBABILITY_PERCENT = 50;
+
+export interface ScoredHour {
+  hour: ForecastHour;
+  weather: WeatherData;
+  assessment: DriftAssessment;
+  score: number;            // sum of the drift factor scores, lower is better
+  rain: boolean;
+  sprayable: boolean;
+}
+
+export interface SprayWindow {
+  start: string;            // ISO start of the first hour
+  end: string;              // ISO end of the last hour
+  hours: number;
+  averageScore: number;
+  recommendation: WeatherData['sprayRecommendation'];  // worst hour in the window
+}
+
+const RECOMMENDATION_ORDER: WeatherData['sprayRecommendation'][] = ['optimal', 'acceptable', 'caution', 'avoid'];
+
+export function isRainHour(hour: ForecastHour): boolean {
+  return hour.precipitation >= RAIN_THRESHOLD_INCHES
+    || (hour.precipitationProbability ?? 0) >= RAIN_PROBABILITY_PERCENT;
+}
+
+/**
+ * Score a forecast hour with the same drift rules as current conditions.
+ * `previous` hours give the temperature trend for the inversion estimate.
+ */
+export function scoreForecastHour(hour: ForecastHour, previous: ForecastHour[] = []): ScoredHour {
+  const history = previous.map((h) => ({ timestamp: h.time, temperature: h.temperature }));
+  const weather = WeatherService.enhanceWeatherData({ ...hour, timestamp: hour.time }, history);
+  const assessment = WeatherService.assessDriftConditions(weather);
+  const score = Object.values(assessment.factors).reduce((sum, f) => sum + f.score, 0);
+  const rain = isRainHour(hour);
+  const sprayable = !rain
+    && (weather.sprayRecommendation === 'optimal' || weather.sprayRecommendation === 'acceptable');
+  return { hour, weather, assessment, score, rain, sprayable };
+}
+
+/** Score every hour, using the two hours before each for the trend. */
+export function scoreForecast(hours: ForecastHour[]): ScoredHour[] {
+  return hours.map((hour, i) => scoreForecastHour(hour, hours.slice(Math.max(0, i - 2), i)));
+}
+
+/**
+ * Runs of consecutive sprayable hours at least `minHours` long, best first:
+ * lowest average drift score, then longest.
+ */
+export function findSprayWindows(scored: ScoredHour[], minHours: number = 2, limit: number = 3): SprayWindow[] {
+  const windows: SprayWindow[] = [];
+  let run: ScoredHour[] = [];
+
+  const closeRun = () => {
+    if (run.length >= minHours) {
+      const last = new Date(run[run.length - 1].hour.time);
+      windows.push({
+        start: run[0].hour.time,
+        end: new Date(last.getTime() + 60 * 60 * 1000).toISOString(),
+        hours: run.length,
+        averageScore: Math.round((run.reduce((s, h) => s + h.score, 0) / run.length) * 10) / 10,
+        recommendation: run.reduce<WeatherData['sprayRecommendation']>(
+          (worst, h) =>
+            RECOMMENDATION_ORDER.indexOf(h.weather.sprayRecommendation) > RECOMMENDATION_ORDER.indexOf(worst)
+              ? h.weather.sprayRecommendation
+              : worst,
+          'optimal'
+        ),
+      });
+    }
+    run = [];
+  };
+
+  for (const h of scored) {
+    if (h.sprayable) run.push(h);
+    else closeRun();
+  }
+  closeRun();
+
+  return windows
+    .sort((a, b) => a.averageScore - b.averageScore || b.hours - a.hours)
+    .slice(0, limit);
+}
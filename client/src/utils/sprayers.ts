@@ -0,0 +1,34 @@
+import { SprayerProfile, SprayRecordSprayer } from '../types';
+
+/** Snapshot a sprayer's setup for a spray record. */
+export function toRecordSprayer(sprayer: SprayerProfile): SprayRecordSprayer {
+  return {
+    id: sprayer.id,
+    name: sprayer.name,
+    tankSize: sprayer.tankSize,
+    boomWidth: sprayer.boomWidth,
+    nozzleType: sprayer.nozzleType,
+    nozzleCount: sprayer.nozzleCount,
+    pressure: sprayer.pressure,
+    nozzleSpacing: sprayer.nozzleSpacing,
+    calibratedGpa: sprayer.calibratedGpa,
+    calibrationSpeed: sprayer.calibrationSpeed,
+    calibratedAt: sprayer.calibratedAt,
+  };
+}
+
+/** e.g. "90 ft boom · 36 × AIXR 11004 @ 40 psi · 15 GPA" */
+export function describeSprayerSetup(sprayer: SprayRecordSprayer): string {
+  const parts: string[] = [];
+  if (sprayer.boomWidth > 0) parts.push(`${sprayer.boomWidth} ft boom`);
+  if (sprayer.nozzleCount > 0 || sprayer.nozzleType) {
+    const nozzles = `${sprayer.nozzleCount > 0 ? `${sprayer.nozzleCount} × ` : ''}${sprayer.nozzleType || 'nozzles'}`;
+    parts.push(sprayer.pressure > 0 ? `${nozzles} @ ${sprayer.pressure} psi` : nozzles);
+  }
+  if (sprayer.calibratedGpa > 0) {
+    parts.push(sprayer.calibrationSpeed
+      ? `${sprayer.calibratedGpa} GPA at ${sprayer.calibrationSpeed} mph`
+      : `${sprayer.calibratedGpa} GPA`);
+  }
+  return parts.join(' · ');
+}
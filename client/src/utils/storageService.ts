@@ -1,5 +1,10 @@
-import { Product, Field, CalculatorDefaults, SprayRecord, TenderRoute, SavedPin, Applicator } from '../types';
+import { Product, Field, CalculatorDefaults, SprayRecord, TenderRoute, SavedPin, Applicator, CompatibilityRule, MoaSettings, InventoryTransaction, PlannedJob, TankMixRecipe, VarianceSettings, SprayerProfile, SensitiveSite, BufferSettings, ActiveWeatherLog } from '../types';
 import { ContainerType, DEFAULT_CONTAINERS } from './containerCalculations';
+import { DEFAULT_COMPATIBILITY_RULES } from './compatibilityRules';
+import { DEFAULT_MOA_SETTINGS } from './modeOfAction';
+import { DEFAULT_VARIANCE_SETTINGS } from './variance';
+import { DEFAULT_BUFFER_SETTINGS } from './driftBuffer';
+import { buildApplicationTransactions, getTrackingStartDates } from './inventory';
 import { supabase, supabaseConfigured } from './supabaseClient';
 import { LocationData } from './weatherService';
 
@@ -35,14 +40,25 @@ const KEYS = {
   containers: 'agrispray_containers',
   fields: 'agrispray_fields',
   calculatorDefaults: 'agrispray_calculator_defaults',
-  tankPresets: 'agrispray_tank_presets',
-  carrierPresets: 'agrispray_carrier_presets',
   records: 'agrispray_records',
   routes: 'agrispray_routes',
   pins: 'agrispray_pins',
   farmLocation: 'farmLocation',
   cropYear: 'agrispray_crop_year',
   applicators: 'agrispray_applicators',
+  compatibilityRules: 'agrispray_compatibility_rules',
+  moaSettings: 'agrispray_moa_settings',
+  inventory: 'agrispray_inventory',
+  plannedJobs: 'agrispray_planned_jobs',
+  recipes: 'agrispray_recipes',
+  sprayers: 'agrispray_sprayers',
+  varianceSettings: 'agrispray_variance_settings',
+  sensitiveSites: 'agrispray_sensitive_sites',
+  bufferSettings: 'agrispray_buffer_settings',
+  activeWeatherLog: 'agrispray_active_weather_log',
+  // Replaced by sprayer profiles; read once to seed them, then removed
+  legacyTankPresets: 'agrispray_tank_presets',
+  legacyCarrierPresets: 'agrispray_carrier_presets',
 };
 
 function loadJSON<T>(key: string): T | null {
@@ -66,11 +82,19 @@ export const DEFAULT_PRODUCTS: Product[] = [
     type: 'liquid',
     unit: 'fl oz / acre',
     defaultRate: 32,
-    mixingOrder: 2,
     pHSensitive: false,
     isCustom: false,
     measurementUnit: 'fl_oz',
     rateBasis: 'per_acre',
+    reiHours: 4,
+    rainfastHours: 0.5,
+    epaRegNumber: '524-549',
+    category: 'herbicide',
+    formulation: 'SL',
+    activeIngredients: [
+      { name: 'glyphosate', concentration: 4.5, concentrationUnit: 'lb_per_gal', moaSystem: 'HRAC', moaGroup: '9' },
+    ],
+    chemicalClass: 'glycine',
   },
   {
     id: 'default-atrazine',
@@ -78,11 +102,19 @@ export const DEFAULT_PRODUCTS: Product[] = [
     type: 'liquid',
     unit: 'qt / acre',
     defaultRate: 1.5,
-    mixingOrder: 3,
     pHSensitive: false,
     isCustom: false,
     measurementUnit: 'qt',
     rateBasis: 'per_acre',
+    reiHours: 12,
+    phiDays: 60,
+    restrictedUse: true,
+    category: 'herbicide',
+    formulation: 'SC',
+    activeIngredients: [
+      { name: 'atrazine', concentration: 4, concentrationUnit: 'lb_per_gal', moaSystem: 'HRAC', moaGroup: '5' },
+    ],
+    chemicalClass: 'triazine',
   },
   {
     id: 'default-ams',
@@ -90,11 +122,14 @@ export const DEFAULT_PRODUCTS: Product[] = [
     type: 'dry',
     unit: 'lbs / 100 gal water',
     defaultRate: 17,
-    mixingOrder: 1,
     pHSensitive: false,
     isCustom: false,
     measurementUnit: 'lbs',
     rateBasis: 'per_100_gal',
+    category: 'adjuvant',
+    formulation: 'WC',
+    activeIngredients: [{ name: 'ammonium sulfate' }],
+    chemicalClass: 'water conditioner',
   },
 ];
 
@@ -104,9 +139,6 @@ const DEFAULT_CALCULATOR: CalculatorDefaults = {
   acres: 160,
 };
 
-const DEFAULT_TANK_PRESETS = [200, 300, 500, 750, 1000];
-const DEFAULT_CARRIER_PRESETS = [10, 15, 20, 25];
-
 export const DEFAULT_FARM_LOCATION: LocationData = {
   latitude: 41.4389,
   longitude: -84.3558,
@@ -117,21 +149,36 @@ export const DEFAULT_FARM_LOCATION: LocationData = {
 };
 
 // --- Products ---
+/** Products saved when active ingredients were plain names hold strings; lift them to objects. */
+function normalizeProduct(product: Product): Product {
+  if (!product.activeIngredients?.some((ai) => typeof ai === 'string')) return product;
+  return {
+    ...product,
+    activeIngredients: product.activeIngredients.map((ai) =>
+      typeof ai === 'string' ? { name: ai } : ai
+    ),
+  };
+}
+
+function loadProducts(): Product[] | null {
+  const cached = loadJSON<Product[]>(KEYS.products);
+  return cached ? cached.map(normalizeProduct) : null;
+}
+
 export async function getProducts(): Promise<Product[]> {
   if (!supabaseConfigured) {
-    return loadJSON<Product[]>(KEYS.products) || DEFAULT_PRODUCTS;
+    return loadProducts() || DEFAULT_PRODUCTS;
   }
   try {
     const { data, error } = await supabase.from('products').select('*');
     if (error || !data || data.length === 0) {
-      const cached = loadJSON<Product[]>(KEYS.products);
-      return cached || DEFAULT_PRODUCTS;
+      return loadProducts() || DEFAULT_PRODUCTS;
     }
-    const products = data.map((row) => toCamelCase(row) as unknown as Product);
+    const products = data.map((row) => normalizeProduct(toCamelCase(row) as unknown as Product));
     saveJSON(KEYS.products, products);
     return products;
   } catch {
-    return loadJSON<Product[]>(KEYS.products) || DEFAULT_PRODUCTS;
+    return loadProducts() || DEFAULT_PRODUCTS;
   }
 }
 
@@ -334,64 +381,88 @@ export async function saveCalculatorDefaults(defaults: Partial<CalculatorDefault
   }
 }
 
-// --- Tank Size Presets ---
-export async function getTankPresets(): Promise<number[]> {
-  if (!supabaseConfigured) {
-    return loadJSON<number[]>(KEYS.tankPresets) || DEFAULT_TANK_PRESETS;
-  }
-  try {
-    const { data } = await supabase
-      .from('settings')
-      .select('value')
-      .eq('key', 'tank_presets')
-      .single();
-    if (data?.value) {
-      saveJSON(KEYS.tankPresets, data.value);
-      return data.value as number[];
-    }
-    return loadJSON<number[]>(KEYS.tankPresets) || DEFAULT_TANK_PRESETS;
-  } catch {
-    return loadJSON<number[]>(KEYS.tankPresets) || DEFAULT_TANK_PRESETS;
-  }
-}
+// --- Sprayers ---
+const DEFAULT_TANK_PRESETS = [200, 300, 500, 750, 1000];
 
-export async function saveTankPresets(presets: number[]): Promise<void> {
-  saveJSON(KEYS.tankPresets, presets);
+/**
+ * Turn tank size presets saved before sprayer profiles existed into one
+ * profile per size (IDs match migration 022). Carrier presets have no sprayer
+ * to belong to and are dropped. Runs once: the old keys are removed.
+ */
+function seedSprayersFromTankPresets(): SprayerProfile[] {
+  const presets = loadJSON<number[]>(KEYS.legacyTankPresets);
+  localStorage.removeItem(KEYS.legacyTankPresets);
+  localStorage.removeItem(KEYS.legacyCarrierPresets);
+  if (!presets || presets.join() === DEFAULT_TANK_PRESETS.join()) return [];
+
+  const createdAt = new Date().toISOString();
+  const sprayers: SprayerProfile[] = presets.map((size) => ({
+    id: `sprayer-tank-${size}`,
+    name: `${size} gal tank`,
+    tankSize: size,
+    boomWidth: 0,
+    nozzleType: '',
+    nozzleCount: 0,
+    pressure: 0,
+    calibratedGpa: 0,
+    createdAt,
+  }));
+  saveJSON(KEYS.sprayers, sprayers);
   if (supabaseConfigured) {
-    supabase.from('settings').upsert({ key: 'tank_presets', value: presets }).then(
-      ({ error }) => { if (error) console.error('Supabase settings sync error:', error.message); },
-      (err) => console.error('Supabase settings network error:', err)
+    supabase.from('sprayers').upsert(sprayers.map((sp) => toSnakeCase(sp as any))).then(
+      ({ error }) => { if (error) console.error('Supabase sprayers sync error:', error.message); },
+      (err) => console.error('Supabase sprayers network error:', err)
     );
   }
+  return sprayers;
+}
+
+function loadSprayers(): SprayerProfile[] {
+  return loadJSON<SprayerProfile[]>(KEYS.sprayers) || seedSprayersFromTankPresets();
 }
 
-// --- Carrier Rate Presets ---
-export async function getCarrierPresets(): Promise<number[]> {
+export async function getSprayers(): Promise<SprayerProfile[]> {
   if (!supabaseConfigured) {
-    return loadJSON<number[]>(KEYS.carrierPresets) || DEFAULT_CARRIER_PRESETS;
+    return loadSprayers();
   }
   try {
-    const { data } = await supabase
-      .from('settings')
-      .select('value')
-      .eq('key', 'carrier_presets')
-      .single();
-    if (data?.value) {
-      saveJSON(KEYS.carrierPresets, data.value);
-      return data.value as number[];
+    const { data, error } = await supabase.from('sprayers').select('*');
+    if (error || !data) {
+      return loadSprayers();
     }
-    return loadJSON<number[]>(KEYS.carrierPresets) || DEFAULT_CARRIER_PRESETS;
+    if (data.length > 0) {
+      const sprayers = data.map((row) => toCamelCase(row) as unknown as SprayerProfile);
+      saveJSON(KEYS.sprayers, sprayers);
+      return sprayers;
+    }
+    return loadSprayers();
   } catch {
-    return loadJSON<number[]>(KEYS.carrierPresets) || DEFAULT_CARRIER_PRESETS;
+    return loadSprayers();
   }
 }
 
-export async function saveCarrierPresets(presets: number[]): Promise<void> {
-  saveJSON(KEYS.carrierPresets, presets);
+export async function saveSprayer(sprayer: SprayerProfile): Promise<void> {
+  const cached = loadJSON<SprayerProfile[]>(KEYS.sprayers) || [];
+  const idx = cached.findIndex((s) => s.id === sprayer.id);
+  if (idx >= 0) cached[idx] = sprayer;
+  else cached.push(sprayer);
+  saveJSON(KEYS.sprayers, cached);
   if (supabaseConfigured) {
-    supabase.from('settings').upsert({ key: 'carrier_presets', value: presets }).then(
-      ({ error }) => { if (error) console.error('Supabase settings sync error:', error.message); },
-      (err) => console.error('Supabase settings network error:', err)
+    const row = toSnakeCase(sprayer as any);
+    supabase.from('sprayers').upsert(row).then(
+      ({ error }) => { if (error) console.error('Supabase sprayers sync error:', error.message); },
+      (err) => console.error('Supabase sprayers network error:', err)
+    );
+  }
+}
+
+export async function deleteSprayer(id: string): Promise<void> {
+  const cached = (loadJSON<SprayerProfile[]>(KEYS.sprayers) || []).filter((s) => s.id !== id);
+  saveJSON(KEYS.sprayers, cached);
+  if (supabaseConfigured) {
+    supabase.from('sprayers').delete().eq('id', id).then(
+      ({ error }) => { if (error) console.error('Supabase sprayers delete error:', error.message); },
+      (err) => console.error('Supabase sprayers network error:', err)
     );
   }
 }
@@ -417,7 +488,12 @@ export async function getRecords(): Promise<SprayRecord[]> {
   }
 }
 
-export async function saveRecord(record: SprayRecord): Promise<void> {
+/**
+ * Saves a record and deducts its products from inventory. Pass
+ * `deductInventory: false` for historical records (e.g. imports) that were
+ * sprayed before their stock was ever received here.
+ */
+export async function saveRecord(record: SprayRecord, options: { deductInventory?: boolean } = {}): Promise<void> {
   const cached = loadJSON<SprayRecord[]>(KEYS.records) || [];
   const idx = cached.findIndex((r) => r.id === record.id);
   if (idx >= 0) cached[idx] = record;
@@ -430,6 +506,10 @@ export async function saveRecord(record: SprayRecord): Promise<void> {
       (err) => console.error('Supabase records network error:', err)
     );
   }
+  if (options.deductInventory === false) return;
+  const products = loadProducts() || DEFAULT_PRODUCTS;
+  const trackedSince = getTrackingStartDates(loadJSON<InventoryTransaction[]>(KEYS.inventory) || []);
+  replaceRecordTransactions(record.id, buildApplicationTransactions(record, products, trackedSince));
 }
 
 export async function deleteRecord(id: string): Promise<void> {
@@ -441,6 +521,262 @@ export async function deleteRecord(id: string): Promise<void> {
       (err) => console.error('Supabase records network error:', err)
     );
   }
+  replaceRecordTransactions(id, []);
+}
+
+// --- Product Inventory ---
+export async function getInventoryTransactions(): Promise<InventoryTransaction[]> {
+  if (!supabaseConfigured) {
+    return loadJSON<InventoryTransaction[]>(KEYS.inventory) || [];
+  }
+  try {
+    const { data, error } = await supabase.from('inventory_transactions').select('*');
+    if (error || !data) {
+      return loadJSON<InventoryTransaction[]>(KEYS.inventory) || [];
+    }
+    if (data.length > 0) {
+      const transactions = data.map((row) => toCamelCase(row) as unknown as InventoryTransaction);
+      saveJSON(KEYS.inventory, transactions);
+      return transactions;
+    }
+    return loadJSON<InventoryTransaction[]>(KEYS.inventory) || [];
+  } catch {
+    return loadJSON<InventoryTransaction[]>(KEYS.inventory) || [];
+  }
+}
+
+export async function saveInventoryTransaction(transaction: InventoryTransaction): Promise<void> {
+  const cached = loadJSON<InventoryTransaction[]>(KEYS.inventory) || [];
+  const idx = cached.findIndex((t) => t.id === transaction.id);
+  if (idx >= 0) cached[idx] = transaction;
+  else cached.push(transaction);
+  saveJSON(KEYS.inventory, cached);
+  if (supabaseConfigured) {
+    const row = toSnakeCase(transaction as any);
+    supabase.from('inventory_transactions').upsert(row).then(
+      ({ error }) => { if (error) console.error('Supabase inventory sync error:', error.message); },
+      (err) => console.error('Supabase inventory network error:', err)
+    );
+  }
+}
+
+export async function deleteInventoryTransaction(id: string): Promise<void> {
+  const cached = (loadJSON<InventoryTransaction[]>(KEYS.inventory) || []).filter((t) => t.id !== id);
+  saveJSON(KEYS.inventory, cached);
+  if (supabaseConfigured) {
+    supabase.from('inventory_transactions').delete().eq('id', id).then(
+      ({ error }) => { if (error) console.error('Supabase inventory delete error:', error.message); },
+      (err) => console.error('Supabase inventory network error:', err)
+    );
+  }
+}
+
+/**
+ * Replace the ledger entries generated by a spray record so editing a
+ * record re-deducts its products instead of deducting twice.
+ */
+function replaceRecordTransactions(recordId: string, transactions: InventoryTransaction[]): void {
+  const cached = (loadJSON<InventoryTransaction[]>(KEYS.inventory) || []).filter((t) => t.recordId !== recordId);
+  saveJSON(KEYS.inventory, [...cached, ...transactions]);
+  if (supabaseConfigured) {
+    supabase.from('inventory_transactions').delete().eq('record_id', recordId)
+      .then(({ error }) => {
+        if (error) throw error;
+        if (transactions.length === 0) return;
+        const rows = transactions.map((t) => toSnakeCase(t as any));
+        return supabase.from('inventory_transactions').insert(rows).then(({ error: insertError }) => {
+          if (insertError) console.error('Supabase inventory sync error:', insertError.message);
+        });
+      })
+      .then(undefined, (err) => console.error('Supabase inventory sync error:', err?.message || err));
+  }
+}
+
+// --- Planned Jobs ---
+export async function getPlannedJobs(): Promise<PlannedJob[]> {
+  if (!supabaseConfigured) {
+    return loadJSON<PlannedJob[]>(KEYS.plannedJobs) || [];
+  }
+  try {
+    const { data, error } = await supabase.from('planned_jobs').select('*');
+    if (error || !data) {
+      return loadJSON<PlannedJob[]>(KEYS.plannedJobs) || [];
+    }
+    if (data.length > 0) {
+      const jobs = data.map((row) => toCamelCase(row) as unknown as PlannedJob);
+      saveJSON(KEYS.plannedJobs, jobs);
+      return jobs;
+    }
+    return loadJSON<PlannedJob[]>(KEYS.plannedJobs) || [];
+  } catch {
+    return loadJSON<PlannedJob[]>(KEYS.plannedJobs) || [];
+  }
+}
+
+export async function savePlannedJob(job: PlannedJob): Promise<void> {
+  const cached = loadJSON<PlannedJob[]>(KEYS.plannedJobs) || [];
+  const idx = cached.findIndex((j) => j.id === job.id);
+  if (idx >= 0) cached[idx] = job;
+  else cached.push(job);
+  saveJSON(KEYS.plannedJobs, cached);
+  if (supabaseConfigured) {
+    const row = toSnakeCase(job as any);
+    supabase.from('planned_jobs').upsert(row).then(
+      ({ error }) => { if (error) console.error('Supabase planned jobs sync error:', error.message); },
+      (err) => console.error('Supabase planned jobs network error:', err)
+    );
+  }
+}
+
+export async function deletePlannedJob(id: string): Promise<void> {
+  const cached = (loadJSON<PlannedJob[]>(KEYS.plannedJobs) || []).filter((j) => j.id !== id);
+  saveJSON(KEYS.plannedJobs, cached);
+  if (supabaseConfigured) {
+    supabase.from('planned_jobs').delete().eq('id', id).then(
+      ({ error }) => { if (error) console.error('Supabase planned jobs delete error:', error.message); },
+      (err) => console.error('Supabase planned jobs network error:', err)
+    );
+  }
+}
+
+// --- Tank-Mix Recipes ---
+export async function getRecipes(): Promise<TankMixRecipe[]> {
+  if (!supabaseConfigured) {
+    return loadJSON<TankMixRecipe[]>(KEYS.recipes) || [];
+  }
+  try {
+    const { data, error } = await supabase.from('tank_mix_recipes').select('*');
+    if (error || !data) {
+      return loadJSON<TankMixRecipe[]>(KEYS.recipes) || [];
+    }
+    if (data.length > 0) {
+      const recipes = data.map((row) => toCamelCase(row) as unknown as TankMixRecipe);
+      saveJSON(KEYS.recipes, recipes);
+      return recipes;
+    }
+    return loadJSON<TankMixRecipe[]>(KEYS.recipes) || [];
+  } catch {
+    return loadJSON<TankMixRecipe[]>(KEYS.recipes) || [];
+  }
+}
+
+export async function saveRecipe(recipe: TankMixRecipe): Promise<void> {
+  const cached = loadJSON<TankMixRecipe[]>(KEYS.recipes) || [];
+  const idx = cached.findIndex((r) => r.id === recipe.id);
+  if (idx >= 0) cached[idx] = recipe;
+  else cached.push(recipe);
+  saveJSON(KEYS.recipes, cached);
+  if (supabaseConfigured) {
+    const row = toSnakeCase(recipe as any);
+    supabase.from('tank_mix_recipes').upsert(row).then(
+      ({ error }) => { if (error) console.error('Supabase recipe sync error:', error.message); },
+      (err) => console.error('Supabase recipe network error:', err)
+    );
+  }
+}
+
+export async function deleteRecipe(id: string): Promise<void> {
+  const cached = (loadJSON<TankMixRecipe[]>(KEYS.recipes) || []).filter((r) => r.id !== id);
+  saveJSON(KEYS.recipes, cached);
+  if (supabaseConfigured) {
+    supabase.from('tank_mix_recipes').delete().eq('id', id).then(
+      ({ error }) => { if (error) console.error('Supabase recipe delete error:', error.message); },
+      (err) => console.error('Supabase recipe network error:', err)
+    );
+  }
+}
+
+// --- Tank-Mix Compatibility Rules ---
+export async function getCompatibilityRules(): Promise<CompatibilityRule[]> {
+  if (!supabaseConfigured) {
+    return loadJSON<CompatibilityRule[]>(KEYS.compatibilityRules) || DEFAULT_COMPATIBILITY_RULES;
+  }
+  try {
+    const { data } = await supabase
+      .from('settings')
+      .select('value')
+      .eq('key', 'compatibility_rules')
+      .single();
+    if (data?.value) {
+      saveJSON(KEYS.compatibilityRules, data.value);
+      return data.value as CompatibilityRule[];
+    }
+    return loadJSON<CompatibilityRule[]>(KEYS.compatibilityRules) || DEFAULT_COMPATIBILITY_RULES;
+  } catch {
+    return loadJSON<CompatibilityRule[]>(KEYS.compatibilityRules) || DEFAULT_COMPATIBILITY_RULES;
+  }
+}
+
+export async function saveCompatibilityRules(rules: CompatibilityRule[]): Promise<void> {
+  saveJSON(KEYS.compatibilityRules, rules);
+  if (supabaseConfigured) {
+    supabase.from('settings').upsert({ key: 'compatibility_rules', value: rules }).then(
+      ({ error }) => { if (error) console.error('Supabase settings sync error:', error.message); },
+      (err) => console.error('Supabase settings network error:', err)
+    );
+  }
+}
+
+// --- Mode-of-Action Rotation Settings ---
+export async function getMoaSettings(): Promise<MoaSettings> {
+  if (!supabaseConfigured) {
+    return loadJSON<MoaSettings>(KEYS.moaSettings) || DEFAULT_MOA_SETTINGS;
+  }
+  try {
+    const { data } = await supabase
+      .from('settings')
+      .select('value')
+      .eq('key', 'moa_settings')
+      .single();
+    if (data?.value) {
+      saveJSON(KEYS.moaSettings, data.value);
+      return data.value as MoaSettings;
+    }
+    return loadJSON<MoaSettings>(KEYS.moaSettings) || DEFAULT_MOA_SETTINGS;
+  } catch {
+    return loadJSON<MoaSettings>(KEYS.moaSettings) || DEFAULT_MOA_SETTINGS;
+  }
+}
+
+export async function saveMoaSettings(settings: MoaSettings): Promise<void> {
+  saveJSON(KEYS.moaSettings, settings);
+  if (supabaseConfigured) {
+    supabase.from('settings').upsert({ key: 'moa_settings', value: settings }).then(
+      ({ error }) => { if (error) console.error('Supabase settings sync error:', error.message); },
+      (err) => console.error('Supabase settings network error:', err)
+    );
+  }
+}
+
+// --- Planned vs. Applied Variance Settings ---
+export async function getVarianceSettings(): Promise<VarianceSettings> {
+  if (!supabaseConfigured) {
+    return loadJSON<VarianceSettings>(KEYS.varianceSettings) || DEFAULT_VARIANCE_SETTINGS;
+  }
+  try {
+    const { data } = await supabase
+      .from('settings')
+      .select('value')
+      .eq('key', 'variance_settings')
+      .single();
+    if (data?.value) {
+      saveJSON(KEYS.varianceSettings, data.value);
+      return data.value as VarianceSettings;
+    }
+    return loadJSON<VarianceSettings>(KEYS.varianceSettings) || DEFAULT_VARIANCE_SETTINGS;
+  } catch {
+    return loadJSON<VarianceSettings>(KEYS.varianceSettings) || DEFAULT_VARIANCE_SETTINGS;
+  }
+}
+
+export async function saveVarianceSettings(settings: VarianceSettings): Promise<void> {
+  saveJSON(KEYS.varianceSettings, settings);
+  if (supabaseConfigured) {
+    supabase.from('settings').upsert({ key: 'variance_settings', value: settings }).then(
+      ({ error }) => { if (error) console.error('Supabase settings sync error:', error.message); },
+      (err) => console.error('Supabase settings network error:', err)
+    );
+  }
 }
 
 // --- Tender Routes ---
@@ -550,6 +886,84 @@ export async function replaceAllPins(pins: SavedPin[]): Promise<void> {
   }
 }
 
+// --- Sensitive Sites ---
+export async function getSensitiveSites(): Promise<SensitiveSite[]> {
+  if (!supabaseConfigured) {
+    return loadJSON<SensitiveSite[]>(KEYS.sensitiveSites) || [];
+  }
+  try {
+    const { data, error } = await supabase.from('sensitive_sites').select('*');
+    if (error || !data) {
+      return loadJSON<SensitiveSite[]>(KEYS.sensitiveSites) || [];
+    }
+    if (data.length > 0) {
+      const sites = data.map((row) => toCamelCase(row) as unknown as SensitiveSite);
+      saveJSON(KEYS.sensitiveSites, sites);
+      return sites;
+    }
+    return loadJSON<SensitiveSite[]>(KEYS.sensitiveSites) || [];
+  } catch {
+    return loadJSON<SensitiveSite[]>(KEYS.sensitiveSites) || [];
+  }
+}
+
+export async function saveSensitiveSite(site: SensitiveSite): Promise<void> {
+  const cached = loadJSON<SensitiveSite[]>(KEYS.sensitiveSites) || [];
+  const idx = cached.findIndex((s) => s.id === site.id);
+  if (idx >= 0) cached[idx] = site;
+  else cached.push(site);
+  saveJSON(KEYS.sensitiveSites, cached);
+  if (supabaseConfigured) {
+    const row = toSnakeCase(site as any);
+    supabase.from('sensitive_sites').upsert(row).then(
+      ({ error }) => { if (error) console.error('Supabase sensitive sites sync error:', error.message); },
+      (err) => console.error('Supabase sensitive sites network error:', err)
+    );
+  }
+}
+
+export async function deleteSensitiveSite(id: string): Promise<void> {
+  const cached = (loadJSON<SensitiveSite[]>(KEYS.sensitiveSites) || []).filter((s) => s.id !== id);
+  saveJSON(KEYS.sensitiveSites, cached);
+  if (supabaseConfigured) {
+    supabase.from('sensitive_sites').delete().eq('id', id).then(
+      ({ error }) => { if (error) console.error('Supabase sensitive sites delete error:', error.message); },
+      (err) => console.error('Supabase sensitive sites network error:', err)
+    );
+  }
+}
+
+// --- Drift Buffer Settings ---
+export async function getBufferSettings(): Promise<BufferSettings> {
+  if (!supabaseConfigured) {
+    return loadJSON<BufferSettings>(KEYS.bufferSettings) || DEFAULT_BUFFER_SETTINGS;
+  }
+  try {
+    const { data } = await supabase
+      .from('settings')
+      .select('value')
+      .eq('key', 'buffer_settings')
+      .single();
+    if (data?.value) {
+      saveJSON(KEYS.bufferSettings, data.value);
+      return data.value as BufferSettings;
+    }
+    return loadJSON<BufferSettings>(KEYS.bufferSettings) || DEFAULT_BUFFER_SETTINGS;
+  } catch {
+    return loadJSON<BufferSettings>(KEYS.bufferSettings) || DEFAULT_BUFFER_SETTINGS;
+  }
+}
+
+export async function saveBufferSettings(settings: BufferSettings): Promise<void> {
+  saveJSON(KEYS.bufferSettings, settings);
+  if (supabaseConfigured) {
+    supabase.from('settings').upsert({ key: 'buffer_settings', value: settings }).then(
+      ({ error }) => { if (error) console.error('Supabase settings sync error:', error.message); },
+      (err) => console.error('Supabase settings network error:', err)
+    );
+  }
+}
+
 // --- Farm Location ---
 export async function getFarmLocation(): Promise<LocationData> {
   if (!supabaseConfigured) {
@@ -596,6 +1010,16 @@ export function saveCropYear(year: string): void {
   saveJSON(KEYS.cropYear, year);
 }
 
+// --- Active Weather Log (this device only, until saved to a record) ---
+export function getActiveWeatherLog(): ActiveWeatherLog | null {
+  return loadJSON<ActiveWeatherLog>(KEYS.activeWeatherLog);
+}
+
+export function saveActiveWeatherLog(log: ActiveWeatherLog | null): void {
+  if (log) saveJSON(KEYS.activeWeatherLog, log);
+  else localStorage.removeItem(KEYS.activeWeatherLog);
+}
+
 // --- Applicators ---
 export async function getApplicators(): Promise<Applicator[]> {
   if (!supabaseConfigured) {
@@ -706,22 +1130,6 @@ export async function migrateLocalStorageToSupabase(): Promise<boolean> {
     else migrated = true;
   }
 
-  // Tank Presets
-  const tankPresets = loadJSON<number[]>(KEYS.tankPresets);
-  if (tankPresets) {
-    const { error } = await supabase.from('settings').upsert({ key: 'tank_presets', value: tankPresets });
-    if (error) { console.error('Migration: tank_presets failed', error); anyError = true; }
-    else migrated = true;
-  }
-
-  // Carrier Presets
-  const carrierPresets = loadJSON<number[]>(KEYS.carrierPresets);
-  if (carrierPresets) {
-    const { error } = await supabase.from('settings').upsert({ key: 'carrier_presets', value: carrierPresets });
-    if (error) { console.error('Migration: carrier_presets failed', error); anyError = true; }
-    else migrated = true;
-  }
-
   // Farm Location
   const farmLoc = loadJSON<LocationData>(KEYS.farmLocation);
   if (farmLoc) {
@@ -0,0 +1,56 @@
+import { SprayRecordProduct } from '../types';
+import { buildPlannedApplication, computeRecordVariance, isVarianceFlagged } from './variance';
+
+const products: SprayRecordProduct[] = [
+  { productId: 'p1', productName: 'Roundup PowerMAX', rate: 32, unit: 'fl oz / acre', rateBasis: 'per_acre', totalAmount: 20 },
+  { productId: 'p2', productName: 'AMS', rate: 17, unit: 'lbs / 100 gal water', rateBasis: 'per_100_gal', totalAmount: 204 },
+];
+
+const planned = buildPlannedApplication(80, 15, 1200, products);
+
+describe('computeRecordVariance', () => {
+  it('returns null for records without a plan', () => {
+    expect(computeRecordVariance({ products, acres: 80, carrierRate: 15 })).toBeNull();
+  });
+
+  it('shows no variance when applied as planned', () => {
+    const variance = computeRecordVariance({ planned, products, acres: 80, carrierRate: 15 })!;
+    expect(variance.lines.map((l) => l.percent)).toEqual([0, 0, 0]);
+    expect(variance.products.map((l) => l.percent)).toEqual([0, 0]);
+    expect(isVarianceFlagged(variance, { thresholdPercent: 10 })).toBe(false);
+  });
+
+  it('scales per-acre rates with the carrier actually applied', () => {
+    // 1320 gal loaded, none left: 16.5 gal/ac instead of 15
+    const variance = computeRecordVariance({ planned, products, acres: 80, carrierRate: 15, actualVolume: 1320 })!;
+    const carrier = variance.lines.find((l) => l.label === 'Carrier rate')!;
+    expect(carrier.applied).toBe(16.5);
+    expect(carrier.percent).toBe(10);
+
+    const [roundup, ams] = variance.products;
+    expect(roundup.applied).toBe(35.2);
+    expect(roundup.percent).toBe(10);
+    // Per-100-gal rates are concentrations and don't scale
+    expect(ams.percent).toBe(0);
+  });
+
+  it('subtracts leftover from the loaded volume', () => {
+    const variance = computeRecordVariance({
+      planned, products, acres: 80, carrierRate: 15, actualVolume: 1300, leftoverVolume: 100,
+    })!;
+    expect(variance.lines.find((l) => l.label === 'Spray volume')!.applied).toBe(1200);
+  });
+
+  it('flags the rate furthest from plan', () => {
+    const edited = [{ ...products[0], rate: 24 }, products[1]];
+    const variance = computeRecordVariance({ planned, products: edited, acres: 80, carrierRate: 15 })!;
+    expect(variance.worstRate.label).toBe('Roundup PowerMAX');
+    expect(variance.worstRate.percent).toBe(-25);
+    expect(isVarianceFlagged(variance, { thresholdPercent: 10 })).toBe(true);
+  });
+
+  it('treats a planned product missing from the record as not applied', () => {
+    const variance = computeRecordVariance({ planned, products: [products[1]], acres: 80, carrierRate: 15 })!;
+    expect(variance.products[0]).toMatchObject({ applied: 0, percent: -100 });
+  });
+});
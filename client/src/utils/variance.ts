@@ -0,0 +1,128 @@
+import { PlannedApplication, SprayRecord, SprayRecordProduct, VarianceSettings } from '../types';
+
+export const DEFAULT_VARIANCE_SETTINGS: VarianceSettings = {
+  thresholdPercent: 10,
+};
+
+export interface VarianceLine {
+  label: string;
+  planned: number;
+  applied: number;
+  unit: string;
+  percent: number;        // applied vs. planned, signed
+}
+
+export interface RecordVariance {
+  lines: VarianceLine[];      // acres, spray volume, carrier rate
+  products: VarianceLine[];   // applied rate per planned product
+  worstRate: VarianceLine;    // carrier or product rate furthest from plan
+}
+
+function round(value: number, digits = 2): number {
+  const f = Math.pow(10, digits);
+  return Math.round(value * f) / f;
+}
+
+function percentChange(planned: number, applied: number): number {
+  if (planned <= 0) return 0;
+  return round(((applied - planned) / planned) * 100, 1);
+}
+
+export function formatVariancePercent(percent: number): string {
+  return `${percent > 0 ? '+' : ''}${percent.toFixed(1)}%`;
+}
+
+/** Capture the calculated mix so the record can be compared against it later. */
+export function buildPlannedApplication(
+  acres: number,
+  carrierRate: number,
+  totalVolume: number,
+  products: SprayRecordProduct[]
+): PlannedApplication {
+  return {
+    acres,
+    carrierRate,
+    totalVolume,
+    products: products.map((p) => ({
+      productId: p.productId,
+      productName: p.productName,
+      rate: p.rate,
+      unit: p.unit,
+      rateBasis: p.rateBasis,
+      totalAmount: p.totalAmount,
+    })),
+  };
+}
+
+/**
+ * Gallons of spray actually applied: loaded minus leftover when measured,
+ * otherwise the record's carrier rate over its acres.
+ */
+export function getAppliedVolume(record: Pick<SprayRecord, 'actualVolume' | 'leftoverVolume' | 'carrierRate' | 'acres'>): number {
+  if (record.actualVolume !== undefined) {
+    return Math.max(0, record.actualVolume - (record.leftoverVolume || 0));
+  }
+  return record.carrierRate * record.acres;
+}
+
+/**
+ * Compare a record with the plan it was saved from. Returns null for records
+ * entered by hand.
+ *
+ * Products are mixed at the record's rate for its carrier rate, so per-acre
+ * products are delivered in proportion to the carrier actually applied.
+ * Per-100-gal rates are concentrations and don't scale.
+ */
+export function computeRecordVariance(
+  record: Pick<SprayRecord, 'planned' | 'products' | 'acres' | 'carrierRate' | 'actualVolume' | 'leftoverVolume'>
+): RecordVariance | null {
+  const plan = record.planned;
+  if (!plan) return null;
+
+  const appliedVolume = getAppliedVolume(record);
+  const appliedCarrierRate = record.acres > 0 ? appliedVolume / record.acres : 0;
+  const deliveryFactor = record.carrierRate > 0 ? appliedCarrierRate / record.carrierRate : 1;
+
+  const lines: VarianceLine[] = [
+    { label: 'Acres', planned: plan.acres, applied: record.acres, unit: 'ac', percent: percentChange(plan.acres, record.acres) },
+    {
+      label: 'Spray volume',
+      planned: round(plan.totalVolume, 1),
+      applied: round(appliedVolume, 1),
+      unit: 'gal',
+      percent: percentChange(plan.totalVolume, appliedVolume),
+    },
+    {
+      label: 'Carrier rate',
+      planned: plan.carrierRate,
+      applied: round(appliedCarrierRate),
+      unit: 'gal/ac',
+      percent: percentChange(plan.carrierRate, appliedCarrierRate),
+    },
+  ];
+
+  const products: VarianceLine[] = plan.products.map((pp) => {
+    const name = pp.productName.trim().toLowerCase();
+    const rp = record.products.find((p) =>
+      (pp.productId && p.productId === pp.productId) || p.productName.trim().toLowerCase() === name
+    );
+    const applied = !rp ? 0 : rp.rateBasis === 'per_100_gal' ? rp.rate : rp.rate * deliveryFactor;
+    return {
+      label: pp.productName,
+      planned: pp.rate,
+      applied: round(applied),
+      unit: pp.unit,
+      percent: percentChange(pp.rate, applied),
+    };
+  });
+
+  const worstRate = products.reduce(
+    (worst, l) => (Math.abs(l.percent) > Math.abs(worst.percent) ? l : worst),
+    lines[2]
+  );
+  return { lines, products, worstRate };
+}
+
+export function isVarianceFlagged(variance: RecordVariance | null, settings: VarianceSettings): boolean {
+  return !!variance && Math.abs(variance.worstRate.percent) > settings.thresholdPercent;
+}
@@ -0,0 +1,59 @@
+import { WeatherObservation } from '../types';
+import { snapshotFromLog, summarizeWeatherLog } from './weatherLog';
+
+function obs(time: string, windSpeed: number, driftRisk: WeatherObservation['driftRisk'], windGust?: number): WeatherObservation {
+  return {
+    timestamp: `2025-05-12T${time}:00.000Z`,
+    temperature: 70 + windSpeed / 10,
+    humidity: 55,
+    windSpeed,
+    windGust,
+    windDirection: 'SW',
+    driftRisk,
+    sprayRecommendation: 'acceptable',
+    source: 'NWS',
+  };
+}
+
+describe('summarizeWeatherLog', () => {
+  it('returns null for an empty log', () => {
+    expect(summarizeWeatherLog([])).toBeNull();
+  });
+
+  it('reports the wind range and span of the log', () => {
+    const summary = summarizeWeatherLog([obs('14:30', 9, 'moderate', 14), obs('14:00', 4, 'low'), obs('14:15', 6, 'low')])!;
+    expect(summary).toMatchObject({
+      observations: 3,
+      start: '2025-05-12T14:00:00.000Z',
+      end: '2025-05-12T14:30:00.000Z',
+      minWind: 4,
+      maxWind: 9,
+      maxGust: 14,
+      excursions: [],
+    });
+  });
+
+  it('groups consecutive high-risk observations into excursions', () => {
+    const summary = summarizeWeatherLog([
+      obs('14:00', 5, 'low'),
+      obs('14:15', 11, 'high'),
+      obs('14:30', 14, 'extreme'),
+      obs('14:45', 6, 'moderate'),
+      obs('15:00', 12, 'high'),
+    ])!;
+    expect(summary.maxGust).toBeNull();
+    expect(summary.excursions).toEqual([
+      { start: '2025-05-12T14:15:00.000Z', end: '2025-05-12T14:30:00.000Z', peakRisk: 'extreme', maxWind: 14, observations: 2 },
+      { start: '2025-05-12T15:00:00.000Z', end: '2025-05-12T15:00:00.000Z', peakRisk: 'high', maxWind: 12, observations: 1 },
+    ]);
+  });
+});
+
+describe('snapshotFromLog', () => {
+  it('uses the first observation', () => {
+    expect(snapshotFromLog([obs('14:00', 4, 'low'), obs('14:15', 6, 'low')])).toEqual({
+      temperature: 70.4, humidity: 55, windSpeed: 4, windDirection: 'SW', source: 'NWS',
+    });
+    expect(snapshotFromLog([])).toBeUndefined();
+  });
+});
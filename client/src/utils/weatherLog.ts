@@ -0,0 +1,97 @@
+import { SprayRecord, WeatherObservation } from '../types';
+import { WeatherData } from './weatherService';
+
+// How often weather is polled while a job is in progress
+export const WEATHER_LOG_INTERVAL_MINUTES = 15;
+
+// Drift risk levels recorded as excursions on the audit trail
+export const EXCURSION_RISKS: WeatherObservation['driftRisk'][] = ['high', 'extreme'];
+
+export function toWeatherObservation(weather: WeatherData, timestamp: string = new Date().toISOString()): WeatherObservation {
+  const round = (n: number) => Math.round(n * 10) / 10;
+  return {
+    timestamp,
+    temperature: round(weather.temperature),
+    humidity: Math.round(weather.humidity),
+    windSpeed: round(weather.windSpeed),
+    windGust: weather.windGust ? round(weather.windGust) : undefined,
+    windDirection: weather.windDirection,
+    driftRisk: weather.driftRisk,
+    sprayRecommendation: weather.sprayRecommendation,
+    source: weather.source,
+  };
+}
+
+/** The record's single weather snapshot, taken from the first observation. */
+export function snapshotFromLog(log: WeatherObservation[]): SprayRecord['weather'] {
+  if (log.length === 0) return undefined;
+  const { temperature, humidity, windSpeed, windDirection, source } = log[0];
+  return { temperature, humidity, windSpeed, windDirection, source };
+}
+
+export interface DriftExcursion {
+  start: string;            // first observation at high risk or worse
+  end: string;              // last consecutive one
+  peakRisk: WeatherObservation['driftRisk'];
+  maxWind: number;
+  observations: number;
+}
+
+export interface WeatherLogSummary {
+  observations: number;
+  start: string;
+  end: string;
+  minWind: number;
+  maxWind: number;
+  maxGust: number | null;
+  minTemperature: number;
+  maxTemperature: number;
+  excursions: DriftExcursion[];
+}
+
+/** Wind range and runs of consecutive high-risk observations. Null for an empty log. */
+export function summarizeWeatherLog(log: WeatherObservation[]): WeatherLogSummary | null {
+  if (log.length === 0) return null;
+  const sorted = [...log].sort((a, b) => Date.parse(a.timestamp) - Date.parse(b.timestamp));
+
+  const excursions: DriftExcursion[] = [];
+  let current: DriftExcursion | null = null;
+  for (const obs of sorted) {
+    if (!EXCURSION_RISKS.includes(obs.driftRisk)) {
+      current = null;
+      continue;
+    }
+    if (!current) {
+      current = { start: obs.timestamp, end: obs.timestamp, peakRisk: obs.driftRisk, maxWind: obs.windSpeed, observations: 0 };
+      excursions.push(current);
+    }
+    current.end = obs.timestamp;
+    current.observations += 1;
+    current.maxWind = Math.max(current.maxWind, obs.windSpeed);
+    if (obs.driftRisk === 'extreme') current.peakRisk = 'extreme';
+  }
+
+  const winds = sorted.map((o) => o.windSpeed);
+  const gusts = sorted.map((o) => o.windGust).filter((g): g is number => g != null);
+  const temps = sorted.map((o) => o.temperature);
+  return {
+    observations: sorted.length,
+    start: sorted[0].timestamp,
+    end: sorted[sorted.length - 1].timestamp,
+    minWind: Math.min(...winds),
+    maxWind: Math.max(...winds),
+    maxGust: gusts.length > 0 ? Math.max(...gusts) : null,
+    minTemperature: Math.min(...temps),
+    maxTemperature: Math.max(...temps),
+    excursions,
+  };
+}
+
+/** "HH:MM" local time, as used for a record's start and end times. */
+export function toClockTime(iso: string): string {
+  const d = new Date(iso);
+  return `${String(d.getHours()).padStart(2, '0')}:${String(d.getMinutes()).padStart(2, '0')}`;
+}
+
+export const formatLogTime = (iso: string) =>
+  new Date(iso).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' });
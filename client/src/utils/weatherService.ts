@@ -1,3 +1,20 @@
+import {
+  calculateDeltaT,
+  estimateInversion,
+  getDeltaTBand,
+  InversionEstimate,
+  TemperatureReading,
+} from './sprayConditions';
+import { calculateCentroid } from './importService';
+import { Field } from '../types';
+
+// Source label on placeholder data returned when every weather API fails
+export const MOCK_WEATHER_SOURCE = 'Mock Weather Service';
+
+export function isMockWeather(weather: Pick<WeatherData, 'source'>): boolean {
+  return weather.source === MOCK_WEATHER_SOURCE;
+}
+
 export interface LocationData {
   latitude: number;
   longitude: number;
@@ -27,7 +44,10 @@ export interface WeatherData {
   timestamp: string;
   driftRisk: 'low' | 'moderate' | 'high' | 'extreme';
   sprayRecommendation: 'optimal' | 'acceptable' | 'caution' | 'avoid';
-  temperatureInversion: boolean;
+  temperatureInversion: boolean;     // inversion likely
+  inversion: InversionEstimate;
+  deltaT: number | null;             // °C, dry bulb minus wet bulb
+  cloudCover?: number;               // percent
   gustFactor: number;
   location: LocationData;
   source: string;
@@ -38,15 +58,6 @@ export interface WeatherData {
   stationId?: string;
 }
 
-export interface FieldLocation {
-  id: string;
-  name: string;
-  latitude: number;
-  longitude: number;
-  elevation: number;
-  microclimate?: string; // 'sheltered', 'exposed', 'valley', 'hilltop'
-}
-
 export interface DriftAssessment {
   overall: 'low' | 'moderate' | 'high' | 'extreme';
   factors: {
@@ -55,10 +66,38 @@ export interface DriftAssessment {
     temperature: { score: number; impact: string };
     humidity: { score: number; impact: string };
     inversion: { score: number; impact: string };
+    deltaT: { score: number; impact: string };
   };
   recommendations: string[];
 }
 
+export const DRIFT_FACTOR_LABELS: Record<keyof DriftAssessment['factors'], string> = {
+  wind: 'Wind',
+  gusts: 'Gusts',
+  temperature: 'Temperature',
+  humidity: 'Humidity',
+  inversion: 'Inversion',
+  deltaT: 'Delta-T',
+};
+
+export interface ForecastHour {
+  time: string;                       // ISO start of the hour
+  temperature: number;
+  humidity: number;
+  dewPoint: number;
+  windSpeed: number;
+  windGust?: number;
+  windDirection: string;
+  precipitation: number;              // inches
+  precipitationProbability?: number;  // percent
+  cloudCover?: number;                // percent
+}
+
+export interface HourlyForecast {
+  source: string;
+  hours: ForecastHour[];
+}
+
 export function getCurrentPosition(): Promise<{ latitude: number; longitude: number } | null> {
   return new Promise((resolve) => {
     if (!navigator.geolocation) {
@@ -91,28 +130,67 @@ export async function geocodeAddress(address: string): Promise<GeocodeResult> {
   return res.json();
 }
 
+function getWeatherDeltaTBand(weather: any) {
+  const deltaT = calculateDeltaT(weather.temperature, weather.humidity, weather.dewPoint);
+  return deltaT != null ? getDeltaTBand(deltaT).band : null;
+}
+
+/** Drift risk points for Delta-T outside the 2–8 °C spray band. */
+function deltaTRiskScore(weather: any): number {
+  const band = getWeatherDeltaTBand(weather);
+  if (band === 'high') return 2;
+  if (band === 'low' || band === 'marginal') return 1;
+  return 0;
+}
+
 export class WeatherService {
 
-  static async getCurrentWeather(coords?: { latitude: number; longitude: number }): Promise<WeatherData> {
+  static async getCurrentWeather(
+    coords?: { latitude: number; longitude: number },
+    history?: TemperatureReading[]
+  ): Promise<WeatherData> {
     try {
       const loc = coords || LocationWeatherService.getFarmLocationSync();
       const response = await fetch(`/api/weather/location?lat=${loc.latitude}&lon=${loc.longitude}`);
       const data = await response.json();
-      return this.enhanceWeatherData(data);
+      return this.enhanceWeatherData(data, history);
     } catch (error) {
       console.error('Weather fetch error:', error);
       return this.getMockWeather();
     }
   }
 
-  static enhanceWeatherData(rawData: any): WeatherData {
+  static async getHourlyForecast(
+    coords?: { latitude: number; longitude: number },
+    hours: number = 48
+  ): Promise<HourlyForecast | null> {
+    try {
+      const loc = coords || LocationWeatherService.getFarmLocationSync();
+      const response = await fetch(`/api/weather/forecast?lat=${loc.latitude}&lon=${loc.longitude}&hours=${hours}`);
+      if (!response.ok) throw new Error(`Forecast API failed (${response.status})`);
+      return await response.json();
+    } catch (error) {
+      console.error('Forecast fetch error:', error);
+      return null;
+    }
+  }
+
+  /**
+   * `history` holds earlier temperature readings for the inversion trend; the
+   * server's own recent observations are added to it.
+   */
+  static enhanceWeatherData(rawData: any, history?: TemperatureReading[]): WeatherData {
     const gustFactor = rawData.windGust ? (rawData.windGust - rawData.windSpeed) : 0;
-    const temperatureInversion = rawData.temperatureInversion || this.detectTemperatureInversion(rawData);
+    const readings: TemperatureReading[] = [...(rawData.recentTemperatures || []), ...(history || [])];
+    const inversion = this.detectTemperatureInversion(rawData, readings);
+    const temperatureInversion = rawData.temperatureInversion || inversion.likelihood === 'likely';
 
     return {
       ...rawData,
       gustFactor,
       temperatureInversion,
+      inversion,
+      deltaT: calculateDeltaT(rawData.temperature, rawData.humidity, rawData.dewPoint),
       location: rawData.location || LocationWeatherService.getFarmLocationSync(),
       elevation: rawData.elevation || 700,
       source: rawData.source || 'Weather Service',
@@ -145,6 +223,8 @@ export class WeatherService {
 
     if (temperatureInversion) riskScore += 3;
 
+    riskScore += deltaTRiskScore(weather);
+
     if (riskScore >= 8) return 'extreme';
     if (riskScore >= 5) return 'high';
     if (riskScore >= 3) return 'moderate';
@@ -156,6 +236,8 @@ export class WeatherService {
     gustFactor: number,
     temperatureInversion: boolean
   ): 'optimal' | 'acceptable' | 'caution' | 'avoid' {
+    const deltaTBand = getWeatherDeltaTBand(weather);
+
     if (weather.windSpeed > 15 ||
         gustFactor > 15 ||
         weather.temperature > 95 ||
@@ -166,26 +248,33 @@ export class WeatherService {
     if (weather.windSpeed > 10 ||
         gustFactor > 8 ||
         weather.temperature > 85 ||
-        weather.humidity < 45) {
+        weather.humidity < 45 ||
+        deltaTBand === 'high' ||
+        deltaTBand === 'low') {
       return 'caution';
     }
 
     if (weather.windSpeed > 7 ||
         gustFactor > 5 ||
         weather.temperature > 80 ||
-        weather.humidity < 55) {
+        weather.humidity < 55 ||
+        deltaTBand === 'marginal') {
       return 'acceptable';
     }
 
     return 'optimal';
   }
 
-  static detectTemperatureInversion(weather: any): boolean {
-    const hour = new Date().getHours();
-    const dewPointSpread = weather.temperature - weather.dewPoint;
-
-    return (hour >= 5 && hour <= 8 && dewPointSpread < 5) ||
-           (weather.windSpeed < 3 && dewPointSpread < 3);
+  static detectTemperatureInversion(weather: any, history?: TemperatureReading[]): InversionEstimate {
+    // Forecast hours carry their own timestamp
+    return estimateInversion({
+      timestamp: weather.timestamp || new Date().toISOString(),
+      temperature: weather.temperature,
+      dewPoint: weather.dewPoint ?? undefined,
+      windSpeed: weather.windSpeed || 0,
+      cloudCover: weather.cloudCover ?? undefined,
+      history,
+    });
   }
 
   static getMockWeather(): WeatherData {
@@ -201,9 +290,11 @@ export class WeatherService {
       driftRisk: 'moderate',
       sprayRecommendation: 'acceptable',
       temperatureInversion: false,
+      inversion: { likelihood: 'unlikely', score: 0, reasons: [] },
+      deltaT: calculateDeltaT(72, 65, 58),
       gustFactor: 4,
       location: LocationWeatherService.getFarmLocationSync(),
-      source: 'Mock Weather Service',
+      source: MOCK_WEATHER_SOURCE,
       elevation: 700
     };
   }
@@ -216,7 +307,8 @@ export class WeatherService {
         gusts: this.assessGustFactor(weather.gustFactor),
         temperature: this.assessTemperatureFactor(weather.temperature),
         humidity: this.assessHumidityFactor(weather.humidity),
-        inversion: this.assessInversionFactor(weather.temperatureInversion)
+        inversion: this.assessInversionFactor(weather.inversion, weather.temperatureInversion),
+        deltaT: this.assessDeltaTFactor(weather.deltaT)
       },
       recommendations: [],
     };
@@ -255,10 +347,24 @@ export class WeatherService {
     return { score: 0, impact: 'Good humidity levels' };
   }
 
-  private static assessInversionFactor(hasInversion: boolean) {
-    return hasInversion
-      ? { score: 4, impact: 'Temperature inversion - avoid spraying' }
-      : { score: 0, impact: 'No inversion detected' };
+  private static assessInversionFactor(inversion: InversionEstimate | undefined, hasInversion: boolean) {
+    if (hasInversion || inversion?.likelihood === 'likely') {
+      return { score: 4, impact: 'Temperature inversion likely - avoid spraying' };
+    }
+    if (inversion?.likelihood === 'possible') {
+      return { score: 2, impact: `Inversion possible (${inversion.reasons.join(', ').toLowerCase()})` };
+    }
+    return { score: 0, impact: 'No inversion expected' };
+  }
+
+  private static assessDeltaTFactor(deltaT: number | null) {
+    if (deltaT == null) return { score: 0, impact: 'Delta-T unavailable' };
+    const { band, description } = getDeltaTBand(deltaT);
+    const impact = `${deltaT}\u00B0C - ${description}`;
+    if (band === 'high') return { score: 3, impact };
+    if (band === 'low') return { score: 2, impact };
+    if (band === 'marginal') return { score: 1, impact };
+    return { score: 0, impact };
   }
 
   private static generateRecommendations(factors: any, weather: WeatherData): string[] {
@@ -287,6 +393,14 @@ export class WeatherService {
 
     if (factors.inversion.score >= 3) {
       recommendations.push('Temperature inversion detected - do not spray');
+    } else if (factors.inversion.score >= 2) {
+      recommendations.push('Inversion possible - watch for smoke or dust hanging low before spraying');
+    }
+
+    if (factors.deltaT.score >= 3) {
+      recommendations.push('Delta-T above 10 - use coarse droplets or spray in a cooler part of the day');
+    } else if (factors.deltaT.score >= 2) {
+      recommendations.push('Delta-T below 2 - fine droplets will linger; use coarser nozzles');
     }
 
     if (weather.gustFactor > 8) {
@@ -308,7 +422,8 @@ export class LocationWeatherService {
     timezone: 'America/New_York'
   };
 
-  private static fieldLocations: FieldLocation[] = [];
+  private static readonly FIELD_WEATHER_TTL_MS = 10 * 60 * 1000;
+  private static fieldWeatherCache = new Map<string, { fetchedAt: number; weather: Promise<WeatherData> }>();
 
   static async setFarmLocation(location: LocationData) {
     const { saveFarmLocation } = await import('./storageService');
@@ -348,42 +463,42 @@ export class LocationWeatherService {
     }
   }
 
-  static async getFieldWeather(fieldId: string): Promise<WeatherData> {
-    const field = this.fieldLocations.find(f => f.id === fieldId);
+  /** A field's pin, or the centroid of its boundary when it has no pin. */
+  static getFieldCoordinates(field: Field): [number, number] | null {
+    if (field.latitude != null && field.longitude != null) return [field.latitude, field.longitude];
+    if (field.boundary && field.boundary.length >= 3) return calculateCentroid(field.boundary);
+    return null;
+  }
+
+  /**
+   * Current weather at a field, adjusted for its microclimate. Fetches are
+   * shared between fields within about half a mile of each other and reused
+   * for ten minutes. Falls back to the farm location for unmapped fields.
+   */
+  static async getFieldWeather(field: Field): Promise<WeatherData> {
+    const coords = this.getFieldCoordinates(field);
+    if (!coords) {
+      return this.adjustForMicroclimate(await this.getCurrentWeatherByLocation(), field);
+    }
 
-    if (field) {
-      const farm = this.getFarmLocationSync();
+    const key = `${coords[0].toFixed(2)},${coords[1].toFixed(2)}`;
+    let cached = this.fieldWeatherCache.get(key);
+    if (!cached || Date.now() - cached.fetchedAt > this.FIELD_WEATHER_TTL_MS) {
       const fieldLocation: LocationData = {
-        latitude: field.latitude,
-        longitude: field.longitude,
-        city: farm.city,
-        state: farm.state,
-        county: farm.county,
-        timezone: farm.timezone
+        ...this.getFarmLocationSync(),
+        latitude: coords[0],
+        longitude: coords[1]
       };
-
-      const weather = await this.getCurrentWeatherByLocation(fieldLocation);
-      return this.adjustForMicroclimate(weather, field);
+      cached = { fetchedAt: Date.now(), weather: this.getCurrentWeatherByLocation(fieldLocation) };
+      this.fieldWeatherCache.set(key, cached);
     }
 
-    return this.getCurrentWeatherByLocation();
-  }
-
-  static addFieldLocation(field: FieldLocation) {
-    this.fieldLocations = [...this.fieldLocations.filter(f => f.id !== field.id), field];
-    localStorage.setItem('fieldLocations', JSON.stringify(this.fieldLocations));
-  }
-
-  static getFieldLocations(): FieldLocation[] {
-    const stored = localStorage.getItem('fieldLocations');
-    if (stored) {
-      try {
-        this.fieldLocations = JSON.parse(stored);
-      } catch {
-        this.fieldLocations = [];
-      }
+    const weather = await cached.weather;
+    // Don't keep serving placeholder data after a failed fetch
+    if (isMockWeather(weather) && this.fieldWeatherCache.get(key) === cached) {
+      this.fieldWeatherCache.delete(key);
     }
-    return this.fieldLocations;
+    return this.adjustForMicroclimate(weather, field);
   }
 
   static async getNearbyWeatherStations(location?: LocationData): Promise<WeatherStation[]> {
@@ -404,12 +519,15 @@ export class LocationWeatherService {
 
   private static enhanceLocationWeatherData(rawData: any, location: LocationData): WeatherData {
     const gustFactor = rawData.windGust ? (rawData.windGust - rawData.windSpeed) : 0;
-    const temperatureInversion = this.detectLocationTemperatureInversion(rawData, location);
+    const inversion = WeatherService.detectTemperatureInversion(rawData, rawData.recentTemperatures);
+    const temperatureInversion = inversion.likelihood === 'likely';
 
     return {
       ...rawData,
       gustFactor,
       temperatureInversion,
+      inversion,
+      deltaT: calculateDeltaT(rawData.temperature, rawData.humidity, rawData.dewPoint),
       location,
       elevation: rawData.elevation || this.getElevationForLocation(location),
       driftRisk: this.calculateLocationDriftRisk(rawData, gustFactor, temperatureInversion, location),
@@ -417,7 +535,7 @@ export class LocationWeatherService {
     };
   }
 
-  private static adjustForMicroclimate(weather: WeatherData, field: FieldLocation): WeatherData {
+  private static adjustForMicroclimate(weather: WeatherData, field: Pick<Field, 'microclimate'>): WeatherData {
     const adjusted = { ...weather };
 
     switch (field.microclimate) {
@@ -434,6 +552,11 @@ export class LocationWeatherService {
       case 'valley':
         adjusted.windSpeed *= 0.8;
         adjusted.temperatureInversion = true;
+        adjusted.inversion = {
+          ...adjusted.inversion,
+          likelihood: 'likely',
+          reasons: [...(adjusted.inversion?.reasons || []), 'Valley field'],
+        };
         break;
 
       case 'hilltop':
@@ -449,20 +572,6 @@ export class LocationWeatherService {
     return adjusted;
   }
 
-  private static detectLocationTemperatureInversion(weather: any, location: LocationData): boolean {
-    const hour = new Date().getHours();
-    const dewPointSpread = weather.temperature - weather.dewPoint;
-
-    const isEarlyMorning = hour >= 5 && hour <= 8;
-    const isEvening = hour >= 18 && hour <= 21;
-    const lowWind = weather.windSpeed < 3;
-    const lowDewPointSpread = dewPointSpread < 5;
-
-    const highPressure = weather.pressure > 30.2;
-
-    return (isEarlyMorning || isEvening) && lowWind && (lowDewPointSpread || highPressure);
-  }
-
   private static calculateLocationDriftRisk(
     weather: any,
     gustFactor: number,
@@ -488,6 +597,8 @@ export class LocationWeatherService {
 
     if (temperatureInversion) riskScore += 3;
 
+    riskScore += deltaTRiskScore(weather);
+
     const hour = new Date().getHours();
     if (hour >= 13 && hour <= 16 && weather.temperature > 80) {
       riskScore += 1;
@@ -515,19 +626,23 @@ export class LocationWeatherService {
 
     const hour = new Date().getHours();
     const isAfternoonThermal = hour >= 13 && hour <= 16 && weather.temperature > 82;
+    const deltaTBand = getWeatherDeltaTBand(weather);
 
     if (weather.windSpeed > 10 ||
         gustFactor > 8 ||
         weather.temperature > 87 ||
         weather.humidity < 45 ||
-        isAfternoonThermal) {
+        isAfternoonThermal ||
+        deltaTBand === 'high' ||
+        deltaTBand === 'low') {
       return 'caution';
     }
 
     if (weather.windSpeed > 7 ||
         gustFactor > 5 ||
         weather.temperature > 80 ||
-        weather.humidity < 55) {
+        weather.humidity < 55 ||
+        deltaTBand === 'marginal') {
       return 'acceptable';
     }
 
@@ -564,12 +679,14 @@ export class LocationWeatherService {
       timestamp: new Date().toISOString(),
       location,
       elevation: this.getElevationForLocation(location),
-      source: 'Mock Weather Service',
+      source: MOCK_WEATHER_SOURCE,
       visibility: 8 + Math.random() * 2,
       uvIndex: Math.max(0, 6 + Math.random() * 4),
       driftRisk: 'moderate',
       sprayRecommendation: 'acceptable',
       temperatureInversion: hour >= 5 && hour <= 8 && Math.random() > 0.7,
+      inversion: { likelihood: 'unlikely', score: 0, reasons: [] },
+      deltaT: calculateDeltaT(temperature, humidity),
       gustFactor: windGust > windSpeed ? windGust - windSpeed : 0
     };
   }
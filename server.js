@@ -101,6 +101,24 @@ app.get('/api/weather/location', async (req, res) => {
             const kphToMph = (k) => k != null ? +(k * 0.621371).toFixed(1) : null;
             const paToInHg = (p) => p != null ? +(p / 3386.39).toFixed(2) : null;
 
+            // Cloud cover from the reported layers (most opaque layer wins)
+            const layerCover = { SKC: 0, CLR: 0, FEW: 20, SCT: 40, BKN: 75, OVC: 100, VV: 100 };
+            const layers = (props.cloudLayers || []).map((l) => layerCover[l.amount]).filter((v) => v != null);
+
+            // Recent observations for the temperature trend (best effort)
+            let recentTemperatures;
+            try {
+              const histRes = await axios.get(
+                `https://api.weather.gov/stations/${nwsStationId}/observations?limit=4`,
+                { timeout: 5000, headers: nwsHeaders }
+              );
+              recentTemperatures = (histRes.data?.features || [])
+                .map((f) => ({ timestamp: f.properties?.timestamp, temperature: toF(f.properties?.temperature?.value) }))
+                .filter((r) => r.timestamp && r.temperature != null);
+            } catch (histErr) {
+              console.warn('NWS observation history failed:', histErr.message);
+            }
+
             const weather = {
               temperature: toF(props.temperature?.value),
               humidity: props.relativeHumidity?.value != null
@@ -120,6 +138,8 @@ app.get('/api/weather/location', async (req, res) => {
               source: 'NWS',
               stationName: nwsStationName || undefined,
               stationId: nwsStationId || undefined,
+              cloudCover: layers.length > 0 ? Math.max(...layers) : undefined,
+              recentTemperatures,
             };
             console.log(`Weather served from NWS: ${weather.stationId}`);
             return res.json(weather);
@@ -135,11 +155,13 @@ app.get('/api/weather/location', async (req, res) => {
     try {
       const url = 'https://api.open-meteo.com/v1/forecast'
         + `?latitude=${latitude}&longitude=${longitude}`
-        + '&current=temperature_2m,relative_humidity_2m,dew_point_2m,surface_pressure,wind_speed_10m,wind_direction_10m,wind_gusts_10m'
+        + '&current=temperature_2m,relative_humidity_2m,dew_point_2m,surface_pressure,wind_speed_10m,wind_direction_10m,wind_gusts_10m,cloud_cover'
+        + '&hourly=temperature_2m&past_hours=3&forecast_hours=1&timezone=GMT'
         + '&temperature_unit=fahrenheit&wind_speed_unit=mph';
 
       const apiRes = await axios.get(url, { timeout: 8000 });
       const c = apiRes.data.current;
+      const past = apiRes.data.hourly || { time: [], temperature_2m: [] };
 
       const weather = {
         temperature: c.temperature_2m,
@@ -154,6 +176,11 @@ app.get('/api/weather/location', async (req, res) => {
           ? +(apiRes.data.elevation * 3.281).toFixed(0)
           : undefined,
         source: 'Open-Meteo',
+        cloudCover: c.cloud_cover,
+        recentTemperatures: past.time.map((t, i) => ({
+          timestamp: new Date(`${t}:00Z`).toISOString(),
+          temperature: past.temperature_2m[i],
+        })),
       };
       console.log('Weather served from Open-Meteo');
       return res.json(weather);
@@ -170,6 +197,96 @@ app.get('/api/weather/location', async (req, res) => {
   }
 });
 
+// Hourly forecast endpoint — Open-Meteo → NWS gridpoint forecast
+app.get('/api/weather/forecast', async (req, res) => {
+  const { lat, lon } = req.query;
+  if (!lat || !lon) {
+    return res.status(400).json({ error: 'Latitude and longitude required' });
+  }
+
+  const latitude = parseFloat(lat);
+  const longitude = parseFloat(lon);
+  const hours = Math.min(Math.max(parseInt(req.query.hours, 10) || 48, 1), 168);
+
+  // --- Tier 1: Open-Meteo ---
+  try {
+    const url = 'https://api.open-meteo.com/v1/forecast'
+      + `?latitude=${latitude}&longitude=${longitude}`
+      + '&hourly=temperature_2m,relative_humidity_2m,dew_point_2m,wind_speed_10m,wind_direction_10m,wind_gusts_10m,precipitation,precipitation_probability,cloud_cover'
+      + '&temperature_unit=fahrenheit&wind_speed_unit=mph&precipitation_unit=inch'
+      + `&timezone=auto&forecast_days=${Math.ceil(hours / 24) + 1}`;
+
+    const apiRes = await axios.get(url, { timeout: 8000 });
+    const h = apiRes.data.hourly;
+    const offsetMs = (apiRes.data.utc_offset_seconds || 0) * 1000;
+    const now = Date.now() - 60 * 60 * 1000;
+
+    const forecast = h.time
+      .map((t, i) => ({
+        // Open-Meteo returns local times without an offset
+        time: new Date(Date.parse(`${t}:00Z`) - offsetMs).toISOString(),
+        temperature: h.temperature_2m[i],
+        humidity: h.relative_humidity_2m[i],
+        dewPoint: h.dew_point_2m[i],
+        windSpeed: h.wind_speed_10m[i],
+        windGust: h.wind_gusts_10m[i] || undefined,
+        windDirection: degreesToCompass(h.wind_direction_10m[i]),
+        precipitation: h.precipitation[i] || 0,
+        precipitationProbability: h.precipitation_probability?.[i] ?? undefined,
+        cloudCover: h.cloud_cover?.[i] ?? undefined,
+      }))
+      .filter((hour) => Date.parse(hour.time) >= now)
+      .slice(0, hours);
+
+    if (forecast.length > 0) {
+      console.log('Forecast served from Open-Meteo');
+      return res.json({ source: 'Open-Meteo', hours: forecast });
+    }
+    console.warn('Open-Meteo: empty forecast, falling through to NWS');
+  } catch (apiErr) {
+    console.warn('Open-Meteo forecast failed, falling through to NWS:', apiErr.message);
+  }
+
+  // --- Tier 2: NWS hourly forecast (no gusts or precip amounts) ---
+  try {
+    const nwsHeaders = { 'User-Agent': 'ag-spray-calculator, contact@example.com' };
+    const pointRes = await axios.get(
+      `https://api.weather.gov/points/${latitude},${longitude}`,
+      { timeout: 5000, headers: nwsHeaders }
+    );
+    const hourlyUrl = pointRes.data?.properties?.forecastHourly;
+
+    if (hourlyUrl) {
+      const fcRes = await axios.get(hourlyUrl, { timeout: 8000, headers: nwsHeaders });
+      const periods = fcRes.data?.properties?.periods || [];
+      const toF = (c) => c != null ? +(c * 9 / 5 + 32).toFixed(1) : null;
+      // windSpeed is a string like "5 to 10 mph" — use the upper value
+      const parseMph = (text) => Math.max(0, ...(String(text || '').match(/\d+/g) || []).map(Number));
+
+      const forecast = periods.slice(0, hours).map((p) => ({
+        time: new Date(p.startTime).toISOString(),
+        temperature: p.temperatureUnit === 'C' ? toF(p.temperature) : p.temperature,
+        humidity: p.relativeHumidity?.value ?? null,
+        dewPoint: toF(p.dewpoint?.value),
+        windSpeed: parseMph(p.windSpeed),
+        windDirection: p.windDirection || 'N/A',
+        precipitation: 0,
+        precipitationProbability: p.probabilityOfPrecipitation?.value ?? undefined,
+      }));
+
+      if (forecast.length > 0) {
+        console.log('Forecast served from NWS');
+        return res.json({ source: 'NWS', hours: forecast });
+      }
+    }
+    console.warn('NWS: no hourly forecast available');
+  } catch (nwsErr) {
+    console.warn('NWS forecast failed:', nwsErr.message);
+  }
+
+  res.status(502).json({ error: 'Forecast services unavailable' });
+});
+
 // Nearby weather stations endpoint
 app.get('/api/weather/stations', async (req, res) => {
   try {
@@ -0,0 +1,10 @@
+-- Add label safety intervals to products
+-- rei_hours: restricted-entry interval (hours after application before workers may re-enter)
+-- phi_days:  pre-harvest interval (days after application before harvest)
+
+ALTER TABLE products ADD COLUMN IF NOT EXISTS rei_hours NUMERIC;
+ALTER TABLE products ADD COLUMN IF NOT EXISTS phi_days NUMERIC;
+
+-- Backfill default products (IDs match DEFAULT_PRODUCTS in storageService.ts)
+UPDATE products SET rei_hours = 4 WHERE id = 'default-roundup' AND rei_hours IS NULL;
+UPDATE products SET rei_hours = 12, phi_days = 60 WHERE id = 'default-atrazine' AND rei_hours IS NULL;
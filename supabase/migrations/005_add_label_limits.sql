@@ -0,0 +1,8 @@
+-- Add label use limits to products
+-- max_rate_per_application: highest rate allowed in a single application (product's unit / rate basis)
+-- max_seasonal_rate:        total allowed per acre per crop year (measurement units)
+-- max_applications_per_year: number of applications allowed per crop year
+
+ALTER TABLE products ADD COLUMN IF NOT EXISTS max_rate_per_application NUMERIC;
+ALTER TABLE products ADD COLUMN IF NOT EXISTS max_seasonal_rate NUMERIC;
+ALTER TABLE products ADD COLUMN IF NOT EXISTS max_applications_per_year INTEGER;
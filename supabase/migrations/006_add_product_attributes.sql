@@ -0,0 +1,19 @@
+-- Add label attributes used by the tank-mix compatibility rules
+-- category:           herbicide / fungicide / insecticide / adjuvant / fertilizer / other
+-- formulation:        label formulation code (WP, WG, SG, SC, CS, SE, EC, EW, ME, SL, SURF)
+-- active_ingredients: list of active ingredient names
+-- chemical_class:     e.g. phenoxy, triazine, strobilurin
+-- Compatibility rules themselves are stored in settings under 'compatibility_rules'.
+
+ALTER TABLE products ADD COLUMN IF NOT EXISTS category TEXT;
+ALTER TABLE products ADD COLUMN IF NOT EXISTS formulation TEXT;
+ALTER TABLE products ADD COLUMN IF NOT EXISTS active_ingredients JSONB DEFAULT '[]';
+ALTER TABLE products ADD COLUMN IF NOT EXISTS chemical_class TEXT;
+
+-- Backfill default products (IDs match DEFAULT_PRODUCTS in storageService.ts)
+UPDATE products SET category = 'herbicide', formulation = 'SL', active_ingredients = '["glyphosate"]', chemical_class = 'glycine'
+  WHERE id = 'default-roundup' AND category IS NULL;
+UPDATE products SET category = 'herbicide', formulation = 'SC', active_ingredients = '["atrazine"]', chemical_class = 'triazine'
+  WHERE id = 'default-atrazine' AND category IS NULL;
+UPDATE products SET category = 'adjuvant', formulation = 'SG', active_ingredients = '["ammonium sulfate"]', chemical_class = 'water conditioner'
+  WHERE id = 'default-ams' AND category IS NULL;
@@ -0,0 +1,9 @@
+-- Mixing order is now derived from formulation (APPLES/WALES order) with an
+-- optional per-product step override; the numeric mixing_order is no longer written.
+-- mixing_step: water_conditioner / packets / dry / flowable / emulsion / solution / surfactant / drift_retardant
+
+ALTER TABLE products ADD COLUMN IF NOT EXISTS mixing_step TEXT;
+ALTER TABLE products ALTER COLUMN mixing_order DROP NOT NULL;
+
+-- AMS is loaded first as a water conditioner
+UPDATE products SET formulation = 'WC' WHERE id = 'default-ams' AND formulation = 'SG';
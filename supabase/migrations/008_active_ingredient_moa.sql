@@ -0,0 +1,14 @@
+-- Active ingredients now carry concentration and resistance-management (MOA) group:
+--   [{ "name": "glyphosate", "concentration": 4.5, "concentrationUnit": "lb_per_gal",
+--      "moaSystem": "HRAC", "moaGroup": "9" }]
+-- Spray record products snapshot their groups as "moaGroups": ["HRAC 9"] inside the products JSONB.
+-- MOA repeat threshold is stored in settings under 'moa_settings'.
+
+UPDATE products SET active_ingredients =
+  '[{"name": "glyphosate", "concentration": 4.5, "concentrationUnit": "lb_per_gal", "moaSystem": "HRAC", "moaGroup": "9"}]'
+  WHERE id = 'default-roundup';
+UPDATE products SET active_ingredients =
+  '[{"name": "atrazine", "concentration": 4, "concentrationUnit": "lb_per_gal", "moaSystem": "HRAC", "moaGroup": "5"}]'
+  WHERE id = 'default-atrazine';
+UPDATE products SET active_ingredients = '[{"name": "ammonium sulfate"}]'
+  WHERE id = 'default-ams';
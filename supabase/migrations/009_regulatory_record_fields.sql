@@ -0,0 +1,19 @@
+-- Fields required for restricted-use pesticide application records
+-- epa_reg_number / restricted_use: label registration and RUP classification
+-- certification_number / certification_expires: applicator certification
+-- start_time / end_time: application time window ("HH:MM")
+-- applicator_certification: certification number snapshot on the record
+
+ALTER TABLE products ADD COLUMN IF NOT EXISTS epa_reg_number TEXT;
+ALTER TABLE products ADD COLUMN IF NOT EXISTS restricted_use BOOLEAN DEFAULT FALSE;
+
+ALTER TABLE applicators ADD COLUMN IF NOT EXISTS certification_number TEXT;
+ALTER TABLE applicators ADD COLUMN IF NOT EXISTS certification_expires TEXT;
+
+ALTER TABLE spray_records ADD COLUMN IF NOT EXISTS start_time TEXT;
+ALTER TABLE spray_records ADD COLUMN IF NOT EXISTS end_time TEXT;
+ALTER TABLE spray_records ADD COLUMN IF NOT EXISTS applicator_certification TEXT;
+
+-- Backfill default products (IDs match DEFAULT_PRODUCTS in storageService.ts)
+UPDATE products SET epa_reg_number = '524-549' WHERE id = 'default-roundup' AND epa_reg_number IS NULL;
+UPDATE products SET restricted_use = TRUE WHERE id = 'default-atrazine';
@@ -0,0 +1,25 @@
+-- Product inventory ledger: receipts, transfers, adjustments and
+-- applications deducted from spray records. On-hand = SUM(quantity).
+-- quantity is signed and stored in the product's base unit (gal or lbs).
+CREATE TABLE IF NOT EXISTS inventory_transactions (
+  id TEXT PRIMARY KEY,
+  product_id TEXT NOT NULL,
+  date TEXT NOT NULL,
+  type TEXT NOT NULL,
+  quantity NUMERIC NOT NULL,
+  record_id TEXT,
+  location TEXT,
+  notes TEXT,
+  created_at TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS inventory_transactions_product_idx ON inventory_transactions (product_id);
+CREATE INDEX IF NOT EXISTS inventory_transactions_record_idx ON inventory_transactions (record_id);
+
+-- Enable RLS (same pattern as other tables)
+ALTER TABLE inventory_transactions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow anonymous select" ON inventory_transactions FOR SELECT USING (true);
+CREATE POLICY "Allow anonymous insert" ON inventory_transactions FOR INSERT WITH CHECK (true);
+CREATE POLICY "Allow anonymous update" ON inventory_transactions FOR UPDATE USING (true);
+CREATE POLICY "Allow anonymous delete" ON inventory_transactions FOR DELETE USING (true);
@@ -0,0 +1,20 @@
+-- Planned spray jobs (fields + product mix) used to roll up purchase needs
+CREATE TABLE IF NOT EXISTS planned_jobs (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  fields JSONB NOT NULL DEFAULT '[]',
+  acres NUMERIC NOT NULL DEFAULT 0,
+  carrier_rate NUMERIC NOT NULL,
+  tank_size NUMERIC NOT NULL,
+  products JSONB NOT NULL DEFAULT '[]',
+  notes TEXT,
+  created_at TEXT NOT NULL
+);
+
+-- Enable RLS (same pattern as other tables)
+ALTER TABLE planned_jobs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow anonymous select" ON planned_jobs FOR SELECT USING (true);
+CREATE POLICY "Allow anonymous insert" ON planned_jobs FOR INSERT WITH CHECK (true);
+CREATE POLICY "Allow anonymous update" ON planned_jobs FOR UPDATE USING (true);
+CREATE POLICY "Allow anonymous delete" ON planned_jobs FOR DELETE USING (true);
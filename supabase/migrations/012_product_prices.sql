@@ -0,0 +1,7 @@
+-- Product cost tracking
+-- unit_price: current $ per base unit (gal or lbs)
+-- price_history: [{ "price": 5.25, "effectiveDate": "2025-03-01" }], oldest first
+-- Spray record products snapshot "unitPrice" inside the products JSONB.
+
+ALTER TABLE products ADD COLUMN IF NOT EXISTS unit_price NUMERIC;
+ALTER TABLE products ADD COLUMN IF NOT EXISTS price_history JSONB DEFAULT '[]'::jsonb;
@@ -0,0 +1,11 @@
+-- Planned jobs become work orders: target date window, assigned applicator,
+-- priority and completion status. Completed jobs link to their spray record.
+
+ALTER TABLE planned_jobs ADD COLUMN IF NOT EXISTS start_date TEXT;
+ALTER TABLE planned_jobs ADD COLUMN IF NOT EXISTS end_date TEXT;
+ALTER TABLE planned_jobs ADD COLUMN IF NOT EXISTS applicator_id TEXT;
+ALTER TABLE planned_jobs ADD COLUMN IF NOT EXISTS applicator_name TEXT;
+ALTER TABLE planned_jobs ADD COLUMN IF NOT EXISTS priority TEXT DEFAULT 'normal';
+ALTER TABLE planned_jobs ADD COLUMN IF NOT EXISTS status TEXT DEFAULT 'planned';
+ALTER TABLE planned_jobs ADD COLUMN IF NOT EXISTS record_id TEXT;
+ALTER TABLE planned_jobs ADD COLUMN IF NOT EXISTS completed_at TEXT;
@@ -0,0 +1,17 @@
+-- Saved tank-mix recipes: carrier rate plus products and rates
+-- products: [{ "productId": "default-roundup", "productName": "Roundup PowerMAX", "rate": 32 }]
+CREATE TABLE IF NOT EXISTS tank_mix_recipes (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  carrier_rate NUMERIC NOT NULL,
+  products JSONB NOT NULL DEFAULT '[]',
+  created_at TEXT NOT NULL
+);
+
+-- Enable RLS (same pattern as other tables)
+ALTER TABLE tank_mix_recipes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow anonymous select" ON tank_mix_recipes FOR SELECT USING (true);
+CREATE POLICY "Allow anonymous insert" ON tank_mix_recipes FOR INSERT WITH CHECK (true);
+CREATE POLICY "Allow anonymous update" ON tank_mix_recipes FOR UPDATE USING (true);
+CREATE POLICY "Allow anonymous delete" ON tank_mix_recipes FOR DELETE USING (true);
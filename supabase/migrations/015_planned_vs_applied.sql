@@ -0,0 +1,10 @@
+-- Planned vs. applied: records saved from the calculator or a job keep the
+-- calculated mix, alongside measured spray volume and tank leftover.
+-- planned: { "acres": 160, "carrierRate": 15, "totalVolume": 2400,
+--            "products": [{ "productName": "...", "rate": 32, "unit": "fl oz / acre",
+--                           "rateBasis": "per_acre", "totalAmount": 40 }] }
+-- Variance flag threshold is stored in settings under 'variance_settings'.
+
+ALTER TABLE spray_records ADD COLUMN IF NOT EXISTS planned JSONB;
+ALTER TABLE spray_records ADD COLUMN IF NOT EXISTS actual_volume NUMERIC;
+ALTER TABLE spray_records ADD COLUMN IF NOT EXISTS leftover_volume NUMERIC;
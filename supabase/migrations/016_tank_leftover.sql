@@ -0,0 +1,9 @@
+-- Leftover spray mix and rinsate recorded after the last load, for disposal
+-- records.
+-- leftover: { "gallons": 40, "rinseGallons": 30, "disposition": "apply_to_field",
+--             "fieldId": "...", "fieldName": "North 80", "acres": 2.7,
+--             "products": [{ "productName": "...", "amount": 0.53, "unit": "gal" }],
+--             "notes": "..." }
+-- disposition: 'apply_to_field' | 'adjust_final_load' | 'disposed'
+
+ALTER TABLE spray_records ADD COLUMN IF NOT EXISTS leftover JSONB;
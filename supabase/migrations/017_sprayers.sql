@@ -0,0 +1,27 @@
+-- Sprayer equipment profiles, replacing the tank size / carrier rate presets
+-- (saved tank presets are converted to profiles by 022).
+CREATE TABLE IF NOT EXISTS sprayers (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  tank_size NUMERIC NOT NULL,
+  boom_width NUMERIC NOT NULL DEFAULT 0,
+  nozzle_type TEXT NOT NULL DEFAULT '',
+  nozzle_count INTEGER NOT NULL DEFAULT 0,
+  pressure NUMERIC NOT NULL DEFAULT 0,
+  calibrated_gpa NUMERIC NOT NULL DEFAULT 0,
+  notes TEXT,
+  created_at TEXT NOT NULL
+);
+
+-- Enable RLS (same pattern as other tables)
+ALTER TABLE sprayers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow anonymous select" ON sprayers FOR SELECT USING (true);
+CREATE POLICY "Allow anonymous insert" ON sprayers FOR INSERT WITH CHECK (true);
+CREATE POLICY "Allow anonymous update" ON sprayers FOR UPDATE USING (true);
+CREATE POLICY "Allow anonymous delete" ON sprayers FOR DELETE USING (true);
+
+-- Sprayer setup copied onto each record:
+-- { "id": "...", "name": "Patriot 1000", "tankSize": 1000, "boomWidth": 90,
+--   "nozzleType": "AIXR 11004", "nozzleCount": 36, "pressure": 40, "calibratedGpa": 15 }
+ALTER TABLE spray_records ADD COLUMN IF NOT EXISTS sprayer JSONB;
@@ -0,0 +1,5 @@
+-- Sprayer calibration: nozzle spacing and the speed / date of the last catch
+-- test, alongside the calibrated GPA.
+ALTER TABLE sprayers ADD COLUMN IF NOT EXISTS nozzle_spacing NUMERIC;
+ALTER TABLE sprayers ADD COLUMN IF NOT EXISTS calibration_speed NUMERIC;
+ALTER TABLE sprayers ADD COLUMN IF NOT EXISTS calibrated_at TEXT;
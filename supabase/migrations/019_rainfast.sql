@@ -0,0 +1,7 @@
+-- Add rainfast interval to products
+-- rainfast_hours: rain-free time needed after application for the product to work
+
+ALTER TABLE products ADD COLUMN IF NOT EXISTS rainfast_hours NUMERIC;
+
+-- Backfill default products (IDs match DEFAULT_PRODUCTS in storageService.ts)
+UPDATE products SET rainfast_hours = 0.5 WHERE id = 'default-roundup' AND rainfast_hours IS NULL;
@@ -0,0 +1,20 @@
+-- Sensitive sites (organic fields, apiaries, water bodies, residences) shown
+-- on the map and checked against the wind for drift buffers.
+-- Buffer distance lives in settings under key 'buffer_settings':
+-- { "distanceFeet": 500 }
+CREATE TABLE IF NOT EXISTS sensitive_sites (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  type TEXT NOT NULL,
+  latitude NUMERIC NOT NULL,
+  longitude NUMERIC NOT NULL,
+  notes TEXT
+);
+
+-- Enable RLS (same pattern as other tables)
+ALTER TABLE sensitive_sites ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow anonymous select" ON sensitive_sites FOR SELECT USING (true);
+CREATE POLICY "Allow anonymous insert" ON sensitive_sites FOR INSERT WITH CHECK (true);
+CREATE POLICY "Allow anonymous update" ON sensitive_sites FOR UPDATE USING (true);
+CREATE POLICY "Allow anonymous delete" ON sensitive_sites FOR DELETE USING (true);
@@ -0,0 +1,8 @@
+-- Weather observations polled while a spray job was in progress, for audit.
+-- weather_log: [{ "timestamp": "2025-05-12T14:05:00.000Z", "temperature": 72,
+--                 "humidity": 55, "windSpeed": 6.2, "windGust": 11,
+--                 "windDirection": "SW", "driftRisk": "moderate",
+--                 "sprayRecommendation": "acceptable", "source": "NWS" }, ...]
+-- The existing weather column keeps the first observation as the snapshot.
+
+ALTER TABLE spray_records ADD COLUMN IF NOT EXISTS weather_log JSONB;
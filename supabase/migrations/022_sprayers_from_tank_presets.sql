@@ -0,0 +1,16 @@
+-- Seed sprayer profiles from tank size presets saved before sprayer profiles
+-- replaced them: one "<size> gal tank" profile per preset, with IDs matching
+-- the client-side conversion in storageService.ts. Untouched default presets
+-- are skipped. Carrier rate presets have no sprayer to belong to and are
+-- dropped; the carrier rate now comes from each sprayer's calibration.
+INSERT INTO sprayers (id, name, tank_size, created_at)
+SELECT
+  'sprayer-tank-' || preset,
+  preset || ' gal tank',
+  preset::NUMERIC,
+  to_char(now() AT TIME ZONE 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS.MS"Z"')
+FROM settings, jsonb_array_elements_text(value) AS preset
+WHERE key = 'tank_presets' AND value <> '[200, 300, 500, 750, 1000]'::JSONB
+ON CONFLICT (id) DO NOTHING;
+
+DELETE FROM settings WHERE key IN ('tank_presets', 'carrier_presets');